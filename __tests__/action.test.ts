@@ -9,49 +9,17 @@
 import { describe, it, expect } from 'vitest';
 
 import { executeAction, buildSummaryMarkdown } from '../src/action.js';
-import type { ActionConfig, EventContext } from '../src/types.js';
+import { parseAuthorizationPolicy } from '../src/authorization.js';
+import { findMarkers } from '../src/markers.js';
+import type { IssueCommentsArray } from '../src/types.js';
 
-import { createMockOctokit } from './helpers/octokit.mock.js';
+import { createConfig, createEventContext } from './helpers/fixtures.js';
+import { createMockOctokit, type MockedOctokit } from './helpers/octokit.mock.js';
 
 // =============================================================================
 // Test Utilities
 // =============================================================================
 
-/**
- * Creates a default config for tests.
- */
-function createConfig(overrides: Partial<ActionConfig> = {}): ActionConfig {
-  return {
-    releaseBranchPrefix: 'release/',
-    developBranch: 'develop',
-    syncBranchPrefix: 'fix/sync/',
-    mergeableRetryCount: 5,
-    mergeableRetryInterval: 10,
-    ...overrides,
-  };
-}
-
-/**
- * Creates a default event context for tests.
- */
-function createEventContext(overrides: Partial<EventContext> = {}): EventContext {
-  return {
-    owner: 'testowner',
-    repo: 'testrepo',
-    prNumber: 1,
-    commentId: 123,
-    commentBody: '/nylbot merge',
-    actor: 'testactor',
-    userType: 'User',
-    authorAssociation: 'MEMBER',
-    serverUrl: 'https://github.com',
-    runId: 12345,
-    eventName: 'issue_comment',
-    isPullRequest: true,
-    ...overrides,
-  };
-}
-
 /**
  * Creates a mock PR with specific mergeable_state for testing non-clean states.
  */
@@ -77,6 +45,7 @@ function createPRWithMergeableState(
     },
     user: { login: 'testuser' },
     title: 'feat: test pull request',
+    node_id: 'PR_node1',
   };
 }
 
@@ -93,6 +62,179 @@ describe('executeAction', () => {
       expect(result.message).toContain('issue_comment');
     });
 
+    it('routes auto-merge trigger events to the auto-merge handler', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ eventName: 'check_suite', eventSha: 'abc123', commentBody: '' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result).toEqual({ status: 'skipped', message: 'No queued auto-merge requests for this event' });
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+    });
+
+    it('also processes the merge queues when the merge queue is enabled', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ eventName: 'check_suite', eventSha: 'abc123', commentBody: '' });
+
+      const result = await executeAction(octokit, context, createConfig({ mergeQueue: true }));
+
+      expect(result).toEqual({
+        status: 'skipped',
+        message: 'No queued auto-merge requests for this event; Merge queue is empty',
+      });
+    });
+
+    it('also runs scheduled backports on pull_request events', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ eventName: 'pull_request', commentBody: '' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result).toEqual({
+        status: 'skipped',
+        message: 'No queued auto-merge requests for this event; No backports to run before the merge',
+      });
+    });
+
+    it('merges the PR when the merge label is added', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        eventName: 'pull_request',
+        eventAction: 'labeled',
+        comment: null,
+        commentBody: '',
+        label: 'nylbot:merge',
+      });
+
+      const result = await executeAction(octokit, context, createConfig({ mergeLabel: 'nylbot:merge' }));
+
+      expect(result.status).toBe('failed');
+      expect(octokit.rest.issues.removeLabel).toHaveBeenCalledWith(expect.objectContaining({ name: 'nylbot:merge' }));
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+    });
+
+    it('still re-evaluates auto-merge requests when the merge label is added', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        eventName: 'pull_request',
+        eventAction: 'labeled',
+        comment: null,
+        commentBody: '',
+        label: 'nylbot:merge',
+      });
+
+      await executeAction(octokit, context, createConfig({ mergeLabel: 'nylbot:merge' }));
+
+      expect(octokit.paginate).toHaveBeenCalledWith(
+        octokit.rest.issues.listForRepo,
+        expect.objectContaining({ labels: 'nylbot:auto-merge' }),
+      );
+    });
+
+    it('treats other labels as auto-merge triggers', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        eventName: 'pull_request',
+        eventAction: 'labeled',
+        comment: null,
+        commentBody: '',
+        label: 'bug',
+      });
+
+      const result = await executeAction(octokit, context, createConfig({ mergeLabel: 'nylbot:merge' }));
+
+      expect(result.message).toContain('No queued auto-merge requests for this event');
+      expect(octokit.rest.issues.removeLabel).not.toHaveBeenCalled();
+    });
+
+    it('ignores the merge label when merge-label is not set', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        eventName: 'pull_request',
+        eventAction: 'labeled',
+        comment: null,
+        commentBody: '',
+        label: 'nylbot:merge',
+      });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.message).toContain('No queued auto-merge requests for this event');
+      expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    });
+
+    it('re-evaluates auto-merge requests on reviews without a command', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        eventName: 'pull_request_review',
+        eventAction: 'submitted',
+        comment: { kind: 'review', id: 55, nodeId: 'PRR_node55' },
+        commentBody: 'LGTM',
+      });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result).toEqual({ status: 'skipped', message: 'No queued auto-merge requests for this event' });
+    });
+
+    it('runs workflow_dispatch merges without reacting or checking the author association', async () => {
+      const octokit = createMockOctokit();
+      octokit.paginate.mockResolvedValue([
+        { id: 1, state: 'APPROVED', commit_id: 'abc1234567890', user: { login: 'reviewer' } },
+      ]);
+      const context = createEventContext({
+        eventName: 'workflow_dispatch',
+        eventAction: null,
+        comment: null,
+        commentBody: '/nylbot merge --merge',
+        authorAssociation: 'NONE',
+      });
+
+      const result = await executeAction(octokit, context, createConfig({ methodOverridePermission: 'write' }));
+
+      expect(result.status).toBe('merged');
+      expect(octokit.rest.pulls.merge).toHaveBeenCalledWith(expect.objectContaining({ merge_method: 'merge' }));
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+      expect(octokit.graphql).not.toHaveBeenCalledWith(expect.stringContaining('addReaction'), expect.anything());
+    });
+
+    it('checks the permission of the actor who dispatched the workflow', async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValue({
+        data: { permission: 'read' },
+      } as Awaited<ReturnType<typeof octokit.rest.repos.getCollaboratorPermissionLevel>>);
+      const context = createEventContext({
+        eventName: 'workflow_dispatch',
+        eventAction: null,
+        comment: null,
+        actor: 'reader',
+      });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result).toEqual({ status: 'failed', message: 'Insufficient permissions' });
+      expect(octokit.rest.repos.getCollaboratorPermissionLevel).toHaveBeenCalledWith(
+        expect.objectContaining({ username: 'reader' }),
+      );
+      expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    });
+
+    it('links the workflow run when dispatched merge flags are invalid', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        eventName: 'workflow_dispatch',
+        eventAction: null,
+        comment: null,
+        commentBody: '/nylbot merge --sqash',
+      });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.status).toBe('skipped');
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('Workflow run: https://github.com/testowner/testrepo/actions/runs/12345');
+    });
+
     it('skips processing for issue comments (not PR comments)', async () => {
       const octokit = createMockOctokit();
       const context = createEventContext({ isPullRequest: false });
@@ -130,6 +272,186 @@ describe('executeAction', () => {
       expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
     });
 
+    it('runs a command on a later line of the comment', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ commentBody: 'LGTM, thanks!\n/nylbot status' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.message).toContain('Status reported');
+    });
+
+    it('ignores commands in quoted replies and code', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ commentBody: '> /nylbot merge\n\nWhy `/nylbot merge` already?' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result).toEqual({ status: 'skipped', message: 'Command not matched' });
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+    });
+
+    it('runs a command from a review body and reacts to the review', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        eventName: 'pull_request_review',
+        eventAction: 'submitted',
+        comment: { kind: 'review', id: 55, nodeId: 'PRR_node55' },
+        commentBody: 'Looks good!\n/nylbot status',
+      });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.message).toContain('Status reported');
+      expect(octokit.graphql).toHaveBeenCalledWith(expect.stringContaining('addReaction'), {
+        id: 'PRR_node55',
+        content: 'EYES',
+      });
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+    });
+
+    it('counts the approval of the review that carried the merge command', async () => {
+      const octokit = createMockOctokit();
+      octokit.paginate.mockResolvedValue([]);
+      const context = createEventContext({
+        eventName: 'pull_request_review',
+        eventAction: 'submitted',
+        actor: 'reviewer',
+        comment: { kind: 'review', id: 55, nodeId: 'PRR_node55' },
+        commentBody: '/nylbot merge',
+        review: { id: 55, state: 'APPROVED', commit_id: 'abc1234567890', user: { login: 'reviewer' } },
+      });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.status).toBe('merged');
+      expect(octokit.rest.pulls.merge).toHaveBeenCalled();
+    });
+
+    it('replies in the thread of a review comment with an invalid command', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        eventName: 'pull_request_review_comment',
+        comment: { kind: 'review_comment', id: 66, nodeId: 'PRRC_node66' },
+        commentBody: '/nylbot mrege',
+      });
+
+      await executeAction(octokit, context, createConfig());
+
+      expect(octokit.rest.reactions.createForPullRequestReviewComment).toHaveBeenCalledWith(
+        expect.objectContaining({ comment_id: 66, content: 'eyes' }),
+      );
+      const reply = octokit.rest.pulls.createReplyForReviewComment.mock.calls[0]?.[0];
+      expect(reply?.comment_id).toBe(66);
+      expect(reply?.body).toContain('https://github.com/testowner/testrepo/pull/1#discussion_r66');
+      expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+
+    it('replies to a command in a review comment in its thread', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        eventName: 'pull_request_review_comment',
+        comment: { kind: 'review_comment', id: 66, nodeId: 'PRRC_node66' },
+        commentBody: '/nylbot merge',
+      });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result).toEqual({ status: 'failed', message: 'Merge checks failed' });
+      const reply = octokit.rest.pulls.createReplyForReviewComment.mock.calls[0]?.[0];
+      expect(reply?.comment_id).toBe(66);
+      expect(reply?.body).toContain('## Merge checks failed');
+      expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+
+    it('keeps comments holding a marker in the PR conversation', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        eventName: 'pull_request_review_comment',
+        comment: { kind: 'review_comment', id: 66, nodeId: 'PRRC_node66' },
+        commentBody: '/nylbot auto-merge',
+      });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result).toEqual({ status: 'skipped', message: 'Auto-merge enabled' });
+      expect(octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body).toContain('<!-- nylbot:auto-merge ');
+      expect(octokit.rest.pulls.createReplyForReviewComment).not.toHaveBeenCalled();
+    });
+
+    it('skips deleted comments', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ eventAction: 'deleted' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result).toEqual({ status: 'skipped', message: 'Comment was deleted, skipping' });
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+    });
+
+    it('ignores edits that keep the same command', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        eventAction: 'edited',
+        commentBody: 'LGTM, thanks!\n/nylbot merge',
+        previousCommentBody: 'LGTM, thansk!\n/nylbot merge',
+      });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result).toEqual({ status: 'skipped', message: 'Edit did not add a command' });
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+      expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    });
+
+    it('ignores edits that did not change the body', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ eventAction: 'edited', previousCommentBody: null });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result).toEqual({ status: 'skipped', message: 'Edit did not add a command' });
+    });
+
+    it('runs a command added by an edit', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        eventAction: 'edited',
+        commentBody: 'LGTM, thanks!\n/nylbot status',
+        previousCommentBody: 'LGTM, thanks!',
+      });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.message).toContain('Status reported');
+    });
+
+    it('runs a command changed by an edit', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        eventAction: 'edited',
+        commentBody: '/nylbot status',
+        previousCommentBody: '/nylbot stauts',
+      });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.message).toContain('Status reported');
+    });
+
+    it('runs a command that an edit moved out of a quote', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        eventAction: 'edited',
+        commentBody: '/nylbot status',
+        previousCommentBody: '> /nylbot status',
+      });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.message).toContain('Status reported');
+    });
+
     it('does not react or comment for non-bot-mention text', async () => {
       const octokit = createMockOctokit();
       const context = createEventContext({ commentBody: 'Just a regular comment' });
@@ -146,8 +468,8 @@ describe('executeAction', () => {
     it('adds eyes reaction and posts invalid-command comment when bot trigger matches but command is invalid', async () => {
       const octokit = createMockOctokit();
       const context = createEventContext({
-        commentBody: '/nylbot merge now',
-        commentId: 999,
+        commentBody: '/nylbot merge-now',
+        comment: { kind: 'issue_comment', id: 999, nodeId: 'IC_node999' },
         prNumber: 42,
         serverUrl: 'https://github.com',
       });
@@ -173,11 +495,11 @@ describe('executeAction', () => {
       expect(commentBody).toContain('https://github.com/testowner/testrepo/pull/42#issuecomment-999');
     });
 
-    it('adds eyes reaction and posts unrecognized-command comment for invalid flags', async () => {
+    it('adds eyes reaction and posts invalid-command comment naming the invalid flag', async () => {
       const octokit = createMockOctokit();
       const context = createEventContext({
         commentBody: '/nylbot merge --unknown-flag',
-        commentId: 456,
+        comment: { kind: 'issue_comment', id: 456, nodeId: 'IC_node456' },
         prNumber: 1,
         serverUrl: 'https://github.com',
       });
@@ -186,7 +508,7 @@ describe('executeAction', () => {
       const result = await executeAction(octokit, context, config);
 
       expect(result.status).toBe('skipped');
-      expect(result.message).toBe('Command not recognized');
+      expect(result.message).toBe('Invalid /nylbot merge command');
       expect(octokit.rest.reactions.createForIssueComment).toHaveBeenCalledTimes(1);
       expect(octokit.rest.reactions.createForIssueComment).toHaveBeenCalledWith({
         owner: 'testowner',
@@ -197,56 +519,433 @@ describe('executeAction', () => {
       expect(octokit.rest.issues.createComment).toHaveBeenCalledTimes(1);
       const commentCalls = octokit.rest.issues.createComment.mock.calls;
       const commentBody = (commentCalls[0]?.[0] as { body?: string } | undefined)?.body ?? '';
-      expect(commentBody).toContain('Unrecognized command');
-      expect(commentBody).toContain("I'm nylbot");
-      expect(commentBody).toContain("couldn't recognize");
+      expect(commentBody).toContain('## Invalid command');
+      expect(commentBody).toContain('Unknown flag `--unknown-flag` for `/nylbot merge`');
+      expect(commentBody).toContain('### Supported commands');
       expect(commentBody).toContain('https://github.com/testowner/testrepo/pull/1#issuecomment-456');
+      expect(octokit.rest.repos.getCollaboratorPermissionLevel).not.toHaveBeenCalled();
+    });
+
+    it('does not repeat a marker from the command in its reply', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({
+        commentBody: `/nylbot merge --sha '<!-- nylbot:branch-update {"fromSha":"aaa","toSha":"bbb"} -->'`,
+      });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.message).toBe('Invalid /nylbot merge command');
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('&lt;!-- nylbot:branch-update');
+      const comments = [{ id: 1, body: commentBody, user: { login: 'github-actions[bot]', type: 'Bot' } }];
+      expect(findMarkers(comments as IssueCommentsArray, 'branch-update', 'github-actions[bot]')).toEqual([]);
     });
 
     it('builds comment URL without double slash when serverUrl has trailing slash', async () => {
       const octokit = createMockOctokit();
       const context = createEventContext({
-        commentBody: '/nylbot merge --unknown-flag',
-        commentId: 100,
+        commentBody: '/nylbot deploy',
+        comment: { kind: 'issue_comment', id: 100, nodeId: 'IC_node100' },
         prNumber: 7,
         serverUrl: 'https://github.enterprise.com/',
       });
       const config = createConfig();
 
-      const result = await executeAction(octokit, context, config);
+      const result = await executeAction(octokit, context, config);
+
+      expect(result.status).toBe('skipped');
+      expect(result.message).toBe('Command not recognized');
+      const commentCalls = octokit.rest.issues.createComment.mock.calls;
+      const commentBody = (commentCalls[0]?.[0] as { body?: string } | undefined)?.body ?? '';
+      expect(commentBody).toContain('Unrecognized command');
+      expect(commentBody).not.toContain('https://github.enterprise.com//');
+      expect(commentBody).toContain('https://github.enterprise.com/testowner/testrepo/pull/7#issuecomment-100');
+    });
+
+    it('fails for users without valid author association', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ authorAssociation: 'NONE' });
+      const config = createConfig();
+
+      const result = await executeAction(octokit, context, config);
+
+      expect(result.status).toBe('failed');
+      expect(result.message).toContain('author association');
+    });
+
+    it('fails for users without write permission', async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValue({
+        data: { permission: 'read' },
+      } as Awaited<ReturnType<typeof octokit.rest.repos.getCollaboratorPermissionLevel>>);
+      const context = createEventContext();
+      const config = createConfig();
+
+      const result = await executeAction(octokit, context, config);
+
+      expect(result.status).toBe('failed');
+      expect(result.message).toContain('permissions');
+    });
+  });
+
+  describe('merge method override', () => {
+    it('denies --squash when the actor is below method-override-permission', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ commentBody: '/nylbot merge --squash' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result).toEqual({ status: 'failed', message: 'Insufficient permissions for merge method override' });
+      expect(octokit.rest.pulls.get).not.toHaveBeenCalled();
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('at least **maintain** permission');
+      expect(commentBody).toContain('`--squash`');
+    });
+
+    it('squash merges a PR the branch rules would merge-commit and records the override', async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValue({
+        data: { permission: 'write', role_name: 'maintain' },
+      } as Awaited<ReturnType<typeof octokit.rest.repos.getCollaboratorPermissionLevel>>);
+      octokit.rest.pulls.get.mockResolvedValue({
+        data: {
+          state: 'open',
+          locked: false,
+          draft: false,
+          merged: false,
+          mergeable: true,
+          mergeable_state: 'clean',
+          head: { sha: 'abc123', ref: 'feature/test', repo: { fork: false, owner: { id: 1 } } },
+          base: { ref: 'main', repo: { owner: { id: 1 } } },
+          user: { login: 'author' },
+          title: 'feat: test feature',
+        },
+      } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+      octokit.graphql.mockResolvedValue({
+        repository: {
+          pullRequest: { reviewThreads: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [] } },
+        },
+      });
+      octokit.paginate.mockResolvedValueOnce([
+        { id: 1, user: { login: 'reviewer' }, state: 'APPROVED', commit_id: 'abc123' },
+      ]);
+      octokit.rest.pulls.merge.mockResolvedValue({
+        data: { sha: 'merge-sha' },
+      } as Awaited<ReturnType<typeof octokit.rest.pulls.merge>>);
+      const context = createEventContext({ commentBody: '/nylbot merge --squash' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result).toEqual({ status: 'merged', message: 'PR merged successfully', mergeMethod: 'squash' });
+      const mergeCall = octokit.rest.pulls.merge.mock.calls[0]?.[0];
+      expect(mergeCall?.merge_method).toBe('squash');
+      expect(mergeCall?.commit_message).toContain(
+        'Merge-method-override: squash (branch rules selected merge; requested via --squash)',
+      );
+      const comments = octokit.rest.issues.createComment.mock.calls.map((c) => c[0]?.body ?? '');
+      expect(comments.some((c) => c.includes('Overridden by `--squash`'))).toBe(true);
+    });
+  });
+
+  describe('authorization policy', () => {
+    it('denies a merge that a policy rule requires a higher permission for, quoting the rule', async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.pulls.get.mockResolvedValue({
+        data: {
+          state: 'open',
+          head: { sha: 'abc123', ref: 'feature/test', repo: { fork: false, owner: { id: 1 } } },
+          base: { ref: 'main', repo: { owner: { id: 1 } } },
+        },
+      } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+      const context = createEventContext({ commentBody: '/nylbot merge' });
+
+      const result = await executeAction(
+        octokit,
+        context,
+        createConfig({ authorizationPolicy: parseAuthorizationPolicy('merge into main: maintain') }),
+      );
+
+      expect(result).toEqual({
+        status: 'failed',
+        message: 'Denied by authorization policy rule "merge into main: maintain"',
+      });
+      expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('at least **maintain** permission');
+      expect(commentBody).toContain('Authorization policy rule: `merge into main: maintain`');
+      expect(commentBody).toContain('Your permission level: `write`');
+    });
+
+    it('denies users outside the team named by a policy rule', async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.teams.getMembershipForUserInOrg.mockRejectedValue(
+        Object.assign(new Error('Not Found'), { status: 404 }),
+      );
+      const context = createEventContext({ commentBody: '/nylbot merge' });
+
+      const result = await executeAction(
+        octokit,
+        context,
+        createConfig({ authorizationPolicy: parseAuthorizationPolicy('merge: @acme/release-managers') }),
+      );
+
+      expect(result).toEqual({
+        status: 'failed',
+        message: 'Denied by authorization policy rule "merge: @acme/release-managers"',
+      });
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('Only members of the `@acme/release-managers` team can use the `/nylbot merge`');
+    });
+
+    it('explains that the token needs read:org when the team cannot be read', async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.teams.getMembershipForUserInOrg.mockRejectedValue(
+        Object.assign(new Error('Resource not accessible by integration'), { status: 403 }),
+      );
+      const context = createEventContext({ commentBody: '/nylbot merge' });
+
+      const result = await executeAction(
+        octokit,
+        context,
+        createConfig({ authorizationPolicy: parseAuthorizationPolicy('merge: @acme/release-managers') }),
+      );
+
+      expect(result).toEqual({
+        status: 'failed',
+        message: 'Could not read the members of @acme/release-managers: Resource not accessible by integration',
+      });
+      expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('## Authorization check failed');
+      expect(commentBody).toContain('`read:org` scope');
+      expect(commentBody).toContain('**Error:** Resource not accessible by integration');
+    });
+
+    it('applies the merge rules to an auto-merge request', async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.pulls.get.mockResolvedValue({
+        data: {
+          state: 'open',
+          head: { sha: 'abc123', ref: 'feature/test', repo: { fork: false, owner: { id: 1 } } },
+          base: { ref: 'main', repo: { owner: { id: 1 } } },
+        },
+      } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+      const context = createEventContext({ commentBody: '/nylbot auto-merge' });
+
+      const result = await executeAction(
+        octokit,
+        context,
+        createConfig({ authorizationPolicy: parseAuthorizationPolicy('merge into main: maintain') }),
+      );
+
+      expect(result).toEqual({
+        status: 'failed',
+        message: 'Denied by authorization policy rule "merge into main: maintain"',
+      });
+      expect(octokit.rest.issues.addLabels).not.toHaveBeenCalled();
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('to use the `/nylbot auto-merge` command on this PR');
+    });
+
+    it('runs commands that no policy rule matches', async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.pulls.updateBranch.mockRejectedValue(new Error('merge conflict between base and head'));
+      const context = createEventContext({ commentBody: '/nylbot update-branch' });
+
+      const result = await executeAction(
+        octokit,
+        context,
+        createConfig({ authorizationPolicy: parseAuthorizationPolicy('merge --override-approval-requirement: admin') }),
+      );
+
+      expect(result.message).toBe('Branch update failed: merge conflict between base and head');
+    });
+  });
+
+  describe('rebase merge', () => {
+    it('rebase merges without commit title or message for a rebase-base-branches target', async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.pulls.get.mockResolvedValue({
+        data: {
+          state: 'open',
+          locked: false,
+          draft: false,
+          merged: false,
+          mergeable: true,
+          mergeable_state: 'clean',
+          head: { sha: 'abc123', ref: 'feature/test', repo: { fork: false, owner: { id: 1 } } },
+          base: { ref: 'main', repo: { owner: { id: 1 } } },
+          user: { login: 'author' },
+          title: 'feat: test feature',
+        },
+      } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+      octokit.graphql.mockResolvedValue({
+        repository: {
+          pullRequest: { reviewThreads: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [] } },
+        },
+      });
+      octokit.paginate.mockResolvedValueOnce([
+        { id: 1, user: { login: 'reviewer' }, state: 'APPROVED', commit_id: 'abc123' },
+      ]);
+      octokit.rest.pulls.merge.mockResolvedValue({
+        data: { sha: 'rebased-sha' },
+      } as Awaited<ReturnType<typeof octokit.rest.pulls.merge>>);
+      const context = createEventContext({ commentBody: '/nylbot merge' });
+
+      const result = await executeAction(octokit, context, createConfig({ rebaseBaseBranches: ['main'] }));
+
+      expect(result).toEqual({ status: 'merged', message: 'PR merged successfully', mergeMethod: 'rebase' });
+      const mergeCall = octokit.rest.pulls.merge.mock.calls[0]?.[0];
+      expect(mergeCall?.merge_method).toBe('rebase');
+      expect(mergeCall).not.toHaveProperty('commit_title');
+      expect(mergeCall).not.toHaveProperty('commit_message');
+      // Commits are not needed for rebase
+      expect(octokit.paginate).not.toHaveBeenCalledWith(octokit.rest.pulls.listCommits, expect.anything());
+      const comments = octokit.rest.issues.createComment.mock.calls.map((c) => c[0]?.body ?? '');
+      expect(comments.some((c) => c.includes('**not** recorded'))).toBe(true);
+    });
+  });
+
+  describe('subcommand dispatch', () => {
+    it('routes /nylbot status to the status handler without the permission gate', async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValue({
+        data: { permission: 'read' },
+      } as Awaited<ReturnType<typeof octokit.rest.repos.getCollaboratorPermissionLevel>>);
+      const context = createEventContext({ commentBody: '/nylbot status', authorAssociation: 'CONTRIBUTOR' });
+      const config = createConfig();
+
+      const result = await executeAction(octokit, context, config);
+
+      expect(result.status).toBe('skipped');
+      expect(result.message).toContain('Status reported');
+      expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('## Merge status');
+    });
+
+    it('names the subcommand in permission denied comments', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ commentBody: '/nylbot merge', authorAssociation: 'NONE' });
+
+      await executeAction(octokit, context, createConfig());
+
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('`/nylbot merge` command');
+    });
+
+    it('posts unrecognized-command comment with the help table for unknown subcommands', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ commentBody: '/nylbot deploy' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.message).toBe('Command not recognized');
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('### Supported commands');
+      expect(commentBody).toContain('`/nylbot merge --dry-run`');
+    });
+
+    it('routes /nylbot auto-merge to the auto-merge handler behind the permission gate', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ commentBody: '/nylbot auto-merge', authorAssociation: 'NONE' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.message).toBe('Invalid author association');
+
+      const allowed = createMockOctokit();
+      allowed.rest.pulls.get.mockResolvedValue({
+        data: { ...createPRWithMergeableState('blocked') },
+      } as Awaited<ReturnType<typeof allowed.rest.pulls.get>>);
+      const enabled = await executeAction(
+        allowed,
+        createEventContext({ commentBody: '/nylbot auto-merge' }),
+        createConfig(),
+      );
+      expect(enabled).toEqual({ status: 'skipped', message: 'Auto-merge enabled' });
+    });
+
+    it('routes /nylbot cancel to the cancel handler without the write-permission gate', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ commentBody: '/nylbot cancel', authorAssociation: 'CONTRIBUTOR' });
+
+      const result = await executeAction(octokit, context, createConfig());
 
-      expect(result.status).toBe('skipped');
-      expect(result.message).toBe('Command not recognized');
-      const commentCalls = octokit.rest.issues.createComment.mock.calls;
-      const commentBody = (commentCalls[0]?.[0] as { body?: string } | undefined)?.body ?? '';
-      expect(commentBody).toContain('Unrecognized command');
-      expect(commentBody).not.toContain('https://github.enterprise.com//');
-      expect(commentBody).toContain('https://github.enterprise.com/testowner/testrepo/pull/7#issuecomment-100');
+      expect(result).toEqual({ status: 'skipped', message: 'No pending request to cancel' });
     });
 
-    it('fails for users without valid author association', async () => {
+    it('routes /nylbot update-branch to the update-branch handler behind the permission gate', async () => {
       const octokit = createMockOctokit();
-      const context = createEventContext({ authorAssociation: 'NONE' });
-      const config = createConfig();
+      const context = createEventContext({ commentBody: '/nylbot update-branch', authorAssociation: 'NONE' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.message).toBe('Invalid author association');
+      expect(octokit.rest.pulls.updateBranch).not.toHaveBeenCalled();
+
+      const allowed = createMockOctokit();
+      allowed.rest.pulls.updateBranch.mockRejectedValue(new Error('merge conflict between base and head'));
+      const failed = await executeAction(
+        allowed,
+        createEventContext({ commentBody: '/nylbot update-branch' }),
+        createConfig(),
+      );
+      expect(failed).toEqual({
+        status: 'failed',
+        message: 'Branch update failed: merge conflict between base and head',
+      });
+    });
 
-      const result = await executeAction(octokit, context, config);
+    it('routes /nylbot backport to the backport handler behind the permission gate', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ commentBody: '/nylbot backport release/1.2', authorAssociation: 'NONE' });
 
-      expect(result.status).toBe('failed');
-      expect(result.message).toContain('author association');
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.message).toBe('Invalid author association');
+
+      const allowed = createMockOctokit();
+      const scheduled = await executeAction(
+        allowed,
+        createEventContext({ commentBody: '/nylbot backport release/1.2' }),
+        createConfig(),
+      );
+      // The target branch does not exist in the default mock
+      expect(scheduled).toEqual({ status: 'failed', message: 'Backport target not found' });
+      expect(allowed.rest.git.getRef).toHaveBeenCalledWith(expect.objectContaining({ ref: 'heads/release/1.2' }));
     });
 
-    it('fails for users without write permission', async () => {
+    it('posts the help table for /nylbot help without the permission gate', async () => {
       const octokit = createMockOctokit();
-      octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValue({
-        data: { permission: 'read' },
-      } as Awaited<ReturnType<typeof octokit.rest.repos.getCollaboratorPermissionLevel>>);
-      const context = createEventContext();
-      const config = createConfig();
+      const context = createEventContext({ commentBody: '/nylbot help', authorAssociation: 'NONE' });
 
-      const result = await executeAction(octokit, context, config);
+      const result = await executeAction(octokit, context, createConfig());
 
-      expect(result.status).toBe('failed');
-      expect(result.message).toContain('permissions');
+      expect(result).toEqual({ status: 'skipped', message: 'Help posted' });
+      expect(octokit.rest.repos.getCollaboratorPermissionLevel).not.toHaveBeenCalled();
+      expect(octokit.rest.pulls.get).not.toHaveBeenCalled();
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('## nylbot commands');
+      expect(commentBody).toContain('`/nylbot status`');
+      expect(commentBody).toContain('`/nylbot merge --override-approval-requirement`');
+    });
+
+    it('accepts an @mention with a custom prefix and bot name', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ commentBody: 'Thanks!\n@shipit help', authorAssociation: 'NONE' });
+
+      const result = await executeAction(
+        octokit,
+        context,
+        createConfig({ commandPrefix: '/shipit', botName: 'shipit' }),
+      );
+
+      expect(result).toEqual({ status: 'skipped', message: 'Help posted' });
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('## shipit commands');
+      expect(commentBody).toContain('`/shipit status`');
+      expect(commentBody).not.toContain('/nylbot');
     });
   });
 
@@ -874,6 +1573,497 @@ describe('executeAction', () => {
     });
   });
 
+  describe('dry run', () => {
+    it('reports checks and commit message without merging', async () => {
+      const octokit = createMockOctokit();
+
+      let paginateCalls = 0;
+      octokit.paginate.mockImplementation(async () => {
+        paginateCalls++;
+        if (paginateCalls === 1) {
+          return [
+            {
+              id: 1,
+              state: 'APPROVED',
+              commit_id: 'abc1234567890',
+              user: { login: 'reviewer' },
+            },
+          ];
+        }
+        return [{ commit: { message: 'feat: add feature', author: { name: 'Alice', email: 'alice@example.com' } } }];
+      });
+
+      const context = createEventContext({ commentBody: '/nylbot merge --dry-run' });
+      const config = createConfig();
+
+      const result = await executeAction(octokit, context, config);
+
+      expect(result.status).toBe('skipped');
+      expect(result.message).toBe('Dry run: merge checks passed');
+      expect(result.mergeMethod).toBeUndefined();
+      expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+
+      const commentCalls = octokit.rest.issues.createComment.mock.calls;
+      expect(commentCalls).toHaveLength(1);
+      const commentBody = commentCalls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('## Dry run');
+      expect(commentBody).toContain('would proceed to merge');
+      expect(commentBody).toContain('feat: test pull request (#1)');
+      expect(commentBody).toContain('* feat: add feature');
+      expect(commentBody).toContain('Co-authored-by: Alice <alice@example.com>');
+      expect(commentBody).toContain('Merged-by: nylbot-merge (on behalf of @testactor)');
+    });
+
+    it('reports failing checks without merging', async () => {
+      const octokit = createMockOctokit();
+      octokit.paginate.mockResolvedValue([]);
+
+      const context = createEventContext({ commentBody: '/nylbot merge --dry-run' });
+      const config = createConfig();
+
+      const result = await executeAction(octokit, context, config);
+
+      expect(result.status).toBe('skipped');
+      expect(result.message).toBe('Dry run: merge checks failed');
+      expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('The following checks must pass before merging');
+      expect(commentBody).toContain('❌');
+    });
+
+    it('reports stale approvals instead of dismissing them', async () => {
+      const octokit = createMockOctokit();
+      octokit.paginate.mockResolvedValueOnce([
+        {
+          id: 1,
+          state: 'APPROVED',
+          commit_id: 'oldcommit456',
+          user: { login: 'reviewer' },
+        },
+      ]);
+
+      const context = createEventContext({ commentBody: '/nylbot merge --dry-run' });
+      const config = createConfig();
+
+      await executeAction(octokit, context, config);
+
+      expect(octokit.rest.pulls.dismissReview).not.toHaveBeenCalled();
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('Approval from @reviewer would be dismissed');
+    });
+
+    it('shows the merge commit format and exceptional marker for merge commits', async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.pulls.get.mockResolvedValue({
+        data: {
+          ...createPRWithMergeableState('clean'),
+          head: { sha: 'abc1234567890', ref: 'release/v1.0.0', repo: { fork: false, owner: { id: 1 } } },
+          base: { ref: 'main', repo: { owner: { id: 1 } } },
+        },
+      } as unknown as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+      octokit.paginate.mockResolvedValue([]);
+
+      const context = createEventContext({ commentBody: '/nylbot merge --dry-run --override-approval-requirement' });
+      const config = createConfig();
+
+      const result = await executeAction(octokit, context, config);
+
+      expect(result.message).toBe('Dry run: merge checks passed');
+      expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('Merge pull request #1 from release/v1.0.0');
+      expect(commentBody).toContain('EXCEPTIONAL MERGE');
+    });
+  });
+
+  describe('merge queue', () => {
+    it('queues the PR instead of merging directly when the merge queue is enabled', async () => {
+      const octokit = createMockOctokit();
+      // PR #2 is already at the head of the develop queue
+      octokit.paginate.mockImplementation((async (endpoint: unknown, params?: Record<string, unknown>) => {
+        if (endpoint === octokit.rest.issues.listForRepo) {
+          return [{ number: 2, pull_request: {} }];
+        }
+        if (endpoint === octokit.rest.issues.listComments && params?.issue_number === 2) {
+          return [
+            {
+              id: 10,
+              body: '<!-- nylbot:merge-queue {"actor":"someone","headSha":"def456","baseRef":"develop"} -->',
+              user: { login: 'github-actions[bot]', type: 'Bot' },
+            },
+          ];
+        }
+        return [];
+      }) as unknown as MockedOctokit['paginate']);
+      const context = createEventContext({ commentBody: '/nylbot merge --squash' });
+
+      const result = await executeAction(
+        octokit,
+        context,
+        createConfig({ mergeQueue: true, methodOverridePermission: 'write' }),
+      );
+
+      expect(result).toEqual({ status: 'skipped', message: 'Queued for merge (position 2)' });
+      expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('**Queue position:** 2 of 2');
+      expect(commentBody).toContain('"methodOverride":"squash"');
+    });
+
+    it('runs a dry run directly even when the merge queue is enabled', async () => {
+      const octokit = createMockOctokit();
+      const context = createEventContext({ commentBody: '/nylbot merge --dry-run' });
+
+      const result = await executeAction(octokit, context, createConfig({ mergeQueue: true }));
+
+      expect(result.message).toBe('Dry run: merge checks failed');
+      expect(octokit.rest.issues.addLabels).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update if behind', () => {
+    it('updates a branch that is behind instead of merging', async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.pulls.get
+        .mockResolvedValueOnce({
+          data: createPRWithMergeableState('behind'),
+        } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>)
+        .mockResolvedValue({
+          data: {
+            ...createPRWithMergeableState('blocked'),
+            head: { ...createPRWithMergeableState('blocked').head, sha: 'new4567890123' },
+          },
+        } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+      octokit.rest.git.getCommit.mockResolvedValue({
+        data: { parents: [{ sha: 'abc1234567890' }, { sha: 'base123456789' }] },
+      } as Awaited<ReturnType<typeof octokit.rest.git.getCommit>>);
+      octokit.rest.git.getRef.mockResolvedValue({
+        data: { object: { sha: 'base123456789' } },
+      } as Awaited<ReturnType<typeof octokit.rest.git.getRef>>);
+      const context = createEventContext({ commentBody: '/nylbot merge --update-if-behind' });
+
+      const result = await executeAction(octokit, context, createConfig({ mergeableRetryInterval: 0 }));
+
+      expect(result).toEqual({ status: 'skipped', message: 'Branch updated' });
+      expect(octokit.rest.pulls.updateBranch).toHaveBeenCalledWith(
+        expect.objectContaining({ expected_head_sha: 'abc1234567890' }),
+      );
+      expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+      expect(commentBody).toContain('Please run `/nylbot merge` again once checks pass on the new HEAD.');
+    });
+
+    it('merges normally when the branch is not behind', async () => {
+      const octokit = createMockOctokit();
+      octokit.paginate.mockResolvedValueOnce([
+        { id: 1, user: { login: 'reviewer' }, state: 'APPROVED', commit_id: 'abc1234567890' },
+      ]);
+      const context = createEventContext({ commentBody: '/nylbot merge --update-if-behind' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.status).toBe('merged');
+      expect(octokit.rest.pulls.updateBranch).not.toHaveBeenCalled();
+    });
+
+    it('does not update the branch in a dry run', async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.pulls.get.mockResolvedValue({
+        data: createPRWithMergeableState('behind'),
+      } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+      const context = createEventContext({ commentBody: '/nylbot merge --update-if-behind --dry-run' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.message).toBe('Dry run: merge checks failed');
+      expect(octokit.rest.pulls.updateBranch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ready', () => {
+    /**
+     * Makes the PR a draft until the ready mutation runs.
+     */
+    function setupDraftPullRequest(octokit: MockedOctokit): void {
+      let draft = true;
+      octokit.rest.pulls.get.mockImplementation((async () => ({
+        data: { ...createPRWithMergeableState(draft ? 'draft' : 'clean'), draft },
+      })) as unknown as MockedOctokit['rest']['pulls']['get']);
+      octokit.graphql.mockImplementation(async (query: string) => {
+        if (query.includes('markPullRequestReadyForReview')) {
+          draft = false;
+          return {};
+        }
+        return { repository: { pullRequest: { reviewThreads: { pageInfo: { hasNextPage: false }, nodes: [] } } } };
+      });
+      octokit.paginate.mockImplementation(async (endpoint: unknown) =>
+        endpoint === octokit.rest.pulls.listReviews
+          ? [{ id: 1, user: { login: 'reviewer' }, state: 'APPROVED', commit_id: 'abc1234567890' }]
+          : [],
+      );
+    }
+
+    it('marks a draft ready and merges it with --ready', async () => {
+      const octokit = createMockOctokit();
+      setupDraftPullRequest(octokit);
+      const context = createEventContext({ commentBody: '/nylbot merge --ready' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.status).toBe('merged');
+      expect(octokit.graphql).toHaveBeenCalledWith(expect.stringContaining('markPullRequestReadyForReview'), {
+        id: 'PR_node1',
+      });
+    });
+
+    it('reports the draft without --ready', async () => {
+      const octokit = createMockOctokit();
+      setupDraftPullRequest(octokit);
+
+      const result = await executeAction(octokit, createEventContext(), createConfig());
+
+      expect(result).toEqual({ status: 'failed', message: 'Merge checks failed' });
+      expect(octokit.graphql).not.toHaveBeenCalledWith(
+        expect.stringContaining('markPullRequestReadyForReview'),
+        expect.anything(),
+      );
+    });
+
+    it('stops when the PR could not be marked ready', async () => {
+      const octokit = createMockOctokit();
+      setupDraftPullRequest(octokit);
+      octokit.graphql.mockRejectedValue(new Error('Resource not accessible by integration'));
+      const context = createEventContext({ commentBody: '/nylbot merge --ready' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result).toEqual({
+        status: 'failed',
+        message: 'Ready for review failed: Resource not accessible by integration',
+      });
+      expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    });
+
+    it('does not change the PR in a dry run', async () => {
+      const octokit = createMockOctokit();
+      setupDraftPullRequest(octokit);
+      const context = createEventContext({ commentBody: '/nylbot merge --ready --dry-run' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.message).toBe('Dry run: merge checks failed');
+      expect(octokit.graphql).not.toHaveBeenCalledWith(
+        expect.stringContaining('markPullRequestReadyForReview'),
+        expect.anything(),
+      );
+    });
+
+    it('marks a draft ready before queuing it', async () => {
+      const octokit = createMockOctokit();
+      setupDraftPullRequest(octokit);
+      const context = createEventContext({ commentBody: '/nylbot merge --ready' });
+
+      await executeAction(octokit, context, createConfig({ mergeQueue: true }));
+
+      expect(octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body).toContain('## Queued for merge');
+      expect(octokit.graphql).toHaveBeenCalledWith(expect.stringContaining('markPullRequestReadyForReview'), {
+        id: 'PR_node1',
+      });
+    });
+  });
+
+  describe('commit message and HEAD flags', () => {
+    it('merges with the commit title, message, and override reason from the flags', async () => {
+      const octokit = createMockOctokit();
+      octokit.paginate.mockResolvedValue([]);
+      const context = createEventContext({
+        commentBody:
+          '/nylbot merge --squash --title "fix: custom title" --message "Closes #3" --override-approval-requirement --reason \'release blocker\'',
+      });
+
+      const result = await executeAction(octokit, context, createConfig({ methodOverridePermission: 'write' }));
+
+      expect(result.status).toBe('merged');
+      const mergeParams = octokit.rest.pulls.merge.mock.calls[0]?.[0];
+      expect(mergeParams?.commit_title).toBe('fix: custom title (#1)');
+      expect(mergeParams?.commit_message).toContain('Closes #3\n\nMerged-by: nylbot-merge (on behalf of @testactor)');
+      expect(mergeParams?.commit_message).toContain('--override-approval-requirement\nReason: release blocker');
+    });
+
+    it('merges when the PR HEAD starts with --sha', async () => {
+      const octokit = createMockOctokit();
+      octokit.paginate.mockResolvedValueOnce([
+        { id: 1, user: { login: 'reviewer' }, state: 'APPROVED', commit_id: 'abc1234567890' },
+      ]);
+      const context = createEventContext({ commentBody: '/nylbot merge --sha abc1234' });
+
+      const result = await executeAction(octokit, context, createConfig());
+
+      expect(result.status).toBe('merged');
+    });
+
+    it('refuses to merge or queue when the PR HEAD differs from --sha', async () => {
+      for (const mergeQueue of [false, true]) {
+        const octokit = createMockOctokit();
+        const context = createEventContext({ commentBody: '/nylbot merge --sha def4567' });
+
+        const result = await executeAction(octokit, context, createConfig({ mergeQueue }));
+
+        expect(result).toEqual({ status: 'failed', message: 'HEAD SHA mismatch' });
+        expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+        expect(octokit.rest.issues.addLabels).not.toHaveBeenCalled();
+        const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+        expect(commentBody).toContain('## HEAD mismatch');
+        expect(commentBody).toContain('- Expected HEAD SHA: def4567\n> - Current HEAD SHA: abc1234567890');
+      }
+    });
+  });
+
+  describe('back-merge', () => {
+    /**
+     * Sets up an approved release PR into main.
+     */
+    function setupReleasePullRequest(octokit: ReturnType<typeof createMockOctokit>): void {
+      octokit.rest.pulls.get.mockResolvedValue({
+        data: {
+          state: 'open',
+          locked: false,
+          draft: false,
+          merged: false,
+          mergeable: true,
+          mergeable_state: 'clean',
+          head: { sha: 'abc1234567890', ref: 'release/1.2.0', repo: { fork: false, owner: { id: 1 } } },
+          base: { ref: 'main', repo: { owner: { id: 1 } } },
+          user: { login: 'testuser' },
+          title: 'chore(release): 1.2.0',
+        },
+      } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+      octokit.paginate.mockResolvedValue([
+        { id: 1, state: 'APPROVED', commit_id: 'abc1234567890', user: { login: 'reviewer' } },
+      ]);
+    }
+
+    it('opens a back-merge PR into develop and links it in the merged comment', async () => {
+      const octokit = createMockOctokit();
+      setupReleasePullRequest(octokit);
+
+      const result = await executeAction(octokit, createEventContext(), createConfig({ backMerge: true }));
+
+      expect(result.status).toBe('merged');
+      expect(octokit.rest.git.createRef).toHaveBeenCalledWith(
+        expect.objectContaining({ ref: 'refs/heads/fix/sync/1.2.0', sha: 'merge123456789' }),
+      );
+      const mergedComment = octokit.rest.issues.createComment.mock.calls.at(-1)?.[0]?.body ?? '';
+      expect(mergedComment).toContain('## Merged by nylbot-merge');
+      expect(mergedComment).toContain('- **Back-merge PR:** #100 (`fix/sync/1.2.0` into `develop`)');
+    });
+
+    it('reports a back-merge PR that could not be opened', async () => {
+      const octokit = createMockOctokit();
+      setupReleasePullRequest(octokit);
+      octokit.rest.pulls.create.mockRejectedValue(new Error('Validation Failed'));
+
+      const result = await executeAction(octokit, createEventContext(), createConfig({ backMerge: true }));
+
+      expect(result.status).toBe('merged');
+      const mergedComment = octokit.rest.issues.createComment.mock.calls.at(-1)?.[0]?.body ?? '';
+      expect(mergedComment).toContain(
+        '- **Back-merge PR:** not opened (Validation Failed). Please merge `release/1.2.0` back into `develop` manually.',
+      );
+    });
+
+    it('does nothing when back-merge is disabled', async () => {
+      const octokit = createMockOctokit();
+      setupReleasePullRequest(octokit);
+
+      await executeAction(octokit, createEventContext(), createConfig());
+
+      expect(octokit.rest.git.createRef).not.toHaveBeenCalled();
+      expect(octokit.rest.issues.createComment.mock.calls.at(-1)?.[0]?.body).not.toContain('Back-merge PR');
+    });
+  });
+
+  describe('create-release', () => {
+    /**
+     * Sets up an approved release/v1.4.0 PR into main, with v1.3.0 as the previous tag.
+     */
+    function setupReleasePullRequest(octokit: MockedOctokit): void {
+      octokit.rest.pulls.get.mockResolvedValue({
+        data: {
+          state: 'open',
+          locked: false,
+          draft: false,
+          merged: false,
+          mergeable: true,
+          mergeable_state: 'clean',
+          head: { sha: 'abc1234567890', ref: 'release/v1.4.0', repo: { fork: false, owner: { id: 1 } } },
+          base: { ref: 'main', repo: { owner: { id: 1 } } },
+          user: { login: 'testuser' },
+          title: 'chore(release): v1.4.0',
+        },
+      } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+      octokit.paginate.mockImplementation(async (endpoint: unknown) => {
+        if (endpoint === octokit.rest.pulls.listReviews) {
+          return [{ id: 1, state: 'APPROVED', commit_id: 'abc1234567890', user: { login: 'reviewer' } }];
+        }
+        if (endpoint === octokit.rest.repos.listTags) {
+          return [{ name: 'v1.3.0', commit: { sha: 'c130' } }];
+        }
+        return [];
+      });
+    }
+
+    it('tags the merge commit, drafts the release, and links both in the merged comment', async () => {
+      const octokit = createMockOctokit();
+      setupReleasePullRequest(octokit);
+
+      const result = await executeAction(octokit, createEventContext(), createConfig({ createRelease: true }));
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          status: 'merged',
+          releaseTag: 'v1.4.0',
+          tagUrl: 'https://github.com/testowner/testrepo/tree/v1.4.0',
+          releaseUrl: 'https://github.com/testowner/testrepo/releases/tag/untagged-1',
+        }),
+      );
+      expect(octokit.rest.git.createTag).toHaveBeenCalledWith(
+        expect.objectContaining({ tag: 'v1.4.0', object: 'merge123456789' }),
+      );
+      const mergedComment = octokit.rest.issues.createComment.mock.calls.at(-1)?.[0]?.body ?? '';
+      expect(mergedComment).toContain('- **Tag:** [`v1.4.0`](https://github.com/testowner/testrepo/tree/v1.4.0)');
+      expect(mergedComment).toContain(
+        '- **Draft release:** https://github.com/testowner/testrepo/releases/tag/untagged-1',
+      );
+    });
+
+    it('reports a tag that already exists', async () => {
+      const octokit = createMockOctokit();
+      setupReleasePullRequest(octokit);
+      octokit.rest.git.createTag.mockRejectedValue(new Error('Reference already exists'));
+
+      const result = await executeAction(octokit, createEventContext(), createConfig({ createRelease: true }));
+
+      expect(result.status).toBe('merged');
+      expect(result).not.toHaveProperty('releaseTag');
+      const mergedComment = octokit.rest.issues.createComment.mock.calls.at(-1)?.[0]?.body ?? '';
+      expect(mergedComment).toContain(
+        '- **Tag:** not created (Reference already exists). Please tag merge123456789 as `v1.4.0` manually.',
+      );
+      expect(mergedComment).not.toContain('Draft release');
+    });
+
+    it('does nothing when create-release is disabled', async () => {
+      const octokit = createMockOctokit();
+      setupReleasePullRequest(octokit);
+
+      await executeAction(octokit, createEventContext(), createConfig());
+
+      expect(octokit.rest.git.createTag).not.toHaveBeenCalled();
+      expect(octokit.rest.issues.createComment.mock.calls.at(-1)?.[0]?.body).not.toContain('**Tag:**');
+    });
+  });
+
   describe('TOCTOU and mergeability handling', () => {
     it('detects TOCTOU violation when HEAD changes during validation', async () => {
       const octokit = createMockOctokit();
@@ -1207,16 +2397,20 @@ describe('executeAction', () => {
         },
       } as unknown as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
 
-      // Mock approved review
-      octokit.paginate.mockResolvedValue([
-        {
-          id: 1,
-          state: 'APPROVED',
-          commit_id: 'abc1234567890',
-          user: { login: 'reviewer' },
-          author_association: 'MEMBER',
-        },
-      ]);
+      // Mock approved review (the non-conventional title also fetches the PR commits)
+      octokit.paginate.mockImplementation(async (endpoint: unknown) =>
+        endpoint === octokit.rest.pulls.listReviews
+          ? [
+              {
+                id: 1,
+                state: 'APPROVED',
+                commit_id: 'abc1234567890',
+                user: { login: 'reviewer' },
+                author_association: 'MEMBER',
+              },
+            ]
+          : [],
+      );
 
       const context = createEventContext();
       const config = createConfig();
@@ -1483,7 +2677,7 @@ describe('executeAction', () => {
 
 describe('buildSummaryMarkdown', () => {
   it('builds summary with all parameters provided', () => {
-    const result = buildSummaryMarkdown('✅ Merged successfully', 123, 'testuser', 'squash');
+    const result = buildSummaryMarkdown('nylbot', '✅ Merged successfully', 123, 'testuser', 'squash');
 
     expect(result).toContain('## nylbot-merge Summary');
     expect(result).toContain('| **Result** | ✅ Merged successfully |');
@@ -1493,7 +2687,7 @@ describe('buildSummaryMarkdown', () => {
   });
 
   it('builds summary without optional parameters', () => {
-    const result = buildSummaryMarkdown('⏭️ Skipped', 456, 'anotheruser');
+    const result = buildSummaryMarkdown('nylbot', '⏭️ Skipped', 456, 'anotheruser');
 
     expect(result).toContain('## nylbot-merge Summary');
     expect(result).toContain('| **Result** | ⏭️ Skipped |');
@@ -1502,14 +2696,18 @@ describe('buildSummaryMarkdown', () => {
     expect(result).not.toContain('Merge Method');
   });
 
+  it('uses the bot name in the heading', () => {
+    expect(buildSummaryMarkdown('shipit', '✅ Merged successfully', 1, 'user')).toContain('## shipit-merge Summary');
+  });
+
   it('builds summary with only mergeMethod', () => {
-    const result = buildSummaryMarkdown('✅ Merged successfully', 111, 'mergeuser', 'merge');
+    const result = buildSummaryMarkdown('nylbot', '✅ Merged successfully', 111, 'mergeuser', 'merge');
 
     expect(result).toContain('| **Merge Method** | `merge` |');
   });
 
   it('creates valid markdown table structure', () => {
-    const result = buildSummaryMarkdown('✅ Test', 1, 'user');
+    const result = buildSummaryMarkdown('nylbot', '✅ Test', 1, 'user');
 
     // Check for markdown table headers
     expect(result).toContain('| Item | Value |');
@@ -1527,7 +2725,7 @@ describe('buildSummaryMarkdown', () => {
   });
 
   it('escapes special characters properly in result text', () => {
-    const result = buildSummaryMarkdown('⚠️ Warning: <special>', 333, 'special-user_123');
+    const result = buildSummaryMarkdown('nylbot', '⚠️ Warning: <special>', 333, 'special-user_123');
 
     expect(result).toContain('⚠️ Warning: <special>');
     expect(result).toContain('@special-user_123');
@@ -1537,7 +2735,7 @@ describe('buildSummaryMarkdown', () => {
     const testCases = ['✅ Merged successfully', '⏭️ Skipped', '❌ Failed', 'ℹ️ Already merged'];
 
     testCases.forEach((resultText) => {
-      const result = buildSummaryMarkdown(resultText, 1, 'user');
+      const result = buildSummaryMarkdown('nylbot', resultText, 1, 'user');
       expect(result).toContain(`| **Result** | ${resultText} |`);
     });
   });
@@ -1546,7 +2744,7 @@ describe('buildSummaryMarkdown', () => {
     const testCases = [1, 42, 999, 12345];
 
     testCases.forEach((prNumber) => {
-      const result = buildSummaryMarkdown('✅ Test', prNumber, 'user');
+      const result = buildSummaryMarkdown('nylbot', '✅ Test', prNumber, 'user');
       expect(result).toContain(`| **PR** | #${prNumber} |`);
     });
   });
@@ -1555,7 +2753,7 @@ describe('buildSummaryMarkdown', () => {
     const testCases = ['alice', 'bob-smith', 'user_123', 'dependabot[bot]'];
 
     testCases.forEach((actor) => {
-      const result = buildSummaryMarkdown('✅ Test', 1, actor);
+      const result = buildSummaryMarkdown('nylbot', '✅ Test', 1, actor);
       expect(result).toContain(`| **Triggered by** | @${actor} |`);
     });
   });
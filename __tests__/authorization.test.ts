@@ -0,0 +1,373 @@
+/**
+ * authorization.test.ts - Tests for authorization.ts module
+ *
+ * Tests cover parseAuthorizationPolicy (rule syntax and validation against the COMMANDS
+ * registry), findDeniedRule (matching by command, flag, and base branch pattern, and
+ * team membership checks), and describeDenial (the comment and result of a denial).
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { describeDenial, findDeniedRule, parseAuthorizationPolicy } from '../src/authorization.js';
+import { evaluateCodeOwnerApproval } from '../src/codeowners.js';
+import type { MergeOptions, ParsedCommand } from '../src/types.js';
+
+import { createEventContext } from './helpers/fixtures.js';
+import { createMockOctokit, type MockedOctokit } from './helpers/octokit.mock.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * Creates a parsed `/nylbot merge` command with the given options.
+ */
+function mergeCommand(options: Partial<MergeOptions> = {}): ParsedCommand {
+  return {
+    name: 'merge',
+    options: {
+      overrideApprovalRequirement: false,
+      dryRun: false,
+      methodOverride: null,
+      updateIfBehind: false,
+      ready: false,
+      commitTitle: null,
+      commitMessage: null,
+      overrideReason: null,
+      expectedHeadSha: null,
+      ...options,
+    },
+  };
+}
+
+/**
+ * Sets the base branch returned for the PR.
+ */
+function setBaseRef(octokit: MockedOctokit, baseRef: string): void {
+  octokit.rest.pulls.get.mockResolvedValue({
+    data: {
+      state: 'open',
+      head: { sha: 'abc1234567890', ref: 'feature/x', repo: { fork: false, owner: { id: 1 } } },
+      base: { ref: baseRef, repo: { owner: { id: 1 } } },
+    },
+  } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+}
+
+// =============================================================================
+// Tests for parseAuthorizationPolicy
+// =============================================================================
+
+describe('parseAuthorizationPolicy', () => {
+  it('parses rules with a flag and a base branch pattern', () => {
+    const policy = parseAuthorizationPolicy(
+      [
+        'merge into main: maintain',
+        'merge --override-approval-requirement: admin',
+        'merge --squash into release/*:admin',
+      ].join('\n'),
+    );
+
+    expect(policy).toEqual([
+      {
+        source: 'merge into main: maintain',
+        command: 'merge',
+        flag: null,
+        baseBranch: 'main',
+        permission: 'maintain',
+        team: null,
+      },
+      {
+        source: 'merge --override-approval-requirement: admin',
+        command: 'merge',
+        flag: '--override-approval-requirement',
+        baseBranch: null,
+        permission: 'admin',
+        team: null,
+      },
+      {
+        source: 'merge --squash into release/*:admin',
+        command: 'merge',
+        flag: '--squash',
+        baseBranch: 'release/*',
+        permission: 'admin',
+        team: null,
+      },
+    ]);
+  });
+
+  it('ignores blank lines and comments', () => {
+    expect(parseAuthorizationPolicy('')).toEqual([]);
+    expect(parseAuthorizationPolicy('\n# Releases\n  backport: maintain  \n')).toEqual([
+      {
+        source: 'backport: maintain',
+        command: 'backport',
+        flag: null,
+        baseBranch: null,
+        permission: 'maintain',
+        team: null,
+      },
+    ]);
+  });
+
+  it('rejects lines that are not rules', () => {
+    expect(() => parseAuthorizationPolicy('merge main maintain')).toThrow(
+      'Invalid authorization-policy rule: "merge main maintain". Must be "<command> [<flag>] [into <branch>]: <permission or @org/team>"',
+    );
+  });
+
+  it('rejects unknown commands and commands without the write-permission gate', () => {
+    expect(() => parseAuthorizationPolicy('deploy: admin')).toThrow('The command must be one of: merge, auto-merge');
+    expect(() => parseAuthorizationPolicy('status: admin')).toThrow('The command must be one of:');
+  });
+
+  it('rejects flags the command does not accept', () => {
+    expect(() => parseAuthorizationPolicy('merge --force: admin')).toThrow('`merge` has no --force flag.');
+    expect(() => parseAuthorizationPolicy('auto-merge --squash: admin')).toThrow('`auto-merge` has no --squash flag.');
+  });
+
+  it('parses team requirements', () => {
+    expect(parseAuthorizationPolicy('merge into release/*: @acme/release-managers')).toEqual([
+      {
+        source: 'merge into release/*: @acme/release-managers',
+        command: 'merge',
+        flag: null,
+        baseBranch: 'release/*',
+        permission: null,
+        team: { org: 'acme', slug: 'release-managers' },
+      },
+    ]);
+  });
+
+  it('rejects requirements that are neither a team nor a permission that can run commands', () => {
+    expect(() => parseAuthorizationPolicy('merge: triage')).toThrow(
+      'The requirement must be a team (@org/team-slug) or one of: admin, maintain, write.',
+    );
+    expect(() => parseAuthorizationPolicy('merge: @release-managers')).toThrow('The requirement must be a team');
+  });
+});
+
+// =============================================================================
+// Tests for findDeniedRule
+// =============================================================================
+
+describe('findDeniedRule', () => {
+  const policy = parseAuthorizationPolicy(
+    ['merge into main: maintain', 'merge into release/*: admin', 'merge --override-approval-requirement: admin'].join(
+      '\n',
+    ),
+  );
+
+  it('returns the rule for the base branch the actor does not satisfy', async () => {
+    const octokit = createMockOctokit();
+    setBaseRef(octokit, 'main');
+
+    const denial = await findDeniedRule(octokit, createEventContext(), policy, mergeCommand(), 'write');
+
+    expect(denial).toEqual({ rule: policy[0], error: null });
+  });
+
+  it('matches base branch patterns with wildcards', async () => {
+    const octokit = createMockOctokit();
+    setBaseRef(octokit, 'release/1.2.0');
+
+    expect((await findDeniedRule(octokit, createEventContext(), policy, mergeCommand(), 'maintain'))?.rule.source).toBe(
+      'merge into release/*: admin',
+    );
+    expect(await findDeniedRule(octokit, createEventContext(), policy, mergeCommand(), 'admin')).toBeNull();
+  });
+
+  it('allows merges into branches without a rule', async () => {
+    const octokit = createMockOctokit();
+    setBaseRef(octokit, 'develop');
+
+    expect(await findDeniedRule(octokit, createEventContext(), policy, mergeCommand(), 'write')).toBeNull();
+  });
+
+  it('applies flag rules only when the flag is used', async () => {
+    const octokit = createMockOctokit();
+    setBaseRef(octokit, 'develop');
+
+    const denial = await findDeniedRule(
+      octokit,
+      createEventContext(),
+      policy,
+      mergeCommand({ overrideApprovalRequirement: true }),
+      'maintain',
+    );
+
+    expect(denial?.rule.source).toBe('merge --override-approval-requirement: admin');
+  });
+
+  it('does not fetch the PR when no matching rule has a base branch', async () => {
+    const octokit = createMockOctokit();
+
+    const denial = await findDeniedRule(octokit, createEventContext(), policy, { name: 'update-branch' }, 'write');
+
+    expect(denial).toBeNull();
+    expect(octokit.rest.pulls.get).not.toHaveBeenCalled();
+  });
+
+  it('fetches the PR once for several base branch rules', async () => {
+    const octokit = createMockOctokit();
+    setBaseRef(octokit, 'develop');
+
+    await findDeniedRule(octokit, createEventContext(), policy, mergeCommand(), 'write');
+
+    expect(octokit.rest.pulls.get).toHaveBeenCalledTimes(1);
+  });
+
+  describe('team rules', () => {
+    const teamPolicy = parseAuthorizationPolicy(
+      ['merge into main: @acme/release-managers', 'merge into ma*: @acme/release-managers'].join('\n'),
+    );
+
+    it('allows active members of the team', async () => {
+      const octokit = createMockOctokit();
+      setBaseRef(octokit, 'main');
+
+      expect(await findDeniedRule(octokit, createEventContext(), teamPolicy, mergeCommand(), 'write')).toBeNull();
+      expect(octokit.rest.teams.getMembershipForUserInOrg).toHaveBeenCalledWith({
+        org: 'acme',
+        team_slug: 'release-managers',
+        username: 'testactor',
+      });
+      // The membership is read once for both rules naming the team
+      expect(octokit.rest.teams.getMembershipForUserInOrg).toHaveBeenCalledTimes(1);
+    });
+
+    it('shares membership reads with the CODEOWNERS check of the same run', async () => {
+      const octokit = createMockOctokit();
+      setBaseRef(octokit, 'main');
+      octokit.rest.repos.getContent.mockResolvedValue({
+        data: { type: 'file', content: Buffer.from('* @acme/release-managers').toString('base64') },
+      } as unknown as Awaited<ReturnType<typeof octokit.rest.repos.getContent>>);
+      octokit.paginate.mockResolvedValue([{ filename: 'README.md' }]);
+
+      expect(await findDeniedRule(octokit, createEventContext(), teamPolicy, mergeCommand(), 'write')).toBeNull();
+      const approval = await evaluateCodeOwnerApproval(
+        octokit,
+        'testowner',
+        'testrepo',
+        1,
+        'main',
+        ['testactor'],
+        'en',
+      );
+
+      expect(approval.passed).toBe(true);
+      expect(octokit.rest.teams.getMembershipForUserInOrg).toHaveBeenCalledTimes(1);
+    });
+
+    it('denies users whose membership is pending', async () => {
+      const octokit = createMockOctokit();
+      setBaseRef(octokit, 'main');
+      octokit.rest.teams.getMembershipForUserInOrg.mockResolvedValue({
+        data: { state: 'pending' },
+      } as Awaited<ReturnType<typeof octokit.rest.teams.getMembershipForUserInOrg>>);
+
+      const denial = await findDeniedRule(octokit, createEventContext(), teamPolicy, mergeCommand(), 'admin');
+
+      expect(denial).toEqual({ rule: teamPolicy[0], error: null });
+    });
+
+    it('denies users who are not members even with admin permission', async () => {
+      const octokit = createMockOctokit();
+      setBaseRef(octokit, 'main');
+      octokit.rest.teams.getMembershipForUserInOrg.mockRejectedValue(
+        Object.assign(new Error('Not Found'), { status: 404 }),
+      );
+
+      const denial = await findDeniedRule(octokit, createEventContext(), teamPolicy, mergeCommand(), 'admin');
+
+      expect(denial).toEqual({ rule: teamPolicy[0], error: null });
+      expect(octokit.rest.teams.getByName).toHaveBeenCalledWith({ org: 'acme', team_slug: 'release-managers' });
+    });
+
+    it('reports an error when the token cannot read the team', async () => {
+      const octokit = createMockOctokit();
+      setBaseRef(octokit, 'main');
+      octokit.rest.teams.getMembershipForUserInOrg.mockRejectedValue(
+        Object.assign(new Error('Not Found'), { status: 404 }),
+      );
+      octokit.rest.teams.getByName.mockRejectedValue(Object.assign(new Error('Not Found'), { status: 404 }));
+
+      const denial = await findDeniedRule(octokit, createEventContext(), teamPolicy, mergeCommand(), 'admin');
+
+      expect(denial).toEqual({ rule: teamPolicy[0], error: 'Not Found' });
+    });
+
+    it('reports an error when the membership request is forbidden', async () => {
+      const octokit = createMockOctokit();
+      setBaseRef(octokit, 'main');
+      octokit.rest.teams.getMembershipForUserInOrg.mockRejectedValue(
+        Object.assign(new Error('Resource not accessible by integration'), { status: 403 }),
+      );
+
+      const denial = await findDeniedRule(octokit, createEventContext(), teamPolicy, mergeCommand(), 'admin');
+
+      expect(denial?.error).toBe('Resource not accessible by integration');
+      expect(octokit.rest.teams.getByName).not.toHaveBeenCalled();
+    });
+
+    it('does not read the team for base branches without a rule', async () => {
+      const octokit = createMockOctokit();
+
+      expect(await findDeniedRule(octokit, createEventContext(), teamPolicy, mergeCommand(), 'write')).toBeNull();
+      expect(octokit.rest.teams.getMembershipForUserInOrg).not.toHaveBeenCalled();
+    });
+  });
+});
+
+// =============================================================================
+// Tests for describeDenial
+// =============================================================================
+
+describe('describeDenial', () => {
+  const [permissionRule, teamRule] = parseAuthorizationPolicy(
+    'merge into main: maintain\nmerge: @acme/release-managers',
+  );
+
+  it('describes a permission rule the actor does not meet', () => {
+    const { messageKey, params, result } = describeDenial({ rule: permissionRule!, error: null }, 'command', {
+      actor: 'alice',
+      permission: 'write',
+      command: '/nylbot merge',
+    });
+
+    expect(messageKey).toBe('action.permissionDeniedPolicy');
+    expect(params).toMatchObject({
+      requiredPermission: 'maintain',
+      rule: 'merge into main: maintain',
+      permission: 'write',
+    });
+    expect(result).toEqual({
+      status: 'failed',
+      message: 'Denied by authorization policy rule "merge into main: maintain"',
+    });
+  });
+
+  it('describes a team rule for the place the policy was checked', () => {
+    const denial = { rule: teamRule!, error: null };
+
+    expect(
+      describeDenial(denial, 'mergeLabel', { actor: 'alice', permission: 'write', label: 'merge' }).messageKey,
+    ).toBe('mergeLabel.teamDenied');
+    expect(describeDenial(denial, 'autoMerge', { actor: 'alice', permission: 'write' }).messageKey).toBe(
+      'autoMerge.cancelledPolicy',
+    );
+  });
+
+  it('describes a team whose members could not be read', () => {
+    const { messageKey, params, result } = describeDenial({ rule: teamRule!, error: 'Not Found' }, 'mergeQueue', {
+      actor: 'alice',
+      permission: 'write',
+    });
+
+    expect(messageKey).toBe('mergeQueue.teamMembershipUnreadable');
+    expect(params).toMatchObject({ team: 'acme/release-managers', error: 'Not Found' });
+    expect(result).toEqual({
+      status: 'failed',
+      message: 'Could not read the members of @acme/release-managers: Not Found',
+    });
+  });
+});
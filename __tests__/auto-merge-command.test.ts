@@ -0,0 +1,130 @@
+/**
+ * auto-merge-command.test.ts - Tests for auto-merge-command.ts module
+ *
+ * Tests cover handleAutoMergeCommand, which merges immediately when checks pass
+ * and otherwise records an auto-merge request.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { handleAutoMergeCommand } from '../src/auto-merge-command.js';
+import { buildMarker } from '../src/markers.js';
+
+import { createConfig, createEventContext } from './helpers/fixtures.js';
+import { createMockOctokit, type MockedOctokit } from './helpers/octokit.mock.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * Makes the default mock PR blocked (e.g. CI still running).
+ */
+function mockBlockedPullRequest(octokit: MockedOctokit): void {
+  octokit.rest.pulls.get.mockResolvedValue({
+    data: {
+      state: 'open',
+      locked: false,
+      draft: false,
+      merged: false,
+      mergeable: true,
+      mergeable_state: 'blocked',
+      head: { sha: 'abc1234567890', ref: 'feature/test', repo: { fork: false, owner: { id: 1 } } },
+      base: { ref: 'develop', repo: { owner: { id: 1 } } },
+      user: { login: 'testuser' },
+      title: 'feat: test pull request',
+    },
+  } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+}
+
+describe('handleAutoMergeCommand', () => {
+  it('records the request with a label and marker comment when checks are pending', async () => {
+    const octokit = createMockOctokit();
+    mockBlockedPullRequest(octokit);
+
+    const result = await handleAutoMergeCommand(octokit, createEventContext(), createConfig());
+
+    expect(result).toEqual({ status: 'skipped', message: 'Auto-merge enabled' });
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    expect(octokit.rest.pulls.dismissReview).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.addLabels).toHaveBeenCalledWith(
+      expect.objectContaining({ issue_number: 1, labels: ['nylbot:auto-merge'] }),
+    );
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('## Auto-merge enabled');
+    expect(commentBody).toContain(buildMarker('auto-merge', { actor: 'testactor', headSha: 'abc1234567890' }));
+  });
+
+  it('merges immediately when every check already passes', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockImplementation(async (endpoint: unknown) =>
+      endpoint === octokit.rest.pulls.listReviews
+        ? [{ id: 1, user: { login: 'reviewer' }, state: 'APPROVED', commit_id: 'abc1234567890' }]
+        : [],
+    );
+
+    const result = await handleAutoMergeCommand(octokit, createEventContext(), createConfig());
+
+    expect(result.status).toBe('merged');
+    expect(octokit.rest.issues.addLabels).not.toHaveBeenCalled();
+  });
+
+  it('replaces an existing request', async () => {
+    const octokit = createMockOctokit();
+    mockBlockedPullRequest(octokit);
+    const oldMarker = buildMarker('auto-merge', { actor: 'someone', headSha: 'old0000000000' });
+    octokit.paginate.mockResolvedValueOnce([
+      { id: 9, body: oldMarker, user: { login: 'github-actions[bot]', type: 'Bot' } },
+    ]);
+
+    await handleAutoMergeCommand(octokit, createEventContext(), createConfig());
+
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: 9 }));
+    expect(octokit.rest.issues.addLabels).toHaveBeenCalled();
+  });
+
+  it('rejects fork PRs', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.get.mockResolvedValue({
+      data: {
+        state: 'open',
+        locked: false,
+        draft: false,
+        merged: false,
+        mergeable: true,
+        mergeable_state: 'clean',
+        head: { sha: 'abc1234567890', ref: 'feature/test', repo: { fork: true, owner: { id: 2 } } },
+        base: { ref: 'develop', repo: { owner: { id: 1 } } },
+        user: { login: 'testuser' },
+        title: 'feat: test pull request',
+      },
+    } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+
+    const result = await handleAutoMergeCommand(octokit, createEventContext(), createConfig());
+
+    expect(result).toEqual({ status: 'failed', message: 'Fork PR not supported' });
+    expect(octokit.rest.issues.addLabels).not.toHaveBeenCalled();
+  });
+
+  it('reports already merged PRs', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.get.mockResolvedValue({
+      data: {
+        state: 'closed',
+        locked: false,
+        draft: false,
+        merged: true,
+        mergeable: null,
+        mergeable_state: 'unknown',
+        head: { sha: 'abc1234567890', ref: 'feature/test', repo: { fork: false, owner: { id: 1 } } },
+        base: { ref: 'develop', repo: { owner: { id: 1 } } },
+        user: { login: 'testuser' },
+        title: 'feat: test pull request',
+      },
+    } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+
+    const result = await handleAutoMergeCommand(octokit, createEventContext(), createConfig());
+
+    expect(result.status).toBe('already_merged');
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * auto-merge.test.ts - Tests for auto-merge.ts module
+ *
+ * Tests cover reading and clearing auto-merge requests and processing the
+ * events that merge queued PRs once their checks pass.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { parseAuthorizationPolicy } from '../src/authorization.js';
+import { findAutoMergeRequest, clearAutoMergeRequest, handleAutoMergeEvent } from '../src/auto-merge.js';
+import { buildMarker } from '../src/markers.js';
+import type { EventContext } from '../src/types.js';
+
+import { createConfig, createEventContext } from './helpers/fixtures.js';
+import { createMockOctokit, type MockedOctokit } from './helpers/octokit.mock.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * A pull_request event for PR #1 (no comment, so no command actor of its own).
+ */
+const PULL_REQUEST_EVENT: Partial<EventContext> = {
+  comment: { kind: 'issue_comment', id: 0, nodeId: 'IC_node123' },
+  commentBody: '',
+  actor: 'ci-user',
+  authorAssociation: 'NONE',
+  eventName: 'pull_request',
+  isPullRequest: false,
+};
+
+const MARKER_BODY = `## Auto-merge enabled\n\n${buildMarker('auto-merge', { actor: 'requester', headSha: 'abc1234567890' })}`;
+
+/**
+ * Sets up paginate so that the given PRs are queued with a marker comment and have one valid approval.
+ */
+function setupQueuedPullRequest(
+  octokit: MockedOctokit,
+  markerBodies: string | string[] = MARKER_BODY,
+  queued = [1],
+): void {
+  octokit.paginate.mockImplementation(async (endpoint: unknown) => {
+    if (endpoint === octokit.rest.issues.listForRepo) {
+      return queued.map((number) => ({ number, pull_request: {} }));
+    }
+    if (endpoint === octokit.rest.issues.listComments) {
+      return [markerBodies].flat().map((body, index) => ({
+        id: 77 + index,
+        body,
+        user: { login: 'github-actions[bot]', type: 'Bot' },
+      }));
+    }
+    if (endpoint === octokit.rest.pulls.listReviews) {
+      return [{ id: 1, user: { login: 'reviewer' }, state: 'APPROVED', commit_id: 'abc1234567890' }];
+    }
+    return [];
+  });
+}
+
+// =============================================================================
+// Tests for findAutoMergeRequest / clearAutoMergeRequest
+// =============================================================================
+
+describe('findAutoMergeRequest', () => {
+  it('returns the request recorded in the latest bot marker comment', async () => {
+    const octokit = createMockOctokit();
+    setupQueuedPullRequest(octokit);
+
+    const request = await findAutoMergeRequest(octokit, 'testowner', 'testrepo', 1);
+
+    expect(request).toEqual({
+      commentId: 77,
+      commentBody: MARKER_BODY,
+      actor: 'requester',
+      headSha: 'abc1234567890',
+    });
+  });
+
+  it('returns null when the marker lacks required fields', async () => {
+    const octokit = createMockOctokit();
+    setupQueuedPullRequest(octokit, buildMarker('auto-merge', { actor: 'requester' }));
+
+    expect(await findAutoMergeRequest(octokit, 'testowner', 'testrepo', 1)).toBeNull();
+  });
+});
+
+describe('clearAutoMergeRequest', () => {
+  it('removes the label and strips the marker from the comment', async () => {
+    const octokit = createMockOctokit();
+
+    await clearAutoMergeRequest(octokit, 'testowner', 'testrepo', 1, createConfig(), {
+      commentId: 77,
+      commentBody: MARKER_BODY,
+      actor: 'requester',
+      headSha: 'abc1234567890',
+    });
+
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalledWith(
+      expect.objectContaining({ issue_number: 1, name: 'nylbot:auto-merge' }),
+    );
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledWith(
+      expect.objectContaining({ comment_id: 77, body: '## Auto-merge enabled' }),
+    );
+  });
+});
+
+// =============================================================================
+// Tests for handleAutoMergeEvent
+// =============================================================================
+
+describe('handleAutoMergeEvent', () => {
+  it('skips when no queued PR matches the event', async () => {
+    const octokit = createMockOctokit();
+
+    const result = await handleAutoMergeEvent(octokit, createEventContext(PULL_REQUEST_EVENT), createConfig());
+
+    expect(result).toEqual({ status: 'skipped', message: 'No queued auto-merge requests for this event' });
+    expect(octokit.rest.pulls.get).not.toHaveBeenCalled();
+  });
+
+  it('merges a queued PR on behalf of the requester once checks pass', async () => {
+    const octokit = createMockOctokit();
+    setupQueuedPullRequest(octokit);
+
+    const result = await handleAutoMergeEvent(octokit, createEventContext(PULL_REQUEST_EVENT), createConfig());
+
+    expect(result.status).toBe('merged');
+    expect(octokit.rest.pulls.merge).toHaveBeenCalledTimes(1);
+    expect(octokit.rest.pulls.merge.mock.calls[0]?.[0]?.commit_message).toContain('on behalf of @requester');
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalled();
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalled();
+  });
+
+  it('keeps the request and stays silent while checks are not passing', async () => {
+    const octokit = createMockOctokit();
+    setupQueuedPullRequest(octokit);
+    octokit.rest.pulls.get.mockResolvedValue({
+      data: {
+        state: 'open',
+        locked: false,
+        draft: false,
+        merged: false,
+        mergeable: true,
+        mergeable_state: 'blocked',
+        head: { sha: 'abc1234567890', ref: 'feature/test', repo: { fork: false, owner: { id: 1 } } },
+        base: { ref: 'develop', repo: { owner: { id: 1 } } },
+        user: { login: 'testuser' },
+        title: 'feat: test pull request',
+      },
+    } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+
+    const result = await handleAutoMergeEvent(octokit, createEventContext(PULL_REQUEST_EVENT), createConfig());
+
+    expect(result).toEqual({ status: 'skipped', message: 'Auto-merge pending: merge checks not yet passing' });
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.removeLabel).not.toHaveBeenCalled();
+  });
+
+  it('invalidates the request when the HEAD SHA changed', async () => {
+    const octokit = createMockOctokit();
+    setupQueuedPullRequest(octokit, buildMarker('auto-merge', { actor: 'requester', headSha: 'old0000000000' }));
+
+    const result = await handleAutoMergeEvent(octokit, createEventContext(PULL_REQUEST_EVENT), createConfig());
+
+    expect(result).toEqual({ status: 'skipped', message: 'Auto-merge request invalidated by new commits' });
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalled();
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('## Auto-merge cancelled');
+    expect(commentBody).toContain('Requested HEAD SHA: old0000000000');
+  });
+
+  it('hands the PR over to the merge queue when the merge queue is enabled', async () => {
+    const octokit = createMockOctokit();
+    setupQueuedPullRequest(octokit);
+
+    await handleAutoMergeEvent(octokit, createEventContext(PULL_REQUEST_EVENT), createConfig({ mergeQueue: true }));
+
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('## Queued for merge');
+    expect(commentBody).toContain('@requester added this PR');
+    expect(octokit.rest.issues.addLabels).toHaveBeenCalledWith(
+      expect.objectContaining({ labels: ['nylbot:merge-queue'] }),
+    );
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'nylbot:auto-merge' }),
+    );
+  });
+
+  it('keeps the request when HEAD moved only by a nylbot branch update', async () => {
+    const octokit = createMockOctokit();
+    setupQueuedPullRequest(octokit, [
+      buildMarker('auto-merge', { actor: 'requester', headSha: 'old0000000000' }),
+      buildMarker('branch-update', { fromSha: 'old0000000000', toSha: 'abc1234567890' }),
+    ]);
+
+    const result = await handleAutoMergeEvent(octokit, createEventContext(PULL_REQUEST_EVENT), createConfig());
+
+    expect(result.status).toBe('merged');
+    expect(octokit.rest.pulls.merge).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels the request when the requester lost write permission', async () => {
+    const octokit = createMockOctokit();
+    setupQueuedPullRequest(octokit);
+    octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValue({
+      data: { permission: 'read' },
+    } as Awaited<ReturnType<typeof octokit.rest.repos.getCollaboratorPermissionLevel>>);
+
+    const result = await handleAutoMergeEvent(octokit, createEventContext(PULL_REQUEST_EVENT), createConfig());
+
+    expect(result).toEqual({ status: 'failed', message: 'Auto-merge requester lost permission' });
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalled();
+  });
+
+  it('cancels the request when the authorization policy no longer allows the requester to merge', async () => {
+    const octokit = createMockOctokit();
+    setupQueuedPullRequest(octokit);
+    octokit.rest.teams.getMembershipForUserInOrg.mockRejectedValue(
+      Object.assign(new Error('Not Found'), { status: 404 }),
+    );
+
+    const result = await handleAutoMergeEvent(
+      octokit,
+      createEventContext(PULL_REQUEST_EVENT),
+      createConfig({ authorizationPolicy: parseAuthorizationPolicy('merge: @acme/release-managers') }),
+    );
+
+    expect(result).toEqual({
+      status: 'failed',
+      message: 'Denied by authorization policy rule "merge: @acme/release-managers"',
+    });
+    expect(octokit.rest.teams.getMembershipForUserInOrg).toHaveBeenCalledWith(
+      expect.objectContaining({ username: 'requester' }),
+    );
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalled();
+    expect(octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body).toContain(
+      'Authorization policy rule: `merge: @acme/release-managers`',
+    );
+  });
+
+  it('only considers queued PRs whose HEAD matches the commit of check_suite/status events', async () => {
+    const octokit = createMockOctokit();
+    setupQueuedPullRequest(octokit);
+
+    const result = await handleAutoMergeEvent(
+      octokit,
+      createEventContext({ ...PULL_REQUEST_EVENT, eventName: 'status', prNumber: 0, eventSha: 'other-sha' }),
+      createConfig(),
+    );
+
+    expect(result).toEqual({ status: 'skipped', message: 'Event is for a different commit' });
+    expect(octokit.rest.issues.listComments).not.toHaveBeenCalled();
+    expect(octokit.paginate).toHaveBeenCalledTimes(1);
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+  });
+
+  it('reports the merged PR when a commit event concerns several queued PRs', async () => {
+    const octokit = createMockOctokit();
+    setupQueuedPullRequest(octokit, MARKER_BODY, [1, 2]);
+    octokit.rest.pulls.get.mockImplementation((async (params: { pull_number: number }) => {
+      const data = {
+        state: 'open',
+        locked: false,
+        draft: false,
+        merged: false,
+        mergeable: true,
+        mergeable_state: 'clean',
+        head: {
+          sha: params.pull_number === 1 ? 'abc1234567890' : 'other-sha',
+          ref: 'feature/test',
+          repo: { fork: false, owner: { id: 1 } },
+        },
+        base: { ref: 'develop', repo: { owner: { id: 1 } } },
+        user: { login: 'testuser' },
+        title: 'feat: test pull request',
+      };
+      return { data };
+    }) as unknown as MockedOctokit['rest']['pulls']['get']);
+
+    const result = await handleAutoMergeEvent(
+      octokit,
+      createEventContext({ ...PULL_REQUEST_EVENT, eventName: 'check_suite', prNumber: 0, eventSha: 'abc1234567890' }),
+      createConfig(),
+    );
+
+    expect(result.status).toBe('merged');
+    expect(octokit.rest.pulls.merge).toHaveBeenCalledTimes(1);
+  });
+
+  it('merges for check_suite events on the queued commit', async () => {
+    const octokit = createMockOctokit();
+    setupQueuedPullRequest(octokit);
+
+    const result = await handleAutoMergeEvent(
+      octokit,
+      createEventContext({ ...PULL_REQUEST_EVENT, eventName: 'check_suite', prNumber: 0, eventSha: 'abc1234567890' }),
+      createConfig(),
+    );
+
+    expect(result.status).toBe('merged');
+  });
+
+  it('clears the request and explains when the merge attempt fails', async () => {
+    const octokit = createMockOctokit();
+    setupQueuedPullRequest(octokit);
+    octokit.rest.pulls.merge.mockRejectedValue(new Error('Base branch was modified'));
+
+    const result = await handleAutoMergeEvent(octokit, createEventContext(PULL_REQUEST_EVENT), createConfig());
+
+    expect(result.status).toBe('failed');
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalled();
+    const comments = octokit.rest.issues.createComment.mock.calls.map((c) => c[0]?.body ?? '');
+    expect(comments.at(-1)).toContain('## Auto-merge cancelled');
+  });
+});
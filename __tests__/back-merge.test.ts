@@ -0,0 +1,109 @@
+/**
+ * back-merge.test.ts - Tests for back-merge.ts module
+ *
+ * Tests cover openBackMergePullRequest: creating the sync branch from the release
+ * merge commit, opening the PR into develop, and leaving existing branches alone.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { openBackMergePullRequest } from '../src/back-merge.js';
+import type { ActionConfig, PullRequestData } from '../src/types.js';
+
+import { createConfig, createPRData } from './helpers/fixtures.js';
+import { createMockOctokit } from './helpers/octokit.mock.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * A release PR merged into main.
+ */
+const MERGED_RELEASE_PR: Partial<PullRequestData> = {
+  state: 'closed',
+  merged: true,
+  mergeable: null,
+  mergeableState: 'unknown',
+  headSha: 'head123456789',
+  headRef: 'release/1.2.0',
+  baseRef: 'main',
+  title: 'chore(release): 1.2.0',
+};
+
+/**
+ * Config with back-merges enabled.
+ */
+const BACK_MERGE_CONFIG: Partial<ActionConfig> = { backMerge: true };
+
+const PLAN = { branch: 'fix/sync/1.2.0', title: 'chore(sync): back-merge release/1.2.0 into develop' };
+
+describe('openBackMergePullRequest', () => {
+  it('creates the sync branch from the merge commit and opens the PR into develop', async () => {
+    const octokit = createMockOctokit();
+
+    const result = await openBackMergePullRequest(
+      octokit,
+      'owner',
+      'repo',
+      7,
+      createPRData(MERGED_RELEASE_PR),
+      PLAN,
+      'merge123',
+      createConfig(BACK_MERGE_CONFIG),
+    );
+
+    expect(result).toEqual({ branch: 'fix/sync/1.2.0', pullRequestNumber: 100 });
+    expect(octokit.rest.git.createRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'refs/heads/fix/sync/1.2.0', sha: 'merge123' }),
+    );
+    expect(octokit.rest.pulls.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: 'chore(sync): back-merge release/1.2.0 into develop',
+        head: 'fix/sync/1.2.0',
+        base: 'develop',
+      }),
+    );
+    expect(octokit.rest.pulls.create.mock.calls[0]?.[0]?.body).toContain('after #7 merged it into `main`');
+  });
+
+  it('does not touch an existing sync branch', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.git.getRef.mockResolvedValue({
+      data: { object: { sha: 'existing' } },
+    } as Awaited<ReturnType<typeof octokit.rest.git.getRef>>);
+
+    const result = await openBackMergePullRequest(
+      octokit,
+      'owner',
+      'repo',
+      7,
+      createPRData(MERGED_RELEASE_PR),
+      PLAN,
+      'merge123',
+      createConfig(BACK_MERGE_CONFIG),
+    );
+
+    expect(result).toEqual({ branch: 'fix/sync/1.2.0', error: 'branch `fix/sync/1.2.0` already exists' });
+    expect(octokit.rest.git.createRef).not.toHaveBeenCalled();
+  });
+
+  it('deletes the sync branch when the PR cannot be opened', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.create.mockRejectedValue(new Error('No commits between develop and fix/sync/1.2.0'));
+
+    const result = await openBackMergePullRequest(
+      octokit,
+      'owner',
+      'repo',
+      7,
+      createPRData(MERGED_RELEASE_PR),
+      PLAN,
+      'merge123',
+      createConfig(BACK_MERGE_CONFIG),
+    );
+
+    expect(result).toEqual({ branch: 'fix/sync/1.2.0', error: 'No commits between develop and fix/sync/1.2.0' });
+    expect(octokit.rest.git.deleteRef).toHaveBeenCalledWith(expect.objectContaining({ ref: 'heads/fix/sync/1.2.0' }));
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * backport-command.test.ts - Tests for backport-command.ts module
+ *
+ * Tests cover handleBackportCommand: validating targets, scheduling the backport on
+ * an open PR, and backporting a merged PR right away.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { handleBackportCommand } from '../src/backport-command.js';
+import { buildMarker } from '../src/markers.js';
+
+import { createConfig, createEventContext } from './helpers/fixtures.js';
+import { createMockOctokit, type MockedOctokit } from './helpers/octokit.mock.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * Creates a pulls.get response for the default PR with the given fields replaced.
+ */
+function createPullRequestResponse(
+  overrides: { state?: string; merged?: boolean; baseRef?: string } = {},
+): Awaited<ReturnType<MockedOctokit['rest']['pulls']['get']>> {
+  return {
+    data: {
+      state: overrides.state ?? 'open',
+      locked: false,
+      draft: false,
+      merged: overrides.merged ?? false,
+      mergeable: true,
+      mergeable_state: 'clean',
+      head: { sha: 'abc1234567890', ref: 'fix/bug', repo: { fork: false, owner: { id: 1 } } },
+      base: { ref: overrides.baseRef ?? 'develop', repo: { owner: { id: 1 } } },
+      user: { login: 'testuser' },
+      title: 'fix: resolve bug',
+      merge_commit_sha: overrides.merged ? 'merge123' : null,
+    },
+  } as Awaited<ReturnType<MockedOctokit['rest']['pulls']['get']>>;
+}
+
+/**
+ * Makes the given branches exist (all pointing to the same commit).
+ */
+function setBranches(octokit: MockedOctokit, branches: string[]): void {
+  octokit.rest.git.getRef.mockImplementation((async (params?: { ref?: string }) => {
+    if (!branches.includes(params?.ref?.replace(/^heads\//, '') ?? '')) {
+      throw new Error('Not Found');
+    }
+    return { data: { object: { sha: 'release123' } } };
+  }) as unknown as MockedOctokit['rest']['git']['getRef']);
+}
+
+describe('handleBackportCommand', () => {
+  it('schedules the backport on an open PR', async () => {
+    const octokit = createMockOctokit();
+    setBranches(octokit, ['release/1.2', 'release/1.3']);
+
+    const result = await handleBackportCommand(octokit, createEventContext(), createConfig(), [
+      'release/1.2',
+      'release/1.3',
+    ]);
+
+    expect(result).toEqual({ status: 'skipped', message: 'Backport scheduled' });
+    const body = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(body).toContain('## Backport scheduled');
+    expect(body).toContain('- `release/1.2`\n- `release/1.3`');
+    expect(body).toContain(buildMarker('backport', { actor: 'testactor', targets: 'release/1.2,release/1.3' }));
+    expect(octokit.rest.git.createRef).not.toHaveBeenCalled();
+  });
+
+  it('backports a merged PR right away', async () => {
+    const octokit = createMockOctokit();
+    setBranches(octokit, ['release/1.2']);
+    octokit.rest.pulls.get.mockResolvedValue(createPullRequestResponse({ state: 'closed', merged: true }));
+    octokit.rest.git.getCommit.mockResolvedValue({
+      data: { tree: { sha: 'tree' }, parents: [{ sha: 'base1' }], message: 'fix: resolve bug (#1)', author: {} },
+    } as Awaited<ReturnType<typeof octokit.rest.git.getCommit>>);
+
+    const result = await handleBackportCommand(octokit, createEventContext(), createConfig(), ['release/1.2']);
+
+    expect(result).toEqual({ status: 'skipped', message: 'Backported to release/1.2' });
+    expect(octokit.rest.pulls.create).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'fix: resolve bug [backport release/1.2]', base: 'release/1.2' }),
+    );
+  });
+
+  it('rejects targets that are not release branches or are the PR base branch', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.get.mockResolvedValue(createPullRequestResponse({ baseRef: 'release/1.2' }));
+
+    const result = await handleBackportCommand(octokit, createEventContext(), createConfig(), [
+      'main',
+      'release/1.2',
+      'release/1.3',
+    ]);
+
+    expect(result).toEqual({ status: 'failed', message: 'Invalid backport target' });
+    const body = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(body).toContain('Invalid: `main`, `release/1.2`');
+    expect(octokit.rest.git.getRef).not.toHaveBeenCalled();
+  });
+
+  it('rejects targets that do not exist', async () => {
+    const octokit = createMockOctokit();
+    setBranches(octokit, ['release/1.2']);
+
+    const result = await handleBackportCommand(octokit, createEventContext(), createConfig(), [
+      'release/1.2',
+      'release/9.9',
+    ]);
+
+    expect(result).toEqual({ status: 'failed', message: 'Backport target not found' });
+    const body = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(body).toContain('`release/9.9`');
+    expect(body).not.toContain('`release/1.2`');
+  });
+
+  it('rejects PRs closed without merging', async () => {
+    const octokit = createMockOctokit();
+    setBranches(octokit, ['release/1.2']);
+    octokit.rest.pulls.get.mockResolvedValue(createPullRequestResponse({ state: 'closed' }));
+
+    const result = await handleBackportCommand(octokit, createEventContext(), createConfig(), ['release/1.2']);
+
+    expect(result).toEqual({ status: 'failed', message: 'PR is not open' });
+    expect(octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body).toContain('## Cannot backport');
+  });
+});
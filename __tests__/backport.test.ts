@@ -0,0 +1,477 @@
+/**
+ * backport.test.ts - Tests for backport.ts module
+ *
+ * Tests cover replaying a merged PR onto release branches through the Git Data API
+ * (squash, merge commit, and rebase merges, conflicts, and targets that already have
+ * the changes), and running backports scheduled before the merge (re-checking the requester
+ * and the targets).
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { backportPullRequest, handleBackportEvent, runScheduledBackports } from '../src/backport.js';
+import { buildMarker } from '../src/markers.js';
+import type { PullRequestData } from '../src/types.js';
+
+import { createConfig, createEventContext, createPRData } from './helpers/fixtures.js';
+import { createMockOctokit, type MockedOctokit } from './helpers/octokit.mock.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * A PR squash-merged into develop as `merge123`.
+ */
+const MERGED_PR: Partial<PullRequestData> = {
+  state: 'closed',
+  merged: true,
+  mergeable: null,
+  mergeableState: 'unknown',
+  headSha: 'head123456789',
+  headRef: 'fix/bug',
+  title: 'fix: resolve bug',
+  mergeCommitSha: 'merge123',
+};
+
+const AUTHOR = { name: 'Alice', email: 'alice@example.com', date: '2024-01-01T00:00:00Z' };
+
+/**
+ * Sets up the repository: release branches and commits by SHA.
+ * The merge commit `merge123` has the given parents; `base1` has `base0` as its parent.
+ */
+function setupRepository(
+  octokit: MockedOctokit,
+  options: { mergeParents?: string[]; branches?: Record<string, string> } = {},
+): void {
+  const branches = options.branches ?? { 'release/1.2': 'release123' };
+  const commits: Record<string, { tree: string; parents: string[]; message: string }> = {
+    merge123: { tree: 'mergetree', parents: options.mergeParents ?? ['base1'], message: 'fix: resolve bug (#1)' },
+    base1: { tree: 'basetree1', parents: ['base0'], message: 'chore: previous' },
+    release123: { tree: 'releasetree', parents: ['release0'], message: 'chore: release 1.2' },
+  };
+
+  octokit.rest.git.getRef.mockImplementation((async (params?: { ref?: string }) => {
+    const sha = branches[params?.ref?.replace(/^heads\//, '') ?? ''];
+    if (sha === undefined) {
+      throw new Error('Not Found');
+    }
+    return { data: { object: { sha } } };
+  }) as unknown as MockedOctokit['rest']['git']['getRef']);
+
+  octokit.rest.git.getCommit.mockImplementation((async (params?: { commit_sha?: string }) => {
+    const commit = commits[params?.commit_sha ?? ''];
+    if (commit === undefined) {
+      throw new Error('Not Found');
+    }
+    return {
+      data: {
+        tree: { sha: commit.tree },
+        parents: commit.parents.map((sha) => ({ sha })),
+        message: commit.message,
+        author: AUTHOR,
+      },
+    };
+  }) as unknown as MockedOctokit['rest']['git']['getCommit']);
+}
+
+/**
+ * Returns the body of the n-th posted comment.
+ */
+function commentBody(octokit: MockedOctokit, index = 0): string {
+  return octokit.rest.issues.createComment.mock.calls[index]?.[0]?.body ?? '';
+}
+
+// =============================================================================
+// Tests for backportPullRequest
+// =============================================================================
+
+describe('backportPullRequest', () => {
+  it('replays a squash commit onto the target branch and opens a backport PR', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit);
+
+    const result = await backportPullRequest(
+      octokit,
+      createEventContext(),
+      1,
+      createPRData(MERGED_PR),
+      ['release/1.2'],
+      'req',
+      createConfig(),
+    );
+
+    expect(result).toEqual({ status: 'skipped', message: 'Backported to release/1.2' });
+    // Temporary commit: the target tree on top of the squash commit's parent
+    expect(octokit.rest.git.createCommit.mock.calls[0]?.[0]).toEqual(
+      expect.objectContaining({ tree: 'releasetree', parents: ['base1'] }),
+    );
+    expect(octokit.rest.git.createRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'refs/heads/backport/1/release/1.2', sha: 'commit123456789' }),
+    );
+    expect(octokit.rest.repos.merge).toHaveBeenCalledWith(
+      expect.objectContaining({ base: 'backport/1/release/1.2', head: 'merge123' }),
+    );
+    // Backport commit: the merged tree on top of the target branch, keeping message and author
+    expect(octokit.rest.git.createCommit.mock.calls[1]?.[0]).toEqual(
+      expect.objectContaining({
+        tree: 'tree123456789',
+        parents: ['release123'],
+        message: 'fix: resolve bug (#1)\n\n(cherry picked from commit merge123)',
+        author: AUTHOR,
+      }),
+    );
+    expect(octokit.rest.git.updateRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'heads/backport/1/release/1.2', force: true }),
+    );
+    expect(octokit.rest.pulls.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: 'fix: resolve bug [backport release/1.2]',
+        head: 'backport/1/release/1.2',
+        base: 'release/1.2',
+      }),
+    );
+    expect(octokit.rest.pulls.create.mock.calls[0]?.[0]?.body).toContain('requested by @req');
+    expect(commentBody(octokit)).toContain('| `release/1.2` | ✅ #100 |');
+  });
+
+  it('names the temporary commits after the configured bot', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit);
+
+    await backportPullRequest(
+      octokit,
+      createEventContext(),
+      1,
+      createPRData(MERGED_PR),
+      ['release/1.2'],
+      'req',
+      createConfig({ botName: 'shipit' }),
+    );
+
+    expect(octokit.rest.git.createCommit.mock.calls[0]?.[0]?.message).toBe(
+      'shipit: backport #1 to release/1.2 (temporary)',
+    );
+    expect(octokit.rest.repos.merge).toHaveBeenCalledWith(
+      expect.objectContaining({ commit_message: 'shipit: backport #1 to release/1.2 (temporary)' }),
+    );
+  });
+
+  it('replays a merge commit against its first parent and reports conflicts with manual steps', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, { mergeParents: ['base1', 'head123456789'] });
+    octokit.rest.repos.merge.mockRejectedValue(Object.assign(new Error('Merge conflict'), { status: 409 }));
+
+    const result = await backportPullRequest(
+      octokit,
+      createEventContext(),
+      1,
+      createPRData(MERGED_PR),
+      ['release/1.2'],
+      'req',
+      createConfig(),
+    );
+
+    expect(result).toEqual({ status: 'failed', message: 'Backport failed for release/1.2' });
+    expect(octokit.rest.git.createCommit.mock.calls[0]?.[0]).toEqual(expect.objectContaining({ parents: ['base1'] }));
+    expect(octokit.rest.git.deleteRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'heads/backport/1/release/1.2' }),
+    );
+    expect(octokit.rest.pulls.create).not.toHaveBeenCalled();
+    const body = commentBody(octokit);
+    expect(body).toContain('| `release/1.2` | ❌ Conflicts |');
+    expect(body).toContain('> git switch -c backport/1/release/1.2 origin/release/1.2');
+    expect(body).toContain('> git cherry-pick -x -m 1 merge123');
+  });
+
+  it('replays every commit of a rebase merge', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit);
+    // Two PR commits; the last one kept its message when rebased onto the base branch
+    octokit.paginate.mockResolvedValue([
+      { commit: { message: 'fix: first step' } },
+      { commit: { message: 'fix: resolve bug (#1)' } },
+    ]);
+
+    await backportPullRequest(
+      octokit,
+      createEventContext(),
+      1,
+      createPRData(MERGED_PR),
+      ['release/1.2'],
+      'req',
+      createConfig(),
+    );
+
+    expect(octokit.rest.git.createCommit.mock.calls[0]?.[0]).toEqual(expect.objectContaining({ parents: ['base0'] }));
+    expect(octokit.rest.git.createCommit.mock.calls[1]?.[0]?.message).toBe(
+      'fix: resolve bug (#1)\n\n(cherry picked from commit merge123)',
+    );
+  });
+
+  it('opens no PR when the target branch already has the changes', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit);
+    octokit.rest.repos.merge.mockResolvedValue({
+      data: { commit: { tree: { sha: 'releasetree' } } },
+    } as Awaited<ReturnType<typeof octokit.rest.repos.merge>>);
+
+    const result = await backportPullRequest(
+      octokit,
+      createEventContext(),
+      1,
+      createPRData(MERGED_PR),
+      ['release/1.2'],
+      'req',
+      createConfig(),
+    );
+
+    expect(result).toEqual({ status: 'skipped', message: 'Backported to release/1.2' });
+    expect(octokit.rest.git.deleteRef).toHaveBeenCalled();
+    expect(octokit.rest.pulls.create).not.toHaveBeenCalled();
+    expect(commentBody(octokit)).toContain('ℹ️ Already contains these changes');
+  });
+
+  it('reports each target separately', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, {
+      branches: { 'release/1.2': 'release123', 'release/1.3': 'release123', 'backport/1/release/1.3': 'old' },
+    });
+
+    const result = await backportPullRequest(
+      octokit,
+      createEventContext(),
+      1,
+      createPRData(MERGED_PR),
+      ['release/1.2', 'release/1.3', 'release/1.4'],
+      'req',
+      createConfig(),
+    );
+
+    expect(result).toEqual({ status: 'failed', message: 'Backport failed for release/1.3, release/1.4' });
+    expect(octokit.rest.pulls.create).toHaveBeenCalledTimes(1);
+    const body = commentBody(octokit);
+    expect(body).toContain('| `release/1.2` | ✅ #100 |');
+    expect(body).toContain('| `release/1.3` | ❌ Branch `backport/1/release/1.3` already exists |');
+    expect(body).toContain('| `release/1.4` | ❌ Target branch does not exist |');
+  });
+
+  it('cleans up the branch when an API call fails', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit);
+    octokit.rest.pulls.create.mockRejectedValue(new Error('Validation Failed'));
+
+    const result = await backportPullRequest(
+      octokit,
+      createEventContext(),
+      1,
+      createPRData(MERGED_PR),
+      ['release/1.2'],
+      'req',
+      createConfig(),
+    );
+
+    expect(result).toEqual({ status: 'failed', message: 'Backport failed for release/1.2' });
+    expect(octokit.rest.git.deleteRef).toHaveBeenCalled();
+    expect(commentBody(octokit)).toContain('| `release/1.2` | ❌ Validation Failed |');
+  });
+
+  it('fails when GitHub reports no merge commit', async () => {
+    const octokit = createMockOctokit();
+
+    const result = await backportPullRequest(
+      octokit,
+      createEventContext(),
+      1,
+      createPRData({ ...MERGED_PR, mergeCommitSha: null }),
+      ['release/1.2'],
+      'req',
+      createConfig(),
+    );
+
+    expect(result).toEqual({ status: 'failed', message: 'Backport failed: no merge commit' });
+    expect(octokit.rest.git.createRef).not.toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// Tests for runScheduledBackports / handleBackportEvent
+// =============================================================================
+
+/**
+ * Makes the PR comments hold the given backport markers (bot comments, IDs from 10).
+ */
+function setupScheduledBackports(octokit: MockedOctokit, markers: Array<{ actor: string; targets: string }>): void {
+  octokit.paginate.mockImplementation(async (endpoint: unknown) => {
+    if (endpoint === octokit.rest.issues.listComments) {
+      return markers.map((data, i) => ({
+        id: 10 + i,
+        body: `## Backport scheduled\n\n${buildMarker('backport', data)}`,
+        user: { login: 'github-actions[bot]', type: 'Bot' },
+      }));
+    }
+    return [];
+  });
+}
+
+describe('runScheduledBackports', () => {
+  it('runs each scheduled backport once and clears the markers', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, { branches: { 'release/1.2': 'release123', 'release/1.3': 'release123' } });
+    setupScheduledBackports(octokit, [
+      { actor: 'alice', targets: 'release/1.2' },
+      { actor: 'bob', targets: 'release/1.2,release/1.3' },
+    ]);
+
+    const result = await runScheduledBackports(
+      octokit,
+      createEventContext(),
+      1,
+      createPRData(MERGED_PR),
+      createConfig(),
+    );
+
+    expect(result).toEqual({
+      status: 'skipped',
+      message: 'Backported to release/1.2; Backported to release/1.3',
+    });
+    expect(octokit.rest.pulls.create).toHaveBeenCalledTimes(2);
+    expect(octokit.rest.pulls.create.mock.calls[1]?.[0]?.base).toBe('release/1.3');
+    expect(octokit.rest.pulls.create.mock.calls[1]?.[0]?.body).toContain('requested by @bob');
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledTimes(2);
+    expect(octokit.rest.issues.updateComment.mock.calls[0]?.[0]).toEqual(
+      expect.objectContaining({ comment_id: 10, body: '## Backport scheduled' }),
+    );
+  });
+
+  it('does not run backports of a requester who lost permission', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit);
+    setupScheduledBackports(octokit, [{ actor: 'alice', targets: 'release/1.2' }]);
+    octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValue({
+      data: { permission: 'read' },
+    } as Awaited<ReturnType<typeof octokit.rest.repos.getCollaboratorPermissionLevel>>);
+
+    const result = await runScheduledBackports(
+      octokit,
+      createEventContext(),
+      1,
+      createPRData(MERGED_PR),
+      createConfig(),
+    );
+
+    expect(result).toEqual({ status: 'failed', message: 'Backport requester lost permission' });
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalled();
+    expect(octokit.rest.pulls.create).not.toHaveBeenCalled();
+    expect(commentBody(octokit)).toContain('## Backport cancelled');
+  });
+
+  it('cancels targets deleted since scheduling and runs the others', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit);
+    setupScheduledBackports(octokit, [{ actor: 'alice', targets: 'release/1.1,release/1.2' }]);
+
+    const result = await runScheduledBackports(
+      octokit,
+      createEventContext(),
+      1,
+      createPRData(MERGED_PR),
+      createConfig(),
+    );
+
+    expect(result).toEqual({ status: 'failed', message: 'Backport cancelled for release/1.1' });
+    expect(commentBody(octokit, 0)).toContain('The scheduled backport to `release/1.1` was not run');
+    expect(commentBody(octokit, 0)).toContain('no longer exists');
+    expect(octokit.rest.pulls.create).toHaveBeenCalledTimes(1);
+    expect(octokit.rest.pulls.create.mock.calls[0]?.[0]?.base).toBe('release/1.2');
+  });
+
+  it('cancels every target that is no longer valid without creating commits', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit);
+    setupScheduledBackports(octokit, [{ actor: 'alice', targets: 'develop,release/1.3' }]);
+
+    const result = await runScheduledBackports(
+      octokit,
+      createEventContext(),
+      1,
+      createPRData(MERGED_PR),
+      createConfig(),
+    );
+
+    expect(result).toEqual({ status: 'failed', message: 'Backport cancelled for develop, release/1.3' });
+    expect(octokit.rest.issues.createComment).toHaveBeenCalledTimes(2);
+    expect(commentBody(octokit, 0)).toContain('must be release branches (`release/*`)');
+    expect(commentBody(octokit, 1)).toContain('The scheduled backport to `release/1.3` was not run');
+    expect(octokit.rest.git.createCommit).not.toHaveBeenCalled();
+    expect(octokit.rest.git.createRef).not.toHaveBeenCalled();
+  });
+
+  it('ignores markers in comments from other accounts, including other apps', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([
+      { id: 10, body: buildMarker('backport', { actor: 'alice', targets: 'release/1.2' }), user: { type: 'User' } },
+      {
+        id: 11,
+        body: buildMarker('backport', { actor: 'alice', targets: 'release/1.2' }),
+        user: { login: 'dependabot[bot]', type: 'Bot' },
+      },
+    ]);
+
+    const result = await runScheduledBackports(
+      octokit,
+      createEventContext(),
+      1,
+      createPRData(MERGED_PR),
+      createConfig(),
+    );
+
+    expect(result).toEqual({ status: 'skipped', message: 'No scheduled backports' });
+    expect(octokit.rest.git.createRef).not.toHaveBeenCalled();
+  });
+});
+
+describe('handleBackportEvent', () => {
+  it('waits while the PR is not merged', async () => {
+    const octokit = createMockOctokit();
+
+    const result = await handleBackportEvent(
+      octokit,
+      createEventContext({ eventName: 'pull_request' }),
+      createConfig(),
+    );
+
+    expect(result).toEqual({ status: 'skipped', message: 'No backports to run before the merge' });
+    expect(octokit.paginate).not.toHaveBeenCalled();
+  });
+
+  it('runs the scheduled backports of a merged PR', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit);
+    setupScheduledBackports(octokit, [{ actor: 'alice', targets: 'release/1.2' }]);
+    octokit.rest.pulls.get.mockResolvedValue({
+      data: {
+        state: 'closed',
+        locked: false,
+        draft: false,
+        merged: true,
+        mergeable: null,
+        mergeable_state: 'unknown',
+        head: { sha: 'head123456789', ref: 'fix/bug', repo: { fork: false, owner: { id: 1 } } },
+        base: { ref: 'develop', repo: { owner: { id: 1 } } },
+        user: { login: 'testuser' },
+        title: 'fix: resolve bug',
+        merge_commit_sha: 'merge123',
+      },
+    } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+
+    const result = await handleBackportEvent(
+      octokit,
+      createEventContext({ eventName: 'pull_request' }),
+      createConfig(),
+    );
+
+    expect(result).toEqual({ status: 'skipped', message: 'Backported to release/1.2' });
+    expect(octokit.rest.pulls.create).toHaveBeenCalledTimes(1);
+  });
+});
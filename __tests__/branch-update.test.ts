@@ -0,0 +1,232 @@
+/**
+ * branch-update.test.ts - Tests for branch-update.ts module
+ *
+ * Tests cover collectEquivalentHeadShas (the recorded update chain) and
+ * updateBranch, including waiting for the new HEAD and rejecting foreign pushes.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { collectEquivalentHeadShas, updateBranch } from '../src/branch-update.js';
+import { buildMarker } from '../src/markers.js';
+import type { IssueCommentsArray, PullRequestData } from '../src/types.js';
+
+import { createConfig, createEventContext, createPRData } from './helpers/fixtures.js';
+import { createMockOctokit, type MockedOctokit } from './helpers/octokit.mock.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * A PR whose head branch is behind the base branch.
+ */
+const BEHIND_PR: Partial<PullRequestData> = { mergeableState: 'behind' };
+
+/**
+ * Login the mock client reports as its own (see fetchAuthenticatedLogin).
+ */
+const BOT_LOGIN = 'github-actions[bot]';
+
+/**
+ * Creates a comment holding a branch update marker (posted by nylbot unless another login is given).
+ */
+function createUpdateComment(
+  id: number,
+  fromSha: string,
+  toSha: string,
+  login = BOT_LOGIN,
+): IssueCommentsArray[number] {
+  return {
+    id,
+    body: `## Branch updated\n\n${buildMarker('branch-update', { fromSha, toSha })}`,
+    user: { login, type: 'Bot' },
+  } as IssueCommentsArray[number];
+}
+
+/**
+ * Makes pulls.get report the given HEAD SHA.
+ */
+function setHeadSha(octokit: MockedOctokit, sha: string): void {
+  octokit.rest.pulls.get.mockResolvedValue({
+    data: {
+      state: 'open',
+      locked: false,
+      draft: false,
+      merged: false,
+      mergeable: true,
+      mergeable_state: 'blocked',
+      head: { sha, ref: 'feature/test', repo: { fork: false, owner: { id: 1 } } },
+      base: { ref: 'develop', repo: { owner: { id: 1 } } },
+      user: { login: 'testuser' },
+      title: 'feat: test pull request',
+    },
+  } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+}
+
+// =============================================================================
+// Tests for collectEquivalentHeadShas
+// =============================================================================
+
+describe('collectEquivalentHeadShas', () => {
+  it('follows the chain of recorded updates back from HEAD', () => {
+    const comments = [createUpdateComment(1, 'sha1', 'sha2'), createUpdateComment(2, 'sha2', 'sha3')];
+
+    expect(collectEquivalentHeadShas(comments, 'sha3', BOT_LOGIN)).toEqual(['sha3', 'sha2', 'sha1']);
+    expect(collectEquivalentHeadShas(comments, 'sha2', BOT_LOGIN)).toEqual(['sha2', 'sha1']);
+  });
+
+  it('returns only HEAD when it was not produced by a recorded update', () => {
+    expect(collectEquivalentHeadShas([createUpdateComment(1, 'sha1', 'sha2')], 'sha9', BOT_LOGIN)).toEqual(['sha9']);
+  });
+
+  it('ignores markers posted by other accounts, including other apps', () => {
+    const comments = [createUpdateComment(1, 'sha1', 'sha2', 'renovate[bot]')];
+
+    expect(collectEquivalentHeadShas(comments, 'sha2', BOT_LOGIN)).toEqual(['sha2']);
+  });
+
+  it('stops at cycles', () => {
+    const comments = [createUpdateComment(1, 'sha1', 'sha2'), createUpdateComment(2, 'sha2', 'sha1')];
+
+    expect(collectEquivalentHeadShas(comments, 'sha2', BOT_LOGIN)).toEqual(['sha2', 'sha1']);
+  });
+});
+
+// =============================================================================
+// Tests for updateBranch
+// =============================================================================
+
+describe('updateBranch', () => {
+  it('updates the branch with the expected HEAD and records the update commit', async () => {
+    const octokit = createMockOctokit();
+    setHeadSha(octokit, 'new4567890123');
+    octokit.rest.git.getCommit.mockResolvedValue({
+      data: { parents: [{ sha: 'abc1234567890' }, { sha: 'base123456789' }] },
+    } as Awaited<ReturnType<typeof octokit.rest.git.getCommit>>);
+    octokit.rest.git.getRef.mockResolvedValue({
+      data: { object: { sha: 'base123456789' } },
+    } as Awaited<ReturnType<typeof octokit.rest.git.getRef>>);
+
+    const result = await updateBranch(
+      octokit,
+      createEventContext(),
+      createConfig(),
+      createPRData(BEHIND_PR),
+      'Next step.',
+    );
+
+    expect(result).toEqual({ status: 'skipped', message: 'Branch updated' });
+    expect(octokit.rest.pulls.updateBranch).toHaveBeenCalledWith(
+      expect.objectContaining({ pull_number: 1, expected_head_sha: 'abc1234567890' }),
+    );
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('## Branch updated');
+    expect(commentBody).toContain('Next step.');
+    expect(commentBody).toContain(buildMarker('branch-update', { fromSha: 'abc1234567890', toSha: 'new4567890123' }));
+  });
+
+  it('reports the API error when the update is rejected', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.updateBranch.mockRejectedValue(new Error('expected head sha didn’t match current head ref'));
+
+    const result = await updateBranch(
+      octokit,
+      createEventContext(),
+      createConfig(),
+      createPRData(BEHIND_PR),
+      'Next step.',
+    );
+
+    expect(result).toEqual({
+      status: 'failed',
+      message: 'Branch update failed: expected head sha didn’t match current head ref',
+    });
+    expect(octokit.rest.pulls.get).not.toHaveBeenCalled();
+  });
+
+  it('reports a pending update when the new HEAD does not appear', async () => {
+    const octokit = createMockOctokit();
+
+    const result = await updateBranch(
+      octokit,
+      createEventContext(),
+      createConfig(),
+      createPRData(BEHIND_PR),
+      'Next step.',
+    );
+
+    expect(result).toEqual({ status: 'skipped', message: 'Branch update pending' });
+    expect(octokit.rest.pulls.get).toHaveBeenCalledTimes(3);
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).not.toContain('nylbot:branch-update');
+  });
+
+  it('does not record a new HEAD that is not the update commit', async () => {
+    const octokit = createMockOctokit();
+    setHeadSha(octokit, 'pushed4567890');
+    octokit.rest.git.getCommit.mockResolvedValue({
+      data: { parents: [{ sha: 'abc1234567890' }] },
+    } as Awaited<ReturnType<typeof octokit.rest.git.getCommit>>);
+
+    const result = await updateBranch(
+      octokit,
+      createEventContext(),
+      createConfig(),
+      createPRData(BEHIND_PR),
+      'Next step.',
+    );
+
+    expect(result).toEqual({ status: 'failed', message: 'TOCTOU violation during branch update' });
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('## New commits detected');
+    expect(commentBody).not.toContain('nylbot:branch-update');
+  });
+
+  it('does not record a merge commit of a commit other than the base branch', async () => {
+    const octokit = createMockOctokit();
+    setHeadSha(octokit, 'pushed4567890');
+    octokit.rest.git.getCommit.mockResolvedValue({
+      data: { parents: [{ sha: 'abc1234567890' }, { sha: 'other12345678' }] },
+    } as Awaited<ReturnType<typeof octokit.rest.git.getCommit>>);
+    octokit.rest.git.getRef.mockResolvedValue({
+      data: { object: { sha: 'base123456789' } },
+    } as Awaited<ReturnType<typeof octokit.rest.git.getRef>>);
+
+    const result = await updateBranch(
+      octokit,
+      createEventContext(),
+      createConfig(),
+      createPRData(BEHIND_PR),
+      'Next step.',
+    );
+
+    expect(result).toEqual({ status: 'failed', message: 'TOCTOU violation during branch update' });
+    expect(octokit.rest.git.getRef).toHaveBeenCalledWith(expect.objectContaining({ ref: 'heads/develop' }));
+  });
+
+  it('records the update when the base branch moved while GitHub merged it', async () => {
+    const octokit = createMockOctokit();
+    setHeadSha(octokit, 'new4567890123');
+    octokit.rest.git.getCommit.mockResolvedValue({
+      data: { parents: [{ sha: 'abc1234567890' }, { sha: 'base223456789' }] },
+    } as Awaited<ReturnType<typeof octokit.rest.git.getCommit>>);
+    octokit.rest.git.getRef
+      .mockResolvedValueOnce({ data: { object: { sha: 'base123456789' } } } as Awaited<
+        ReturnType<typeof octokit.rest.git.getRef>
+      >)
+      .mockResolvedValue({ data: { object: { sha: 'base223456789' } } } as Awaited<
+        ReturnType<typeof octokit.rest.git.getRef>
+      >);
+
+    const result = await updateBranch(
+      octokit,
+      createEventContext(),
+      createConfig(),
+      createPRData(BEHIND_PR),
+      'Next step.',
+    );
+
+    expect(result).toEqual({ status: 'skipped', message: 'Branch updated' });
+  });
+});
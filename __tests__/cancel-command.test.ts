@@ -0,0 +1,136 @@
+/**
+ * cancel-command.test.ts - Tests for cancel-command.ts module
+ *
+ * Tests cover handleCancelCommand, including who is allowed to withdraw a
+ * pending auto-merge request.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { handleCancelCommand } from '../src/cancel-command.js';
+import { buildMarker } from '../src/markers.js';
+
+import { createConfig, createEventContext } from './helpers/fixtures.js';
+import { createMockOctokit, type MockedOctokit } from './helpers/octokit.mock.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * Sets up a pending auto-merge request by @requester in comment #77.
+ */
+function setupPendingRequest(octokit: MockedOctokit): void {
+  octokit.paginate.mockResolvedValue([
+    {
+      id: 77,
+      body: `## Auto-merge enabled\n\n${buildMarker('auto-merge', { actor: 'requester', headSha: 'abc123' })}`,
+      user: { login: 'github-actions[bot]', type: 'Bot' },
+    },
+  ]);
+}
+
+describe('handleCancelCommand', () => {
+  it('lets the requester cancel their own request without a permission lookup', async () => {
+    const octokit = createMockOctokit();
+    setupPendingRequest(octokit);
+
+    const result = await handleCancelCommand(octokit, createEventContext({ actor: 'requester' }), createConfig());
+
+    expect(result).toEqual({ status: 'skipped', message: 'Auto-merge request cancelled' });
+    expect(octokit.rest.repos.getCollaboratorPermissionLevel).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalledWith(
+      expect.objectContaining({ issue_number: 1, name: 'nylbot:auto-merge' }),
+    );
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledWith(
+      expect.objectContaining({ comment_id: 77, body: '## Auto-merge enabled' }),
+    );
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('cancelled by @requester');
+  });
+
+  it('lets maintainers cancel a request made by someone else', async () => {
+    const octokit = createMockOctokit();
+    setupPendingRequest(octokit);
+    octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValue({
+      data: { permission: 'write', role_name: 'maintain' },
+    } as Awaited<ReturnType<typeof octokit.rest.repos.getCollaboratorPermissionLevel>>);
+
+    const result = await handleCancelCommand(octokit, createEventContext({ actor: 'maintainer' }), createConfig());
+
+    expect(result.message).toBe('Auto-merge request cancelled');
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalled();
+  });
+
+  it('denies other users below maintain permission', async () => {
+    const octokit = createMockOctokit();
+    setupPendingRequest(octokit);
+
+    const result = await handleCancelCommand(octokit, createEventContext({ actor: 'someone' }), createConfig());
+
+    expect(result).toEqual({ status: 'failed', message: 'Insufficient permissions to cancel' });
+    expect(octokit.rest.issues.removeLabel).not.toHaveBeenCalled();
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('Only @requester');
+    expect(commentBody).toContain('**maintain**');
+  });
+
+  it('removes the PR from the merge queue', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([
+      {
+        id: 88,
+        body: `## Queued for merge\n\n${buildMarker('merge-queue', { actor: 'requester', headSha: 'abc123', baseRef: 'develop' })}`,
+        user: { login: 'github-actions[bot]', type: 'Bot' },
+      },
+    ]);
+
+    const result = await handleCancelCommand(octokit, createEventContext({ actor: 'requester' }), createConfig());
+
+    expect(result).toEqual({ status: 'skipped', message: 'Removed from merge queue' });
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalledWith(
+      expect.objectContaining({ issue_number: 1, name: 'nylbot:merge-queue' }),
+    );
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledWith(
+      expect.objectContaining({ comment_id: 88, body: '## Queued for merge' }),
+    );
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('removed from the merge queue for `develop` by @requester');
+  });
+
+  it('cancels both an auto-merge request and a merge queue entry', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([
+      {
+        id: 77,
+        body: buildMarker('auto-merge', { actor: 'requester', headSha: 'abc123' }),
+        user: { login: 'github-actions[bot]', type: 'Bot' },
+      },
+      {
+        id: 88,
+        body: buildMarker('merge-queue', { actor: 'other', headSha: 'abc123', baseRef: 'develop' }),
+        user: { login: 'github-actions[bot]', type: 'Bot' },
+      },
+    ]);
+
+    const denied = await handleCancelCommand(octokit, createEventContext({ actor: 'requester' }), createConfig());
+    expect(denied.message).toBe('Insufficient permissions to cancel');
+
+    octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValue({
+      data: { permission: 'admin', role_name: 'admin' },
+    } as Awaited<ReturnType<typeof octokit.rest.repos.getCollaboratorPermissionLevel>>);
+    const result = await handleCancelCommand(octokit, createEventContext({ actor: 'requester' }), createConfig());
+
+    expect(result.message).toBe('Auto-merge request cancelled and removed from merge queue');
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports when there is nothing to cancel', async () => {
+    const octokit = createMockOctokit();
+
+    const result = await handleCancelCommand(octokit, createEventContext({ actor: 'requester' }), createConfig());
+
+    expect(result).toEqual({ status: 'skipped', message: 'No pending request to cancel' });
+    expect(octokit.rest.issues.removeLabel).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * codeowners.test.ts - Tests for codeowners.ts module
+ *
+ * Tests cover parseCodeowners, the gitignore-style pattern semantics of findCodeOwners,
+ * and evaluateCodeOwnerApproval (CODEOWNERS lookup on the base branch, owner groups,
+ * both paths of renamed files, user and team owners, and the details naming the groups still missing an approval).
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { evaluateCodeOwnerApproval, findCodeOwners, parseCodeowners } from '../src/codeowners.js';
+
+import { createMockOctokit, type MockedOctokit } from './helpers/octokit.mock.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * Serves a CODEOWNERS file at the given path and the list of changed files.
+ */
+function setupRepository(
+  octokit: MockedOctokit,
+  files: string[],
+  codeowners: string,
+  path = '.github/CODEOWNERS',
+): void {
+  octokit.rest.repos.getContent.mockImplementation((async (params?: { path?: string }) => {
+    if (params?.path !== path) {
+      throw Object.assign(new Error('Not Found'), { status: 404 });
+    }
+    return { data: { type: 'file', content: Buffer.from(codeowners).toString('base64') } };
+  }) as unknown as MockedOctokit['rest']['repos']['getContent']);
+  octokit.paginate.mockImplementation(async (endpoint: unknown) =>
+    endpoint === octokit.rest.pulls.listFiles ? files.map((filename) => ({ filename })) : [],
+  );
+}
+
+const CODEOWNERS = [
+  '# Default owners',
+  '*       @acme/core',
+  '/docs/  @alice @bob   # Documentation',
+  '*.ts    @acme/frontend',
+  '/generated/',
+].join('\n');
+
+// =============================================================================
+// Tests for parseCodeowners
+// =============================================================================
+
+describe('parseCodeowners', () => {
+  it('parses patterns and owners, skipping comments and blank lines', () => {
+    expect(parseCodeowners(CODEOWNERS)).toEqual([
+      { pattern: '*', owners: ['@acme/core'] },
+      { pattern: '/docs/', owners: ['@alice', '@bob'] },
+      { pattern: '*.ts', owners: ['@acme/frontend'] },
+      { pattern: '/generated/', owners: [] },
+    ]);
+  });
+
+  it('keeps escaped hashes in patterns', () => {
+    expect(parseCodeowners('\\#notes.md @alice\r\n')).toEqual([{ pattern: '#notes.md', owners: ['@alice'] }]);
+  });
+});
+
+// =============================================================================
+// Tests for findCodeOwners
+// =============================================================================
+
+describe('findCodeOwners', () => {
+  const rules = parseCodeowners(CODEOWNERS);
+
+  it('uses the last matching rule', () => {
+    expect(findCodeOwners(rules, 'README.md')).toEqual(['@acme/core']);
+    expect(findCodeOwners(rules, 'docs/guide.md')).toEqual(['@alice', '@bob']);
+    expect(findCodeOwners(rules, 'docs/api/client.ts')).toEqual(['@acme/frontend']);
+    expect(findCodeOwners(rules, 'generated/schema.json')).toEqual([]);
+  });
+
+  it('matches patterns without a leading or middle slash at any depth', () => {
+    const appsRules = parseCodeowners('apps/ @octocat\nlogs @ops');
+
+    expect(findCodeOwners(appsRules, 'apps/web/index.js')).toEqual(['@octocat']);
+    expect(findCodeOwners(appsRules, 'services/apps/api.js')).toEqual(['@octocat']);
+    expect(findCodeOwners(appsRules, 'var/logs/today.txt')).toEqual(['@ops']);
+    expect(findCodeOwners(appsRules, 'apps.js')).toEqual([]);
+  });
+
+  it('anchors patterns with a slash to the repository root', () => {
+    const anchoredRules = parseCodeowners('/build/logs/ @ops\nsrc/config.ts @alice');
+
+    expect(findCodeOwners(anchoredRules, 'build/logs/a.log')).toEqual(['@ops']);
+    expect(findCodeOwners(anchoredRules, 'other/build/logs/a.log')).toEqual([]);
+    expect(findCodeOwners(anchoredRules, 'src/config.ts')).toEqual(['@alice']);
+    expect(findCodeOwners(anchoredRules, 'lib/src/config.ts')).toEqual([]);
+  });
+
+  it('matches only direct children with a trailing /*', () => {
+    const docsRules = parseCodeowners('docs/* @writer');
+
+    expect(findCodeOwners(docsRules, 'docs/getting-started.md')).toEqual(['@writer']);
+    expect(findCodeOwners(docsRules, 'docs/build-app/troubleshooting.md')).toEqual([]);
+  });
+
+  it('matches across directories with **', () => {
+    const globRules = parseCodeowners('**/ui/** @designer\ndocs/**/*.png @illustrator\nsrc/?.ts @short');
+
+    expect(findCodeOwners(globRules, 'ui/button.tsx')).toEqual(['@designer']);
+    expect(findCodeOwners(globRules, 'packages/web/ui/forms/input.tsx')).toEqual(['@designer']);
+    expect(findCodeOwners(globRules, 'docs/images/setup/step1.png')).toEqual(['@illustrator']);
+    expect(findCodeOwners(globRules, 'docs/logo.png')).toEqual(['@illustrator']);
+    expect(findCodeOwners(globRules, 'src/a.ts')).toEqual(['@short']);
+    expect(findCodeOwners(globRules, 'src/ab.ts')).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Tests for evaluateCodeOwnerApproval
+// =============================================================================
+
+describe('evaluateCodeOwnerApproval', () => {
+  it('passes when an owner of every changed file approved', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, ['docs/guide.md', 'generated/schema.json'], CODEOWNERS);
+
+    const result = await evaluateCodeOwnerApproval(octokit, 'owner', 'repo', 1, 'main', ['Bob'], 'en');
+
+    expect(result).toEqual({ passed: true, details: null });
+    expect(octokit.rest.repos.getContent).toHaveBeenCalledWith(
+      expect.objectContaining({ path: '.github/CODEOWNERS', ref: 'main' }),
+    );
+  });
+
+  it('reports each owner group that is still missing an approval', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, ['src/a.ts', 'src/b.ts', 'src/c.ts', 'docs/guide.md'], CODEOWNERS);
+    octokit.rest.teams.getMembershipForUserInOrg.mockRejectedValue(
+      Object.assign(new Error('Not Found'), { status: 404 }),
+    );
+
+    const result = await evaluateCodeOwnerApproval(octokit, 'owner', 'repo', 1, 'main', ['carol'], 'en');
+
+    expect(result).toEqual({
+      passed: false,
+      details: 'no approval from `@acme/frontend` for `src/a.ts` and 2 more; `@alice @bob` for `docs/guide.md`',
+    });
+  });
+
+  it('requires the owners of the previous path of a renamed file', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [], CODEOWNERS);
+    octokit.paginate.mockImplementation(async (endpoint: unknown) =>
+      endpoint === octokit.rest.pulls.listFiles
+        ? [{ filename: 'notes/guide.txt', previous_filename: 'docs/guide.txt' }]
+        : [],
+    );
+    octokit.rest.teams.getMembershipForUserInOrg.mockResolvedValue({
+      data: { state: 'active' },
+    } as Awaited<ReturnType<typeof octokit.rest.teams.getMembershipForUserInOrg>>);
+
+    const result = await evaluateCodeOwnerApproval(octokit, 'owner', 'repo', 1, 'main', ['carol'], 'en');
+
+    expect(result).toEqual({ passed: false, details: 'no approval from `@alice @bob` for `docs/guide.txt`' });
+  });
+
+  it('counts approvals from members of owner teams, reading each membership once', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, ['src/a.ts', 'src/b.ts', 'README.md'], CODEOWNERS);
+    octokit.rest.teams.getMembershipForUserInOrg.mockImplementation((async (params?: { team_slug?: string }) => ({
+      data: { state: params?.team_slug === 'frontend' ? 'active' : 'pending' },
+    })) as unknown as MockedOctokit['rest']['teams']['getMembershipForUserInOrg']);
+
+    const result = await evaluateCodeOwnerApproval(octokit, 'owner', 'repo', 1, 'main', ['dave'], 'en');
+
+    expect(result).toEqual({ passed: false, details: 'no approval from `@acme/core` for `README.md`' });
+    expect(octokit.rest.teams.getMembershipForUserInOrg).toHaveBeenCalledTimes(2);
+  });
+
+  it('notes teams whose members could not be read', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, ['README.md'], CODEOWNERS);
+    octokit.rest.teams.getMembershipForUserInOrg.mockRejectedValue(
+      Object.assign(new Error('Resource not accessible by integration'), { status: 403 }),
+    );
+
+    const result = await evaluateCodeOwnerApproval(octokit, 'owner', 'repo', 1, 'main', ['dave'], 'en');
+
+    expect(result.details).toBe(
+      'no approval from `@acme/core` for `README.md`; the members of `@acme/core` could not be read: Resource not accessible by integration',
+    );
+  });
+
+  it('reads CODEOWNERS from the root or docs/ when .github/ has none', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, ['README.md'], '* @alice', 'docs/CODEOWNERS');
+
+    const result = await evaluateCodeOwnerApproval(octokit, 'owner', 'repo', 1, 'main', ['alice'], 'en');
+
+    expect(result.passed).toBe(true);
+    expect(octokit.rest.repos.getContent.mock.calls.map((call) => call[0]?.path)).toEqual([
+      '.github/CODEOWNERS',
+      'CODEOWNERS',
+      'docs/CODEOWNERS',
+    ]);
+  });
+
+  it('fails when the base branch has no CODEOWNERS file', async () => {
+    const octokit = createMockOctokit();
+
+    const result = await evaluateCodeOwnerApproval(octokit, 'owner', 'repo', 1, 'main', ['alice'], 'en');
+
+    expect(result).toEqual({
+      passed: false,
+      details: 'no CODEOWNERS file in `.github/`, the root, or `docs/` of `main`',
+    });
+  });
+
+  it('never matches email owners to reviewers', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, ['README.md'], '* alice@example.com');
+
+    const result = await evaluateCodeOwnerApproval(octokit, 'owner', 'repo', 1, 'main', ['alice'], 'en');
+
+    expect(result.passed).toBe(false);
+  });
+});
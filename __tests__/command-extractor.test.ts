@@ -0,0 +1,150 @@
+/**
+ * command-extractor.test.ts - Tests for command-extractor.ts module
+ *
+ * Tests cover extractCommandLine: finding the command on any line of a comment
+ * while skipping quoted replies, fenced and indented code blocks, inline code, and HTML comments.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { extractCommandLine } from '../src/command-extractor.js';
+
+import { createConfig } from './helpers/fixtures.js';
+
+describe('extractCommandLine', () => {
+  describe('plain text', () => {
+    it('returns a command on the first line', () => {
+      expect(extractCommandLine('/nylbot merge', createConfig())).toBe('/nylbot merge');
+      expect(extractCommandLine('  /nylbot merge --dry-run', createConfig())).toBe('/nylbot merge --dry-run');
+    });
+
+    it('finds a command on a later line', () => {
+      expect(extractCommandLine('LGTM, thanks!\n/nylbot merge', createConfig())).toBe('/nylbot merge');
+      expect(extractCommandLine('LGTM\r\n\r\n/nylbot merge\r\n', createConfig())).toBe('/nylbot merge');
+      expect(extractCommandLine('\n/nylbot status', createConfig())).toBe('/nylbot status');
+    });
+
+    it('returns the first command when there are several', () => {
+      expect(extractCommandLine('/nylbot status\n/nylbot merge', createConfig())).toBe('/nylbot status');
+    });
+
+    it('returns lines with other bot triggers so they can be reported as unrecognized', () => {
+      expect(extractCommandLine('Hi\n/mybot help', createConfig())).toBe('/mybot help');
+    });
+
+    it('finds commands with a custom prefix or an @mention of the bot', () => {
+      const config = createConfig({ commandPrefix: '/shipit', botName: 'shipit' });
+
+      expect(extractCommandLine('LGTM\n/shipit merge', config)).toBe('/shipit merge');
+      expect(extractCommandLine('LGTM\n@shipit merge', config)).toBe('@shipit merge');
+      expect(extractCommandLine('cc @shipit', config)).toBeNull();
+    });
+
+    it('returns null when no line starts with a bot trigger', () => {
+      expect(extractCommandLine('', createConfig())).toBeNull();
+      expect(extractCommandLine('Please run /nylbot merge', createConfig())).toBeNull();
+      expect(extractCommandLine('Hello\nworld', createConfig())).toBeNull();
+    });
+  });
+
+  describe('quotes', () => {
+    it('skips quoted lines', () => {
+      expect(extractCommandLine('> /nylbot merge\n\nNot yet, please.', createConfig())).toBeNull();
+      expect(extractCommandLine('   > /nylbot merge', createConfig())).toBeNull();
+      expect(extractCommandLine('> > /nylbot merge', createConfig())).toBeNull();
+    });
+
+    it('skips lines that continue a quoted paragraph', () => {
+      expect(extractCommandLine('> Earlier comment\n/nylbot merge', createConfig())).toBeNull();
+    });
+
+    it('finds a command after the quote ends with a blank line', () => {
+      expect(extractCommandLine('> Should we merge?\n\n/nylbot merge', createConfig())).toBe('/nylbot merge');
+    });
+  });
+
+  describe('fenced code blocks', () => {
+    it('skips commands inside backtick and tilde fences', () => {
+      expect(extractCommandLine('Example:\n```\n/nylbot merge\n```', createConfig())).toBeNull();
+      expect(extractCommandLine('~~~text\n/nylbot merge\n~~~', createConfig())).toBeNull();
+    });
+
+    it('treats an unclosed fence as code until the end of the comment', () => {
+      expect(extractCommandLine('```\n/nylbot merge', createConfig())).toBeNull();
+    });
+
+    it('only closes a fence with the same character and at least the same length', () => {
+      expect(extractCommandLine('````\n```\n/nylbot merge\n````', createConfig())).toBeNull();
+      expect(extractCommandLine('```\n~~~\n/nylbot merge\n```', createConfig())).toBeNull();
+      expect(extractCommandLine('```\ncode\n```\n/nylbot merge', createConfig())).toBe('/nylbot merge');
+    });
+  });
+
+  describe('indented code blocks', () => {
+    it('skips commands indented as code', () => {
+      expect(extractCommandLine('Example:\n\n    /nylbot merge', createConfig())).toBeNull();
+      expect(extractCommandLine('\t/nylbot merge', createConfig())).toBeNull();
+      expect(extractCommandLine('    git log\n\n    /nylbot merge', createConfig())).toBeNull();
+    });
+
+    it('finds indented commands that continue a paragraph', () => {
+      expect(extractCommandLine('LGTM\n    /nylbot merge', createConfig())).toBe('/nylbot merge');
+    });
+
+    it('finds a command after the code block ends', () => {
+      expect(extractCommandLine('    /nylbot merge --dry-run\n/nylbot merge', createConfig())).toBe('/nylbot merge');
+    });
+  });
+
+  describe('HTML comments', () => {
+    it('skips commands inside a comment block', () => {
+      expect(extractCommandLine('<!-- /nylbot merge -->', createConfig())).toBeNull();
+      expect(extractCommandLine('LGTM\n<!--\n/nylbot merge\n-->', createConfig())).toBeNull();
+    });
+
+    it('treats an unclosed comment block as hidden until the end of the comment', () => {
+      expect(extractCommandLine('<!-- draft\n\n/nylbot merge', createConfig())).toBeNull();
+    });
+
+    it('skips commands inside a comment within a paragraph', () => {
+      expect(extractCommandLine('LGTM <!--\n/nylbot merge\n-->', createConfig())).toBeNull();
+    });
+
+    it('finds a command after the comment ends', () => {
+      expect(extractCommandLine('<!--\n/nylbot merge --dry-run\n-->\n/nylbot merge', createConfig())).toBe(
+        '/nylbot merge',
+      );
+      expect(extractCommandLine('LGTM <!-- note -->\n/nylbot merge', createConfig())).toBe('/nylbot merge');
+    });
+
+    it('treats comment delimiters inside inline code as text', () => {
+      expect(extractCommandLine('Use `<!--` to hide text\n/nylbot merge\n-->', createConfig())).toBe('/nylbot merge');
+    });
+  });
+
+  describe('inline code', () => {
+    it('skips commands inside inline code', () => {
+      expect(extractCommandLine('`/nylbot merge`', createConfig())).toBeNull();
+      expect(extractCommandLine('Run `/nylbot merge` when ready', createConfig())).toBeNull();
+    });
+
+    it('skips commands inside inline code that spans lines', () => {
+      expect(extractCommandLine('Use `\n/nylbot merge\n` later', createConfig())).toBeNull();
+      expect(extractCommandLine('Use ``a `\n/nylbot merge`` later', createConfig())).toBeNull();
+    });
+
+    it('treats an unmatched backtick as text', () => {
+      expect(extractCommandLine('It`s ready\n/nylbot merge', createConfig())).toBe('/nylbot merge');
+    });
+
+    it('keeps inline code inside the command arguments', () => {
+      expect(extractCommandLine('/nylbot title fix: handle `null` input', createConfig())).toBe(
+        '/nylbot title fix: handle `null` input',
+      );
+    });
+
+    it('does not carry inline code across paragraphs', () => {
+      expect(extractCommandLine('Use `\n\n/nylbot merge\n`', createConfig())).toBe('/nylbot merge');
+    });
+  });
+});
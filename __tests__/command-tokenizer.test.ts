@@ -0,0 +1,101 @@
+/**
+ * command-tokenizer.test.ts - Tests for command-tokenizer.ts module
+ *
+ * Tests cover tokenizeArguments: splitting on whitespace, quoting, escaping,
+ * joining adjacent segments, and reporting unterminated quotes.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { tokenizeArguments } from '../src/command-tokenizer.js';
+
+/**
+ * Returns the token texts, failing the test when tokenization reports an error.
+ */
+function texts(input: string): string[] {
+  const result = tokenizeArguments(input);
+  if ('unterminatedQuote' in result) {
+    throw new Error(`Unterminated ${result.unterminatedQuote} quote`);
+  }
+  return result.tokens.map((token) => token.text);
+}
+
+describe('tokenizeArguments', () => {
+  describe('unquoted arguments', () => {
+    it('splits on spaces and tabs', () => {
+      expect(texts('--squash  --dry-run\trelease/1.2')).toEqual(['--squash', '--dry-run', 'release/1.2']);
+    });
+
+    it('returns no tokens for empty or blank input', () => {
+      expect(texts('')).toEqual([]);
+      expect(texts(' \t ')).toEqual([]);
+    });
+
+    it('marks unquoted tokens as not literal', () => {
+      expect(tokenizeArguments('--sha abc1234')).toEqual({
+        tokens: [
+          { text: '--sha', literalStart: false },
+          { text: 'abc1234', literalStart: false },
+        ],
+      });
+    });
+  });
+
+  describe('quotes', () => {
+    it('keeps spaces inside double and single quotes', () => {
+      expect(texts('--title "fix: handle timeouts" --reason \'hotfix for outage\'')).toEqual([
+        '--title',
+        'fix: handle timeouts',
+        '--reason',
+        'hotfix for outage',
+      ]);
+    });
+
+    it('resolves \\" and \\\\ inside double quotes and keeps other backslashes', () => {
+      expect(texts('"say \\"hi\\" \\\\ C:\\dir"')).toEqual(['say "hi" \\ C:\\dir']);
+    });
+
+    it('takes single-quoted text literally', () => {
+      expect(texts("'a \\\" b'")).toEqual(['a \\" b']);
+    });
+
+    it('joins quoted and unquoted parts next to each other', () => {
+      expect(texts('--title="fix: a b"')).toEqual(['--title=fix: a b']);
+      expect(texts('"a"\'b\'c')).toEqual(['abc']);
+    });
+
+    it('keeps empty quoted values as tokens', () => {
+      expect(texts('--message ""')).toEqual(['--message', '']);
+    });
+
+    it('marks tokens that start with a quote as literal', () => {
+      expect(tokenizeArguments('"--dry-run" x"y"')).toEqual({
+        tokens: [
+          { text: '--dry-run', literalStart: true },
+          { text: 'xy', literalStart: false },
+        ],
+      });
+    });
+
+    it('reports unterminated quotes', () => {
+      expect(tokenizeArguments('--title "fix: x')).toEqual({ unterminatedQuote: '"' });
+      expect(tokenizeArguments("--reason 'late")).toEqual({ unterminatedQuote: "'" });
+      expect(tokenizeArguments('"ends with escape\\"')).toEqual({ unterminatedQuote: '"' });
+    });
+  });
+
+  describe('escapes', () => {
+    it('escapes the next character outside quotes', () => {
+      expect(tokenizeArguments('\\--not-a-flag a\\ b')).toEqual({
+        tokens: [
+          { text: '--not-a-flag', literalStart: true },
+          { text: 'a b', literalStart: false },
+        ],
+      });
+    });
+
+    it('keeps a trailing backslash', () => {
+      expect(texts('end\\')).toEqual(['end\\']);
+    });
+  });
+});
@@ -3,7 +3,7 @@
  *
  * Tests validate the constants, regex patterns, and configuration values
  * used throughout the action, including:
- * - COMMAND_REGEX: Matching /nylbot merge at start of comment body (space/tab only, no newlines)
+ * - COMMAND_REGEX: Matching /nylbot <subcommand> at start of comment body (space/tab only, no newlines)
  * - CONVENTIONAL_COMMIT_REGEX: Validating commit message formats
  * - CONVENTIONAL_COMMIT_TYPES: Allowed commit types
  */
@@ -15,7 +15,13 @@ import {
   CONVENTIONAL_COMMIT_REGEX,
   BOT_TRIGGER_REGEX,
   COMMAND_REGEX,
+  COMMANDS,
+  COMMAND_PREFIX_REGEX,
+  BOT_NAME_REGEX,
+  DEFAULT_COMMAND_PREFIX,
+  DEFAULT_BOT_NAME,
 } from '../src/constants.js';
+import type { CommandFlagDefinition } from '../src/types.js';
 
 // =============================================================================
 // Tests for CONVENTIONAL_COMMIT_TYPES constant
@@ -137,7 +143,7 @@ describe('COMMAND_REGEX', () => {
   });
 
   it('should match command at start of comment body with space/tab only (no newlines)', () => {
-    // Note: COMMAND_REGEX captures optional flags after "merge"; flag validation is in parseCommand
+    // Note: COMMAND_REGEX captures the trigger, subcommand, and optional flags; validation is in parseCommand
     const testCases = [
       { input: '/nylbot merge', expected: true },
       { input: '  /nylbot merge', expected: true },
@@ -148,6 +154,7 @@ describe('COMMAND_REGEX', () => {
       { input: '/nylbot merge --override-approval-requirement', expected: true },
       { input: '/nylbot merge now', expected: true }, // Regex matches, but parseCommand rejects
       { input: 'run /nylbot merge', expected: false }, // Text before command
+      { input: 'hello world', expected: true }, // Any trigger matches; parseCommand checks it
     ];
 
     for (const { input, expected } of testCases) {
@@ -162,9 +169,92 @@ describe('COMMAND_REGEX', () => {
     expect(COMMAND_REGEX.test('/nylbot merge \n')).toBe(false);
   });
 
-  it('should capture flags from command', () => {
+  it('should capture trigger, subcommand, and flags from command', () => {
     const match = COMMAND_REGEX.exec('/nylbot merge --override-approval-requirement');
     expect(match).not.toBeNull();
-    expect(match?.[1]?.trim()).toBe('--override-approval-requirement');
+    expect(match?.[1]).toBe('/nylbot');
+    expect(match?.[2]).toBe('merge');
+    expect(match?.[3]?.trim()).toBe('--override-approval-requirement');
+  });
+
+  it('should capture other triggers and subcommands without arguments', () => {
+    const match = COMMAND_REGEX.exec('@nylbot status');
+    expect(match?.[1]).toBe('@nylbot');
+    expect(match?.[2]).toBe('status');
+    expect(match?.[3]).toBeUndefined();
+  });
+});
+
+describe('COMMANDS', () => {
+  it('has unique command names', () => {
+    const names = COMMANDS.map((c) => c.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('has command names matching the COMMAND_REGEX subcommand pattern', () => {
+    for (const command of COMMANDS) {
+      expect(COMMAND_REGEX.exec(`/nylbot ${command.name}`)?.[2]).toBe(command.name);
+    }
+  });
+
+  it('only requires write permission for commands that change the PR or push', () => {
+    expect(COMMANDS.filter((c) => c.requiresWritePermission).map((c) => c.name)).toEqual([
+      'merge',
+      'auto-merge',
+      'update-branch',
+      'title',
+      'ready',
+      'backport',
+    ]);
+  });
+
+  it('lists the merge flags in help order', () => {
+    expect(COMMANDS.find((c) => c.name === 'merge')?.flags.map((flag) => flag.name)).toEqual([
+      '--override-approval-requirement',
+      '--reason',
+      '--squash',
+      '--merge',
+      '--rebase',
+      '--title',
+      '--message',
+      '--sha',
+      '--update-if-behind',
+      '--ready',
+      '--dry-run',
+    ]);
+  });
+
+  it('only refers to flags of the same command in conflicts and requirements', () => {
+    for (const command of COMMANDS) {
+      const flags: readonly CommandFlagDefinition[] = command.flags;
+      const names = flags.map((flag) => flag.name);
+      for (const flag of flags) {
+        for (const other of [...(flag.conflicts ?? []), ...(flag.requires ?? [])]) {
+          expect(names).toContain(other);
+        }
+      }
+    }
+  });
+});
+
+describe('COMMAND_PREFIX_REGEX and BOT_NAME_REGEX', () => {
+  it('accept the defaults', () => {
+    expect(COMMAND_PREFIX_REGEX.test(DEFAULT_COMMAND_PREFIX)).toBe(true);
+    expect(BOT_NAME_REGEX.test(DEFAULT_BOT_NAME)).toBe(true);
+  });
+
+  it('accept custom names', () => {
+    expect(COMMAND_PREFIX_REGEX.test('/ship-it2')).toBe(true);
+    expect(BOT_NAME_REGEX.test('Ship-It')).toBe(true);
+  });
+
+  it('reject values that cannot be typed as a single command word', () => {
+    expect(COMMAND_PREFIX_REGEX.test('shipit')).toBe(false);
+    expect(COMMAND_PREFIX_REGEX.test('/ship it')).toBe(false);
+    expect(COMMAND_PREFIX_REGEX.test('/ShipIt')).toBe(false);
+    expect(COMMAND_PREFIX_REGEX.test('/')).toBe(false);
+    expect(BOT_NAME_REGEX.test('@shipit')).toBe(false);
+    expect(BOT_NAME_REGEX.test('ship it')).toBe(false);
+    expect(BOT_NAME_REGEX.test('')).toBe(false);
   });
 });
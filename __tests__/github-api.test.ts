@@ -12,13 +12,41 @@ import { describe, it, expect } from 'vitest';
 
 import {
   addReaction,
+  postReply,
   postComment,
   getCollaboratorPermission,
+  isTeamMember,
+  updateComment,
+  fetchIssueComments,
+  fetchAuthenticatedLogin,
+  addLabel,
+  removeLabel,
+  listOpenPullRequestNumbersWithLabel,
   fetchPullRequestData,
   dismissReview,
   countUnresolvedThreads,
   mergePullRequest,
+  fetchFileContent,
   fetchPullRequestCommits,
+  fetchPullRequestFiles,
+  updatePullRequestBranch,
+  markPullRequestReadyForReview,
+  updatePullRequestTitle,
+  fetchCommitParents,
+  fetchCommit,
+  fetchBranchSha,
+  createCommit,
+  createBranch,
+  forceUpdateBranch,
+  deleteBranch,
+  createRefIfAbsent,
+  mergeIntoBranch,
+  createPullRequest,
+  listTags,
+  fetchComparedCommitShas,
+  fetchMergedPullRequestsForCommit,
+  createAnnotatedTag,
+  createDraftRelease,
 } from '../src/github-api.js';
 
 import { createMockOctokit } from './helpers/octokit.mock.js';
@@ -28,9 +56,11 @@ import { createMockOctokit } from './helpers/octokit.mock.js';
 // =============================================================================
 
 describe('addReaction', () => {
+  const issueComment = { kind: 'issue_comment', id: 123, nodeId: 'IC_node123' } as const;
+
   it('should call createForIssueComment with correct parameters', async () => {
     const octokit = createMockOctokit();
-    await addReaction(octokit, 'owner', 'repo', 123, 'eyes');
+    await addReaction(octokit, 'owner', 'repo', issueComment, 'eyes');
 
     expect(octokit.rest.reactions.createForIssueComment).toHaveBeenCalledWith({
       owner: 'owner',
@@ -45,7 +75,60 @@ describe('addReaction', () => {
     octokit.rest.reactions.createForIssueComment.mockRejectedValue(new Error('Already exists'));
 
     // Should not throw
-    await expect(addReaction(octokit, 'owner', 'repo', 123, 'eyes')).resolves.toBeUndefined();
+    await expect(addReaction(octokit, 'owner', 'repo', issueComment, 'eyes')).resolves.toBeUndefined();
+  });
+
+  it('should react to review comments with createForPullRequestReviewComment', async () => {
+    const octokit = createMockOctokit();
+    await addReaction(octokit, 'owner', 'repo', { kind: 'review_comment', id: 456, nodeId: 'PRRC_node456' }, 'eyes');
+
+    expect(octokit.rest.reactions.createForPullRequestReviewComment).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'repo',
+      comment_id: 456,
+      content: 'eyes',
+    });
+    expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+  });
+
+  it('should react to reviews with the GraphQL addReaction mutation', async () => {
+    const octokit = createMockOctokit();
+    await addReaction(octokit, 'owner', 'repo', { kind: 'review', id: 789, nodeId: 'PRR_node789' }, '+1');
+
+    expect(octokit.graphql).toHaveBeenCalledWith(expect.stringContaining('addReaction'), {
+      id: 'PRR_node789',
+      content: 'THUMBS_UP',
+    });
+    expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+  });
+});
+
+describe('postReply', () => {
+  it('should reply in the thread of a review comment', async () => {
+    const octokit = createMockOctokit();
+    await postReply(octokit, 'owner', 'repo', 1, { kind: 'review_comment', id: 456, nodeId: 'PRRC_node456' }, 'Hi');
+
+    expect(octokit.rest.pulls.createReplyForReviewComment).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'repo',
+      pull_number: 1,
+      comment_id: 456,
+      body: 'Hi',
+    });
+    expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+  });
+
+  it('should reply to reviews and comments in the PR conversation', async () => {
+    const octokit = createMockOctokit();
+    await postReply(octokit, 'owner', 'repo', 1, { kind: 'review', id: 789, nodeId: 'PRR_node789' }, 'Hi');
+
+    expect(octokit.rest.issues.createComment).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'repo',
+      issue_number: 1,
+      body: 'Hi',
+    });
+    expect(octokit.rest.pulls.createReplyForReviewComment).not.toHaveBeenCalled();
   });
 });
 
@@ -63,6 +146,98 @@ describe('postComment', () => {
   });
 });
 
+describe('updateComment', () => {
+  it('should call updateComment with correct parameters', async () => {
+    const octokit = createMockOctokit();
+    await updateComment(octokit, 'owner', 'repo', 42, 'new body');
+
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'repo',
+      comment_id: 42,
+      body: 'new body',
+    });
+  });
+});
+
+describe('fetchIssueComments', () => {
+  it('should paginate listComments', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([{ id: 1, body: 'hello' }]);
+
+    const comments = await fetchIssueComments(octokit, 'owner', 'repo', 5);
+
+    expect(comments).toEqual([{ id: 1, body: 'hello' }]);
+    expect(octokit.paginate).toHaveBeenCalledWith(octokit.rest.issues.listComments, {
+      owner: 'owner',
+      repo: 'repo',
+      issue_number: 5,
+      per_page: 100,
+    });
+  });
+});
+
+describe('fetchAuthenticatedLogin', () => {
+  it('reads the viewer login once per client', async () => {
+    const octokit = createMockOctokit();
+    octokit.graphql.mockResolvedValue({ viewer: { login: 'my-app[bot]' } });
+
+    expect(await fetchAuthenticatedLogin(octokit)).toBe('my-app[bot]');
+    expect(await fetchAuthenticatedLogin(octokit)).toBe('my-app[bot]');
+    expect(octokit.graphql).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to github-actions[bot] when the viewer cannot be read', async () => {
+    const octokit = createMockOctokit();
+    octokit.graphql.mockRejectedValue(new Error('Resource not accessible by integration'));
+
+    expect(await fetchAuthenticatedLogin(octokit)).toBe('github-actions[bot]');
+  });
+});
+
+describe('addLabel / removeLabel', () => {
+  it('should add a single label', async () => {
+    const octokit = createMockOctokit();
+    await addLabel(octokit, 'owner', 'repo', 5, 'nylbot:auto-merge');
+
+    expect(octokit.rest.issues.addLabels).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'repo',
+      issue_number: 5,
+      labels: ['nylbot:auto-merge'],
+    });
+  });
+
+  it('should not throw when the label is already removed', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.issues.removeLabel.mockRejectedValue(new Error('Label does not exist'));
+
+    await expect(removeLabel(octokit, 'owner', 'repo', 5, 'nylbot:auto-merge')).resolves.toBeUndefined();
+  });
+});
+
+describe('listOpenPullRequestNumbersWithLabel', () => {
+  it('should return only PR numbers', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([
+      { number: 1, pull_request: {} },
+      { number: 2 },
+      { number: 3, pull_request: {} },
+    ]);
+
+    const numbers = await listOpenPullRequestNumbersWithLabel(octokit, 'owner', 'repo', 'nylbot:auto-merge');
+
+    expect(numbers).toEqual([1, 3]);
+    expect(octokit.paginate).toHaveBeenCalledWith(octokit.rest.issues.listForRepo, {
+      owner: 'owner',
+      repo: 'repo',
+      state: 'open',
+      labels: 'nylbot:auto-merge',
+      per_page: 100,
+    });
+  });
+});
+
 describe('getCollaboratorPermission', () => {
   it('should return permission level on success', async () => {
     const octokit = createMockOctokit();
@@ -71,6 +246,26 @@ describe('getCollaboratorPermission', () => {
     expect(permission).toBe('write');
   });
 
+  it('should prefer a built-in role_name so maintain and triage are distinguishable', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValue({
+      data: { permission: 'write', role_name: 'maintain' },
+    } as Awaited<ReturnType<typeof octokit.rest.repos.getCollaboratorPermissionLevel>>);
+
+    const permission = await getCollaboratorPermission(octokit, 'owner', 'repo', 'user');
+    expect(permission).toBe('maintain');
+  });
+
+  it('should fall back to permission for custom role names', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValue({
+      data: { permission: 'write', role_name: 'release-manager' },
+    } as Awaited<ReturnType<typeof octokit.rest.repos.getCollaboratorPermissionLevel>>);
+
+    const permission = await getCollaboratorPermission(octokit, 'owner', 'repo', 'user');
+    expect(permission).toBe('write');
+  });
+
   it('should return none on error', async () => {
     const octokit = createMockOctokit();
     octokit.rest.repos.getCollaboratorPermissionLevel.mockRejectedValue(new Error('Not found'));
@@ -80,6 +275,51 @@ describe('getCollaboratorPermission', () => {
   });
 });
 
+describe('isTeamMember', () => {
+  it('should return true only for active memberships', async () => {
+    const octokit = createMockOctokit();
+    expect(await isTeamMember(octokit, 'acme', 'release-managers', 'user')).toBe(true);
+
+    octokit.rest.teams.getMembershipForUserInOrg.mockResolvedValue({
+      data: { state: 'pending' },
+    } as Awaited<ReturnType<typeof octokit.rest.teams.getMembershipForUserInOrg>>);
+    expect(await isTeamMember(octokit, 'acme', 'release-managers', 'invitee')).toBe(false);
+  });
+
+  it('should read each team and user once per client', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.teams.getMembershipForUserInOrg.mockRejectedValue(
+      Object.assign(new Error('Resource not accessible by integration'), { status: 403 }),
+    );
+
+    await expect(isTeamMember(octokit, 'acme', 'release-managers', 'user')).rejects.toThrow('Resource not accessible');
+    await expect(isTeamMember(octokit, 'Acme', 'release-managers', 'User')).rejects.toThrow('Resource not accessible');
+    expect(octokit.rest.teams.getMembershipForUserInOrg).toHaveBeenCalledTimes(1);
+
+    await isTeamMember(createMockOctokit(), 'acme', 'release-managers', 'user');
+    expect(octokit.rest.teams.getMembershipForUserInOrg).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return false for non-members of a readable team', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.teams.getMembershipForUserInOrg.mockRejectedValue(
+      Object.assign(new Error('Not Found'), { status: 404 }),
+    );
+
+    expect(await isTeamMember(octokit, 'acme', 'release-managers', 'user')).toBe(false);
+  });
+
+  it('should throw when the team cannot be read', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.teams.getMembershipForUserInOrg.mockRejectedValue(
+      Object.assign(new Error('Not Found'), { status: 404 }),
+    );
+    octokit.rest.teams.getByName.mockRejectedValue(Object.assign(new Error('Not Found'), { status: 404 }));
+
+    await expect(isTeamMember(octokit, 'acme', 'release-managers', 'user')).rejects.toThrow('Not Found');
+  });
+});
+
 describe('fetchPullRequestData', () => {
   it('should parse PR data correctly', async () => {
     const octokit = createMockOctokit();
@@ -93,6 +333,8 @@ describe('fetchPullRequestData', () => {
     expect(prData.headRef).toBe('feature/test');
     expect(prData.baseRef).toBe('develop');
     expect(prData.isFork).toBe(false);
+    expect(prData.mergeCommitSha).toBeNull();
+    expect(prData.nodeId).toBe('PR_node1');
   });
 
   it('should detect fork PRs correctly', async () => {
@@ -199,40 +441,420 @@ describe('fetchPullRequestCommits', () => {
   });
 });
 
+describe('fetchPullRequestFiles', () => {
+  it('should return the paths of the files changed by a PR', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([{ filename: 'src/index.ts' }, { filename: 'README.md' }]);
+
+    const files = await fetchPullRequestFiles(octokit, 'owner', 'repo', 1);
+
+    expect(files).toEqual(['src/index.ts', 'README.md']);
+    expect(octokit.paginate).toHaveBeenCalledWith(octokit.rest.pulls.listFiles, {
+      owner: 'owner',
+      repo: 'repo',
+      pull_number: 1,
+      per_page: 100,
+    });
+  });
+
+  it('should return both paths of a renamed file', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([{ filename: 'lib/index.ts', previous_filename: 'src/index.ts' }]);
+
+    const files = await fetchPullRequestFiles(octokit, 'owner', 'repo', 1);
+
+    expect(files).toEqual(['lib/index.ts', 'src/index.ts']);
+  });
+});
+
+describe('fetchFileContent', () => {
+  it('should decode the content of a file at a ref', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.repos.getContent.mockResolvedValue({
+      data: { type: 'file', content: Buffer.from('* @alice\n').toString('base64') },
+    } as unknown as Awaited<ReturnType<typeof octokit.rest.repos.getContent>>);
+
+    const content = await fetchFileContent(octokit, 'owner', 'repo', '.github/CODEOWNERS', 'main');
+
+    expect(content).toBe('* @alice\n');
+    expect(octokit.rest.repos.getContent).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'repo',
+      path: '.github/CODEOWNERS',
+      ref: 'main',
+    });
+  });
+
+  it('should return null for a missing file or a directory', async () => {
+    const octokit = createMockOctokit();
+
+    expect(await fetchFileContent(octokit, 'owner', 'repo', 'CODEOWNERS', 'main')).toBeNull();
+
+    octokit.rest.repos.getContent.mockResolvedValue({ data: [] } as unknown as Awaited<
+      ReturnType<typeof octokit.rest.repos.getContent>
+    >);
+    expect(await fetchFileContent(octokit, 'owner', 'repo', 'docs', 'main')).toBeNull();
+  });
+
+  it('should rethrow errors other than 404', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.repos.getContent.mockRejectedValue(Object.assign(new Error('Server Error'), { status: 500 }));
+
+    await expect(fetchFileContent(octokit, 'owner', 'repo', 'CODEOWNERS', 'main')).rejects.toThrow('Server Error');
+  });
+});
+
 describe('mergePullRequest', () => {
   it('should return success on successful merge', async () => {
     const octokit = createMockOctokit();
-    const result = await mergePullRequest(
-      octokit,
-      'owner',
-      'repo',
-      1,
-      'squash',
-      'abc123',
-      'Merge title',
-      'Merge message body',
-    );
+    const result = await mergePullRequest(octokit, 'owner', 'repo', 1, 'squash', 'abc123', {
+      title: 'Merge title',
+      body: 'Merge message body',
+    });
 
     expect(result.success).toBe(true);
     expect(result.mergeCommitSha).toBe('merge123456789');
+    expect(octokit.rest.pulls.merge).toHaveBeenCalledWith(
+      expect.objectContaining({ commit_title: 'Merge title', commit_message: 'Merge message body' }),
+    );
+  });
+
+  it('should omit commit title and message for rebase', async () => {
+    const octokit = createMockOctokit();
+    const result = await mergePullRequest(octokit, 'owner', 'repo', 1, 'rebase', 'abc123', null);
+
+    expect(result.success).toBe(true);
+    const params = octokit.rest.pulls.merge.mock.calls[0]?.[0];
+    expect(params?.merge_method).toBe('rebase');
+    expect(params).not.toHaveProperty('commit_title');
+    expect(params).not.toHaveProperty('commit_message');
   });
 
   it('should return error message on failure', async () => {
     const octokit = createMockOctokit();
     octokit.rest.pulls.merge.mockRejectedValue(new Error('Merge conflict'));
 
-    const result = await mergePullRequest(
-      octokit,
-      'owner',
-      'repo',
-      1,
-      'squash',
-      'abc123',
-      'Merge title',
-      'Merge message body',
-    );
+    const result = await mergePullRequest(octokit, 'owner', 'repo', 1, 'squash', 'abc123', {
+      title: 'Merge title',
+      body: 'Merge message body',
+    });
 
     expect(result.success).toBe(false);
     expect(result.error).toContain('Merge conflict');
   });
 });
+
+describe('updatePullRequestBranch', () => {
+  it('should pass the expected head SHA and return success', async () => {
+    const octokit = createMockOctokit();
+    const result = await updatePullRequestBranch(octokit, 'owner', 'repo', 1, 'abc123');
+
+    expect(result).toEqual({ success: true });
+    expect(octokit.rest.pulls.updateBranch).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'repo',
+      pull_number: 1,
+      expected_head_sha: 'abc123',
+    });
+  });
+
+  it('should return error message on failure', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.updateBranch.mockRejectedValue(new Error('expected head sha didn’t match current head ref'));
+
+    const result = await updatePullRequestBranch(octokit, 'owner', 'repo', 1, 'abc123');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('expected head sha');
+  });
+});
+
+describe('updatePullRequestTitle', () => {
+  it('should update the title and return success', async () => {
+    const octokit = createMockOctokit();
+
+    expect(await updatePullRequestTitle(octokit, 'owner', 'repo', 1, 'feat: x')).toEqual({ success: true });
+    expect(octokit.rest.pulls.update).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'repo',
+      pull_number: 1,
+      title: 'feat: x',
+    });
+  });
+
+  it('should return error message on failure', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.update.mockRejectedValue(new Error('Validation Failed'));
+
+    expect(await updatePullRequestTitle(octokit, 'owner', 'repo', 1, 'feat: x')).toEqual({
+      success: false,
+      error: 'Validation Failed',
+    });
+  });
+});
+
+describe('markPullRequestReadyForReview', () => {
+  it('should run the GraphQL mutation with the PR node ID', async () => {
+    const octokit = createMockOctokit();
+
+    expect(await markPullRequestReadyForReview(octokit, 'PR_node1')).toEqual({ success: true });
+    expect(octokit.graphql).toHaveBeenCalledWith(expect.stringContaining('markPullRequestReadyForReview'), {
+      id: 'PR_node1',
+    });
+  });
+
+  it('should return error message on failure', async () => {
+    const octokit = createMockOctokit();
+    octokit.graphql.mockRejectedValue(new Error('Resource not accessible by integration'));
+
+    expect(await markPullRequestReadyForReview(octokit, 'PR_node1')).toEqual({
+      success: false,
+      error: 'Resource not accessible by integration',
+    });
+  });
+});
+
+describe('fetchCommitParents', () => {
+  it('should return parent SHAs in order', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.git.getCommit.mockResolvedValue({
+      data: { parents: [{ sha: 'first' }, { sha: 'second' }] },
+    } as Awaited<ReturnType<typeof octokit.rest.git.getCommit>>);
+
+    expect(await fetchCommitParents(octokit, 'owner', 'repo', 'abc123')).toEqual(['first', 'second']);
+    expect(octokit.rest.git.getCommit).toHaveBeenCalledWith(expect.objectContaining({ commit_sha: 'abc123' }));
+  });
+});
+
+describe('fetchCommit', () => {
+  it('should return the tree, parents, message, and author', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.git.getCommit.mockResolvedValue({
+      data: {
+        tree: { sha: 'tree123' },
+        parents: [{ sha: 'parent1' }],
+        message: 'fix: something (#1)',
+        author: { name: 'Alice', email: 'alice@example.com', date: '2024-01-01T00:00:00Z' },
+      },
+    } as Awaited<ReturnType<typeof octokit.rest.git.getCommit>>);
+
+    expect(await fetchCommit(octokit, 'owner', 'repo', 'abc123')).toEqual({
+      treeSha: 'tree123',
+      parents: ['parent1'],
+      message: 'fix: something (#1)',
+      author: { name: 'Alice', email: 'alice@example.com', date: '2024-01-01T00:00:00Z' },
+    });
+  });
+});
+
+describe('fetchBranchSha', () => {
+  it('should return the SHA the branch points to', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.git.getRef.mockResolvedValue({
+      data: { object: { sha: 'branch123' } },
+    } as Awaited<ReturnType<typeof octokit.rest.git.getRef>>);
+
+    expect(await fetchBranchSha(octokit, 'owner', 'repo', 'release/1.2')).toBe('branch123');
+    expect(octokit.rest.git.getRef).toHaveBeenCalledWith(expect.objectContaining({ ref: 'heads/release/1.2' }));
+  });
+
+  it('should return null when the branch does not exist', async () => {
+    const octokit = createMockOctokit();
+
+    expect(await fetchBranchSha(octokit, 'owner', 'repo', 'release/9.9')).toBeNull();
+  });
+});
+
+describe('createCommit / createBranch / forceUpdateBranch / deleteBranch', () => {
+  it('should create a commit with the author only when given', async () => {
+    const octokit = createMockOctokit();
+    const author = { name: 'Alice', email: 'alice@example.com', date: '2024-01-01T00:00:00Z' };
+
+    expect(await createCommit(octokit, 'owner', 'repo', { message: 'm', treeSha: 't', parents: ['p'] })).toBe(
+      'commit123456789',
+    );
+    await createCommit(octokit, 'owner', 'repo', { message: 'm', treeSha: 't', parents: ['p'], author });
+
+    expect(octokit.rest.git.createCommit.mock.calls[0]?.[0]).not.toHaveProperty('author');
+    expect(octokit.rest.git.createCommit.mock.calls[1]?.[0]).toEqual(
+      expect.objectContaining({ tree: 't', parents: ['p'], author }),
+    );
+  });
+
+  it('should use full refs for creation and short refs for updates', async () => {
+    const octokit = createMockOctokit();
+
+    await createBranch(octokit, 'owner', 'repo', 'backport/1/release/1.2', 'sha1');
+    await forceUpdateBranch(octokit, 'owner', 'repo', 'backport/1/release/1.2', 'sha2');
+    await deleteBranch(octokit, 'owner', 'repo', 'backport/1/release/1.2');
+
+    expect(octokit.rest.git.createRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'refs/heads/backport/1/release/1.2', sha: 'sha1' }),
+    );
+    expect(octokit.rest.git.updateRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'heads/backport/1/release/1.2', sha: 'sha2', force: true }),
+    );
+    expect(octokit.rest.git.deleteRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'heads/backport/1/release/1.2' }),
+    );
+  });
+
+  it('should ignore errors when deleting a branch', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.git.deleteRef.mockRejectedValue(new Error('Reference does not exist'));
+
+    await expect(deleteBranch(octokit, 'owner', 'repo', 'gone')).resolves.toBeUndefined();
+  });
+});
+
+describe('createRefIfAbsent', () => {
+  it('should create the ref under refs/', async () => {
+    const octokit = createMockOctokit();
+
+    expect(await createRefIfAbsent(octokit, 'owner', 'repo', 'nylbot/lock/main', 'abc123')).toBe(true);
+    expect(octokit.rest.git.createRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'refs/nylbot/lock/main', sha: 'abc123' }),
+    );
+  });
+
+  it('should return false when the ref already exists', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.git.createRef.mockRejectedValue(Object.assign(new Error('Reference already exists'), { status: 422 }));
+
+    expect(await createRefIfAbsent(octokit, 'owner', 'repo', 'nylbot/lock/main', 'abc123')).toBe(false);
+  });
+
+  it('should throw other errors', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.git.createRef.mockRejectedValue(Object.assign(new Error('Forbidden'), { status: 403 }));
+
+    await expect(createRefIfAbsent(octokit, 'owner', 'repo', 'nylbot/lock/main', 'abc123')).rejects.toThrow(
+      'Forbidden',
+    );
+  });
+});
+
+describe('mergeIntoBranch', () => {
+  it('should return the merged tree SHA', async () => {
+    const octokit = createMockOctokit();
+
+    expect(await mergeIntoBranch(octokit, 'owner', 'repo', 'branch', 'abc123', 'message')).toEqual({
+      success: true,
+      treeSha: 'tree123456789',
+    });
+    expect(octokit.rest.repos.merge).toHaveBeenCalledWith(
+      expect.objectContaining({ base: 'branch', head: 'abc123', commit_message: 'message' }),
+    );
+  });
+
+  it('should report a conflict on 409', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.repos.merge.mockRejectedValue(Object.assign(new Error('Merge conflict'), { status: 409 }));
+
+    expect(await mergeIntoBranch(octokit, 'owner', 'repo', 'branch', 'abc123', 'message')).toEqual({
+      success: false,
+      conflict: true,
+    });
+  });
+
+  it('should return error message on other failures', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.repos.merge.mockRejectedValue(Object.assign(new Error('Not Found'), { status: 404 }));
+
+    expect(await mergeIntoBranch(octokit, 'owner', 'repo', 'branch', 'abc123', 'message')).toEqual({
+      success: false,
+      error: 'Not Found',
+    });
+  });
+});
+
+describe('createPullRequest', () => {
+  it('should open the PR and return its number', async () => {
+    const octokit = createMockOctokit();
+    const pullRequest = { title: 'title', body: 'body', head: 'backport/1/release/1.2', base: 'release/1.2' };
+
+    expect(await createPullRequest(octokit, 'owner', 'repo', pullRequest)).toBe(100);
+    expect(octokit.rest.pulls.create).toHaveBeenCalledWith({ owner: 'owner', repo: 'repo', ...pullRequest });
+  });
+});
+
+describe('listTags', () => {
+  it('should return tag names with the commits they point to', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([{ name: 'v1.3.0', commit: { sha: 'c130' } }]);
+
+    expect(await listTags(octokit, 'owner', 'repo')).toEqual([{ name: 'v1.3.0', commitSha: 'c130' }]);
+    expect(octokit.paginate).toHaveBeenCalledWith(
+      octokit.rest.repos.listTags,
+      expect.objectContaining({ owner: 'owner' }),
+    );
+  });
+});
+
+describe('fetchComparedCommitShas', () => {
+  it('should page through the compared commits', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.repos.compareCommitsWithBasehead
+      .mockResolvedValueOnce({
+        data: { commits: Array.from({ length: 100 }, (_, i) => ({ sha: `a${i}` })), total_commits: 101 },
+      } as Awaited<ReturnType<typeof octokit.rest.repos.compareCommitsWithBasehead>>)
+      .mockResolvedValueOnce({
+        data: { commits: [{ sha: 'b0' }], total_commits: 101 },
+      } as Awaited<ReturnType<typeof octokit.rest.repos.compareCommitsWithBasehead>>);
+
+    const shas = await fetchComparedCommitShas(octokit, 'owner', 'repo', 'c130', 'merge123');
+
+    expect(shas).toHaveLength(101);
+    expect(shas.at(-1)).toBe('b0');
+    expect(octokit.rest.repos.compareCommitsWithBasehead).toHaveBeenLastCalledWith(
+      expect.objectContaining({ basehead: 'c130...merge123', page: 2 }),
+    );
+  });
+});
+
+describe('fetchMergedPullRequestsForCommit', () => {
+  it('should return only merged PRs with their merge commits', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({
+      data: [
+        { number: 5, title: 'feat: add x', merged_at: '2024-01-02T00:00:00Z', merge_commit_sha: 'm5' },
+        { number: 6, title: 'wip', merged_at: null, merge_commit_sha: null },
+      ],
+    } as Awaited<ReturnType<typeof octokit.rest.repos.listPullRequestsAssociatedWithCommit>>);
+
+    expect(await fetchMergedPullRequestsForCommit(octokit, 'owner', 'repo', 'f1')).toEqual([
+      { number: 5, title: 'feat: add x', mergeCommitSha: 'm5' },
+    ]);
+    expect(octokit.rest.repos.listPullRequestsAssociatedWithCommit).toHaveBeenCalledWith(
+      expect.objectContaining({ commit_sha: 'f1' }),
+    );
+  });
+});
+
+describe('createAnnotatedTag', () => {
+  it('should create the tag object and point the tag ref at it', async () => {
+    const octokit = createMockOctokit();
+
+    await createAnnotatedTag(octokit, 'owner', 'repo', 'v1.4.0', 'merge123', 'Release v1.4.0');
+
+    expect(octokit.rest.git.createTag).toHaveBeenCalledWith(
+      expect.objectContaining({ tag: 'v1.4.0', object: 'merge123', type: 'commit', message: 'Release v1.4.0' }),
+    );
+    expect(octokit.rest.git.createRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'refs/tags/v1.4.0', sha: 'tagobject123' }),
+    );
+  });
+});
+
+describe('createDraftRelease', () => {
+  it('should create a draft release and return its URL', async () => {
+    const octokit = createMockOctokit();
+
+    expect(await createDraftRelease(octokit, 'owner', 'repo', { tag: 'v1.4.0', name: 'v1.4.0', body: 'notes' })).toBe(
+      'https://github.com/testowner/testrepo/releases/tag/untagged-1',
+    );
+    expect(octokit.rest.repos.createRelease).toHaveBeenCalledWith(
+      expect.objectContaining({ tag_name: 'v1.4.0', name: 'v1.4.0', body: 'notes', draft: true }),
+    );
+  });
+});
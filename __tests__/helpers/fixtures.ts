@@ -0,0 +1,84 @@
+/**
+ * fixtures.ts - Default config, event context, and PR data for nylbot-merge tests
+ *
+ * Each factory returns a complete object with test defaults and accepts overrides,
+ * so a new field only needs a default here instead of in every test file.
+ */
+
+import type { ActionConfig, EventContext, PullRequestData } from '../../src/types.js';
+
+/**
+ * Creates a default config for tests (no delay between retries).
+ */
+export function createConfig(overrides: Partial<ActionConfig> = {}): ActionConfig {
+  return {
+    releaseBranchPrefix: 'release/',
+    developBranch: 'develop',
+    syncBranchPrefix: 'fix/sync/',
+    mergeableRetryCount: 3,
+    mergeableRetryInterval: 0,
+    rebaseBaseBranches: [],
+    methodOverridePermission: 'maintain',
+    authorizationPolicy: [],
+    autoMergeLabel: 'nylbot:auto-merge',
+    mergeQueue: false,
+    mergeQueueLabel: 'nylbot:merge-queue',
+    mergeLabel: '',
+    backMerge: false,
+    createRelease: false,
+    requireCodeOwnerApproval: false,
+    commandPrefix: '/nylbot',
+    botName: 'nylbot',
+    language: 'en',
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a default event context for tests (a `/nylbot merge` issue comment on PR #1).
+ */
+export function createEventContext(overrides: Partial<EventContext> = {}): EventContext {
+  return {
+    owner: 'testowner',
+    repo: 'testrepo',
+    prNumber: 1,
+    comment: { kind: 'issue_comment', id: 123, nodeId: 'IC_node123' },
+    commentBody: '/nylbot merge',
+    actor: 'testactor',
+    userType: 'User',
+    authorAssociation: 'MEMBER',
+    serverUrl: 'https://github.com',
+    runId: 12345,
+    eventName: 'issue_comment',
+    eventAction: 'created',
+    previousCommentBody: null,
+    isPullRequest: true,
+    eventSha: null,
+    review: null,
+    label: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a default PR data object for tests (an open PR that is ready to merge).
+ */
+export function createPRData(overrides: Partial<PullRequestData> = {}): PullRequestData {
+  return {
+    state: 'open',
+    locked: false,
+    draft: false,
+    merged: false,
+    mergeable: true,
+    mergeableState: 'clean',
+    headSha: 'abc1234567890',
+    headRef: 'feature/test',
+    baseRef: 'develop',
+    author: 'testuser',
+    isFork: false,
+    title: 'feat: test pull request',
+    mergeCommitSha: null,
+    nodeId: 'PR_node1',
+    ...overrides,
+  };
+}
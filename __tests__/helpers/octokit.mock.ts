@@ -26,23 +26,69 @@ type ActionsOctokit = Octokit & Api & { paginate: PaginateInterface };
  * Assignable to Octokit so it can be passed to executeAction, github-api, etc.
  */
 export type MockedOctokit = Omit<ActionsOctokit, 'rest' | 'paginate' | 'graphql'> & {
-  rest: Omit<Api['rest'], 'reactions' | 'issues' | 'repos' | 'pulls'> & {
+  rest: Omit<Api['rest'], 'reactions' | 'issues' | 'repos' | 'pulls' | 'git' | 'search' | 'teams'> & {
     reactions: {
       createForIssueComment: MockedFunction<Api['rest']['reactions']['createForIssueComment']>;
+      createForPullRequestReviewComment: MockedFunction<Api['rest']['reactions']['createForPullRequestReviewComment']>;
     };
-    issues: Omit<Api['rest']['issues'], 'createComment' | 'listComments'> & {
+    issues: Omit<
+      Api['rest']['issues'],
+      'createComment' | 'updateComment' | 'listComments' | 'addLabels' | 'removeLabel' | 'listForRepo'
+    > & {
       createComment: MockedFunction<Api['rest']['issues']['createComment']>;
+      updateComment: MockedFunction<Api['rest']['issues']['updateComment']>;
       listComments: MockedFunction<Api['rest']['issues']['listComments']>;
+      addLabels: MockedFunction<Api['rest']['issues']['addLabels']>;
+      removeLabel: MockedFunction<Api['rest']['issues']['removeLabel']>;
+      listForRepo: MockedFunction<Api['rest']['issues']['listForRepo']>;
     };
     repos: {
       getCollaboratorPermissionLevel: MockedFunction<Api['rest']['repos']['getCollaboratorPermissionLevel']>;
+      getContent: MockedFunction<Api['rest']['repos']['getContent']>;
+      merge: MockedFunction<Api['rest']['repos']['merge']>;
+      listTags: MockedFunction<Api['rest']['repos']['listTags']>;
+      createRelease: MockedFunction<Api['rest']['repos']['createRelease']>;
+      compareCommitsWithBasehead: MockedFunction<Api['rest']['repos']['compareCommitsWithBasehead']>;
+      listPullRequestsAssociatedWithCommit: MockedFunction<
+        Api['rest']['repos']['listPullRequestsAssociatedWithCommit']
+      >;
     };
-    pulls: Omit<Api['rest']['pulls'], 'get' | 'listReviews' | 'listCommits' | 'dismissReview' | 'merge'> & {
+    pulls: Omit<
+      Api['rest']['pulls'],
+      | 'get'
+      | 'listReviews'
+      | 'listCommits'
+      | 'listFiles'
+      | 'dismissReview'
+      | 'merge'
+      | 'updateBranch'
+      | 'create'
+      | 'update'
+      | 'createReplyForReviewComment'
+    > & {
       get: MockedFunction<Api['rest']['pulls']['get']>;
       listReviews: MockedFunction<Api['rest']['pulls']['listReviews']>;
       listCommits: MockedFunction<Api['rest']['pulls']['listCommits']>;
+      listFiles: MockedFunction<Api['rest']['pulls']['listFiles']>;
       dismissReview: MockedFunction<Api['rest']['pulls']['dismissReview']>;
       merge: MockedFunction<Api['rest']['pulls']['merge']>;
+      updateBranch: MockedFunction<Api['rest']['pulls']['updateBranch']>;
+      create: MockedFunction<Api['rest']['pulls']['create']>;
+      update: MockedFunction<Api['rest']['pulls']['update']>;
+      createReplyForReviewComment: MockedFunction<Api['rest']['pulls']['createReplyForReviewComment']>;
+    };
+    git: {
+      getCommit: MockedFunction<Api['rest']['git']['getCommit']>;
+      getRef: MockedFunction<Api['rest']['git']['getRef']>;
+      createCommit: MockedFunction<Api['rest']['git']['createCommit']>;
+      createRef: MockedFunction<Api['rest']['git']['createRef']>;
+      updateRef: MockedFunction<Api['rest']['git']['updateRef']>;
+      deleteRef: MockedFunction<Api['rest']['git']['deleteRef']>;
+      createTag: MockedFunction<Api['rest']['git']['createTag']>;
+    };
+    teams: {
+      getMembershipForUserInOrg: MockedFunction<Api['rest']['teams']['getMembershipForUserInOrg']>;
+      getByName: MockedFunction<Api['rest']['teams']['getByName']>;
     };
   };
   paginate: MockedFunction<PaginateInterface>;
@@ -60,15 +106,28 @@ export function createMockOctokit(): MockedOctokit & ActionsOctokit {
     rest: {
       reactions: {
         createForIssueComment: vi.fn().mockResolvedValue({}),
+        createForPullRequestReviewComment: vi.fn().mockResolvedValue({}),
       },
       issues: {
         createComment: vi.fn().mockResolvedValue({}),
+        updateComment: vi.fn().mockResolvedValue({}),
         listComments: vi.fn().mockResolvedValue({ data: [] }),
+        addLabels: vi.fn().mockResolvedValue({}),
+        removeLabel: vi.fn().mockResolvedValue({}),
+        listForRepo: vi.fn().mockResolvedValue({ data: [] }),
       },
       repos: {
         getCollaboratorPermissionLevel: vi.fn().mockResolvedValue({
           data: { permission: 'write' },
         }),
+        getContent: vi.fn().mockRejectedValue(Object.assign(new Error('Not Found'), { status: 404 })),
+        merge: vi.fn().mockResolvedValue({ data: { commit: { tree: { sha: 'tree123456789' } } } }),
+        listTags: vi.fn().mockResolvedValue({ data: [] }),
+        createRelease: vi.fn().mockResolvedValue({
+          data: { html_url: 'https://github.com/testowner/testrepo/releases/tag/untagged-1' },
+        }),
+        compareCommitsWithBasehead: vi.fn().mockResolvedValue({ data: { commits: [], total_commits: 0 } }),
+        listPullRequestsAssociatedWithCommit: vi.fn().mockResolvedValue({ data: [] }),
       },
       pulls: {
         get: vi.fn().mockResolvedValue({
@@ -90,10 +149,12 @@ export function createMockOctokit(): MockedOctokit & ActionsOctokit {
             },
             user: { login: 'testuser' },
             title: 'feat: test pull request',
+            node_id: 'PR_node1',
           },
         }),
         listReviews: vi.fn().mockResolvedValue({ data: [] }),
         listCommits: vi.fn().mockResolvedValue({ data: [] }),
+        listFiles: vi.fn().mockResolvedValue({ data: [] }),
         dismissReview: vi.fn().mockResolvedValue({}),
         merge: vi.fn().mockResolvedValue({
           data: {
@@ -102,18 +163,42 @@ export function createMockOctokit(): MockedOctokit & ActionsOctokit {
             message: 'Pull request successfully merged',
           },
         }),
+        updateBranch: vi.fn().mockResolvedValue({ data: {} }),
+        create: vi.fn().mockResolvedValue({ data: { number: 100 } }),
+        update: vi.fn().mockResolvedValue({ data: {} }),
+        createReplyForReviewComment: vi.fn().mockResolvedValue({}),
+      },
+      git: {
+        getCommit: vi.fn().mockResolvedValue({ data: { parents: [] } }),
+        // Branches do not exist unless a test says otherwise
+        getRef: vi.fn().mockRejectedValue(new Error('Not Found')),
+        createCommit: vi.fn().mockResolvedValue({ data: { sha: 'commit123456789' } }),
+        createRef: vi.fn().mockResolvedValue({ data: {} }),
+        updateRef: vi.fn().mockResolvedValue({ data: {} }),
+        deleteRef: vi.fn().mockResolvedValue({}),
+        createTag: vi.fn().mockResolvedValue({ data: { sha: 'tagobject123' } }),
+      },
+      teams: {
+        getMembershipForUserInOrg: vi.fn().mockResolvedValue({ data: { state: 'active', role: 'member' } }),
+        getByName: vi.fn().mockResolvedValue({ data: { slug: 'release-managers' } }),
       },
     },
     paginate: vi.fn().mockResolvedValue([]),
-    graphql: vi.fn().mockResolvedValue({
-      repository: {
-        pullRequest: {
-          reviewThreads: {
-            pageInfo: { hasNextPage: false, endCursor: null },
-            nodes: [],
-          },
-        },
-      },
-    }),
+    graphql: vi.fn().mockImplementation((query: string) =>
+      Promise.resolve(
+        query.includes('viewer')
+          ? { viewer: { login: 'github-actions[bot]' } }
+          : {
+              repository: {
+                pullRequest: {
+                  reviewThreads: {
+                    pageInfo: { hasNextPage: false, endCursor: null },
+                    nodes: [],
+                  },
+                },
+              },
+            },
+      ),
+    ),
   } as unknown as MockedOctokit & ActionsOctokit;
 }
@@ -253,10 +253,30 @@ describe('main.ts', () => {
       // Assert
       expect(mockCore.setOutput).toHaveBeenCalledWith('result', 'skipped');
       expect(mockCore.setOutput).not.toHaveBeenCalledWith('merge-method', expect.anything());
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('release-tag', expect.anything());
       expect(mockCore.info).toHaveBeenCalledWith('nylbot-merge result: skipped - Merge was skipped');
       expect(mockCore.setFailed).not.toHaveBeenCalled();
     });
 
+    it('should set the release outputs when a release was tagged', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => (name === 'token' ? 'test-token' : ''));
+      vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'merged',
+        message: 'PR merged successfully',
+        mergeMethod: 'merge',
+        releaseTag: 'v1.4.0',
+        tagUrl: 'https://github.com/o/r/tree/v1.4.0',
+        releaseUrl: 'https://github.com/o/r/releases/tag/untagged-1',
+      });
+      vi.spyOn(action, 'buildSummaryMarkdown').mockReturnValue('# Summary');
+
+      await run(deps);
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('release-tag', 'v1.4.0');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('tag-url', 'https://github.com/o/r/tree/v1.4.0');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('release-url', 'https://github.com/o/r/releases/tag/untagged-1');
+    });
+
     it('should handle failed merge result', async () => {
       // Arrange
 
@@ -355,6 +375,214 @@ describe('main.ts', () => {
       expect(executeActionSpy).toHaveBeenCalled();
     });
 
+    it('should build context for pull_request and check_suite events', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => (name === 'token' ? 'test-token' : ''));
+      const executeActionSpy = vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'skipped',
+        message: 'Auto-merge pending',
+      });
+
+      deps = {
+        core: mockCore,
+        context: createMockContext({
+          eventName: 'pull_request',
+          payload: {
+            action: 'labeled',
+            label: { name: 'nylbot:merge' },
+            pull_request: { number: 7 },
+            sender: { type: 'Bot' },
+          },
+        }),
+        getOctokit: mockGetOctokit,
+        env: mockEnv,
+      };
+      await run(deps);
+      expect(executeActionSpy).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        expect.objectContaining({
+          eventName: 'pull_request',
+          eventAction: 'labeled',
+          prNumber: 7,
+          eventSha: null,
+          comment: null,
+          label: 'nylbot:merge',
+          userType: 'Bot',
+        }),
+        expect.any(Object),
+      );
+
+      deps = {
+        core: mockCore,
+        context: createMockContext({ eventName: 'check_suite', payload: { check_suite: { head_sha: 'sha-1' } } }),
+        getOctokit: mockGetOctokit,
+        env: mockEnv,
+      };
+      await run(deps);
+      expect(executeActionSpy).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ eventName: 'check_suite', prNumber: 0, eventSha: 'sha-1' }),
+        expect.any(Object),
+      );
+    });
+
+    it('should build context for review and review comment events', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => (name === 'token' ? 'test-token' : ''));
+      const executeActionSpy = vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'skipped',
+        message: 'Command not matched',
+      });
+
+      deps = {
+        core: mockCore,
+        context: createMockContext({
+          eventName: 'pull_request_review',
+          payload: {
+            action: 'submitted',
+            pull_request: { number: 7 },
+            review: {
+              id: 55,
+              node_id: 'PRR_node55',
+              body: 'LGTM\n/nylbot merge',
+              state: 'approved',
+              commit_id: 'sha-1',
+              user: { login: 'reviewer', type: 'User' },
+              author_association: 'MEMBER',
+            },
+          },
+        }),
+        getOctokit: mockGetOctokit,
+        env: mockEnv,
+      };
+      await run(deps);
+      expect(executeActionSpy).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        expect.objectContaining({
+          prNumber: 7,
+          comment: { kind: 'review', id: 55, nodeId: 'PRR_node55' },
+          commentBody: 'LGTM\n/nylbot merge',
+          authorAssociation: 'MEMBER',
+          isPullRequest: true,
+          review: { id: 55, state: 'APPROVED', commit_id: 'sha-1', user: { login: 'reviewer' } },
+        }),
+        expect.any(Object),
+      );
+
+      deps = {
+        core: mockCore,
+        context: createMockContext({
+          eventName: 'pull_request_review_comment',
+          payload: {
+            action: 'created',
+            pull_request: { number: 7 },
+            comment: { id: 66, node_id: 'PRRC_node66', body: '/nylbot status', author_association: 'MEMBER' },
+          },
+        }),
+        getOctokit: mockGetOctokit,
+        env: mockEnv,
+      };
+      await run(deps);
+      expect(executeActionSpy).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        expect.objectContaining({
+          comment: { kind: 'review_comment', id: 66, nodeId: 'PRRC_node66' },
+          commentBody: '/nylbot status',
+          review: null,
+        }),
+        expect.any(Object),
+      );
+    });
+
+    it('should build a merge command from the inputs of workflow_dispatch events', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = {
+          token: 'test-token',
+          'pr-number': '42',
+          'merge-flags': '--squash\n--dry-run',
+        };
+        return config[name] || '';
+      });
+      const executeActionSpy = vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'skipped',
+        message: 'Dry run completed',
+      });
+
+      deps = {
+        core: mockCore,
+        context: createMockContext({ eventName: 'workflow_dispatch', actor: 'admin', payload: {} }),
+        getOctokit: mockGetOctokit,
+        env: mockEnv,
+      };
+      await run(deps);
+
+      expect(executeActionSpy).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        expect.objectContaining({
+          eventName: 'workflow_dispatch',
+          prNumber: 42,
+          commentBody: '/nylbot merge --squash --dry-run',
+          comment: null,
+          actor: 'admin',
+          isPullRequest: true,
+        }),
+        expect.any(Object),
+      );
+    });
+
+    it('should reject workflow_dispatch events without a valid pr-number', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = { token: 'test-token', 'pr-number': '#42' };
+        return config[name] || '';
+      });
+
+      deps = {
+        core: mockCore,
+        context: createMockContext({ eventName: 'workflow_dispatch', payload: {} }),
+        getOctokit: mockGetOctokit,
+        env: mockEnv,
+      };
+      await run(deps);
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringMatching(/nylbot-merge action failed: Invalid pr-number: "#42"\. Must be a positive integer/),
+      );
+    });
+
+    it('should build context for edited comments with the previous body', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => (name === 'token' ? 'test-token' : ''));
+      const executeActionSpy = vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'skipped',
+        message: 'Edit did not add a command',
+      });
+
+      deps = {
+        core: mockCore,
+        context: createMockContext({
+          payload: {
+            action: 'edited',
+            changes: { body: { from: 'LGTM' } },
+            issue: { number: 123, pull_request: {} },
+            comment: { id: 999, body: 'LGTM\n/nylbot merge' },
+          },
+        }),
+        getOctokit: mockGetOctokit,
+        env: mockEnv,
+      };
+      await run(deps);
+      expect(executeActionSpy).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ eventAction: 'edited', previousCommentBody: 'LGTM' }),
+        expect.any(Object),
+      );
+
+      deps = { core: mockCore, context: createMockContext(), getOctokit: mockGetOctokit, env: mockEnv };
+      await run(deps);
+      expect(executeActionSpy).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ eventAction: null, previousCommentBody: null }),
+        expect.any(Object),
+      );
+    });
+
     it('should handle missing comment in payload', async () => {
       // Arrange: Override context with custom payload
       mockContext = createMockContext({
@@ -493,7 +721,13 @@ describe('main.ts', () => {
       await run(deps);
 
       // Assert
-      expect(buildSummaryMarkdownSpy).toHaveBeenCalledWith('✅ Merged successfully', 123, 'test-actor', 'squash');
+      expect(buildSummaryMarkdownSpy).toHaveBeenCalledWith(
+        'nylbot',
+        '✅ Merged successfully',
+        123,
+        'test-actor',
+        'squash',
+      );
     });
 
     it('should handle different merge methods in summary', async () => {
@@ -518,7 +752,13 @@ describe('main.ts', () => {
       await run(deps);
 
       // Assert
-      expect(buildSummaryMarkdownSpy).toHaveBeenCalledWith('✅ Merged successfully', 123, 'test-actor', 'merge');
+      expect(buildSummaryMarkdownSpy).toHaveBeenCalledWith(
+        'nylbot',
+        '✅ Merged successfully',
+        123,
+        'test-actor',
+        'merge',
+      );
     });
 
     it('should parse integer inputs correctly', async () => {
@@ -705,6 +945,339 @@ describe('main.ts', () => {
       );
     });
 
+    it('should default method-override-permission to maintain', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => (name === 'token' ? 'test-token' : ''));
+      const executeActionSpy = vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'skipped',
+        message: 'Command not matched',
+      });
+
+      await run(deps);
+
+      expect(executeActionSpy).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(Object),
+        expect.objectContaining({ methodOverridePermission: 'maintain', rebaseBaseBranches: [] }),
+      );
+    });
+
+    it('should default the merge queue to disabled', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => (name === 'token' ? 'test-token' : ''));
+      const executeActionSpy = vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'skipped',
+        message: 'Command not matched',
+      });
+
+      await run(deps);
+
+      expect(executeActionSpy).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(Object),
+        expect.objectContaining({ mergeQueue: false, mergeQueueLabel: 'nylbot:merge-queue' }),
+      );
+    });
+
+    it('should pass merge-label through to the config', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) =>
+        name === 'token' ? 'test-token' : name === 'merge-label' ? 'nylbot:merge' : '',
+      );
+      const executeActionSpy = vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'skipped',
+        message: 'Command not matched',
+      });
+
+      await run(deps);
+
+      expect(executeActionSpy).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(Object),
+        expect.objectContaining({ mergeLabel: 'nylbot:merge' }),
+      );
+    });
+
+    it('should parse authorization-policy rules', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = {
+          token: 'test-token',
+          'authorization-policy': 'merge into main: maintain\nmerge --override-approval-requirement: admin\n',
+        };
+        return config[name] || '';
+      });
+      const executeActionSpy = vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'skipped',
+        message: 'Command not matched',
+      });
+
+      await run(deps);
+
+      expect(executeActionSpy.mock.calls[0]?.[2].authorizationPolicy.map((rule) => rule.source)).toEqual([
+        'merge into main: maintain',
+        'merge --override-approval-requirement: admin',
+      ]);
+    });
+
+    it('should reject an invalid authorization-policy rule with clear error message', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = {
+          token: 'test-token',
+          'authorization-policy': 'merge into main: owner',
+        };
+        return config[name] || '';
+      });
+
+      await run(deps);
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /nylbot-merge action failed: Invalid authorization-policy rule: "merge into main: owner"\. The requirement must be a team/,
+        ),
+      );
+    });
+
+    it('should reject a non-boolean merge-queue with clear error message', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = {
+          token: 'test-token',
+          'merge-queue': 'yes',
+        };
+        return config[name] || '';
+      });
+
+      await run(deps);
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringMatching(/nylbot-merge action failed: Invalid merge-queue: "yes"\. Must be "true" or "false"/),
+      );
+    });
+
+    it('should parse back-merge and default it to disabled', async () => {
+      const executeActionSpy = vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'skipped',
+        message: 'Command not matched',
+      });
+      (mockCore.getInput as Mock).mockImplementation((name: string) => (name === 'token' ? 'test-token' : ''));
+
+      await run(deps);
+
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = { token: 'test-token', 'back-merge': 'true' };
+        return config[name] || '';
+      });
+
+      await run(deps);
+
+      expect(executeActionSpy.mock.calls[0]?.[2]).toEqual(expect.objectContaining({ backMerge: false }));
+      expect(executeActionSpy.mock.calls[1]?.[2]).toEqual(expect.objectContaining({ backMerge: true }));
+    });
+
+    it('should reject a non-boolean back-merge with clear error message', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = { token: 'test-token', 'back-merge': 'on' };
+        return config[name] || '';
+      });
+
+      await run(deps);
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringMatching(/nylbot-merge action failed: Invalid back-merge: "on"\. Must be "true" or "false"/),
+      );
+    });
+
+    it('should parse create-release and default it to disabled', async () => {
+      const executeActionSpy = vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'skipped',
+        message: 'Command not matched',
+      });
+      (mockCore.getInput as Mock).mockImplementation((name: string) => (name === 'token' ? 'test-token' : ''));
+
+      await run(deps);
+
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = { token: 'test-token', 'create-release': 'true' };
+        return config[name] || '';
+      });
+
+      await run(deps);
+
+      expect(executeActionSpy.mock.calls[0]?.[2]).toEqual(expect.objectContaining({ createRelease: false }));
+      expect(executeActionSpy.mock.calls[1]?.[2]).toEqual(expect.objectContaining({ createRelease: true }));
+    });
+
+    it('should reject a non-boolean create-release with clear error message', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = { token: 'test-token', 'create-release': 'yes' };
+        return config[name] || '';
+      });
+
+      await run(deps);
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringMatching(/nylbot-merge action failed: Invalid create-release: "yes"\. Must be "true" or "false"/),
+      );
+    });
+
+    it('should parse require-code-owner-approval and default it to disabled', async () => {
+      const executeActionSpy = vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'skipped',
+        message: 'Command not matched',
+      });
+      (mockCore.getInput as Mock).mockImplementation((name: string) => (name === 'token' ? 'test-token' : ''));
+
+      await run(deps);
+
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = { token: 'test-token', 'require-code-owner-approval': 'true' };
+        return config[name] || '';
+      });
+
+      await run(deps);
+
+      expect(executeActionSpy.mock.calls[0]?.[2]).toEqual(expect.objectContaining({ requireCodeOwnerApproval: false }));
+      expect(executeActionSpy.mock.calls[1]?.[2]).toEqual(expect.objectContaining({ requireCodeOwnerApproval: true }));
+    });
+
+    it('should reject a non-boolean require-code-owner-approval with clear error message', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = { token: 'test-token', 'require-code-owner-approval': 'yes' };
+        return config[name] || '';
+      });
+
+      await run(deps);
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /nylbot-merge action failed: Invalid require-code-owner-approval: "yes"\. Must be "true" or "false"/,
+        ),
+      );
+    });
+
+    it('should parse command-prefix and bot-name with nylbot defaults', async () => {
+      const executeActionSpy = vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'skipped',
+        message: 'Command not matched',
+      });
+      (mockCore.getInput as Mock).mockImplementation((name: string) => (name === 'token' ? 'test-token' : ''));
+
+      await run(deps);
+
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = {
+          token: 'test-token',
+          'command-prefix': '/shipit',
+          'bot-name': 'ShipIt',
+        };
+        return config[name] || '';
+      });
+
+      await run(deps);
+
+      expect(executeActionSpy.mock.calls[0]?.[2]).toEqual(
+        expect.objectContaining({ commandPrefix: '/nylbot', botName: 'nylbot' }),
+      );
+      expect(executeActionSpy.mock.calls[1]?.[2]).toEqual(
+        expect.objectContaining({ commandPrefix: '/shipit', botName: 'ShipIt' }),
+      );
+    });
+
+    it('should reject an invalid command-prefix with clear error message', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = { token: 'test-token', 'command-prefix': 'shipit' };
+        return config[name] || '';
+      });
+
+      await run(deps);
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringMatching(/nylbot-merge action failed: Invalid command-prefix: "shipit"/),
+      );
+    });
+
+    it('should reject an invalid bot-name with clear error message', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = { token: 'test-token', 'bot-name': '@ship it' };
+        return config[name] || '';
+      });
+
+      await run(deps);
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringMatching(/nylbot-merge action failed: Invalid bot-name: "@ship it"/),
+      );
+    });
+
+    it('should parse language with English as the default', async () => {
+      const executeActionSpy = vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'skipped',
+        message: 'Command not matched',
+      });
+      (mockCore.getInput as Mock).mockImplementation((name: string) => (name === 'token' ? 'test-token' : ''));
+
+      await run(deps);
+
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = { token: 'test-token', language: 'ja' };
+        return config[name] || '';
+      });
+
+      await run(deps);
+
+      expect(executeActionSpy.mock.calls[0]?.[2]).toEqual(expect.objectContaining({ language: 'en' }));
+      expect(executeActionSpy.mock.calls[1]?.[2]).toEqual(expect.objectContaining({ language: 'ja' }));
+    });
+
+    it('should reject an unsupported language with clear error message', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = { token: 'test-token', language: 'fr' };
+        return config[name] || '';
+      });
+
+      await run(deps);
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringMatching(/nylbot-merge action failed: Invalid language: "fr"\. Must be one of: en, ja/),
+      );
+    });
+
+    it('should parse rebase-base-branches as a trimmed comma-separated list', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = {
+          token: 'test-token',
+          'rebase-base-branches': ' main, staging ,,',
+        };
+        return config[name] || '';
+      });
+      const executeActionSpy = vi.spyOn(action, 'executeAction').mockResolvedValue({
+        status: 'skipped',
+        message: 'Command not matched',
+      });
+
+      await run(deps);
+
+      expect(executeActionSpy).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(Object),
+        expect.objectContaining({ rebaseBaseBranches: ['main', 'staging'] }),
+      );
+    });
+
+    it('should reject invalid method-override-permission with clear error message', async () => {
+      (mockCore.getInput as Mock).mockImplementation((name: string) => {
+        const config: Record<string, string> = {
+          token: 'test-token',
+          'method-override-permission': 'triage',
+        };
+        return config[name] || '';
+      });
+
+      await run(deps);
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /nylbot-merge action failed: Invalid method-override-permission: "triage"\. Must be one of: admin, maintain, write/,
+        ),
+      );
+    });
+
     it('should log stack trace when error with stack is thrown', async () => {
       // Arrange
 
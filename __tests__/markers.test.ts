@@ -0,0 +1,154 @@
+/**
+ * markers.test.ts - Tests for markers.ts module
+ *
+ * Tests cover building, parsing, stripping, and finding hidden marker comments.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  buildMarker,
+  escapeHtmlComments,
+  parseMarker,
+  stripMarker,
+  findMarkers,
+  findLatestMarker,
+} from '../src/markers.js';
+import type { IssueCommentsArray } from '../src/types.js';
+
+/**
+ * Login nylbot posts as in these tests.
+ */
+const BOT_LOGIN = 'github-actions[bot]';
+
+/**
+ * Creates a comment list entry for tests (posted by nylbot unless another author is given).
+ */
+function createComment(
+  id: number,
+  body: string,
+  user: { login: string; type: string } = { login: BOT_LOGIN, type: 'Bot' },
+): IssueCommentsArray[number] {
+  return { id, body, user } as IssueCommentsArray[number];
+}
+
+describe('buildMarker', () => {
+  it('builds a hidden HTML comment holding JSON data', () => {
+    expect(buildMarker('auto-merge', { actor: 'alice', headSha: 'abc123' })).toBe(
+      '<!-- nylbot:auto-merge {"actor":"alice","headSha":"abc123"} -->',
+    );
+  });
+});
+
+describe('escapeHtmlComments', () => {
+  it('escapes the start of every HTML comment', () => {
+    expect(escapeHtmlComments('a <!-- nylbot:auto-merge {} --> b <!--')).toBe(
+      'a &lt;!-- nylbot:auto-merge {} --> b &lt;!--',
+    );
+    expect(escapeHtmlComments('`--title <title>`')).toBe('`--title <title>`');
+  });
+});
+
+describe('parseMarker', () => {
+  it('round-trips data written by buildMarker', () => {
+    const body = `## Auto-merge enabled\n\n${buildMarker('auto-merge', { actor: 'alice', headSha: 'abc123' })}`;
+
+    expect(parseMarker(body, 'auto-merge')).toEqual({ actor: 'alice', headSha: 'abc123' });
+  });
+
+  it('round-trips values that would end the HTML comment', () => {
+    const marker = buildMarker('merge-queue', { commitMessage: 'a --> b} -->' });
+
+    expect(marker).not.toContain('a -->');
+    expect(parseMarker(`more text -->\n\n${marker}`, 'merge-queue')).toEqual({ commitMessage: 'a --> b} -->' });
+  });
+
+  it('round-trips values that hold a marker of their own', () => {
+    const forged = buildMarker('merge-queue', { actor: 'admin' });
+    const marker = buildMarker('merge-queue', { actor: 'alice', commitTitle: forged });
+
+    expect(marker).not.toContain('<!-- nylbot:merge-queue {"actor":"admin"');
+    expect(parseMarker(marker, 'merge-queue')).toEqual({ actor: 'alice', commitTitle: forged });
+  });
+
+  it('reads only the marker that ends the comment', () => {
+    const forged = buildMarker('branch-update', { fromSha: 'aaa', toSha: 'bbb' });
+
+    expect(parseMarker(`Unknown flag \`${forged}\`.`, 'branch-update')).toBeNull();
+    expect(parseMarker(`${forged}\n\n${buildMarker('branch-update', { toSha: 'c' })}\n`, 'branch-update')).toEqual({
+      toSha: 'c',
+    });
+  });
+
+  it('returns null when the marker kind is absent', () => {
+    expect(parseMarker(buildMarker('queue', { actor: 'alice' }), 'auto-merge')).toBeNull();
+    expect(parseMarker('plain comment', 'auto-merge')).toBeNull();
+  });
+
+  it('returns null for malformed or non-object JSON', () => {
+    expect(parseMarker('<!-- nylbot:auto-merge {not json} -->', 'auto-merge')).toBeNull();
+    expect(parseMarker('<!-- nylbot:auto-merge [1] -->', 'auto-merge')).toBeNull();
+  });
+});
+
+describe('stripMarker', () => {
+  it('removes the marker and keeps the visible text', () => {
+    const body = `## Auto-merge enabled\n\n${buildMarker('auto-merge', { actor: 'alice' })}`;
+
+    expect(stripMarker(body, 'auto-merge')).toBe('## Auto-merge enabled');
+  });
+
+  it('leaves markers that do not end the comment in place', () => {
+    const body = `${buildMarker('auto-merge', { actor: 'alice' })}\n\n## Hello`;
+
+    expect(stripMarker(body, 'auto-merge')).toBe(body);
+  });
+
+  it('leaves bodies without the marker unchanged', () => {
+    expect(stripMarker('## Hello', 'auto-merge')).toBe('## Hello');
+  });
+});
+
+describe('findMarkers', () => {
+  it('returns every marker of the kind posted by nylbot in chronological order', () => {
+    const comments = [
+      createComment(1, buildMarker('branch-update', { toSha: 'b' })),
+      createComment(2, buildMarker('auto-merge', { actor: 'alice' })),
+      createComment(3, buildMarker('branch-update', { toSha: 'c' }), { login: 'alice', type: 'User' }),
+      createComment(4, buildMarker('branch-update', { toSha: 'd' })),
+    ];
+
+    expect(findMarkers(comments, 'branch-update', BOT_LOGIN).map((marker) => marker.commentId)).toEqual([1, 4]);
+  });
+});
+
+describe('findLatestMarker', () => {
+  it('returns the most recent comment by nylbot with the marker', () => {
+    const comments = [
+      createComment(1, buildMarker('auto-merge', { actor: 'alice' })),
+      createComment(2, 'unrelated'),
+      createComment(3, buildMarker('auto-merge', { actor: 'bob' })),
+    ];
+
+    expect(findLatestMarker(comments, 'auto-merge', BOT_LOGIN)).toEqual({
+      commentId: 3,
+      body: buildMarker('auto-merge', { actor: 'bob' }),
+      data: { actor: 'bob' },
+    });
+  });
+
+  it('ignores markers in comments from other users and apps', () => {
+    const comments = [
+      createComment(1, buildMarker('auto-merge', { actor: 'alice' })),
+      createComment(2, buildMarker('auto-merge', { actor: 'admin' }), { login: 'mallory', type: 'User' }),
+      createComment(3, buildMarker('auto-merge', { actor: 'admin' }), { login: 'dependabot[bot]', type: 'Bot' }),
+    ];
+
+    expect(findLatestMarker(comments, 'auto-merge', BOT_LOGIN)?.commentId).toBe(1);
+  });
+
+  it('returns null when no comment has the marker', () => {
+    expect(findLatestMarker([createComment(1, 'hello')], 'auto-merge', BOT_LOGIN)).toBeNull();
+    expect(findLatestMarker([], 'auto-merge', BOT_LOGIN)).toBeNull();
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * merge-checks.test.ts - Tests for merge-checks.ts module
+ *
+ * Tests cover evaluateMergeChecks, which builds the shared merge checklist:
+ * - Check ordering and required/optional evaluation
+ * - Stale approval handling with and without dismissal
+ * - Approvals carried over nylbot branch updates
+ * - Approval override bookkeeping
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { buildMarker } from '../src/markers.js';
+import { evaluateMergeChecks } from '../src/merge-checks.js';
+
+import { createConfig, createPRData } from './helpers/fixtures.js';
+import { createMockOctokit } from './helpers/octokit.mock.js';
+
+describe('evaluateMergeChecks', () => {
+  it('passes every check with a valid approval on the current HEAD', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([
+      { id: 1, state: 'APPROVED', commit_id: 'abc1234567890', user: { login: 'reviewer' } },
+    ]);
+
+    const evaluation = await evaluateMergeChecks(octokit, 'owner', 'repo', 1, createPRData(), createConfig(), {
+      overrideApprovalRequirement: false,
+      dismissStaleReviews: true,
+    });
+
+    expect(evaluation.allPassed).toBe(true);
+    expect(evaluation.approvalOverridden).toBe(false);
+    expect(evaluation.mergeMethodResult.method).toBe('squash');
+    expect(evaluation.checks.map((c) => c.name)).toEqual([
+      'PR is ready for review',
+      'All review conversations are resolved',
+      'At least one valid approval from another user',
+      'Mergeable state is clean',
+      'PR title follows [Conventional Commits](https://www.conventionalcommits.org/)',
+    ]);
+  });
+
+  it('counts the submitted approval even when the reviews API does not list it yet', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([]);
+
+    const evaluation = await evaluateMergeChecks(octokit, 'owner', 'repo', 1, createPRData(), createConfig(), {
+      overrideApprovalRequirement: false,
+      dismissStaleReviews: true,
+      submittedReview: { id: 7, state: 'APPROVED', commit_id: 'abc1234567890', user: { login: 'reviewer' } },
+    });
+
+    expect(evaluation.allPassed).toBe(true);
+  });
+
+  it('counts a listed submitted approval once and ignores submitted non-approvals', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([
+      { id: 7, state: 'APPROVED', commit_id: 'oldcommit456', user: { login: 'reviewer' } },
+    ]);
+
+    const evaluation = await evaluateMergeChecks(octokit, 'owner', 'repo', 1, createPRData(), createConfig(), {
+      overrideApprovalRequirement: false,
+      dismissStaleReviews: false,
+      submittedReview: { id: 7, state: 'APPROVED', commit_id: 'oldcommit456', user: { login: 'reviewer' } },
+    });
+    const commented = await evaluateMergeChecks(octokit, 'owner', 'repo', 1, createPRData(), createConfig(), {
+      overrideApprovalRequirement: false,
+      dismissStaleReviews: false,
+      submittedReview: { id: 8, state: 'COMMENTED', commit_id: 'abc1234567890', user: { login: 'other' } },
+    });
+
+    expect(evaluation.staleApprovals).toHaveLength(1);
+    expect(commented.allPassed).toBe(false);
+  });
+
+  it('dismisses stale approvals and records failures when dismissal is enabled', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([
+      { id: 1, state: 'APPROVED', commit_id: 'oldcommit456', user: { login: 'reviewer' } },
+    ]);
+    octokit.rest.pulls.dismissReview.mockRejectedValue(new Error('Forbidden'));
+
+    const evaluation = await evaluateMergeChecks(octokit, 'owner', 'repo', 1, createPRData(), createConfig(), {
+      overrideApprovalRequirement: false,
+      dismissStaleReviews: true,
+    });
+
+    expect(octokit.rest.pulls.dismissReview).toHaveBeenCalledTimes(1);
+    expect(evaluation.dismissFailures).toHaveLength(1);
+    expect(evaluation.staleApprovals).toEqual([]);
+    expect(evaluation.allPassed).toBe(false);
+  });
+
+  it('reports stale approvals without dismissing when dismissal is disabled', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([
+      { id: 1, state: 'APPROVED', commit_id: 'oldcommit456', user: { login: 'reviewer' } },
+    ]);
+
+    const evaluation = await evaluateMergeChecks(octokit, 'owner', 'repo', 1, createPRData(), createConfig(), {
+      overrideApprovalRequirement: false,
+      dismissStaleReviews: false,
+    });
+
+    expect(octokit.rest.pulls.dismissReview).not.toHaveBeenCalled();
+    expect(evaluation.staleApprovals).toEqual([{ reviewer: 'reviewer', reviewedSha: 'oldcommit456' }]);
+    expect(evaluation.dismissFailures).toEqual([]);
+  });
+
+  it('keeps approvals on a HEAD that nylbot updated with the base branch', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockImplementation(async (endpoint: unknown) =>
+      endpoint === octokit.rest.pulls.listReviews
+        ? [{ id: 1, state: 'APPROVED', commit_id: 'oldcommit456', user: { login: 'reviewer' } }]
+        : [
+            {
+              id: 9,
+              body: buildMarker('branch-update', { fromSha: 'oldcommit456', toSha: 'abc1234567890' }),
+              user: { login: 'github-actions[bot]', type: 'Bot' },
+            },
+          ],
+    );
+
+    const evaluation = await evaluateMergeChecks(octokit, 'owner', 'repo', 1, createPRData(), createConfig(), {
+      overrideApprovalRequirement: false,
+      dismissStaleReviews: true,
+    });
+
+    expect(octokit.rest.pulls.dismissReview).not.toHaveBeenCalled();
+    expect(evaluation.staleApprovals).toEqual([]);
+    expect(evaluation.allPassed).toBe(true);
+  });
+
+  it('marks the approval check optional when the override takes effect', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([]);
+
+    const evaluation = await evaluateMergeChecks(octokit, 'owner', 'repo', 1, createPRData(), createConfig(), {
+      overrideApprovalRequirement: true,
+      dismissStaleReviews: true,
+    });
+
+    expect(evaluation.approvalOverridden).toBe(true);
+    expect(evaluation.allPassed).toBe(true);
+    const approvalCheck = evaluation.checks.find((c) => c.name.startsWith('At least one valid approval'));
+    expect(approvalCheck?.optional).toBe(true);
+  });
+
+  describe('code owner approval', () => {
+    /**
+     * Serves reviews, changed files, and a CODEOWNERS file on the base branch.
+     */
+    function setupCodeOwners(octokit: ReturnType<typeof createMockOctokit>, reviewer: string): void {
+      octokit.paginate.mockImplementation(async (endpoint: unknown) =>
+        endpoint === octokit.rest.pulls.listReviews
+          ? [{ id: 1, state: 'APPROVED', commit_id: 'abc1234567890', user: { login: reviewer } }]
+          : endpoint === octokit.rest.pulls.listFiles
+            ? [{ filename: 'src/index.ts' }]
+            : [],
+      );
+      octokit.rest.repos.getContent.mockResolvedValue({
+        data: { type: 'file', content: Buffer.from('*.ts @alice\n').toString('base64') },
+      } as unknown as Awaited<ReturnType<typeof octokit.rest.repos.getContent>>);
+    }
+
+    it('adds the check after the approval check when enabled', async () => {
+      const octokit = createMockOctokit();
+      setupCodeOwners(octokit, 'alice');
+
+      const evaluation = await evaluateMergeChecks(
+        octokit,
+        'owner',
+        'repo',
+        1,
+        createPRData(),
+        createConfig({ requireCodeOwnerApproval: true }),
+        { overrideApprovalRequirement: false, dismissStaleReviews: true },
+      );
+
+      expect(evaluation.allPassed).toBe(true);
+      expect(evaluation.checks.map((c) => c.name)).toEqual([
+        'PR is ready for review',
+        'All review conversations are resolved',
+        'At least one valid approval from another user',
+        'Approval from a code owner of every changed file',
+        'Mergeable state is clean',
+        'PR title follows [Conventional Commits](https://www.conventionalcommits.org/)',
+      ]);
+      expect(octokit.rest.repos.getContent).toHaveBeenCalledWith(expect.objectContaining({ ref: 'develop' }));
+    });
+
+    it('fails when no code owner approved', async () => {
+      const octokit = createMockOctokit();
+      setupCodeOwners(octokit, 'reviewer');
+
+      const evaluation = await evaluateMergeChecks(
+        octokit,
+        'owner',
+        'repo',
+        1,
+        createPRData(),
+        createConfig({ requireCodeOwnerApproval: true }),
+        { overrideApprovalRequirement: false, dismissStaleReviews: true },
+      );
+
+      expect(evaluation.allPassed).toBe(false);
+      expect(evaluation.approvalOverridden).toBe(false);
+      const codeOwnerCheck = evaluation.checks.find((c) => c.name.startsWith('Approval from a code owner'));
+      expect(codeOwnerCheck).toEqual({
+        name: 'Approval from a code owner of every changed file',
+        passed: false,
+        details: 'no approval from `@alice` for `src/index.ts`',
+      });
+    });
+
+    it('makes the check optional when the approval requirement is overridden', async () => {
+      const octokit = createMockOctokit();
+      setupCodeOwners(octokit, 'reviewer');
+
+      const evaluation = await evaluateMergeChecks(
+        octokit,
+        'owner',
+        'repo',
+        1,
+        createPRData(),
+        createConfig({ requireCodeOwnerApproval: true }),
+        { overrideApprovalRequirement: true, dismissStaleReviews: true },
+      );
+
+      expect(evaluation.allPassed).toBe(true);
+      expect(evaluation.approvalOverridden).toBe(true);
+      const codeOwnerCheck = evaluation.checks.find((c) => c.name.startsWith('Approval from a code owner'));
+      expect(codeOwnerCheck?.optional).toBe(true);
+      expect(codeOwnerCheck?.details).toBe(
+        'code owner approval overridden by `--override-approval-requirement`; no approval from `@alice` for `src/index.ts`',
+      );
+    });
+
+    it('does not read CODEOWNERS when disabled', async () => {
+      const octokit = createMockOctokit();
+      setupCodeOwners(octokit, 'reviewer');
+
+      await evaluateMergeChecks(octokit, 'owner', 'repo', 1, createPRData(), createConfig(), {
+        overrideApprovalRequirement: false,
+        dismissStaleReviews: true,
+      });
+
+      expect(octokit.rest.repos.getContent).not.toHaveBeenCalled();
+    });
+  });
+
+  it('suggests conventional titles from the branch name and commits for a non-conventional title', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockImplementation(async (endpoint: unknown) =>
+      endpoint === octokit.rest.pulls.listCommits ? [{ commit: { message: 'fix(auth): handle expiry\n\nbody' } }] : [],
+    );
+
+    const evaluation = await evaluateMergeChecks(
+      octokit,
+      'owner',
+      'repo',
+      1,
+      createPRData({ title: 'Login flow', headRef: 'feature/login-flow' }),
+      createConfig(),
+      { overrideApprovalRequirement: false, dismissStaleReviews: false },
+    );
+
+    const titleCheck = evaluation.checks.find((c) => c.name.startsWith('PR title follows'));
+    expect(titleCheck).toEqual(
+      expect.objectContaining({
+        passed: false,
+        optional: true,
+        details:
+          'title does not follow conventional format; try `/nylbot title feat: login flow` or `/nylbot title fix(auth): handle expiry`',
+      }),
+    );
+  });
+
+  it('explains the title command when no title can be suggested', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([]);
+
+    const evaluation = await evaluateMergeChecks(
+      octokit,
+      'owner',
+      'repo',
+      1,
+      createPRData({ title: 'Login flow', headRef: 'login-flow' }),
+      createConfig(),
+      { overrideApprovalRequirement: false, dismissStaleReviews: false },
+    );
+
+    const titleCheck = evaluation.checks.find((c) => c.name.startsWith('PR title follows'));
+    expect(titleCheck?.details).toBe(
+      'title does not follow conventional format; set one with `/nylbot title <type>: <description>`',
+    );
+  });
+
+  it('does not fetch commits for a conventional title', async () => {
+    const octokit = createMockOctokit();
+
+    await evaluateMergeChecks(octokit, 'owner', 'repo', 1, createPRData(), createConfig(), {
+      overrideApprovalRequirement: false,
+      dismissStaleReviews: false,
+    });
+
+    expect(octokit.paginate).not.toHaveBeenCalledWith(octokit.rest.pulls.listCommits, expect.anything());
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * merge-label.test.ts - Tests for merge-label.ts module
+ *
+ * Tests cover handleMergeLabelEvent: merging with the labeler as the actor, checking
+ * the labeler's permission and the authorization policy, ignoring labels added by bots, and removing
+ * the label when the merge fails.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { parseAuthorizationPolicy } from '../src/authorization.js';
+import { handleMergeLabelEvent } from '../src/merge-label.js';
+import type { ActionConfig, EventContext } from '../src/types.js';
+
+import { createConfig, createEventContext } from './helpers/fixtures.js';
+import { createMockOctokit } from './helpers/octokit.mock.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * A pull_request `labeled` event in which @labeler added the merge label.
+ */
+const LABELED_EVENT: Partial<EventContext> = {
+  comment: null,
+  commentBody: '',
+  actor: 'labeler',
+  eventName: 'pull_request',
+  eventAction: 'labeled',
+  label: 'nylbot:merge',
+};
+
+/**
+ * Config with label merges enabled.
+ */
+const LABEL_CONFIG: Partial<ActionConfig> = { mergeLabel: 'nylbot:merge' };
+
+describe('handleMergeLabelEvent', () => {
+  it('merges with the labeler as the actor', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockImplementation(async (endpoint: unknown) =>
+      endpoint === octokit.rest.pulls.listReviews
+        ? [{ id: 1, state: 'APPROVED', commit_id: 'abc1234567890', user: { login: 'reviewer' } }]
+        : [],
+    );
+
+    const result = await handleMergeLabelEvent(octokit, createEventContext(LABELED_EVENT), createConfig(LABEL_CONFIG));
+
+    expect(result.status).toBe('merged');
+    expect(octokit.rest.repos.getCollaboratorPermissionLevel).toHaveBeenCalledWith(
+      expect.objectContaining({ username: 'labeler' }),
+    );
+    expect(octokit.rest.pulls.merge.mock.calls[0]?.[0]?.commit_message).toContain('(on behalf of @labeler)');
+    expect(octokit.rest.issues.removeLabel).not.toHaveBeenCalled();
+  });
+
+  it('removes the label and posts the checklist when the merge checks fail', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([]);
+
+    const result = await handleMergeLabelEvent(octokit, createEventContext(LABELED_EVENT), createConfig(LABEL_CONFIG));
+
+    expect(result.status).toBe('failed');
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalledWith(expect.objectContaining({ name: 'nylbot:merge' }));
+    const comments = octokit.rest.issues.createComment.mock.calls.map((call) => call[0]?.body ?? '');
+    expect(comments[0]).toContain('❌ At least one valid approval from another user');
+    expect(comments[1]).toContain('The `nylbot:merge` label was removed');
+  });
+
+  it('removes the label without merging when the labeler lacks write permission', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValue({
+      data: { permission: 'triage' },
+    } as Awaited<ReturnType<typeof octokit.rest.repos.getCollaboratorPermissionLevel>>);
+
+    const result = await handleMergeLabelEvent(octokit, createEventContext(LABELED_EVENT), createConfig(LABEL_CONFIG));
+
+    expect(result).toEqual({ status: 'failed', message: 'Insufficient permissions' });
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalledWith(expect.objectContaining({ name: 'nylbot:merge' }));
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('@labeler added the `nylbot:merge` label');
+    expect(commentBody).toContain('Permission level: `triage`');
+  });
+
+  it('removes the label without merging when an authorization policy rule denies the merge', async () => {
+    const octokit = createMockOctokit();
+    const config = createConfig({ ...LABEL_CONFIG, authorizationPolicy: parseAuthorizationPolicy('merge: admin') });
+
+    const result = await handleMergeLabelEvent(octokit, createEventContext(LABELED_EVENT), config);
+
+    expect(result).toEqual({ status: 'failed', message: 'Denied by authorization policy rule "merge: admin"' });
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalledWith(expect.objectContaining({ name: 'nylbot:merge' }));
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('needs at least **admin** permission');
+    expect(commentBody).toContain('Authorization policy rule: `merge: admin`');
+  });
+
+  it('removes the label when the labeler is not in the team named by a policy rule', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.teams.getMembershipForUserInOrg.mockRejectedValue(
+      Object.assign(new Error('Not Found'), { status: 404 }),
+    );
+    const config = createConfig({
+      ...LABEL_CONFIG,
+      authorizationPolicy: parseAuthorizationPolicy('merge: @acme/release-managers'),
+    });
+
+    const result = await handleMergeLabelEvent(octokit, createEventContext(LABELED_EVENT), config);
+
+    expect(result.status).toBe('failed');
+    expect(octokit.rest.issues.removeLabel).toHaveBeenCalledWith(expect.objectContaining({ name: 'nylbot:merge' }));
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('only members of the `@acme/release-managers` team can merge this PR');
+  });
+
+  it('ignores the label when a bot added it', async () => {
+    const octokit = createMockOctokit();
+
+    const result = await handleMergeLabelEvent(
+      octokit,
+      createEventContext({ ...LABELED_EVENT, userType: 'Bot' }),
+      createConfig(LABEL_CONFIG),
+    );
+
+    expect(result).toEqual({ status: 'skipped', message: 'Merge label added by a bot' });
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.removeLabel).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+  });
+
+  it('adds the PR to the merge queue when it is enabled', async () => {
+    const octokit = createMockOctokit();
+
+    await handleMergeLabelEvent(
+      octokit,
+      createEventContext(LABELED_EVENT),
+      createConfig({ ...LABEL_CONFIG, mergeQueue: true }),
+    );
+
+    expect(octokit.rest.issues.addLabels).toHaveBeenCalledWith(
+      expect.objectContaining({ issue_number: 1, labels: ['nylbot:merge-queue'] }),
+    );
+  });
+});
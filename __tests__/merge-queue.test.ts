@@ -0,0 +1,517 @@
+/**
+ * merge-queue.test.ts - Tests for merge-queue.ts module
+ *
+ * Tests cover reading queue entries, queuing PRs with their position, and
+ * processing the queue one PR at a time against the updated base branch.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { parseAuthorizationPolicy } from '../src/authorization.js';
+import { buildMarker, parseMarker } from '../src/markers.js';
+import { findMergeQueueEntry, enqueueMerge, processMergeQueue, handleMergeQueueEvent } from '../src/merge-queue.js';
+import type { ActionConfig, MergeOptions } from '../src/types.js';
+
+import { createConfig, createEventContext } from './helpers/fixtures.js';
+import { createMockOctokit, type MockedOctokit } from './helpers/octokit.mock.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * Config with the merge queue enabled.
+ */
+const QUEUE_CONFIG: Partial<ActionConfig> = { mergeQueue: true };
+
+const MERGE_OPTIONS: MergeOptions = {
+  overrideApprovalRequirement: false,
+  dryRun: false,
+  methodOverride: null,
+  updateIfBehind: false,
+  ready: false,
+  commitTitle: null,
+  commitMessage: null,
+  overrideReason: null,
+  expectedHeadSha: null,
+};
+
+interface FakePullRequest {
+  number: number;
+  /** ID of the queue marker comment, or null when the PR is not queued */
+  queuedAt: number | null;
+  headSha?: string;
+  queuedHeadSha?: string;
+  baseRef?: string;
+  mergeableState?: string;
+  methodOverride?: string;
+}
+
+/**
+ * Sets up the repository state: PRs (some queued), their marker comments, one valid
+ * approval each, and label removal that takes a PR out of the queue.
+ */
+function setupRepository(octokit: MockedOctokit, pullRequests: FakePullRequest[]): void {
+  const queued = new Set(pullRequests.filter((pr) => pr.queuedAt !== null).map((pr) => pr.number));
+  const find = (number: unknown): FakePullRequest | undefined => pullRequests.find((pr) => pr.number === number);
+
+  octokit.paginate.mockImplementation((async (endpoint: unknown, params?: Record<string, unknown>) => {
+    if (endpoint === octokit.rest.issues.listForRepo) {
+      return [...queued].map((number) => ({ number, pull_request: {} }));
+    }
+    const pr = find(params?.issue_number ?? params?.pull_number);
+    if (endpoint === octokit.rest.issues.listComments && pr !== undefined && pr.queuedAt !== null) {
+      const marker = buildMarker('merge-queue', {
+        actor: 'requester',
+        headSha: pr.queuedHeadSha ?? pr.headSha ?? 'abc1234567890',
+        baseRef: pr.baseRef ?? 'develop',
+        overrideApprovalRequirement: 'false',
+        methodOverride: pr.methodOverride ?? '',
+      });
+      return [
+        {
+          id: pr.queuedAt,
+          body: `## Queued for merge\n\n${marker}`,
+          user: { login: 'github-actions[bot]', type: 'Bot' },
+        },
+      ];
+    }
+    if (endpoint === octokit.rest.pulls.listReviews && pr) {
+      return [{ id: 1, user: { login: 'reviewer' }, state: 'APPROVED', commit_id: pr.headSha ?? 'abc1234567890' }];
+    }
+    return [];
+  }) as unknown as MockedOctokit['paginate']);
+
+  octokit.rest.pulls.get.mockImplementation((async (params?: { pull_number?: number }) => {
+    const pr = find(params?.pull_number);
+    return {
+      data: {
+        state: 'open',
+        locked: false,
+        draft: false,
+        merged: false,
+        mergeable: true,
+        mergeable_state: pr?.mergeableState ?? 'clean',
+        head: {
+          sha: pr?.headSha ?? 'abc1234567890',
+          ref: `feature/${pr?.number}`,
+          repo: { fork: false, owner: { id: 1 } },
+        },
+        base: { ref: pr?.baseRef ?? 'develop', repo: { owner: { id: 1 } } },
+        user: { login: 'author' },
+        title: 'feat: test pull request',
+      },
+    };
+  }) as unknown as MockedOctokit['rest']['pulls']['get']);
+
+  octokit.rest.issues.removeLabel.mockImplementation((async (params?: { issue_number?: number }) => {
+    queued.delete(params?.issue_number ?? 0);
+    return {};
+  }) as unknown as MockedOctokit['rest']['issues']['removeLabel']);
+
+  setupLock(octokit, null);
+}
+
+/**
+ * Makes every base branch exist and the merge queue lock ref behave like a ref: held since
+ * the given date by another run (free when null), created only when absent, and deleted on release.
+ * Lock commits made by the run are dated now.
+ */
+function setupLock(octokit: MockedOctokit, heldSince: string | null): void {
+  let lockSha = heldSince === null ? null : 'lock-held';
+  octokit.rest.git.getRef.mockImplementation((async (params?: { ref?: string }) => {
+    if (params?.ref?.startsWith('heads/')) {
+      return { data: { object: { sha: 'base123456789' } } };
+    }
+    if (lockSha !== null) {
+      return { data: { object: { sha: lockSha } } };
+    }
+    throw Object.assign(new Error('Not Found'), { status: 404 });
+  }) as unknown as MockedOctokit['rest']['git']['getRef']);
+  octokit.rest.git.createRef.mockImplementation((async (params?: { sha?: string }) => {
+    if (lockSha !== null) {
+      throw Object.assign(new Error('Reference already exists'), { status: 422 });
+    }
+    lockSha = params?.sha ?? null;
+    return { data: {} };
+  }) as unknown as MockedOctokit['rest']['git']['createRef']);
+  octokit.rest.git.updateRef.mockImplementation((async (params?: { sha?: string }) => {
+    lockSha = params?.sha ?? null;
+    return { data: {} };
+  }) as unknown as MockedOctokit['rest']['git']['updateRef']);
+  octokit.rest.git.deleteRef.mockImplementation((async () => {
+    lockSha = null;
+    return {};
+  }) as unknown as MockedOctokit['rest']['git']['deleteRef']);
+  octokit.rest.git.getCommit.mockImplementation((async (params?: { commit_sha?: string }) => ({
+    data: {
+      tree: { sha: 'tree123456789' },
+      parents: [],
+      message: '',
+      author: {
+        name: 'nylbot',
+        email: 'nylbot@example.com',
+        date: params?.commit_sha === 'lock-held' ? heldSince : new Date().toISOString(),
+      },
+    },
+  })) as unknown as MockedOctokit['rest']['git']['getCommit']);
+}
+
+/**
+ * Returns the PR numbers that were merged, in order.
+ */
+function mergedPullRequests(octokit: MockedOctokit): Array<number | undefined> {
+  return octokit.rest.pulls.merge.mock.calls.map((call) => call[0]?.pull_number);
+}
+
+/**
+ * Returns the bodies of the comments posted on a PR.
+ */
+function commentsOn(octokit: MockedOctokit, prNumber: number): string[] {
+  return octokit.rest.issues.createComment.mock.calls
+    .filter((call) => call[0]?.issue_number === prNumber)
+    .map((call) => call[0]?.body ?? '');
+}
+
+// =============================================================================
+// Tests for findMergeQueueEntry
+// =============================================================================
+
+describe('findMergeQueueEntry', () => {
+  it('returns the entry recorded in the latest bot marker comment', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [{ number: 1, queuedAt: 50, methodOverride: 'squash' }]);
+
+    expect(await findMergeQueueEntry(octokit, 'testowner', 'testrepo', 1)).toMatchObject({
+      prNumber: 1,
+      commentId: 50,
+      actor: 'requester',
+      headSha: 'abc1234567890',
+      baseRef: 'develop',
+      options: { overrideApprovalRequirement: false, methodOverride: 'squash', commitTitle: null, commitMessage: null },
+    });
+  });
+
+  it('ignores an unknown merge method in the marker', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [{ number: 1, queuedAt: 50, methodOverride: 'octopus' }]);
+
+    expect((await findMergeQueueEntry(octokit, 'testowner', 'testrepo', 1))?.options.methodOverride).toBeNull();
+  });
+
+  it('returns null when the PR is not queued', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [{ number: 1, queuedAt: null }]);
+
+    expect(await findMergeQueueEntry(octokit, 'testowner', 'testrepo', 1)).toBeNull();
+  });
+});
+
+// =============================================================================
+// Tests for enqueueMerge
+// =============================================================================
+
+describe('enqueueMerge', () => {
+  it('queues the PR at position 1 and merges it right away', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [{ number: 1, queuedAt: null }]);
+    // Recording the marker comment queues the PR
+    octokit.rest.issues.addLabels.mockImplementation((async () => {
+      setupRepository(octokit, [{ number: 1, queuedAt: 60 }]);
+      return {};
+    }) as unknown as MockedOctokit['rest']['issues']['addLabels']);
+
+    const result = await enqueueMerge(octokit, createEventContext(), createConfig(QUEUE_CONFIG), MERGE_OPTIONS);
+
+    expect(result.status).toBe('merged');
+    expect(commentsOn(octokit, 1)[0]).toContain('**Queue position:** 1 of 1');
+    expect(commentsOn(octokit, 1)[0]).toContain('<!-- nylbot:merge-queue ');
+    expect(octokit.rest.issues.addLabels).toHaveBeenCalledWith(
+      expect.objectContaining({ issue_number: 1, labels: ['nylbot:merge-queue'] }),
+    );
+    expect(mergedPullRequests(octokit)).toEqual([1]);
+  });
+
+  it('reports the position and the PRs ahead when the queue is not empty', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [
+      { number: 1, queuedAt: 10 },
+      { number: 2, queuedAt: 20 },
+      { number: 3, queuedAt: null },
+    ]);
+
+    const result = await enqueueMerge(
+      octokit,
+      createEventContext({ prNumber: 3 }),
+      createConfig(QUEUE_CONFIG),
+      MERGE_OPTIONS,
+    );
+
+    expect(result).toEqual({ status: 'skipped', message: 'Queued for merge (position 3)' });
+    const [comment] = commentsOn(octokit, 3);
+    expect(comment).toContain('**Queue position:** 3 of 3');
+    expect(comment).toContain('**Ahead in the queue:** #1, #2');
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+  });
+
+  it('only counts PRs queued for the same base branch', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [
+      { number: 1, queuedAt: 10, baseRef: 'main' },
+      { number: 2, queuedAt: 20 },
+      { number: 3, queuedAt: null },
+    ]);
+
+    const result = await enqueueMerge(
+      octokit,
+      createEventContext({ prNumber: 3 }),
+      createConfig(QUEUE_CONFIG),
+      MERGE_OPTIONS,
+    );
+
+    expect(result.message).toBe('Queued for merge (position 2)');
+  });
+
+  it('records the commit flags in the queue entry', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [
+      { number: 1, queuedAt: 10 },
+      { number: 2, queuedAt: null },
+    ]);
+    const options = {
+      ...MERGE_OPTIONS,
+      commitTitle: 'fix: custom',
+      commitMessage: 'See #1 -->',
+      expectedHeadSha: 'abc1234',
+    };
+
+    await enqueueMerge(octokit, createEventContext({ prNumber: 2 }), createConfig(QUEUE_CONFIG), options);
+
+    const marker = parseMarker(commentsOn(octokit, 2)[0] ?? '', 'merge-queue');
+    expect(marker).toMatchObject({ commitTitle: 'fix: custom', commitMessage: 'See #1 -->' });
+    expect(marker).not.toHaveProperty('overrideReason');
+    expect(marker).not.toHaveProperty('expectedHeadSha');
+  });
+
+  it('does not queue a PR twice', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [
+      { number: 1, queuedAt: 10 },
+      { number: 2, queuedAt: 20 },
+    ]);
+
+    const result = await enqueueMerge(
+      octokit,
+      createEventContext({ prNumber: 2 }),
+      createConfig(QUEUE_CONFIG),
+      MERGE_OPTIONS,
+    );
+
+    expect(result).toEqual({ status: 'skipped', message: 'Already queued' });
+    expect(commentsOn(octokit, 2)[0]).toContain('**Queue position:** 2 of 2');
+    expect(octokit.rest.issues.addLabels).not.toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// Tests for processMergeQueue / handleMergeQueueEvent
+// =============================================================================
+
+describe('processMergeQueue', () => {
+  it('merges queued PRs one at a time in queue order', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [
+      { number: 2, queuedAt: 20 },
+      { number: 1, queuedAt: 10 },
+    ]);
+
+    const result = await processMergeQueue(octokit, createEventContext(), createConfig(QUEUE_CONFIG), 'develop');
+
+    expect(result.status).toBe('merged');
+    expect(mergedPullRequests(octokit)).toEqual([1, 2]);
+    expect(octokit.rest.pulls.merge.mock.calls[0]?.[0]?.commit_message).toContain('on behalf of @requester');
+  });
+
+  it('keeps the head waiting while its checks are still running', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [
+      { number: 1, queuedAt: 10, mergeableState: 'blocked' },
+      { number: 2, queuedAt: 20 },
+    ]);
+
+    const result = await processMergeQueue(octokit, createEventContext(), createConfig(QUEUE_CONFIG), 'develop');
+
+    expect(result).toEqual({ status: 'skipped', message: 'Merge queue waiting on #1: merge checks not yet passing' });
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.removeLabel).not.toHaveBeenCalled();
+  });
+
+  it('updates the head when the PR ahead of it moved the base branch', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [{ number: 1, queuedAt: 10, mergeableState: 'behind' }]);
+
+    const result = await processMergeQueue(octokit, createEventContext(), createConfig(QUEUE_CONFIG), 'develop');
+
+    expect(octokit.rest.pulls.updateBranch).toHaveBeenCalledWith(
+      expect.objectContaining({ pull_number: 1, expected_head_sha: 'abc1234567890' }),
+    );
+    // The mock HEAD never moves, so the update is still pending and the PR keeps its place
+    expect(result).toEqual({ status: 'skipped', message: 'Merge queue waiting on #1: branch update' });
+    expect(octokit.rest.issues.removeLabel).not.toHaveBeenCalled();
+  });
+
+  it('removes a head that cannot be merged and continues with the next PR', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [
+      { number: 1, queuedAt: 10, mergeableState: 'dirty' },
+      { number: 2, queuedAt: 20 },
+    ]);
+
+    const result = await processMergeQueue(octokit, createEventContext(), createConfig(QUEUE_CONFIG), 'develop');
+
+    expect(result.status).toBe('merged');
+    expect(mergedPullRequests(octokit)).toEqual([2]);
+    expect(commentsOn(octokit, 1)[0]).toContain('## Removed from merge queue');
+    expect(commentsOn(octokit, 1)[0]).toContain('Mergeable state is clean');
+  });
+
+  it('removes a head with new commits pushed after it was queued', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [{ number: 1, queuedAt: 10, queuedHeadSha: 'old0000000000' }]);
+
+    const result = await processMergeQueue(octokit, createEventContext(), createConfig(QUEUE_CONFIG), 'develop');
+
+    expect(result).toEqual({ status: 'skipped', message: 'Merge queue entry invalidated by new commits' });
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    expect(commentsOn(octokit, 1)[0]).toContain('Queued HEAD SHA: old0000000000');
+  });
+
+  it('removes a head whose requester lost the permission for the method override', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [{ number: 1, queuedAt: 10, methodOverride: 'merge' }]);
+
+    const result = await processMergeQueue(octokit, createEventContext(), createConfig(QUEUE_CONFIG), 'develop');
+
+    expect(result).toEqual({ status: 'failed', message: 'Merge queue requester lost permission' });
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+  });
+
+  it('removes a head whose requester the authorization policy no longer allows to merge', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [{ number: 1, queuedAt: 10, baseRef: 'main' }]);
+
+    const result = await processMergeQueue(
+      octokit,
+      createEventContext(),
+      createConfig({ ...QUEUE_CONFIG, authorizationPolicy: parseAuthorizationPolicy('merge into main: maintain') }),
+      'main',
+    );
+
+    expect(result).toEqual({
+      status: 'failed',
+      message: 'Denied by authorization policy rule "merge into main: maintain"',
+    });
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    expect(commentsOn(octokit, 1)[0]).toContain('Authorization policy rule: `merge into main: maintain`');
+  });
+
+  it('reports an empty queue', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, []);
+
+    const result = await processMergeQueue(octokit, createEventContext(), createConfig(QUEUE_CONFIG), 'develop');
+
+    expect(result).toEqual({ status: 'skipped', message: 'Merge queue for develop is empty' });
+  });
+});
+
+describe('merge queue lock', () => {
+  it('holds a lock ref on the base branch while processing and releases it afterwards', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [{ number: 1, queuedAt: 10 }]);
+
+    await processMergeQueue(octokit, createEventContext(), createConfig(QUEUE_CONFIG), 'develop');
+
+    expect(octokit.rest.git.createRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'refs/nylbot/merge-queue-lock/develop', sha: 'commit123456789' }),
+    );
+    expect(octokit.rest.git.createCommit).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'nylbot merge queue lock for develop (run 12345)', parents: [] }),
+    );
+    expect(mergedPullRequests(octokit)).toEqual([1]);
+    expect(octokit.rest.git.deleteRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'nylbot/merge-queue-lock/develop' }),
+    );
+  });
+
+  it('leaves the queue to the run that holds the lock', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [{ number: 1, queuedAt: 10 }]);
+    setupLock(octokit, new Date().toISOString());
+
+    const result = await processMergeQueue(octokit, createEventContext(), createConfig(QUEUE_CONFIG), 'develop');
+
+    expect(result).toEqual({ status: 'skipped', message: 'Merge queue for develop is being processed by another run' });
+    expect(octokit.rest.git.createCommit).not.toHaveBeenCalled();
+    expect(octokit.rest.git.createRef).not.toHaveBeenCalled();
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    expect(octokit.rest.git.deleteRef).not.toHaveBeenCalled();
+  });
+
+  it('makes one lock commit when another run takes the free lock first', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [{ number: 1, queuedAt: 10 }]);
+    octokit.rest.git.createRef.mockRejectedValue(Object.assign(new Error('Reference already exists'), { status: 422 }));
+
+    const result = await processMergeQueue(octokit, createEventContext(), createConfig(QUEUE_CONFIG), 'develop');
+
+    expect(result).toEqual({ status: 'skipped', message: 'Merge queue for develop is being processed by another run' });
+    expect(octokit.rest.git.createRef).toHaveBeenCalledTimes(4);
+    expect(octokit.rest.git.createCommit).toHaveBeenCalledTimes(1);
+  });
+
+  it('takes over a lock left by a cancelled run', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [{ number: 1, queuedAt: 10 }]);
+    setupLock(octokit, '2024-01-01T00:00:00Z');
+
+    await processMergeQueue(octokit, createEventContext(), createConfig(QUEUE_CONFIG), 'develop');
+
+    expect(octokit.rest.git.updateRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'nylbot/merge-queue-lock/develop', sha: 'commit123456789', force: true }),
+    );
+    expect(mergedPullRequests(octokit)).toEqual([1]);
+    expect(octokit.rest.git.deleteRef).toHaveBeenCalled();
+  });
+});
+
+describe('handleMergeQueueEvent', () => {
+  it('processes the queue of every base branch', async () => {
+    const octokit = createMockOctokit();
+    setupRepository(octokit, [
+      { number: 1, queuedAt: 10, baseRef: 'main', mergeableState: 'blocked' },
+      { number: 2, queuedAt: 20 },
+    ]);
+
+    const result = await handleMergeQueueEvent(
+      octokit,
+      createEventContext({ eventName: 'check_suite' }),
+      createConfig(QUEUE_CONFIG),
+    );
+
+    expect(result.status).toBe('merged');
+    expect(mergedPullRequests(octokit)).toEqual([2]);
+  });
+
+  it('skips when nothing is queued', async () => {
+    const octokit = createMockOctokit();
+
+    const result = await handleMergeQueueEvent(
+      octokit,
+      createEventContext({ eventName: 'check_suite' }),
+      createConfig(QUEUE_CONFIG),
+    );
+
+    expect(result).toEqual({ status: 'skipped', message: 'Merge queue is empty' });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * messages.test.ts - Tests for messages.ts module
+ *
+ * Tests cover formatMessage (placeholder interpolation, per-key English fallback) and
+ * translateCommandDescription, and check that the Japanese catalog stays in step with
+ * the English one: same placeholders per message, and a translation for every
+ * description in the COMMANDS registry.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { COMMANDS } from '../src/constants.js';
+import { EN_MESSAGES } from '../src/messages-en.js';
+import { JA_COMMAND_DESCRIPTIONS, JA_MESSAGES } from '../src/messages-ja.js';
+import { formatMessage, translateCommandDescription } from '../src/messages.js';
+
+/**
+ * Returns the sorted placeholder names of a message template.
+ */
+function placeholdersOf(template: string): string[] {
+  return [...template.matchAll(/\{(\w+)\}/g)].map((match) => match[1] ?? '').sort();
+}
+
+describe('formatMessage', () => {
+  it('fills in placeholders', () => {
+    expect(formatMessage('en', 'checks.unresolvedThreads', { count: 2 })).toBe('2 unresolved');
+    expect(formatMessage('en', 'title.unchanged', { title: 'fix: typo' })).toBe(
+      '## Title unchanged\n\nThe PR title is already `fix: typo`.',
+    );
+  });
+
+  it('formats messages without placeholders', () => {
+    expect(formatMessage('en', 'checks.prReady')).toBe('PR is ready for review');
+  });
+
+  it('formats Japanese messages', () => {
+    expect(formatMessage('ja', 'checks.unresolvedThreads', { count: 2 })).toBe('未解決 2 件');
+    expect(formatMessage('ja', 'ready.done', { actor: 'alice' })).toContain('@alice');
+  });
+
+  it('keeps braces in parameter values as is', () => {
+    expect(formatMessage('en', 'title.unchanged', { title: 'fix: handle {title} in {count}' })).toBe(
+      '## Title unchanged\n\nThe PR title is already `fix: handle {title} in {count}`.',
+    );
+  });
+
+  it('escapes HTML comments in parameter values so they cannot hold a marker', () => {
+    expect(formatMessage('en', 'title.unchanged', { title: 'fix: <!-- nylbot:auto-merge {} -->' })).toBe(
+      '## Title unchanged\n\nThe PR title is already `fix: &lt;!-- nylbot:auto-merge {} -->`.',
+    );
+  });
+});
+
+describe('translateCommandDescription', () => {
+  it('returns the English description for en', () => {
+    expect(translateCommandDescription('en', 'a Conventional Commits title')).toBe('a Conventional Commits title');
+  });
+
+  it('translates registry descriptions for ja', () => {
+    expect(translateCommandDescription('ja', 'a Conventional Commits title')).not.toBe('a Conventional Commits title');
+  });
+
+  it('keeps descriptions without a translation', () => {
+    expect(translateCommandDescription('ja', 'Not in the registry')).toBe('Not in the registry');
+  });
+});
+
+describe('Japanese catalog', () => {
+  it('uses the same placeholders as English in every message', () => {
+    for (const [key, template] of Object.entries(JA_MESSAGES)) {
+      const english = EN_MESSAGES[key as keyof typeof EN_MESSAGES];
+      expect(placeholdersOf(template), key).toEqual(placeholdersOf(english));
+    }
+  });
+
+  it('translates every description in the COMMANDS registry', () => {
+    const descriptions = COMMANDS.flatMap((command) => [
+      command.description,
+      ...command.flags.flatMap((flag: (typeof COMMANDS)[number]['flags'][number]) => [
+        flag.description,
+        ...('valuePattern' in flag ? [flag.valuePattern.description] : []),
+      ]),
+    ]);
+
+    for (const description of descriptions) {
+      expect(JA_COMMAND_DESCRIPTIONS[description], description).toBeDefined();
+    }
+  });
+});
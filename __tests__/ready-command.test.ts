@@ -0,0 +1,98 @@
+/**
+ * ready-command.test.ts - Tests for ready-command.ts module
+ *
+ * Tests cover handleReadyCommand: marking a draft PR as ready for review and
+ * rejecting PRs that are merged, closed, or not drafts.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { handleReadyCommand } from '../src/ready-command.js';
+
+import { createConfig, createEventContext } from './helpers/fixtures.js';
+import { createMockOctokit, type MockedOctokit } from './helpers/octokit.mock.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * Creates a pulls.get response for the default PR with the given fields replaced.
+ */
+function createPullRequestResponse(
+  overrides: { state?: string; merged?: boolean; draft?: boolean } = {},
+): Awaited<ReturnType<MockedOctokit['rest']['pulls']['get']>> {
+  return {
+    data: {
+      state: overrides.state ?? 'open',
+      locked: false,
+      draft: overrides.draft ?? true,
+      merged: overrides.merged ?? false,
+      mergeable: true,
+      mergeable_state: 'draft',
+      head: { sha: 'abc1234567890', ref: 'feature/test', repo: { fork: false, owner: { id: 1 } } },
+      base: { ref: 'develop', repo: { owner: { id: 1 } } },
+      user: { login: 'testuser' },
+      title: 'feat: test pull request',
+      node_id: 'PR_node1',
+    },
+  } as Awaited<ReturnType<MockedOctokit['rest']['pulls']['get']>>;
+}
+
+describe('handleReadyCommand', () => {
+  it('marks a draft PR as ready for review', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.get.mockResolvedValue(createPullRequestResponse());
+
+    const result = await handleReadyCommand(octokit, createEventContext(), createConfig());
+
+    expect(result).toEqual({ status: 'skipped', message: 'PR marked ready for review' });
+    expect(octokit.graphql).toHaveBeenCalledWith(expect.stringContaining('markPullRequestReadyForReview'), {
+      id: 'PR_node1',
+    });
+    expect(octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body).toContain(
+      '## Ready for review\n\n@testactor marked this PR as ready for review.',
+    );
+  });
+
+  it('reports a failed mutation', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.get.mockResolvedValue(createPullRequestResponse());
+    octokit.graphql.mockRejectedValue(new Error('Resource not accessible by integration'));
+
+    const result = await handleReadyCommand(octokit, createEventContext(), createConfig());
+
+    expect(result).toEqual({
+      status: 'failed',
+      message: 'Ready for review failed: Resource not accessible by integration',
+    });
+    expect(octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body).toContain('## Ready for review failed');
+  });
+
+  it('does nothing for a PR that is not a draft', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.get.mockResolvedValue(createPullRequestResponse({ draft: false }));
+
+    const result = await handleReadyCommand(octokit, createEventContext(), createConfig());
+
+    expect(result).toEqual({ status: 'skipped', message: 'PR is not a draft' });
+    expect(octokit.graphql).not.toHaveBeenCalled();
+  });
+
+  it('rejects merged and closed PRs', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.get
+      .mockResolvedValueOnce(createPullRequestResponse({ state: 'closed', merged: true }))
+      .mockResolvedValueOnce(createPullRequestResponse({ state: 'closed' }));
+
+    expect(await handleReadyCommand(octokit, createEventContext(), createConfig())).toEqual({
+      status: 'already_merged',
+      message: 'PR already merged',
+    });
+    expect(await handleReadyCommand(octokit, createEventContext(), createConfig())).toEqual({
+      status: 'failed',
+      message: 'PR is not open',
+    });
+    expect(octokit.graphql).not.toHaveBeenCalled();
+  });
+});
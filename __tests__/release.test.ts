@@ -0,0 +1,179 @@
+/**
+ * release.test.ts - Tests for release.ts module
+ *
+ * Tests cover createRelease: tagging the release merge commit, drafting the release
+ * with notes from the PRs merged among the commits since the previous tag, and reporting failures.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { createRelease } from '../src/release.js';
+
+import { createEventContext } from './helpers/fixtures.js';
+import { createMockOctokit, type MockedOctokit } from './helpers/octokit.mock.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * A merged PR as listed for the commits it contains.
+ */
+interface MergedPullRequest {
+  number: number;
+  title: string;
+  mergeCommitSha: string;
+  commits: string[];
+}
+
+/**
+ * Makes the repository have the given tags, the commits since the previous tag, and the merged PRs
+ * associated with those commits.
+ */
+function setRepository(
+  octokit: MockedOctokit,
+  tags: { name: string; commitSha: string }[],
+  commits: string[] = [],
+  mergedPullRequests: MergedPullRequest[] = [],
+): void {
+  octokit.paginate.mockImplementation(async (endpoint: unknown) =>
+    endpoint === octokit.rest.repos.listTags
+      ? tags.map((tag) => ({ name: tag.name, commit: { sha: tag.commitSha } }))
+      : [],
+  );
+  octokit.rest.repos.compareCommitsWithBasehead.mockResolvedValue({
+    data: { commits: commits.map((sha) => ({ sha })), total_commits: commits.length },
+  } as Awaited<ReturnType<typeof octokit.rest.repos.compareCommitsWithBasehead>>);
+  octokit.rest.repos.listPullRequestsAssociatedWithCommit.mockImplementation((async (params?: {
+    commit_sha?: string;
+  }) => ({
+    data: mergedPullRequests
+      .filter((pr) => pr.commits.includes(params?.commit_sha ?? ''))
+      .map((pr) => ({
+        number: pr.number,
+        title: pr.title,
+        merged_at: '2024-01-02T00:00:00Z',
+        merge_commit_sha: pr.mergeCommitSha,
+      })),
+  })) as unknown as MockedOctokit['rest']['repos']['listPullRequestsAssociatedWithCommit']);
+}
+
+describe('createRelease', () => {
+  it('tags the merge commit and drafts the release with notes since the previous tag', async () => {
+    const octokit = createMockOctokit();
+    setRepository(
+      octokit,
+      [
+        { name: 'v1.3.0', commitSha: 'c130' },
+        { name: 'v1.2.0', commitSha: 'c120' },
+      ],
+      ['f1', 'm8', 'f2', 'm9', 'merge123'],
+      [
+        { number: 8, title: 'feat: add export', mergeCommitSha: 'm8', commits: ['f1', 'm8'] },
+        { number: 9, title: 'fix: handle empty input', mergeCommitSha: 'm9', commits: ['f2', 'm9'] },
+        { number: 10, title: 'chore(release): v1.4.0', mergeCommitSha: 'merge123', commits: ['f1', 'f2', 'merge123'] },
+      ],
+    );
+
+    const result = await createRelease(octokit, createEventContext(), 10, 'v1.4.0', 'merge123');
+
+    expect(result).toEqual({
+      tag: 'v1.4.0',
+      tagUrl: 'https://github.com/testowner/testrepo/tree/v1.4.0',
+      releaseUrl: 'https://github.com/testowner/testrepo/releases/tag/untagged-1',
+    });
+    expect(octokit.rest.repos.compareCommitsWithBasehead).toHaveBeenCalledWith(
+      expect.objectContaining({ basehead: 'c130...merge123' }),
+    );
+    expect(octokit.rest.git.createTag).toHaveBeenCalledWith(
+      expect.objectContaining({ tag: 'v1.4.0', object: 'merge123' }),
+    );
+    const body = octokit.rest.repos.createRelease.mock.calls[0]?.[0]?.body ?? '';
+    expect(body).toContain("## What's Changed since v1.3.0");
+    expect(body).toContain('- feat: add export (#8)');
+    expect(body).toContain('- fix: handle empty input (#9)');
+    expect(body).not.toContain('#10');
+  });
+
+  it('leaves out PRs whose merge is not part of the release', async () => {
+    const octokit = createMockOctokit();
+    setRepository(
+      octokit,
+      [{ name: 'v1.3.0', commitSha: 'c130' }],
+      ['f1', 'm8', 'merge123'],
+      [
+        { number: 8, title: 'feat: add export', mergeCommitSha: 'm8', commits: ['f1', 'm8'] },
+        // Merged into another branch; only one of its commits was cherry-picked into the release
+        { number: 11, title: 'feat: develop only', mergeCommitSha: 'm11', commits: ['f1', 'm11'] },
+      ],
+    );
+
+    await createRelease(octokit, createEventContext(), 10, 'v1.4.0', 'merge123');
+
+    const body = octokit.rest.repos.createRelease.mock.calls[0]?.[0]?.body ?? '';
+    expect(body).toContain('- feat: add export (#8)');
+    expect(body).not.toContain('#11');
+  });
+
+  it('builds the tag URL without a doubled slash when the server URL ends with one', async () => {
+    const octokit = createMockOctokit();
+    setRepository(octokit, []);
+
+    const result = await createRelease(
+      octokit,
+      createEventContext({ serverUrl: 'https://github.example.com/' }),
+      10,
+      'v1.4.0',
+      'merge123',
+    );
+
+    expect(result.tagUrl).toBe('https://github.example.com/testowner/testrepo/tree/v1.4.0');
+  });
+
+  it('drafts a first release without listing PRs', async () => {
+    const octokit = createMockOctokit();
+    setRepository(octokit, []);
+
+    const result = await createRelease(octokit, createEventContext(), 10, 'v1.0.0', 'merge123');
+
+    expect(result.releaseUrl).toBeDefined();
+    expect(octokit.rest.repos.compareCommitsWithBasehead).not.toHaveBeenCalled();
+    expect(octokit.rest.repos.createRelease.mock.calls[0]?.[0]?.body).toBe('First release.');
+  });
+
+  it('leaves an existing tag alone', async () => {
+    const octokit = createMockOctokit();
+    setRepository(octokit, [{ name: 'v1.4.0', commitSha: 'c140' }]);
+
+    const result = await createRelease(octokit, createEventContext(), 10, 'v1.4.0', 'merge123');
+
+    expect(result).toEqual({ tag: 'v1.4.0', error: 'tag `v1.4.0` already exists' });
+    expect(octokit.rest.git.createTag).not.toHaveBeenCalled();
+    expect(octokit.rest.repos.createRelease).not.toHaveBeenCalled();
+  });
+
+  it('keeps the tag URL when only the release could not be drafted', async () => {
+    const octokit = createMockOctokit();
+    setRepository(octokit, []);
+    octokit.rest.repos.createRelease.mockRejectedValue(new Error('Resource not accessible by integration'));
+
+    const result = await createRelease(octokit, createEventContext(), 10, 'v1.4.0', 'merge123');
+
+    expect(result).toEqual({
+      tag: 'v1.4.0',
+      tagUrl: 'https://github.com/testowner/testrepo/tree/v1.4.0',
+      error: 'Resource not accessible by integration',
+    });
+  });
+
+  it('reports a tag that could not be created', async () => {
+    const octokit = createMockOctokit();
+    setRepository(octokit, []);
+    octokit.rest.git.createTag.mockRejectedValue(new Error('Validation Failed'));
+
+    const result = await createRelease(octokit, createEventContext(), 10, 'v1.4.0', 'merge123');
+
+    expect(result).toEqual({ tag: 'v1.4.0', error: 'Validation Failed' });
+    expect(octokit.rest.repos.createRelease).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * status-command.test.ts - Tests for status-command.ts module
+ *
+ * Tests cover handleStatusCommand, which reports the merge checklist without
+ * mutating the PR (no dismissals, no merge).
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { handleStatusCommand } from '../src/status-command.js';
+
+import { createConfig, createEventContext } from './helpers/fixtures.js';
+import { createMockOctokit } from './helpers/octokit.mock.js';
+
+describe('handleStatusCommand', () => {
+  it('reports passing checks and merge method without merging', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([
+      { id: 1, state: 'APPROVED', commit_id: 'abc1234567890', user: { login: 'reviewer' } },
+    ]);
+
+    const result = await handleStatusCommand(octokit, createEventContext(), createConfig());
+
+    expect(result.status).toBe('skipped');
+    expect(result.message).toBe('Status reported: merge checks passed');
+    expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('## Merge status');
+    expect(commentBody).toContain('can be merged with `/nylbot merge`');
+    expect(commentBody).toContain('### Merge Method');
+    expect(commentBody).toContain('`squash`');
+  });
+
+  it('reports failing checks', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([]);
+
+    const result = await handleStatusCommand(octokit, createEventContext(), createConfig());
+
+    expect(result.message).toBe('Status reported: merge checks failed');
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('The following checks must pass before merging');
+    expect(commentBody).toContain('❌ At least one valid approval from another user');
+  });
+
+  it('lists stale approvals without dismissing them', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([
+      { id: 1, state: 'APPROVED', commit_id: 'oldcommit456', user: { login: 'reviewer' } },
+    ]);
+
+    await handleStatusCommand(octokit, createEventContext(), createConfig());
+
+    expect(octokit.rest.pulls.dismissReview).not.toHaveBeenCalled();
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('Approval from @reviewer is on an outdated commit');
+  });
+
+  it('notes that fork PRs cannot be merged', async () => {
+    const octokit = createMockOctokit();
+    const { data } = await octokit.rest.pulls.get();
+    octokit.rest.pulls.get.mockResolvedValue({
+      data: { ...data, head: { ...data.head, repo: { fork: true, owner: { id: 2 } } } },
+    } as unknown as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+
+    await handleStatusCommand(octokit, createEventContext(), createConfig());
+
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('does not support fork PRs');
+  });
+
+  it('reports in the configured language', async () => {
+    const octokit = createMockOctokit();
+    octokit.paginate.mockResolvedValue([]);
+
+    await handleStatusCommand(octokit, createEventContext(), createConfig({ language: 'ja' }));
+
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('## マージの状態');
+    expect(commentBody).toContain('マージする前に、以下のチェックを通過する必要があります');
+    expect(commentBody).toContain('❌ 他のユーザーによる有効な承認が 1 件以上ある');
+    expect(commentBody).toContain('### マージ方法');
+  });
+
+  it('returns already_merged for merged PRs', async () => {
+    const octokit = createMockOctokit();
+    const { data } = await octokit.rest.pulls.get();
+    octokit.rest.pulls.get.mockResolvedValue({ data: { ...data, merged: true } } as unknown as Awaited<
+      ReturnType<typeof octokit.rest.pulls.get>
+    >);
+
+    const result = await handleStatusCommand(octokit, createEventContext(), createConfig());
+
+    expect(result.status).toBe('already_merged');
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * title-command.test.ts - Tests for title-command.ts module
+ *
+ * Tests cover handleTitleCommand: validating the new title against Conventional
+ * Commits and updating the PR title.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { handleTitleCommand } from '../src/title-command.js';
+
+import { createConfig, createEventContext } from './helpers/fixtures.js';
+import { createMockOctokit } from './helpers/octokit.mock.js';
+
+describe('handleTitleCommand', () => {
+  it('updates the PR title', async () => {
+    const octokit = createMockOctokit();
+
+    const result = await handleTitleCommand(octokit, createEventContext(), createConfig(), 'feat: login flow');
+
+    expect(result).toEqual({ status: 'skipped', message: 'Title updated' });
+    expect(octokit.rest.pulls.update).toHaveBeenCalledWith(
+      expect.objectContaining({ pull_number: 1, title: 'feat: login flow' }),
+    );
+    expect(octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body).toBe(
+      '## Title updated\n\n- **Before:** `feat: test pull request`\n- **After:** `feat: login flow`',
+    );
+  });
+
+  it('rejects titles that do not follow Conventional Commits', async () => {
+    const octokit = createMockOctokit();
+
+    const config = createConfig({ commandPrefix: '/shipit' });
+
+    const result = await handleTitleCommand(octokit, createEventContext(), config, 'Login flow');
+
+    expect(result).toEqual({ status: 'failed', message: 'Invalid title' });
+    const body = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(body).toContain('## Invalid title');
+    expect(body).toContain('`/shipit title feat(auth): add login flow`');
+    expect(octokit.rest.pulls.get).not.toHaveBeenCalled();
+    expect(octokit.rest.pulls.update).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when the title is unchanged', async () => {
+    const octokit = createMockOctokit();
+
+    const result = await handleTitleCommand(octokit, createEventContext(), createConfig(), 'feat: test pull request');
+
+    expect(result).toEqual({ status: 'skipped', message: 'Title unchanged' });
+    expect(octokit.rest.pulls.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects merged PRs', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.get.mockResolvedValue({
+      data: {
+        state: 'closed',
+        locked: false,
+        draft: false,
+        merged: true,
+        mergeable: null,
+        mergeable_state: 'unknown',
+        head: { sha: 'abc1234567890', ref: 'feature/test', repo: { fork: false, owner: { id: 1 } } },
+        base: { ref: 'develop', repo: { owner: { id: 1 } } },
+        user: { login: 'testuser' },
+        title: 'Login flow',
+      },
+    } as Awaited<ReturnType<typeof octokit.rest.pulls.get>>);
+
+    const result = await handleTitleCommand(octokit, createEventContext(), createConfig(), 'feat: login flow');
+
+    expect(result).toEqual({ status: 'already_merged', message: 'PR already merged' });
+    expect(octokit.rest.pulls.update).not.toHaveBeenCalled();
+  });
+
+  it('reports a failed update', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.update.mockRejectedValue(new Error('Validation Failed'));
+
+    const result = await handleTitleCommand(octokit, createEventContext(), createConfig(), 'feat: login flow');
+
+    expect(result).toEqual({ status: 'failed', message: 'Title update failed: Validation Failed' });
+    expect(octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body).toContain('## Title update failed');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * update-branch-command.test.ts - Tests for update-branch-command.ts module
+ *
+ * Tests cover handleUpdateBranchCommand: rejecting PRs that cannot be updated
+ * and delegating the update to branch-update.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { handleUpdateBranchCommand } from '../src/update-branch-command.js';
+
+import { createConfig, createEventContext } from './helpers/fixtures.js';
+import { createMockOctokit, type MockedOctokit } from './helpers/octokit.mock.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * Creates a pulls.get response for the default PR with the given fields replaced.
+ */
+function createPullRequestResponse(
+  overrides: { state?: string; merged?: boolean; fork?: boolean; sha?: string } = {},
+): Awaited<ReturnType<MockedOctokit['rest']['pulls']['get']>> {
+  return {
+    data: {
+      state: overrides.state ?? 'open',
+      locked: false,
+      draft: false,
+      merged: overrides.merged ?? false,
+      mergeable: true,
+      mergeable_state: 'behind',
+      head: {
+        sha: overrides.sha ?? 'abc1234567890',
+        ref: 'feature/test',
+        repo: { fork: overrides.fork ?? false, owner: { id: 1 } },
+      },
+      base: { ref: 'develop', repo: { owner: { id: 1 } } },
+      user: { login: 'testuser' },
+      title: 'feat: test pull request',
+    },
+  } as Awaited<ReturnType<MockedOctokit['rest']['pulls']['get']>>;
+}
+
+describe('handleUpdateBranchCommand', () => {
+  it('updates the branch and asks for a merge once checks pass', async () => {
+    const octokit = createMockOctokit();
+    // The first fetch sees the original HEAD; later fetches see the update commit
+    octokit.rest.pulls.get
+      .mockResolvedValueOnce(createPullRequestResponse())
+      .mockResolvedValue(createPullRequestResponse({ sha: 'new4567890123' }));
+    octokit.rest.git.getCommit.mockResolvedValue({
+      data: { parents: [{ sha: 'abc1234567890' }, { sha: 'base123456789' }] },
+    } as Awaited<ReturnType<typeof octokit.rest.git.getCommit>>);
+    octokit.rest.git.getRef.mockResolvedValue({
+      data: { object: { sha: 'base123456789' } },
+    } as Awaited<ReturnType<typeof octokit.rest.git.getRef>>);
+
+    const result = await handleUpdateBranchCommand(octokit, createEventContext(), createConfig());
+
+    expect(result).toEqual({ status: 'skipped', message: 'Branch updated' });
+    expect(octokit.rest.pulls.updateBranch).toHaveBeenCalledWith(
+      expect.objectContaining({ expected_head_sha: 'abc1234567890' }),
+    );
+    const commentBody = octokit.rest.issues.createComment.mock.calls[0]?.[0]?.body ?? '';
+    expect(commentBody).toContain('Run `/nylbot merge` once checks pass on the new HEAD.');
+  });
+
+  it('rejects fork PRs', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.get.mockResolvedValue(createPullRequestResponse({ fork: true }));
+
+    const result = await handleUpdateBranchCommand(octokit, createEventContext(), createConfig());
+
+    expect(result).toEqual({ status: 'failed', message: 'Fork PR not supported' });
+    expect(octokit.rest.pulls.updateBranch).not.toHaveBeenCalled();
+  });
+
+  it('reports already merged PRs', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.get.mockResolvedValue(createPullRequestResponse({ state: 'closed', merged: true }));
+
+    const result = await handleUpdateBranchCommand(octokit, createEventContext(), createConfig());
+
+    expect(result).toEqual({ status: 'already_merged', message: 'PR already merged' });
+    expect(octokit.rest.pulls.updateBranch).not.toHaveBeenCalled();
+  });
+
+  it('rejects closed PRs', async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.pulls.get.mockResolvedValue(createPullRequestResponse({ state: 'closed' }));
+
+    const result = await handleUpdateBranchCommand(octokit, createEventContext(), createConfig());
+
+    expect(result).toEqual({ status: 'failed', message: 'PR is not open' });
+    expect(octokit.rest.pulls.updateBranch).not.toHaveBeenCalled();
+  });
+});
@@ -13,7 +13,8 @@
 
 import { describe, it, expect } from 'vitest';
 
-import type { ActionConfig, PullRequestData, CheckResult } from '../src/types.js';
+import { COMMANDS } from '../src/constants.js';
+import type { ActionResult, CheckResult } from '../src/types.js';
 import {
   parseCommand,
   isBot,
@@ -24,48 +25,24 @@ import {
   validatePRState,
   getMergeableStateDescription,
   buildCheckResultsMarkdown,
+  buildCommitMessage,
+  buildMergeMethodMarkdown,
+  buildHelpMarkdown,
+  requiresWritePermission,
   isConventionalCommitTitle,
   waitBeforeRetryMs,
+  hasPermissionAtLeast,
+  applyMergeMethodOverride,
+  pickSignificantResult,
+  isValidBackportTarget,
+  determineBackMerge,
+  parseReleaseTag,
+  findPreviousReleaseTag,
+  buildReleaseNotes,
+  suggestConventionalTitles,
 } from '../src/validation.js';
 
-// =============================================================================
-// Test Utilities
-// =============================================================================
-
-/**
- * Creates a default config for tests.
- */
-function createConfig(overrides: Partial<ActionConfig> = {}): ActionConfig {
-  return {
-    releaseBranchPrefix: 'release/',
-    developBranch: 'develop',
-    syncBranchPrefix: 'fix/sync/',
-    mergeableRetryCount: 5,
-    mergeableRetryInterval: 10,
-    ...overrides,
-  };
-}
-
-/**
- * Creates a default PR data object for tests.
- */
-function createPRData(overrides: Partial<PullRequestData> = {}): PullRequestData {
-  return {
-    state: 'open',
-    locked: false,
-    draft: false,
-    merged: false,
-    mergeable: true,
-    mergeableState: 'clean',
-    headSha: 'abc1234567890',
-    headRef: 'feature/test',
-    baseRef: 'develop',
-    author: 'testuser',
-    isFork: false,
-    title: 'feat: test pull request',
-    ...overrides,
-  };
-}
+import { createConfig, createPRData } from './helpers/fixtures.js';
 
 // =============================================================================
 // Tests for parseCommand
@@ -74,72 +51,461 @@ function createPRData(overrides: Partial<PullRequestData> = {}): PullRequestData
 describe('parseCommand', () => {
   describe('valid commands', () => {
     it('parses basic command without flags', () => {
-      const result = parseCommand('/nylbot merge');
-      expect(result).not.toBeNull();
-      expect(result?.overrideApprovalRequirement).toBe(false);
+      expect(parseCommand('/nylbot merge', createConfig())).toEqual({
+        name: 'merge',
+        options: {
+          overrideApprovalRequirement: false,
+          dryRun: false,
+          methodOverride: null,
+          updateIfBehind: false,
+          ready: false,
+          commitTitle: null,
+          commitMessage: null,
+          overrideReason: null,
+          expectedHeadSha: null,
+        },
+      });
     });
 
     it('parses command with --override-approval-requirement flag', () => {
-      const result = parseCommand('/nylbot merge --override-approval-requirement');
-      expect(result).not.toBeNull();
-      expect(result?.overrideApprovalRequirement).toBe(true);
+      expect(parseCommand('/nylbot merge --override-approval-requirement', createConfig())).toEqual({
+        name: 'merge',
+        options: {
+          overrideApprovalRequirement: true,
+          dryRun: false,
+          methodOverride: null,
+          updateIfBehind: false,
+          ready: false,
+          commitTitle: null,
+          commitMessage: null,
+          overrideReason: null,
+          expectedHeadSha: null,
+        },
+      });
+    });
+
+    it('parses command with --dry-run flag', () => {
+      expect(parseCommand('/nylbot merge --dry-run', createConfig())).toEqual({
+        name: 'merge',
+        options: {
+          overrideApprovalRequirement: false,
+          dryRun: true,
+          methodOverride: null,
+          updateIfBehind: false,
+          ready: false,
+          commitTitle: null,
+          commitMessage: null,
+          overrideReason: null,
+          expectedHeadSha: null,
+        },
+      });
+    });
+
+    it('parses command with --dry-run combined with other flags', () => {
+      expect(parseCommand('/nylbot merge --dry-run --override-approval-requirement', createConfig())).toEqual({
+        name: 'merge',
+        options: {
+          overrideApprovalRequirement: true,
+          dryRun: true,
+          methodOverride: null,
+          updateIfBehind: false,
+          ready: false,
+          commitTitle: null,
+          commitMessage: null,
+          overrideReason: null,
+          expectedHeadSha: null,
+        },
+      });
     });
 
     it('parses command with flag and extra whitespace', () => {
-      const result = parseCommand('   /nylbot   merge   --override-approval-requirement   ');
-      expect(result).not.toBeNull();
-      expect(result?.overrideApprovalRequirement).toBe(true);
+      expect(parseCommand('   /nylbot   merge   --override-approval-requirement   ', createConfig())).toEqual({
+        name: 'merge',
+        options: {
+          overrideApprovalRequirement: true,
+          dryRun: false,
+          methodOverride: null,
+          updateIfBehind: false,
+          ready: false,
+          commitTitle: null,
+          commitMessage: null,
+          overrideReason: null,
+          expectedHeadSha: null,
+        },
+      });
+    });
+
+    it('parses --squash and --merge method override flags', () => {
+      expect(parseCommand('/nylbot merge --squash', createConfig())).toEqual({
+        name: 'merge',
+        options: {
+          overrideApprovalRequirement: false,
+          dryRun: false,
+          methodOverride: 'squash',
+          updateIfBehind: false,
+          ready: false,
+          commitTitle: null,
+          commitMessage: null,
+          overrideReason: null,
+          expectedHeadSha: null,
+        },
+      });
+      expect(parseCommand('/nylbot merge --merge --dry-run', createConfig())).toEqual({
+        name: 'merge',
+        options: {
+          overrideApprovalRequirement: false,
+          dryRun: true,
+          methodOverride: 'merge',
+          updateIfBehind: false,
+          ready: false,
+          commitTitle: null,
+          commitMessage: null,
+          overrideReason: null,
+          expectedHeadSha: null,
+        },
+      });
+      expect(parseCommand('/nylbot merge --rebase', createConfig())).toEqual({
+        name: 'merge',
+        options: {
+          overrideApprovalRequirement: false,
+          dryRun: false,
+          methodOverride: 'rebase',
+          updateIfBehind: false,
+          ready: false,
+          commitTitle: null,
+          commitMessage: null,
+          overrideReason: null,
+          expectedHeadSha: null,
+        },
+      });
+    });
+
+    it('parses status command', () => {
+      expect(parseCommand('/nylbot status', createConfig())).toEqual({ name: 'status' });
+      expect(parseCommand('  /nylbot\tstatus  ', createConfig())).toEqual({ name: 'status' });
+    });
+
+    it('parses auto-merge command', () => {
+      expect(parseCommand('/nylbot auto-merge', createConfig())).toEqual({ name: 'auto-merge' });
+      expect(parseCommand('/nylbot auto-merge --squash', createConfig())).toEqual({
+        subcommand: 'auto-merge',
+        error: 'Unknown flag `--squash` for `/nylbot auto-merge`',
+      });
+    });
+
+    it('parses --update-if-behind flag', () => {
+      expect(parseCommand('/nylbot merge --update-if-behind', createConfig())).toEqual({
+        name: 'merge',
+        options: {
+          overrideApprovalRequirement: false,
+          dryRun: false,
+          methodOverride: null,
+          updateIfBehind: true,
+          ready: false,
+          commitTitle: null,
+          commitMessage: null,
+          overrideReason: null,
+          expectedHeadSha: null,
+        },
+      });
+    });
+
+    it('parses --ready flag and ready command', () => {
+      expect(parseCommand('/nylbot merge --ready', createConfig())).toEqual({
+        name: 'merge',
+        options: {
+          overrideApprovalRequirement: false,
+          dryRun: false,
+          methodOverride: null,
+          updateIfBehind: false,
+          ready: true,
+          commitTitle: null,
+          commitMessage: null,
+          overrideReason: null,
+          expectedHeadSha: null,
+        },
+      });
+      expect(parseCommand('/nylbot ready', createConfig())).toEqual({ name: 'ready' });
+      expect(parseCommand('/nylbot ready --ready', createConfig())).toEqual({
+        subcommand: 'ready',
+        error: 'Unknown flag `--ready` for `/nylbot ready`',
+      });
+    });
+
+    it('parses title command with the rest of the line as the title', () => {
+      expect(parseCommand('/nylbot title feat(auth): add login --flow  ', createConfig())).toEqual({
+        name: 'title',
+        title: 'feat(auth): add login --flow',
+      });
+      expect(parseCommand('/nylbot title', createConfig())).toEqual({
+        subcommand: 'title',
+        error: '`/nylbot title` requires a title',
+      });
+    });
+
+    it('parses update-branch command', () => {
+      expect(parseCommand('/nylbot update-branch', createConfig())).toEqual({ name: 'update-branch' });
+      expect(parseCommand('/nylbot update-branch --update-if-behind', createConfig())).toEqual({
+        subcommand: 'update-branch',
+        error: 'Unknown flag `--update-if-behind` for `/nylbot update-branch`',
+      });
+    });
+
+    it('parses backport command with its target branches', () => {
+      expect(parseCommand('/nylbot backport release/1.2', createConfig())).toEqual({
+        name: 'backport',
+        targets: ['release/1.2'],
+      });
+      expect(parseCommand('/nylbot backport release/1.2 release/1.3 release/1.2', createConfig())).toEqual({
+        name: 'backport',
+        targets: ['release/1.2', 'release/1.3'],
+      });
+    });
+
+    it('rejects backport without a target and arguments for other commands', () => {
+      expect(parseCommand('/nylbot backport', createConfig())).toEqual({
+        subcommand: 'backport',
+        error: '`/nylbot backport` requires at least one branch',
+      });
+      expect(parseCommand('/nylbot backport release/1.2 --dry-run', createConfig())).toEqual({
+        subcommand: 'backport',
+        error: 'Unknown flag `--dry-run` for `/nylbot backport`',
+      });
+      expect(parseCommand('/nylbot merge release/1.2', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Unexpected argument `release/1.2` for `/nylbot merge`',
+      });
+      expect(parseCommand('/nylbot status now', createConfig())).toEqual({
+        subcommand: 'status',
+        error: 'Unexpected argument `now` for `/nylbot status`',
+      });
+    });
+
+    it('parses flag values given as separate or inline tokens', () => {
+      const command = parseCommand(
+        '/nylbot merge --squash --title "fix(api): handle timeouts" --message=\'Closes #12\' --sha abc1234',
+        createConfig(),
+      );
+
+      expect(command).toEqual({
+        name: 'merge',
+        options: {
+          overrideApprovalRequirement: false,
+          dryRun: false,
+          methodOverride: 'squash',
+          updateIfBehind: false,
+          ready: false,
+          commitTitle: 'fix(api): handle timeouts',
+          commitMessage: 'Closes #12',
+          overrideReason: null,
+          expectedHeadSha: 'abc1234',
+        },
+      });
+    });
+
+    it('lowercases --sha values given in uppercase', () => {
+      const command = parseCommand('/nylbot merge --sha ABC1234DEF', createConfig());
+
+      expect(command).toMatchObject({ name: 'merge', options: { expectedHeadSha: 'abc1234def' } });
+    });
+
+    it('parses --reason together with --override-approval-requirement', () => {
+      const command = parseCommand(
+        '/nylbot merge --reason "hotfix for outage" --override-approval-requirement',
+        createConfig(),
+      );
+
+      expect(command).toMatchObject({
+        name: 'merge',
+        options: { overrideApprovalRequirement: true, overrideReason: 'hotfix for outage' },
+      });
+    });
+
+    it('accepts quoted values that start with a dash', () => {
+      expect(parseCommand('/nylbot merge --message "--- see #12"', createConfig())).toMatchObject({
+        options: { commitMessage: '--- see #12' },
+      });
+    });
+
+    it('parses cancel command', () => {
+      expect(parseCommand('/nylbot cancel', createConfig())).toEqual({ name: 'cancel' });
+    });
+
+    it('parses help command', () => {
+      expect(parseCommand('/nylbot help', createConfig())).toEqual({ name: 'help' });
     });
 
     it('matches with leading space or tab only (no newline)', () => {
-      expect(parseCommand('  /nylbot merge')).not.toBeNull();
-      expect(parseCommand('\t/nylbot merge')).not.toBeNull();
+      expect(parseCommand('  /nylbot merge', createConfig())).not.toBeNull();
+      expect(parseCommand('\t/nylbot merge', createConfig())).not.toBeNull();
     });
 
     it('matches with trailing space or tab only (no newline)', () => {
-      expect(parseCommand('/nylbot merge  ')).not.toBeNull();
-      expect(parseCommand('/nylbot merge\t')).not.toBeNull();
+      expect(parseCommand('/nylbot merge  ', createConfig())).not.toBeNull();
+      expect(parseCommand('/nylbot merge\t', createConfig())).not.toBeNull();
     });
 
     it('returns null when command is after leading newline or has trailing newline', () => {
-      expect(parseCommand('\n/nylbot merge')).toBeNull();
-      expect(parseCommand('/nylbot merge\n')).toBeNull();
-      expect(parseCommand('  \n/nylbot merge')).toBeNull();
+      expect(parseCommand('\n/nylbot merge', createConfig())).toBeNull();
+      expect(parseCommand('/nylbot merge\n', createConfig())).toBeNull();
+      expect(parseCommand('  \n/nylbot merge', createConfig())).toBeNull();
     });
 
     it('matches with multiple spaces between words', () => {
-      expect(parseCommand('/nylbot  merge')).not.toBeNull();
-      expect(parseCommand('/nylbot   merge')).not.toBeNull();
-      expect(parseCommand('/nylbot\tmerge')).not.toBeNull();
+      expect(parseCommand('/nylbot  merge', createConfig())).not.toBeNull();
+      expect(parseCommand('/nylbot   merge', createConfig())).not.toBeNull();
+      expect(parseCommand('/nylbot\tmerge', createConfig())).not.toBeNull();
+    });
+  });
+
+  describe('command prefix and bot name', () => {
+    const config = createConfig({ commandPrefix: '/shipit', botName: 'shipit' });
+
+    it('parses commands with the configured prefix or an @mention of the bot', () => {
+      expect(parseCommand('/shipit status', config)).toEqual({ name: 'status' });
+      expect(parseCommand('@shipit status', config)).toEqual({ name: 'status' });
+      expect(parseCommand('  @shipit backport release/1.2', config)).toEqual({
+        name: 'backport',
+        targets: ['release/1.2'],
+      });
+    });
+
+    it('returns null for the default prefix and other triggers', () => {
+      expect(parseCommand('/nylbot status', config)).toBeNull();
+      expect(parseCommand('@nylbot status', config)).toBeNull();
+      expect(parseCommand('shipit status', config)).toBeNull();
+      expect(parseCommand('@shipit[bot] status', config)).toBeNull();
+    });
+
+    it('names the configured prefix in syntax errors', () => {
+      expect(parseCommand('@shipit status --now', config)).toEqual({
+        subcommand: 'status',
+        error: 'Unknown flag `--now` for `/shipit status`',
+      });
     });
   });
 
   describe('invalid commands', () => {
     it('returns null for non-command text', () => {
-      expect(parseCommand('hello world')).toBeNull();
+      expect(parseCommand('hello world', createConfig())).toBeNull();
+    });
+
+    it('reports unknown flags and unexpected arguments', () => {
+      expect(parseCommand('/nylbot merge --unknown-flag', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Unknown flag `--unknown-flag` for `/nylbot merge`',
+      });
+      expect(parseCommand('/nylbot merge now', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Unexpected argument `now` for `/nylbot merge`',
+      });
+      expect(parseCommand('/nylbot merge --force', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Unknown flag `--force` for `/nylbot merge`',
+      });
+    });
+
+    it('reports duplicate flags and flags used with or without a value by mistake', () => {
+      expect(parseCommand('/nylbot merge --dry-run --dry-run', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Duplicate flag `--dry-run`',
+      });
+      expect(parseCommand('/nylbot merge --title', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Flag `--title` requires a value (`--title <title>`)',
+      });
+      expect(parseCommand('/nylbot merge --message --dry-run', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Flag `--message` requires a value (`--message <text>`)',
+      });
+      expect(parseCommand('/nylbot merge --dry-run=yes', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Flag `--dry-run` does not take a value',
+      });
+    });
+
+    it('reports values that do not match the flag format', () => {
+      expect(parseCommand('/nylbot merge --sha xyz', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Invalid value `xyz` for `--sha`: expected 7 to 40 hex characters',
+      });
+      expect(parseCommand('/nylbot merge --title "Fix things"', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Invalid value `Fix things` for `--title`: expected a Conventional Commits title',
+      });
     });
 
-    it('returns null for command with unknown flags or arguments', () => {
-      expect(parseCommand('/nylbot merge --unknown-flag')).toBeNull();
-      expect(parseCommand('/nylbot merge now')).toBeNull();
-      expect(parseCommand('/nylbot merge --force')).toBeNull();
+    it('reports conflicting flags and missing companion flags', () => {
+      expect(parseCommand('/nylbot merge --rebase --title "fix: x"', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Flags `--rebase` and `--title` cannot be used together',
+      });
+      expect(parseCommand('/nylbot merge --reason "hotfix"', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Flag `--reason` requires `--override-approval-requirement`',
+      });
+    });
+
+    it('reports unterminated quotes', () => {
+      expect(parseCommand('/nylbot merge --title "fix: x', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Unterminated " quote',
+      });
+    });
+
+    it('returns null for unknown subcommands', () => {
+      expect(parseCommand('/nylbot deploy', createConfig())).toBeNull();
+      expect(parseCommand('/nylbot mergex', createConfig())).toBeNull();
+    });
+
+    it('reports arguments to the status command', () => {
+      expect(parseCommand('/nylbot status --dry-run', createConfig())).toEqual({
+        subcommand: 'status',
+        error: 'Unknown flag `--dry-run` for `/nylbot status`',
+      });
+      expect(parseCommand('/nylbot status now', createConfig())).toEqual({
+        subcommand: 'status',
+        error: 'Unexpected argument `now` for `/nylbot status`',
+      });
+    });
+
+    it('reports conflicting merge method flags', () => {
+      expect(parseCommand('/nylbot merge --squash --merge', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Flags `--squash` and `--merge` cannot be used together',
+      });
+      expect(parseCommand('/nylbot merge --rebase --squash', createConfig())).toEqual({
+        subcommand: 'merge',
+        error: 'Flags `--squash` and `--rebase` cannot be used together',
+      });
+    });
+
+    it('reports arguments to the help command', () => {
+      expect(parseCommand('/nylbot help merge', createConfig())).toEqual({
+        subcommand: 'help',
+        error: 'Unexpected argument `merge` for `/nylbot help`',
+      });
+    });
+
+    it('returns null for subcommands that shadow Object.prototype members', () => {
+      expect(parseCommand('/nylbot constructor', createConfig())).toBeNull();
     });
 
     it('returns null for partial or malformed commands', () => {
-      expect(parseCommand('/nylbot')).toBeNull();
-      expect(parseCommand('/nylbot merg')).toBeNull();
-      expect(parseCommand('nylbot merge')).toBeNull();
+      expect(parseCommand('/nylbot', createConfig())).toBeNull();
+      expect(parseCommand('/nylbot merg', createConfig())).toBeNull();
+      expect(parseCommand('nylbot merge', createConfig())).toBeNull();
     });
 
     it('returns null when command is embedded in other text', () => {
-      expect(parseCommand('Please /nylbot merge this')).toBeNull();
-      expect(parseCommand('run /nylbot merge')).toBeNull();
-      expect(parseCommand('Run /nylbot merge')).toBeNull();
+      expect(parseCommand('Please /nylbot merge this', createConfig())).toBeNull();
+      expect(parseCommand('run /nylbot merge', createConfig())).toBeNull();
+      expect(parseCommand('Run /nylbot merge', createConfig())).toBeNull();
     });
 
     it('is case-sensitive (uppercase rejected)', () => {
-      expect(parseCommand('/NYLBOT MERGE')).toBeNull();
-      expect(parseCommand('/Nylbot Merge')).toBeNull();
+      expect(parseCommand('/NYLBOT MERGE', createConfig())).toBeNull();
+      expect(parseCommand('/Nylbot Merge', createConfig())).toBeNull();
     });
   });
 });
@@ -171,59 +537,69 @@ describe('isBot', () => {
 describe('hasBotMention', () => {
   describe('valid bot trigger patterns (start of comment body)', () => {
     it('matches /nylbot at start of comment with or without command', () => {
-      expect(hasBotMention('/nylbot')).toBe(true);
-      expect(hasBotMention('/nylbot merge')).toBe(true);
-      expect(hasBotMention('  /nylbot merge')).toBe(true);
+      expect(hasBotMention('/nylbot', createConfig())).toBe(true);
+      expect(hasBotMention('/nylbot merge', createConfig())).toBe(true);
+      expect(hasBotMention('  /nylbot merge', createConfig())).toBe(true);
     });
 
     it('matches other bot names (2–5 chars before "bot")', () => {
-      expect(hasBotMention('/xybot')).toBe(true);
-      expect(hasBotMention('/longbot merge')).toBe(true);
-      expect(hasBotMention('/mybot help')).toBe(true);
-      expect(hasBotMention('/aibot')).toBe(true);
-      expect(hasBotMention('/abcdebot test')).toBe(true);
+      expect(hasBotMention('/xybot', createConfig())).toBe(true);
+      expect(hasBotMention('/longbot merge', createConfig())).toBe(true);
+      expect(hasBotMention('/mybot help', createConfig())).toBe(true);
+      expect(hasBotMention('/aibot', createConfig())).toBe(true);
+      expect(hasBotMention('/abcdebot test', createConfig())).toBe(true);
     });
 
     it('matches with leading space or tab only (no newlines)', () => {
-      expect(hasBotMention('\t/nylbot')).toBe(true);
-      expect(hasBotMention('  /nylbot merge')).toBe(true);
+      expect(hasBotMention('\t/nylbot', createConfig())).toBe(true);
+      expect(hasBotMention('  /nylbot merge', createConfig())).toBe(true);
     });
 
     it('matches trigger without space after "bot" (pattern is comment-start only)', () => {
-      expect(hasBotMention('/nylbot')).toBe(true);
-      expect(hasBotMention('/nylbotmerge')).toBe(true);
+      expect(hasBotMention('/nylbot', createConfig())).toBe(true);
+      expect(hasBotMention('/nylbotmerge', createConfig())).toBe(true);
+    });
+
+    it('matches the configured prefix and @mention even without "bot" in the name', () => {
+      const config = createConfig({ commandPrefix: '/shipit', botName: 'shipit' });
+
+      expect(hasBotMention('/shipit merge', config)).toBe(true);
+      expect(hasBotMention(' @shipit merge', config)).toBe(true);
+      expect(hasBotMention('@shipitnow', config)).toBe(false);
+      expect(hasBotMention('@nylbot merge', createConfig())).toBe(true);
+      expect(hasBotMention('@NylBot merge', createConfig())).toBe(true);
     });
   });
 
   describe('invalid bot trigger patterns', () => {
     it('rejects too short prefix (less than 2 chars before "bot")', () => {
-      expect(hasBotMention('/bot')).toBe(false);
-      expect(hasBotMention('/xbot test')).toBe(false);
+      expect(hasBotMention('/bot', createConfig())).toBe(false);
+      expect(hasBotMention('/xbot test', createConfig())).toBe(false);
     });
 
     it('rejects too long prefix (more than 5 chars before "bot")', () => {
-      expect(hasBotMention('/longnamebot')).toBe(false);
-      expect(hasBotMention('/toolongbot command')).toBe(false);
+      expect(hasBotMention('/longnamebot', createConfig())).toBe(false);
+      expect(hasBotMention('/toolongbot command', createConfig())).toBe(false);
     });
 
     it('rejects bot name without slash', () => {
-      expect(hasBotMention('nylbot merge')).toBe(false);
-      expect(hasBotMention('mybot command')).toBe(false);
+      expect(hasBotMention('nylbot merge', createConfig())).toBe(false);
+      expect(hasBotMention('mybot command', createConfig())).toBe(false);
     });
 
     it('rejects text without bot trigger at start of comment', () => {
-      expect(hasBotMention('Hello world')).toBe(false);
-      expect(hasBotMention('some random text')).toBe(false);
+      expect(hasBotMention('Hello world', createConfig())).toBe(false);
+      expect(hasBotMention('some random text', createConfig())).toBe(false);
     });
 
     it('rejects when trigger is not at start of comment body', () => {
-      expect(hasBotMention('run /nylbot merge')).toBe(false);
-      expect(hasBotMention('prefix /nylbot')).toBe(false);
+      expect(hasBotMention('run /nylbot merge', createConfig())).toBe(false);
+      expect(hasBotMention('prefix /nylbot', createConfig())).toBe(false);
     });
 
     it('rejects when trigger is after a newline (only space/tab allowed before trigger)', () => {
-      expect(hasBotMention('\n/nylbot merge')).toBe(false);
-      expect(hasBotMention(' \n/nylbot')).toBe(false);
+      expect(hasBotMention('\n/nylbot merge', createConfig())).toBe(false);
+      expect(hasBotMention(' \n/nylbot', createConfig())).toBe(false);
     });
   });
 });
@@ -303,7 +679,26 @@ describe('hasValidPermission', () => {
 describe('determineMergeMethod', () => {
   const config = createConfig();
 
-  describe('head branch patterns (highest precedence)', () => {
+  describe('rebase-base-branches (highest precedence)', () => {
+    const rebaseConfig = createConfig({ rebaseBaseBranches: ['main', 'develop'] });
+
+    it('uses rebase for PRs targeting a listed base branch', () => {
+      const result = determineMergeMethod('feature/x', 'main', rebaseConfig);
+      expect(result.method).toBe('rebase');
+      expect(result.reason).toContain('requires linear history');
+    });
+
+    it('takes precedence over head and base branch patterns', () => {
+      expect(determineMergeMethod('release/1.0.0', 'main', rebaseConfig).method).toBe('rebase');
+      expect(determineMergeMethod('feature/x', 'develop', rebaseConfig).method).toBe('rebase');
+    });
+
+    it('does not apply to unlisted base branches', () => {
+      expect(determineMergeMethod('feature/x', 'release/1.0.0', rebaseConfig).method).toBe('squash');
+    });
+  });
+
+  describe('head branch patterns', () => {
     it('uses merge for PRs from release/* branch (preserves release history)', () => {
       const result = determineMergeMethod('release/1.0.0', 'master', config);
       expect(result.method).toBe('merge');
@@ -349,6 +744,454 @@ describe('determineMergeMethod', () => {
   });
 });
 
+// =============================================================================
+// Tests for buildMergeMethodMarkdown
+// =============================================================================
+
+describe('buildMergeMethodMarkdown', () => {
+  it('formats method and reason as a markdown section', () => {
+    const markdown = buildMergeMethodMarkdown({ method: 'squash', reason: 'Base branch is `develop`' }, createConfig());
+
+    expect(markdown).toBe('### Merge Method\n\n- **Method:** `squash`\n- **Reason:** Base branch is `develop`');
+  });
+
+  it('notes which trailers are lost for rebase', () => {
+    const markdown = buildMergeMethodMarkdown(
+      {
+        method: 'rebase',
+        reason: 'Base branch `main` requires linear history',
+      },
+      createConfig(),
+    );
+
+    expect(markdown).toContain('- **Method:** `rebase`');
+    expect(markdown).toContain('`Merged-by`');
+    expect(markdown).toContain('`EXCEPTIONAL MERGE`');
+    expect(markdown).toContain('**not** recorded');
+  });
+});
+
+// =============================================================================
+// Tests for hasPermissionAtLeast
+// =============================================================================
+
+describe('hasPermissionAtLeast', () => {
+  it('returns true for equal or higher levels', () => {
+    expect(hasPermissionAtLeast('maintain', 'maintain')).toBe(true);
+    expect(hasPermissionAtLeast('admin', 'maintain')).toBe(true);
+    expect(hasPermissionAtLeast('write', 'write')).toBe(true);
+  });
+
+  it('returns false for lower levels', () => {
+    expect(hasPermissionAtLeast('write', 'maintain')).toBe(false);
+    expect(hasPermissionAtLeast('triage', 'write')).toBe(false);
+  });
+
+  it('returns false for unknown permission or requirement', () => {
+    expect(hasPermissionAtLeast('none', 'read')).toBe(false);
+    expect(hasPermissionAtLeast('admin', 'owner')).toBe(false);
+  });
+});
+
+// =============================================================================
+// Tests for applyMergeMethodOverride
+// =============================================================================
+
+describe('applyMergeMethodOverride', () => {
+  const ruleResult = { method: 'merge' as const, reason: 'Default merge commit for `feature/x` into `main`' };
+
+  it('returns the branch-rule result when there is no override', () => {
+    expect(applyMergeMethodOverride(ruleResult, null, createConfig())).toBe(ruleResult);
+  });
+
+  it('replaces the method and records the branch-rule method and reason', () => {
+    const result = applyMergeMethodOverride(ruleResult, 'squash', createConfig());
+
+    expect(result.method).toBe('squash');
+    expect(result.overriddenMethod).toBe('merge');
+    expect(result.reason).toBe(
+      'Overridden by `--squash` (branch rules selected `merge`: Default merge commit for `feature/x` into `main`)',
+    );
+  });
+});
+
+// =============================================================================
+// Tests for requiresWritePermission
+// =============================================================================
+
+describe('requiresWritePermission', () => {
+  it('requires write permission for merge', () => {
+    expect(requiresWritePermission('merge')).toBe(true);
+  });
+
+  it('does not require write permission for read-only or self-authorizing commands', () => {
+    expect(requiresWritePermission('cancel')).toBe(false);
+    expect(requiresWritePermission('status')).toBe(false);
+    expect(requiresWritePermission('help')).toBe(false);
+  });
+
+  it('requires write permission for unknown commands', () => {
+    expect(requiresWritePermission('deploy')).toBe(true);
+  });
+});
+
+// =============================================================================
+// Tests for determineBackMerge
+// =============================================================================
+
+describe('determineBackMerge', () => {
+  it('plans a sync branch and PR for a release branch merged into main', () => {
+    expect(determineBackMerge('release/1.2.0', 'main', createConfig())).toEqual({
+      branch: 'fix/sync/1.2.0',
+      title: 'chore(sync): back-merge release/1.2.0 into develop',
+    });
+  });
+
+  it('uses the configured prefixes and develop branch', () => {
+    const config = createConfig({ releaseBranchPrefix: 'rel-', syncBranchPrefix: 'sync/', developBranch: 'dev' });
+
+    expect(determineBackMerge('rel-2024.1', 'master', config)).toEqual({
+      branch: 'sync/2024.1',
+      title: 'chore(sync): back-merge rel-2024.1 into dev',
+    });
+  });
+
+  it('returns null for non-release heads and release branches merged into develop', () => {
+    expect(determineBackMerge('feature/x', 'main', createConfig())).toBeNull();
+    expect(determineBackMerge('release/1.2.0', 'develop', createConfig())).toBeNull();
+  });
+
+  it('produces a title that follows Conventional Commits', () => {
+    expect(isConventionalCommitTitle(determineBackMerge('release/1.2.0', 'main', createConfig())?.title ?? '')).toBe(
+      true,
+    );
+  });
+});
+
+// =============================================================================
+// Tests for suggestConventionalTitles
+// =============================================================================
+
+describe('suggestConventionalTitles', () => {
+  /**
+   * Creates PR commits with the given messages.
+   */
+  function commits(...messages: string[]): { commit: { message: string } }[] {
+    return messages.map((message) => ({ commit: { message } }));
+  }
+
+  it('derives a title from a branch named after a conventional type', () => {
+    expect(suggestConventionalTitles('feat/login-flow', [])).toEqual(['feat: login flow']);
+    expect(suggestConventionalTitles('fix/auth/token_expiry', [])).toEqual(['fix: auth token expiry']);
+  });
+
+  it('maps common branch prefixes to their type', () => {
+    expect(suggestConventionalTitles('feature/login-flow', [])).toEqual(['feat: login flow']);
+    expect(suggestConventionalTitles('hotfix/crash', [])).toEqual(['fix: crash']);
+  });
+
+  it('adds conventional commit subjects after the branch suggestion, without duplicates', () => {
+    expect(
+      suggestConventionalTitles(
+        'feat/login-flow',
+        commits('WIP', 'fix(auth): handle expiry\n\nDetails', 'feat: login flow', 'fix(auth): handle expiry'),
+      ),
+    ).toEqual(['feat: login flow', 'fix(auth): handle expiry']);
+  });
+
+  it('returns at most three suggestions', () => {
+    expect(suggestConventionalTitles('feat/a', commits('fix: b', 'fix: c', 'fix: d'))).toEqual([
+      'feat: a',
+      'fix: b',
+      'fix: c',
+    ]);
+  });
+
+  it('returns no suggestion when neither the branch nor the commits help', () => {
+    expect(suggestConventionalTitles('login-flow', commits('WIP'))).toEqual([]);
+    expect(suggestConventionalTitles('release/1.2.0', [])).toEqual([]);
+    expect(suggestConventionalTitles('feat/', [])).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Tests for parseReleaseTag / findPreviousReleaseTag / buildReleaseNotes
+// =============================================================================
+
+describe('parseReleaseTag', () => {
+  it('returns a v-prefixed tag for semantic versions with or without v', () => {
+    expect(parseReleaseTag('release/v1.4.0', createConfig())).toBe('v1.4.0');
+    expect(parseReleaseTag('release/1.4.0', createConfig())).toBe('v1.4.0');
+    expect(parseReleaseTag('release/v2.0.0-rc.1', createConfig())).toBe('v2.0.0-rc.1');
+  });
+
+  it('returns null for other branches and versions that are not semantic', () => {
+    expect(parseReleaseTag('feature/v1.4.0', createConfig())).toBeNull();
+    expect(parseReleaseTag('release/1.4', createConfig())).toBeNull();
+    expect(parseReleaseTag('release/next', createConfig())).toBeNull();
+  });
+
+  it('uses the configured release branch prefix', () => {
+    expect(parseReleaseTag('rel-3.1.4', createConfig({ releaseBranchPrefix: 'rel-' }))).toBe('v3.1.4');
+  });
+});
+
+describe('findPreviousReleaseTag', () => {
+  it('returns the highest version below the new tag, comparing numerically', () => {
+    expect(findPreviousReleaseTag(['v1.2.0', 'v1.10.0', 'v1.3.0', 'v2.0.0', 'nightly'], 'v1.11.0')).toBe('v1.10.0');
+    expect(findPreviousReleaseTag(['v1.2.0', 'v1.10.0', 'v1.3.0'], 'v1.4.0')).toBe('v1.3.0');
+  });
+
+  it('orders pre-releases before their release', () => {
+    expect(findPreviousReleaseTag(['v1.9.0', 'v2.0.0-rc.1'], 'v2.0.0')).toBe('v2.0.0-rc.1');
+    expect(findPreviousReleaseTag(['v1.9.0', 'v2.0.0-rc.1'], 'v2.0.0-rc.2')).toBe('v2.0.0-rc.1');
+    expect(findPreviousReleaseTag(['v2.0.0'], 'v2.0.0-rc.1')).toBeNull();
+  });
+
+  it('returns null when there is no earlier version', () => {
+    expect(findPreviousReleaseTag([], 'v1.0.0')).toBeNull();
+    expect(findPreviousReleaseTag(['v1.0.0', 'latest'], 'v1.0.0')).toBeNull();
+  });
+});
+
+describe('buildReleaseNotes', () => {
+  it('groups PRs by conventional title type', () => {
+    const notes = buildReleaseNotes(
+      [
+        { number: 3, title: 'fix(api): handle timeouts' },
+        { number: 4, title: 'feat: add export' },
+        { number: 5, title: 'Update README' },
+        { number: 6, title: 'perf: cache lookups' },
+        { number: 7, title: 'chore(deps): bump vitest' },
+      ],
+      'v1.3.0',
+    );
+
+    expect(notes).toBe(
+      [
+        "## What's Changed since v1.3.0",
+        '',
+        '### Features',
+        '',
+        '- feat: add export (#4)',
+        '',
+        '### Bug Fixes',
+        '',
+        '- fix(api): handle timeouts (#3)',
+        '',
+        '### Performance Improvements',
+        '',
+        '- perf: cache lookups (#6)',
+        '',
+        '### Other Changes',
+        '',
+        '- Update README (#5)',
+        '- chore(deps): bump vitest (#7)',
+      ].join('\n'),
+    );
+  });
+
+  it('omits empty sections', () => {
+    const notes = buildReleaseNotes([{ number: 3, title: 'fix!: drop node 18' }], 'v1.3.0');
+
+    expect(notes).toContain('### Bug Fixes\n\n- fix!: drop node 18 (#3)');
+    expect(notes).not.toContain('### Features');
+    expect(notes).not.toContain('### Other Changes');
+  });
+
+  it('describes the first release and releases without PRs', () => {
+    expect(buildReleaseNotes([], null)).toBe('First release.');
+    expect(buildReleaseNotes([], 'v1.3.0')).toBe('No pull requests were merged since v1.3.0.');
+  });
+});
+
+// =============================================================================
+// Tests for isValidBackportTarget
+// =============================================================================
+
+describe('isValidBackportTarget', () => {
+  it('accepts release branches', () => {
+    expect(isValidBackportTarget('release/1.2', createConfig())).toBe(true);
+    expect(isValidBackportTarget('release/2024-01_hotfix', createConfig())).toBe(true);
+  });
+
+  it('rejects branches outside the release branch prefix', () => {
+    expect(isValidBackportTarget('develop', createConfig())).toBe(false);
+    expect(isValidBackportTarget('release/', createConfig())).toBe(false);
+    expect(isValidBackportTarget('stable/1.2', createConfig({ releaseBranchPrefix: 'release/' }))).toBe(false);
+    expect(isValidBackportTarget('stable/1.2', createConfig({ releaseBranchPrefix: 'stable/' }))).toBe(true);
+  });
+
+  it('rejects names that are not plain branch names', () => {
+    expect(isValidBackportTarget('release/../main', createConfig())).toBe(false);
+    expect(isValidBackportTarget('release/1.2/', createConfig())).toBe(false);
+    expect(isValidBackportTarget('release/`x`', createConfig())).toBe(false);
+  });
+});
+
+// =============================================================================
+// Tests for buildHelpMarkdown
+// =============================================================================
+
+describe('buildHelpMarkdown', () => {
+  it('lists every command and flag from the registry', () => {
+    const markdown = buildHelpMarkdown(createConfig());
+
+    for (const command of COMMANDS) {
+      const usage = 'arguments' in command ? `${command.name} ${command.arguments}` : command.name;
+      expect(markdown).toContain(`| \`/nylbot ${usage}\` |`);
+      for (const flag of command.flags) {
+        const flagUsage = 'value' in flag ? `${flag.name} ${flag.value}` : flag.name;
+        expect(markdown).toContain(`| \`/nylbot ${command.name} ${flagUsage}\` |`);
+      }
+    }
+  });
+
+  it('uses the configured command prefix', () => {
+    const markdown = buildHelpMarkdown(createConfig({ commandPrefix: '/shipit' }));
+
+    expect(markdown).toContain('| `/shipit merge --dry-run` |');
+    expect(markdown).not.toContain('/nylbot');
+  });
+
+  it('only lists commands and flags that parseCommand accepts', () => {
+    const commands = [...buildHelpMarkdown(createConfig()).matchAll(/\| `(\/nylbot [^`]+)` \|/g)].map(
+      (m) => m[1] ?? '',
+    );
+
+    expect(commands.length).toBeGreaterThan(0);
+    for (const command of commands) {
+      expect(parseCommand(command, createConfig())).not.toBeNull();
+    }
+  });
+
+  it('shows the required permission for each command', () => {
+    const markdown = buildHelpMarkdown(createConfig());
+
+    expect(markdown).toContain('| `/nylbot merge` | write |');
+    expect(markdown).toContain('| `/nylbot status` | - |');
+  });
+});
+
+// =============================================================================
+// Tests for buildCommitMessage
+// =============================================================================
+
+describe('buildCommitMessage', () => {
+  const prData = { title: 'feat: add feature', headRef: 'feature/add' };
+
+  it('builds merge commit title and body', () => {
+    const message = buildCommitMessage(
+      { method: 'merge', reason: 'rule' },
+      12,
+      prData,
+      'alice',
+      false,
+      [],
+      createConfig(),
+    );
+
+    expect(message?.title).toBe('Merge pull request #12 from feature/add');
+    expect(message?.body).toBe('feat: add feature\n\nMerged-by: nylbot-merge (on behalf of @alice)');
+  });
+
+  it('names the configured bot in the Merged-by trailer', () => {
+    const config = createConfig({ botName: 'shipit' });
+    const message = buildCommitMessage({ method: 'merge', reason: 'rule' }, 12, prData, 'alice', false, [], config);
+
+    expect(message?.body).toContain('Merged-by: shipit-merge (on behalf of @alice)');
+  });
+
+  it('adds a Merge-method-override trailer when the branch-rule method was overridden', () => {
+    const message = buildCommitMessage(
+      { method: 'squash', reason: 'Overridden', overriddenMethod: 'merge' },
+      12,
+      prData,
+      'alice',
+      false,
+      [],
+      createConfig(),
+    );
+
+    expect(message?.body).toBe(
+      'Merged-by: nylbot-merge (on behalf of @alice)\nMerge-method-override: squash (branch rules selected merge; requested via --squash)',
+    );
+  });
+
+  it('builds squash commit with commit titles and deduplicated co-authors', () => {
+    const commits = [
+      { commit: { message: 'feat: first\n\ndetails', author: { name: 'Alice', email: 'alice@example.com' } } },
+      { commit: { message: '', author: { name: 'Bob', email: 'bob@example.com' } } },
+      { commit: { message: 'fix: second', author: { name: 'Alice', email: 'alice@example.com' } } },
+    ];
+    const message = buildCommitMessage(
+      { method: 'squash', reason: 'rule' },
+      12,
+      prData,
+      'alice',
+      false,
+      commits,
+      createConfig(),
+    );
+
+    expect(message?.title).toBe('feat: add feature (#12)');
+    expect(message?.body).toBe(
+      '* feat: first\n* fix: second\n\nCo-authored-by: Alice <alice@example.com>\nCo-authored-by: Bob <bob@example.com>\n\nMerged-by: nylbot-merge (on behalf of @alice)',
+    );
+  });
+
+  it('uses the commit title, message, and override reason from the command flags', () => {
+    const options = { commitTitle: 'fix: custom title', commitMessage: 'Closes #3', overrideReason: 'hotfix' };
+    const squash = buildCommitMessage(
+      { method: 'squash', reason: 'rule' },
+      12,
+      prData,
+      'alice',
+      true,
+      [],
+      createConfig(),
+      options,
+    );
+    const merge = buildCommitMessage(
+      { method: 'merge', reason: 'rule' },
+      12,
+      prData,
+      'alice',
+      false,
+      [],
+      createConfig(),
+      options,
+    );
+
+    expect(squash?.title).toBe('fix: custom title (#12)');
+    expect(squash?.body).toBe(
+      'Closes #3\n\nMerged-by: nylbot-merge (on behalf of @alice)\n\n⚠️ EXCEPTIONAL MERGE: Approval requirement overridden via --override-approval-requirement\nReason: hotfix',
+    );
+    expect(merge?.body).toBe('fix: custom title\n\nCloses #3\n\nMerged-by: nylbot-merge (on behalf of @alice)');
+  });
+
+  it('adds the exceptional merge marker when the approval override took effect', () => {
+    const message = buildCommitMessage(
+      { method: 'merge', reason: 'rule' },
+      12,
+      prData,
+      'alice',
+      true,
+      [],
+      createConfig(),
+    );
+
+    expect(message?.body).toContain('EXCEPTIONAL MERGE');
+    expect(message?.body).toContain('--override-approval-requirement');
+  });
+
+  it('returns null for rebase because no commit message can be set', () => {
+    expect(
+      buildCommitMessage({ method: 'rebase', reason: 'rule' }, 12, prData, 'alice', true, [], createConfig()),
+    ).toBeNull();
+  });
+});
+
 // =============================================================================
 // Tests for validatePRState
 // =============================================================================
@@ -357,7 +1200,7 @@ describe('validatePRState', () => {
   describe('valid PR state', () => {
     it('passes consolidated check for valid open PR', () => {
       const prData = createPRData();
-      const checks = validatePRState(prData);
+      const checks = validatePRState(prData, createConfig());
 
       expect(checks).toHaveLength(1);
       expect(checks[0]?.name).toBe('PR is ready for review');
@@ -369,7 +1212,7 @@ describe('validatePRState', () => {
   describe('invalid PR states', () => {
     it('fails check when PR is closed', () => {
       const prData = createPRData({ state: 'closed' });
-      const checks = validatePRState(prData);
+      const checks = validatePRState(prData, createConfig());
 
       expect(checks).toHaveLength(1);
       const check = checks[0];
@@ -381,7 +1224,7 @@ describe('validatePRState', () => {
 
     it('fails check when PR is locked', () => {
       const prData = createPRData({ locked: true });
-      const checks = validatePRState(prData);
+      const checks = validatePRState(prData, createConfig());
 
       expect(checks).toHaveLength(1);
       const check = checks[0];
@@ -393,7 +1236,7 @@ describe('validatePRState', () => {
 
     it('fails check when PR is a draft', () => {
       const prData = createPRData({ draft: true });
-      const checks = validatePRState(prData);
+      const checks = validatePRState(prData, createConfig());
 
       expect(checks).toHaveLength(1);
       const check = checks[0];
@@ -405,7 +1248,7 @@ describe('validatePRState', () => {
 
     it('fails check with multiple reasons when PR has multiple issues', () => {
       const prData = createPRData({ state: 'closed', locked: true });
-      const checks = validatePRState(prData);
+      const checks = validatePRState(prData, createConfig());
 
       expect(checks).toHaveLength(1);
       const check = checks[0];
@@ -417,7 +1260,7 @@ describe('validatePRState', () => {
 
     it('fails check with all three reasons when all conditions fail', () => {
       const prData = createPRData({ state: 'closed', locked: true, draft: true });
-      const checks = validatePRState(prData);
+      const checks = validatePRState(prData, createConfig());
 
       expect(checks).toHaveLength(1);
       const check = checks[0];
@@ -435,39 +1278,41 @@ describe('validatePRState', () => {
 
 describe('getMergeableStateDescription', () => {
   it('should return correct description for dirty state', () => {
-    expect(getMergeableStateDescription('dirty')).toBe('has unresolved conflicts');
+    expect(getMergeableStateDescription('dirty', createConfig())).toBe('has unresolved conflicts');
   });
 
   it('should return correct description for blocked state', () => {
-    expect(getMergeableStateDescription('blocked')).toBe('failing or missing required status checks');
+    expect(getMergeableStateDescription('blocked', createConfig())).toBe('failing or missing required status checks');
   });
 
   it('should return correct description for unstable state', () => {
-    expect(getMergeableStateDescription('unstable')).toBe('optional status checks pending or failing');
+    expect(getMergeableStateDescription('unstable', createConfig())).toBe('optional status checks pending or failing');
   });
 
   it('should return correct description for behind state', () => {
-    expect(getMergeableStateDescription('behind')).toBe('head branch is behind base branch');
+    expect(getMergeableStateDescription('behind', createConfig())).toBe(
+      'head branch is behind base branch; run `/nylbot update-branch` to update it',
+    );
   });
 
   it('should return correct description for unknown state', () => {
-    expect(getMergeableStateDescription('unknown')).toBe('mergeability not yet computed; please retry');
+    expect(getMergeableStateDescription('unknown', createConfig())).toBe('mergeability not yet computed; please retry');
   });
 
   it('should return correct description for has_hooks state', () => {
-    expect(getMergeableStateDescription('has_hooks')).toBe('repository has custom pre-receive hooks');
+    expect(getMergeableStateDescription('has_hooks', createConfig())).toBe('repository has custom pre-receive hooks');
   });
 
   it('should return correct description for clean state', () => {
-    expect(getMergeableStateDescription('clean')).toBe('ready to merge');
+    expect(getMergeableStateDescription('clean', createConfig())).toBe('ready to merge');
   });
 
   it('should return correct description for draft state', () => {
-    expect(getMergeableStateDescription('draft')).toBe('draft PR; not ready for review');
+    expect(getMergeableStateDescription('draft', createConfig())).toBe('draft PR; not ready for review');
   });
 
   it('should return fallback for unknown states', () => {
-    expect(getMergeableStateDescription('foo')).toContain('mergeable_state: foo');
+    expect(getMergeableStateDescription('foo', createConfig())).toContain('mergeable_state: foo');
   });
 });
 
@@ -666,3 +1511,26 @@ describe('waitBeforeRetryMs', () => {
     expect(elapsed).toBeLessThan(50);
   });
 });
+
+// =============================================================================
+// Tests for pickSignificantResult function
+// =============================================================================
+
+describe('pickSignificantResult', () => {
+  const merged: ActionResult = { status: 'merged', message: 'PR merged successfully', mergeMethod: 'squash' };
+  const failed: ActionResult = { status: 'failed', message: 'Merge checks failed' };
+  const skipped: ActionResult = { status: 'skipped', message: 'Auto-merge pending' };
+
+  it('returns a single result as is', () => {
+    expect(pickSignificantResult([skipped], 'summary')).toBe(skipped);
+  });
+
+  it('prefers a merge over a failure', () => {
+    expect(pickSignificantResult([skipped, failed, merged], 'summary')).toBe(merged);
+    expect(pickSignificantResult([skipped, failed], 'summary')).toBe(failed);
+  });
+
+  it('summarizes when every result was skipped', () => {
+    expect(pickSignificantResult([skipped, skipped], 'summary')).toEqual({ status: 'skipped', message: 'summary' });
+  });
+});
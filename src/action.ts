@@ -2,48 +2,57 @@
  * action.ts - Testable action logic for the nylbot-merge GitHub Action
  *
  * This file contains the main business logic that can be unit tested:
- * 1. executeAction() - The main orchestration function for merge operations
+ * 1. executeAction() - The main orchestration function that validates the event and
+ *    dispatches `/nylbot <subcommand>` to its handler (merge-command.ts, status-command.ts, ...),
+ *    or routes merge label events to merge-label.ts and auto-merge trigger events (a merge label event
+ *    among them) to auto-merge.ts
  * 2. buildSummaryMarkdown() - Helper to build summary markdown
  *
  * This is separated from main.ts which contains GitHub Actions runtime integration code.
  */
 
-import * as core from '@actions/core';
-
+import { describeDenial, findDeniedRule } from './authorization.js';
+import { handleAutoMergeCommand } from './auto-merge-command.js';
+import { handleAutoMergeEvent } from './auto-merge.js';
+import { handleBackportCommand } from './backport-command.js';
+import { handleBackportEvent } from './backport.js';
+import { handleCancelCommand } from './cancel-command.js';
+import { extractCommandLine } from './command-extractor.js';
 import {
-  addReaction,
-  postComment,
-  getCollaboratorPermission,
-  fetchPullRequestData,
-  fetchApprovedReviews,
-  dismissReview,
-  countUnresolvedThreads,
-  mergePullRequest,
-  fetchPullRequestCommits,
-} from './github-api.js';
-import type { ActionConfig, EventContext, ActionResult, CheckResult, Octokit } from './types.js';
+  AUTO_MERGE_EVENTS,
+  COMMAND_EVENT_ACTIONS,
+  COMMENT_KINDS,
+  COMMENT_URL_ANCHORS,
+  DEFAULT_MERGE_OPTIONS,
+} from './constants.js';
+import { addReaction, postReply, getCollaboratorPermission } from './github-api.js';
+import { handleMergeCommand } from './merge-command.js';
+import { handleMergeLabelEvent } from './merge-label.js';
+import { enqueueMerge, handleMergeQueueEvent } from './merge-queue.js';
+import { formatMessage } from './messages.js';
+import { handleReadyCommand } from './ready-command.js';
+import { handleStatusCommand } from './status-command.js';
+import { handleTitleCommand } from './title-command.js';
+import type { ActionConfig, EventContext, ActionResult, Octokit } from './types.js';
+import { handleUpdateBranchCommand } from './update-branch-command.js';
 import {
   isBot,
-  hasBotMention,
   parseCommand,
+  requiresWritePermission,
+  buildHelpMarkdown,
   hasValidAuthorAssociation,
   hasValidPermission,
-  validatePRState,
-  determineMergeMethod,
-  getMergeableStateDescription,
-  buildCheckResultsMarkdown,
-  isConventionalCommitTitle,
-  waitBeforeRetryMs,
+  hasPermissionAtLeast,
+  pickSignificantResult,
 } from './validation.js';
 
 /**
  * Main function that orchestrates the nylbot-merge operation.
  *
  * This function:
- * 1. Validates the command and permissions
- * 2. Checks PR state and approval status
- * 3. Performs the merge if all checks pass
- * 4. Posts appropriate comments for feedback
+ * 1. Validates the event and parses the command
+ * 2. Validates permissions (except for read-only commands)
+ * 3. Dispatches to the subcommand handler, which checks the PR and posts feedback
  *
  * Exported for testing purposes.
  *
@@ -61,23 +70,66 @@ export async function executeAction(
     owner,
     repo,
     prNumber,
-    commentId,
+    comment,
     commentBody,
     actor,
     userType,
     authorAssociation,
     serverUrl,
+    runId,
     eventName,
+    eventAction,
+    previousCommentBody,
     isPullRequest,
+    label,
   } = context;
 
   // -------------------------------------------------------------------------
   // Step 1: Validate event type and context
   // -------------------------------------------------------------------------
 
-  // Validate event type - this action only works with issue_comment events
-  if (eventName !== 'issue_comment') {
-    return { status: 'skipped', message: 'This action only runs on issue_comment events' };
+  // Adding the merge label runs the same pipeline as `<command-prefix> merge` (see merge-label.ts)
+  const isMergeLabelEvent =
+    eventName === 'pull_request' &&
+    eventAction === 'labeled' &&
+    config.mergeLabel !== '' &&
+    label === config.mergeLabel;
+
+  // A review whose body carries a command runs it; other reviews only re-evaluate pending requests below
+  const isReviewCommand =
+    eventName === 'pull_request_review' &&
+    eventAction !== 'dismissed' &&
+    !isBot(userType) &&
+    extractCommandLine(commentBody, config) !== null;
+
+  // Events that may make a queued auto-merge request (or the head of a merge queue) mergeable
+  // The merge label event is also a pull_request event, so it goes on to the handlers below
+  if ((AUTO_MERGE_EVENTS as readonly string[]).includes(eventName) && !isReviewCommand) {
+    const results = isMergeLabelEvent ? [await handleMergeLabelEvent(octokit, context, config)] : [];
+    results.push(await handleAutoMergeEvent(octokit, context, config));
+    if (config.mergeQueue) {
+      results.push(await handleMergeQueueEvent(octokit, context, config));
+    }
+    // A PR merged by anyone else runs its scheduled backports on the pull_request event
+    if (eventName === 'pull_request') {
+      results.push(await handleBackportEvent(octokit, context, config));
+    }
+    return pickSignificantResult(results, results.map((result) => result.message).join('; '));
+  }
+
+  // Validate event type - commands arrive via comment and review events, or a workflow_dispatch merge
+  // (whose `<command-prefix> merge <merge-flags>` line main.ts puts in the comment body)
+  const isDispatch = eventName === 'workflow_dispatch';
+  if (!isDispatch && !Object.hasOwn(COMMENT_KINDS, eventName)) {
+    return {
+      status: 'skipped',
+      message: 'This action only runs on issue_comment, review, workflow_dispatch, and auto-merge trigger events',
+    };
+  }
+
+  // Only new comments, submitted reviews, and edits carry commands (a deleted comment must not run its command again)
+  if (eventAction !== null && !(COMMAND_EVENT_ACTIONS as readonly string[]).includes(eventAction)) {
+    return { status: 'skipped', message: `Comment was ${eventAction}, skipping` };
   }
 
   // Check if this is a PR comment (not an issue comment)
@@ -90,397 +142,194 @@ export async function executeAction(
     return { status: 'skipped', message: 'Comment is from a bot' };
   }
 
-  // If comment does not look like a bot command, skip without reaction
-  if (!hasBotMention(commentBody)) {
+  // If no line of the comment looks like a bot command (outside quotes and code), skip without reaction
+  const commandLine = extractCommandLine(commentBody, config);
+  if (commandLine === null) {
     return { status: 'skipped', message: 'Command not matched' };
   }
 
-  await addReaction(octokit, owner, repo, commentId, 'eyes');
-
-  // Parse and validate the merge command; if invalid, reply with comment URL and skip
-  const mergeOptions = parseCommand(commentBody);
-  if (!mergeOptions) {
-    const base = serverUrl.replace(/\/+$/, '');
-    const commentUrl = new URL(`/${owner}/${repo}/pull/${prNumber}#issuecomment-${commentId}`, base).href;
-    await postComment(
-      octokit,
-      owner,
-      repo,
-      prNumber,
-      `## Unrecognized command\n\n> [!NOTE]\n> I'm nylbot. I couldn't recognize that command. If it was for me, please check the format.\n>\n> Comment: ${commentUrl}`,
-    );
-    return { status: 'skipped', message: 'Command not recognized' };
+  // Why: An edit (e.g. a typo fix) must not run the command again; only a command the edit added or changed runs
+  if (eventAction === 'edited') {
+    const previousCommandLine = previousCommentBody === null ? null : extractCommandLine(previousCommentBody, config);
+    if (previousCommentBody === null || previousCommandLine?.trimEnd() === commandLine.trimEnd()) {
+      return { status: 'skipped', message: 'Edit did not add a command' };
+    }
   }
 
-  // Check author association
-  if (!hasValidAuthorAssociation(authorAssociation)) {
-    await postComment(
-      octokit,
-      owner,
-      repo,
-      prNumber,
-      `## Permission denied\n\n> [!CAUTION]\n> Only repository owners, members, and collaborators can use the \`/nylbot merge\` command.\n>\n> Your association: \`${authorAssociation}\``,
-    );
-    return { status: 'failed', message: 'Invalid author association' };
+  // Reactions and replies go to the comment or review that carried the command (a dispatch has none to react to)
+  if (comment !== null) {
+    await addReaction(octokit, owner, repo, comment, 'eyes');
   }
 
-  // Check permission level
-  const permission = await getCollaboratorPermission(octokit, owner, repo, actor);
-  if (!hasValidPermission(permission)) {
-    await postComment(
+  // Parse and validate the command; if invalid, reply with comment URL (or run URL without a comment) and skip
+  const command = parseCommand(commandLine, config);
+  const base = serverUrl.replace(/\/+$/, '');
+  const runUrl = new URL(`/${owner}/${repo}/actions/runs/${runId}`, base).href;
+  const commentUrl =
+    comment === null
+      ? runUrl
+      : new URL(`/${owner}/${repo}/pull/${prNumber}#${COMMENT_URL_ANCHORS[comment.kind]}${comment.id}`, base).href;
+  if (!command) {
+    await postReply(
       octokit,
       owner,
       repo,
       prNumber,
-      `## Permission denied\n\n> [!CAUTION]\n> You need at least **write** permission on this repository to use the \`/nylbot merge\` command.\n>\n> Your association: \`${authorAssociation}\`\n> Your permission level: \`${permission}\``,
+      comment,
+      formatMessage(config.language, 'action.unrecognizedCommand', {
+        botName: config.botName,
+        commentUrl,
+        help: buildHelpMarkdown(config),
+      }),
     );
-    return { status: 'failed', message: 'Insufficient permissions' };
+    return { status: 'skipped', message: 'Command not recognized' };
   }
 
-  // -------------------------------------------------------------------------
-  // Step 2: Validate user permissions
-  // -------------------------------------------------------------------------
-
-  let prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
-
-  // Why: GITHUB_TOKEN has limited write permissions for fork PRs by default.
-  // Merge operations would fail, so we reject early with a clear message.
-  if (prData.isFork) {
-    await postComment(
+  // Known subcommand with invalid flags or arguments: name the problem instead of "unrecognized"
+  if ('error' in command) {
+    await postReply(
       octokit,
       owner,
       repo,
       prNumber,
-      '## Fork PR not supported\n\n> [!WARNING]\n> The `/nylbot merge` command is not supported for PRs from forked repositories.\n>\n> This is because the GITHUB_TOKEN has limited write permissions for fork-originated PRs by default.',
+      comment,
+      comment === null
+        ? formatMessage(config.language, 'action.invalidDispatch', {
+            error: command.error,
+            runUrl,
+            help: buildHelpMarkdown(config),
+          })
+        : formatMessage(config.language, 'action.invalidCommand', {
+            error: command.error,
+            commentUrl,
+            help: buildHelpMarkdown(config),
+          }),
     );
-    return { status: 'failed', message: 'Fork PR not supported' };
-  }
-
-  // Check if already merged
-  if (prData.merged) {
-    await postComment(octokit, owner, repo, prNumber, '## Already merged\n\nThis PR has already been merged.');
-    return { status: 'already_merged', message: 'PR already merged' };
+    return { status: 'skipped', message: `Invalid ${config.commandPrefix} ${command.subcommand} command` };
   }
 
   // -------------------------------------------------------------------------
-  // Step 3: Fetch and validate PR data
+  // Step 2: Validate user permissions
   // -------------------------------------------------------------------------
 
-  // PR state checks (open, unlocked, ready)
-  const prStateChecks = validatePRState(prData);
-
-  // Unresolved threads check
-  const unresolvedCount = await countUnresolvedThreads(octokit, owner, repo, prNumber);
-  const threadsCheck: CheckResult = {
-    name: 'All review conversations are resolved',
-    passed: unresolvedCount === 0,
-    ...(unresolvedCount > 0 && { details: `${unresolvedCount} unresolved` }),
-  };
-
-  // Approval check - fetch and validate reviews
-  const approvedReviews = await fetchApprovedReviews(octokit, owner, repo, prNumber);
-  let validApprovals = 0;
-  const dismissFailures: string[] = [];
-
-  // Cache permission lookups to avoid redundant API calls for the same reviewer
-  const permissionCache = new Map<string, string>();
-
-  for (const review of approvedReviews) {
-    // Skip self-approval
-    if (review.user?.login === prData.author) {
-      continue;
-    }
-
-    // Skip reviews from users without sufficient permissions
-    // Note: We check permission level via API instead of review.author_association
-    // because GitHub App tokens (GITHUB_TOKEN) may return 'NONE' for author_association
-    // even when the user has valid permissions. See: https://github.com/orgs/community/discussions/70568
-    const reviewerLogin = review.user?.login;
-    if (!reviewerLogin) {
-      // Skip reviews from deleted users or users without login
-      continue;
+  // Read-only commands (e.g. status, help) and commands with their own authorization (cancel)
+  // skip the write-permission gate
+  if (requiresWritePermission(command.name)) {
+    // Check author association (a dispatch has no comment author; the permission check below still applies)
+    if (!isDispatch && !hasValidAuthorAssociation(authorAssociation)) {
+      await postReply(
+        octokit,
+        owner,
+        repo,
+        prNumber,
+        comment,
+        formatMessage(config.language, 'action.permissionDeniedAssociation', {
+          command: `${config.commandPrefix} ${command.name}`,
+          association: authorAssociation,
+        }),
+      );
+      return { status: 'failed', message: 'Invalid author association' };
     }
 
-    // Check cache first to avoid redundant API calls
-    let reviewerPermission = permissionCache.get(reviewerLogin);
-    if (reviewerPermission === undefined) {
-      reviewerPermission = await getCollaboratorPermission(octokit, owner, repo, reviewerLogin);
-      permissionCache.set(reviewerLogin, reviewerPermission);
+    // Check permission level
+    const permission = await getCollaboratorPermission(octokit, owner, repo, actor);
+    if (!hasValidPermission(permission)) {
+      await postReply(
+        octokit,
+        owner,
+        repo,
+        prNumber,
+        comment,
+        formatMessage(config.language, 'action.permissionDeniedWrite', {
+          command: `${config.commandPrefix} ${command.name}`,
+          association: authorAssociation,
+          permission,
+        }),
+      );
+      return { status: 'failed', message: 'Insufficient permissions' };
     }
 
-    if (!hasValidPermission(reviewerPermission)) {
-      continue;
+    // Merge method override (--squash / --merge) requires a configurable, higher permission level
+    if (
+      command.name === 'merge' &&
+      command.options.methodOverride !== null &&
+      !hasPermissionAtLeast(permission, config.methodOverridePermission)
+    ) {
+      await postReply(
+        octokit,
+        owner,
+        repo,
+        prNumber,
+        comment,
+        formatMessage(config.language, 'action.permissionDeniedMethodOverride', {
+          requiredPermission: config.methodOverridePermission,
+          flag: `--${command.options.methodOverride}`,
+          command: `${config.commandPrefix} merge`,
+          permission,
+        }),
+      );
+      return { status: 'failed', message: 'Insufficient permissions for merge method override' };
     }
 
-    // Check if review is stale (not on current HEAD)
-    if (review.commit_id !== prData.headSha) {
-      const message = `Approval dismissed: New commits were pushed after this review was submitted (reviewed commit: ${review.commit_id?.slice(0, 7)}, current HEAD: ${prData.headSha.slice(0, 7)}).`;
-      const dismissed = await dismissReview(octokit, owner, repo, prNumber, review.id, message);
-      if (!dismissed) {
-        dismissFailures.push(
-          `- Failed to dismiss approval from @${review.user?.login} (insufficient permissions or branch protection settings)`,
-        );
-      }
-      continue;
+    // Rules from the authorization-policy input (e.g. "merge into main: maintain") add stricter requirements.
+    // auto-merge ends in a plain merge, so the merge rules apply to it as well.
+    const denial =
+      (await findDeniedRule(octokit, context, config.authorizationPolicy, command, permission)) ??
+      (command.name === 'auto-merge'
+        ? await findDeniedRule(
+            octokit,
+            context,
+            config.authorizationPolicy,
+            { name: 'merge', options: DEFAULT_MERGE_OPTIONS },
+            permission,
+          )
+        : null);
+    if (denial) {
+      const { messageKey, params, result } = describeDenial(denial, 'command', {
+        actor: context.actor,
+        permission,
+        command: `${config.commandPrefix} ${command.name}`,
+      });
+      await postReply(octokit, owner, repo, prNumber, comment, formatMessage(config.language, messageKey, params));
+      return result;
     }
-
-    validApprovals++;
-  }
-
-  // Post stale dismissal notification only when there are failures.
-  // Success notifications are skipped because GitHub's native "approval dismissed"
-  // notification already appears in the PR timeline when reviews are dismissed.
-  if (dismissFailures.length > 0) {
-    const staleComment = `## Stale approval dismiss failures\n\n> [!WARNING]\n> The following approvals could not be dismissed (consider enabling "Dismiss stale pull request approvals when new commits are pushed" in branch protection settings):\n>\n${dismissFailures.map((f) => `> ${f}`).join('\n')}`;
-    await postComment(octokit, owner, repo, prNumber, staleComment);
-  }
-
-  // Determine if approval requirement is overridden
-  const approvalCheckPassed = validApprovals >= 1;
-  const approvalOverridden = mergeOptions.overrideApprovalRequirement && !approvalCheckPassed;
-
-  // Log when approval requirement is overridden
-  if (approvalOverridden) {
-    core.info('Approval requirement overridden by command flag (--override-approval-requirement).');
-  }
-
-  // Build approval check result
-  let approvalDetails: string | undefined;
-  if (approvalCheckPassed) {
-    approvalDetails = undefined;
-  } else if (approvalOverridden) {
-    approvalDetails = 'approval requirement overridden by `--override-approval-requirement`; no valid approvals found';
-  } else {
-    approvalDetails = 'no valid approvals found';
-  }
-
-  const approvalCheck: CheckResult = {
-    name: 'At least one valid approval from another user',
-    passed: approvalCheckPassed,
-    ...(approvalDetails !== undefined && { details: approvalDetails }),
-    // Mark as optional when override flag is used, so it shows warning instead of failure
-    ...(approvalOverridden && { optional: true }),
-  };
-
-  // Mergeable-state check: this tool allows merge only when mergeable_state is 'clean'.
-  const mergeableStateIsClean = prData.mergeableState === 'clean';
-  const mergeableStateCheck: CheckResult = {
-    name: 'Mergeable state is clean',
-    passed: mergeableStateIsClean,
-    ...(!mergeableStateIsClean && { details: getMergeableStateDescription(prData.mergeableState) }),
-  };
-
-  // Optional: Conventional Commits check for PR title
-  const isConventionalTitle = isConventionalCommitTitle(prData.title);
-  const conventionalCommitsCheck: CheckResult = {
-    name: 'PR title follows [Conventional Commits](https://www.conventionalcommits.org/)',
-    passed: isConventionalTitle,
-    ...(!isConventionalTitle && { details: 'title does not follow conventional format' }),
-    optional: true,
-  };
-
-  // Determine merge method
-  const mergeMethodResult = determineMergeMethod(prData.headRef, prData.baseRef, config);
-
-  // Build checks array in the final order directly
-  const checks: CheckResult[] = [
-    ...prStateChecks,
-    threadsCheck,
-    approvalCheck,
-    mergeableStateCheck,
-    conventionalCommitsCheck,
-  ];
-
-  // Build results markdown
-  const checksMarkdown = buildCheckResultsMarkdown(checks);
-  // Only required (non-optional) checks must pass
-  const allPassed = checks.filter((c) => !c.optional).every((c) => c.passed);
-
-  // -------------------------------------------------------------------------
-  // Step 4: Report results and merge if all passed
-  // -------------------------------------------------------------------------
-
-  if (!allPassed) {
-    await postComment(
-      octokit,
-      owner,
-      repo,
-      prNumber,
-      `## Merge checks failed\n\nThe following checks must pass before merging:\n\n${checksMarkdown}\n\n### Merge Method\n\n- **Method:** \`${mergeMethodResult.method}\`\n- **Reason:** ${mergeMethodResult.reason}`,
-    );
-    return { status: 'failed', message: 'Merge checks failed' };
   }
 
-  // All checks passed - post status and proceed to merge
-  await postComment(
-    octokit,
-    owner,
-    repo,
-    prNumber,
-    `## Merge checks passed\n\nAll checks passed. Proceeding to merge...\n\n${checksMarkdown}\n\n### Merge Method\n\n- **Method:** \`${mergeMethodResult.method}\`\n- **Reason:** ${mergeMethodResult.reason}`,
-  );
-
   // -------------------------------------------------------------------------
-  // Step 5: TOCTOU check and merge
+  // Step 3: Dispatch to the subcommand handler
   // -------------------------------------------------------------------------
 
-  const originalHeadSha = prData.headSha;
-
-  // Re-fetch PR data for TOCTOU check
-  prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
-
-  if (prData.headSha !== originalHeadSha) {
-    await postComment(
-      octokit,
-      owner,
-      repo,
-      prNumber,
-      `## New commits detected\n\n> [!WARNING]\n> New commits were pushed while validating this PR.\n>\n> - Original HEAD SHA: ${originalHeadSha}\n> - Current HEAD SHA: ${prData.headSha}\n>\n> Please run \`/nylbot merge\` again after the new commits are reviewed and approved.`,
-    );
-    return { status: 'failed', message: 'TOCTOU violation' };
-  }
-
-  // Why: GitHub API returns mergeable=null while computing merge status asynchronously.
-  // This typically happens on first fetch after PR update. We retry to wait for computation.
-  let retries = 0;
-  while (prData.mergeable === null && retries < config.mergeableRetryCount) {
-    await waitBeforeRetryMs(config.mergeableRetryInterval * 1000);
-    prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
-    retries++;
-
-    // TOCTOU check during retry
-    if (prData.headSha !== originalHeadSha) {
-      await postComment(
+  switch (command.name) {
+    case 'merge':
+      // With the merge queue enabled, merges are serialized per base branch (dry runs change nothing)
+      return config.mergeQueue && !command.options.dryRun
+        ? enqueueMerge(octokit, context, config, command.options)
+        : handleMergeCommand(octokit, context, config, command.options);
+    case 'auto-merge':
+      return handleAutoMergeCommand(octokit, context, config);
+    case 'cancel':
+      return handleCancelCommand(octokit, context, config);
+    case 'update-branch':
+      return handleUpdateBranchCommand(octokit, context, config);
+    case 'title':
+      return handleTitleCommand(octokit, context, config, command.title);
+    case 'ready':
+      return handleReadyCommand(octokit, context, config);
+    case 'backport':
+      return handleBackportCommand(octokit, context, config, command.targets);
+    case 'status':
+      return handleStatusCommand(octokit, context, config);
+    case 'help':
+      await postReply(
         octokit,
         owner,
         repo,
         prNumber,
-        `## New commits detected\n\n> [!WARNING]\n> New commits were pushed while validating this PR (after waiting for mergeable status).\n>\n> - Original HEAD SHA: ${originalHeadSha}\n> - Current HEAD SHA: ${prData.headSha}\n>\n> Please run \`/nylbot merge\` again after the new commits are reviewed and approved.`,
+        comment,
+        formatMessage(config.language, 'action.help', { botName: config.botName, help: buildHelpMarkdown(config) }),
       );
-      return { status: 'failed', message: 'TOCTOU violation during retry' };
-    }
-  }
-
-  // Check final mergeability
-  // Final mergeability gate to prevent TOCTOU issues, revalidating both mergeable flag and mergeableState
-  if (prData.mergeable === false || prData.mergeable === null || prData.mergeableState !== 'clean') {
-    let errorComment: string;
-    if (prData.mergeable === null) {
-      errorComment = `## Mergeability status pending\n\n> [!NOTE]\n> GitHub is still calculating mergeability for this PR.\n>\n> - Mergeable: \`null\`\n> - Mergeable State: \`${prData.mergeableState}\`\n> - Retries: count=${config.mergeableRetryCount}, interval=${config.mergeableRetryInterval}s\n>\n> Please try \`/nylbot merge\` again shortly.`;
-    } else if (prData.mergeableState === 'dirty') {
-      errorComment = `## Conflicts detected\n\n> [!CAUTION]\n> This PR has merge conflicts that must be resolved before merging.\n>\n> - Mergeable: \`${prData.mergeable}\`\n> - Mergeable State: \`${prData.mergeableState}\`\n>\n> Please resolve the conflicts and try again.`;
-    } else {
-      errorComment = `## Cannot merge\n\n> [!CAUTION]\n> This PR cannot be merged:\n>\n> - Mergeable: \`${prData.mergeable}\`\n> - Mergeable State: \`${prData.mergeableState}\`\n>\n> Please resolve any conflicts or issues before attempting to merge.`;
-    }
-    await postComment(octokit, owner, repo, prNumber, errorComment);
-    return { status: 'failed', message: 'Not mergeable' };
-  }
-
-  // Perform merge
-  // Build explicit commit title and message according to nylbot-merge specification
-  let commitTitle: string;
-  let commitBody: string;
-
-  // Build additional metadata that goes in the commit body
-  let additionalMessages = `Merged-by: nylbot-merge (on behalf of @${actor})`;
-  if (approvalOverridden) {
-    additionalMessages += `\n\n⚠️ EXCEPTIONAL MERGE: Approval requirement overridden via --override-approval-requirement`;
-  }
-
-  if (mergeMethodResult.method === 'merge') {
-    // For merge commits:
-    // Title: Merge pull request #{PR_NUMBER} from {PR_MERGE_HEAD}
-    // Body: {PR_TITLE}\n\n{ADDITIONAL_MESSAGES}
-    commitTitle = `Merge pull request #${prNumber} from ${prData.headRef}`;
-    commitBody = `${prData.title}\n\n${additionalMessages}`;
-  } else {
-    // For squash commits:
-    // Title: {PR_TITLE} (#{PR_NUMBER})
-    // Body: * {COMMIT_TITLE_01}\n* {COMMIT_TITLE_02}\n...\n\nCo-authored-by: ...\n\n{ADDITIONAL_MESSAGES}
-    commitTitle = `${prData.title} (#${prNumber})`;
-
-    // Fetch commits to list their titles and collect co-authors
-    const commits = await fetchPullRequestCommits(octokit, owner, repo, prNumber);
-    const commitTitles = commits
-      .map((c) => {
-        // Extract first line of commit message (commit title)
-        const message = c.commit.message || '';
-        const firstLine = message.split('\n')[0];
-        return firstLine ? `* ${firstLine}` : '';
-      })
-      .filter((title) => title !== ''); // Filter out empty entries
-
-    // Collect unique co-authors from commits in order
-    // Use array to preserve commit order (older ancestor -> recent ancestor)
-    const coAuthors: string[] = [];
-    commits.forEach((c) => {
-      const author = c.commit.author;
-      if (author?.name && author?.email) {
-        // Create unique key for author
-        const authorLine = `Co-authored-by: ${author.name} <${author.email}>`;
-        if (!coAuthors.includes(authorLine)) {
-          coAuthors.push(authorLine);
-        }
-      }
-    });
-
-    // Build commit body with commit titles, co-authors, and additional messages
-    const bodyParts: string[] = [];
-
-    if (commitTitles.length > 0) {
-      bodyParts.push(commitTitles.join('\n'));
-    }
-
-    if (coAuthors.length > 0) {
-      bodyParts.push(coAuthors.join('\n'));
-    }
-
-    bodyParts.push(additionalMessages);
-
-    commitBody = bodyParts.join('\n\n');
+      return { status: 'skipped', message: 'Help posted' };
   }
-
-  const mergeResult = await mergePullRequest(
-    octokit,
-    owner,
-    repo,
-    prNumber,
-    mergeMethodResult.method,
-    originalHeadSha,
-    commitTitle,
-    commitBody,
-  );
-
-  if (!mergeResult.success) {
-    await postComment(
-      octokit,
-      owner,
-      repo,
-      prNumber,
-      `## Merge failed\n\n> [!CAUTION]\n> Failed to merge PR:\n>\n> - Error: ${mergeResult.error}\n>\n> Please check the PR status and try again.`,
-    );
-    return { status: 'failed', message: `Merge failed: ${mergeResult.error}` };
-  }
-
-  // Post success comment with commit SHAs (GitHub auto-links them)
-  let mergeCommitInfo = '';
-  if (mergeResult.mergeCommitSha) {
-    mergeCommitInfo = `\n- **Merge Commit SHA:** ${mergeResult.mergeCommitSha}`;
-  }
-
-  await postComment(
-    octokit,
-    owner,
-    repo,
-    prNumber,
-    `## Merged by nylbot-merge\n\nThis PR has been successfully merged.\n\n### Details\n\n- **Merge Method:** \`${mergeMethodResult.method}\`\n- **Base Branch:** \`${prData.baseRef}\`\n- **Head Branch:** \`${prData.headRef}\`\n- **HEAD SHA:** ${originalHeadSha}${mergeCommitInfo}`,
-  );
-
-  return {
-    status: 'merged',
-    message: 'PR merged successfully',
-    mergeMethod: mergeMethodResult.method,
-  };
 }
 
 /**
@@ -488,14 +337,21 @@ export async function executeAction(
  *
  * This is a pure function that can be tested without GitHub Actions environment.
  *
+ * @param botName - Bot name shown in the heading
  * @param result - Result status emoji and message
  * @param prNumber - PR number
  * @param actor - User who triggered the action
  * @param mergeMethod - Optional merge method used
  * @returns Markdown string for the summary
  */
-export function buildSummaryMarkdown(result: string, prNumber: number, actor: string, mergeMethod?: string): string {
-  let summary = `## nylbot-merge Summary\n\n`;
+export function buildSummaryMarkdown(
+  botName: string,
+  result: string,
+  prNumber: number,
+  actor: string,
+  mergeMethod?: string,
+): string {
+  let summary = `## ${botName}-merge Summary\n\n`;
   summary += `| Item | Value |\n`;
   summary += `|------|-------|\n`;
   summary += `| **Result** | ${result} |\n`;
@@ -0,0 +1,277 @@
+/**
+ * authorization.ts - Configurable authorization policy for commands
+ *
+ * The default policy is fixed: commands that change the PR need a trusted author
+ * association and write permission, and merge method flags need
+ * `method-override-permission`. The `authorization-policy` input adds rules on top of
+ * it, one per line. A rule requires a permission level or membership of an organization team:
+ *
+ *   merge into main: maintain
+ *   merge --override-approval-requirement: admin
+ *   merge into release/*: @acme/release-managers
+ *
+ * Every rule that matches the command, one of its flags, and the PR base branch must
+ * pass, so rules can only make the policy stricter.
+ */
+
+import { COMMANDS, VALID_PERMISSIONS } from './constants.js';
+import { fetchPullRequestData, isTeamMember } from './github-api.js';
+import type { MessageKey } from './messages.js';
+import type {
+  ActionResult,
+  AuthorizationDenial,
+  AuthorizationRule,
+  EventContext,
+  Octokit,
+  ParsedCommand,
+} from './types.js';
+import { hasPermissionAtLeast, hasValidPermission } from './validation.js';
+
+/**
+ * `<command> [<flag>] [into <branch>]: <permission or @org/team>`
+ */
+const RULE_REGEX = /^([a-z-]+)(?:\s+(--[a-z-]+))?(?:\s+into\s+(\S+))?\s*:\s*(\S+)$/;
+
+/**
+ * `@<org>/<team-slug>` requirement of a team rule
+ */
+const TEAM_REGEX = /^@([\w-]+)\/([\w.-]+)$/;
+
+/**
+ * Parses the `authorization-policy` input into rules.
+ * Blank lines and lines starting with `#` are ignored.
+ *
+ * @param input - Value of the `authorization-policy` input (one rule per line)
+ * @returns Parsed rules in input order
+ * @throws Error naming the offending rule if a line is not a valid rule
+ *
+ * @example
+ * parseAuthorizationPolicy('merge into main: maintain')
+ *   // [{ source: 'merge into main: maintain', command: 'merge', flag: null, baseBranch: 'main', permission: 'maintain', team: null }]
+ */
+export function parseAuthorizationPolicy(input: string): AuthorizationRule[] {
+  const rules: AuthorizationRule[] = [];
+  for (const line of input.split('\n')) {
+    const source = line.trim();
+    if (source === '' || source.startsWith('#')) {
+      continue;
+    }
+
+    const match = RULE_REGEX.exec(source);
+    if (!match) {
+      throw new Error(
+        `Invalid authorization-policy rule: "${source}". Must be "<command> [<flag>] [into <branch>]: <permission or @org/team>" (e.g. "merge into main: maintain").`,
+      );
+    }
+    const [, command = '', flag, baseBranch, requirement = ''] = match;
+
+    // Only commands behind the write-permission gate are authorized by the policy
+    const definition = COMMANDS.find((candidate) => candidate.name === command && candidate.requiresWritePermission);
+    if (!definition) {
+      const commands = COMMANDS.filter((candidate) => candidate.requiresWritePermission).map(({ name }) => name);
+      throw new Error(
+        `Invalid authorization-policy rule: "${source}". The command must be one of: ${commands.join(', ')}.`,
+      );
+    }
+    if (flag !== undefined && !definition.flags.some((candidate) => candidate.name === flag)) {
+      throw new Error(`Invalid authorization-policy rule: "${source}". \`${command}\` has no ${flag} flag.`);
+    }
+    const team = TEAM_REGEX.exec(requirement);
+    if (!team && !hasValidPermission(requirement)) {
+      throw new Error(
+        `Invalid authorization-policy rule: "${source}". The requirement must be a team (@org/team-slug) or one of: ${VALID_PERMISSIONS.join(', ')}.`,
+      );
+    }
+
+    rules.push({
+      source,
+      command,
+      flag: flag ?? null,
+      baseBranch: baseBranch ?? null,
+      permission: team ? null : requirement,
+      team: team ? { org: team[1] ?? '', slug: team[2] ?? '' } : null,
+    });
+  }
+  return rules;
+}
+
+/**
+ * Lists the flags used in a parsed command, as they appear in the registry.
+ *
+ * @param command - Parsed command
+ * @returns Flag names (e.g. ["--squash", "--dry-run"])
+ */
+function usedFlags(command: ParsedCommand): string[] {
+  if (command.name !== 'merge') {
+    return [];
+  }
+  const { options } = command;
+  const flags: Record<string, boolean> = {
+    '--override-approval-requirement': options.overrideApprovalRequirement,
+    '--reason': options.overrideReason !== null,
+    '--squash': options.methodOverride === 'squash',
+    '--merge': options.methodOverride === 'merge',
+    '--rebase': options.methodOverride === 'rebase',
+    '--title': options.commitTitle !== null,
+    '--message': options.commitMessage !== null,
+    '--sha': options.expectedHeadSha !== null,
+    '--update-if-behind': options.updateIfBehind,
+    '--ready': options.ready,
+    '--dry-run': options.dryRun,
+  };
+  return Object.keys(flags).filter((flag) => flags[flag]);
+}
+
+/**
+ * Checks whether a branch matches a rule's base branch pattern (`*` matches any characters, including `/`).
+ *
+ * @param branch - Base branch of the PR
+ * @param pattern - Base branch pattern of the rule
+ * @returns true if the branch matches
+ */
+function matchesBranchPattern(branch: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(branch);
+}
+
+/**
+ * Finds the first policy rule that the actor does not satisfy for a command.
+ * The PR is only fetched when a matching rule is limited to base branches, and each
+ * team's membership is read at most once.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions (actor is the user being authorized)
+ * @param policy - Rules from the `authorization-policy` input
+ * @param command - Parsed command being authorized
+ * @param permission - Actor's permission level on the repository
+ * @returns The rule that denies the command (with the error when a team could not be read),
+ *   or null if every matching rule passes
+ */
+export async function findDeniedRule(
+  octokit: Octokit,
+  context: EventContext,
+  policy: AuthorizationRule[],
+  command: ParsedCommand,
+  permission: string,
+): Promise<AuthorizationDenial | null> {
+  const flags = usedFlags(command);
+  const rules = policy.filter(
+    (rule) => rule.command === command.name && (rule.flag === null || flags.includes(rule.flag)),
+  );
+
+  let baseRef: string | null = null;
+  for (const rule of rules) {
+    if (rule.baseBranch !== null) {
+      baseRef ??= (await fetchPullRequestData(octokit, context.owner, context.repo, context.prNumber)).baseRef;
+      if (!matchesBranchPattern(baseRef, rule.baseBranch)) {
+        continue;
+      }
+    }
+
+    if (rule.team === null) {
+      if (!hasPermissionAtLeast(permission, rule.permission ?? '')) {
+        return { rule, error: null };
+      }
+      continue;
+    }
+
+    const { org, slug } = rule.team;
+    let isMember: boolean;
+    try {
+      // Read once per run, even when several rules or the CODEOWNERS check name the team
+      isMember = await isTeamMember(octokit, org, slug, context.actor);
+    } catch (error) {
+      return { rule, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+    if (!isMember) {
+      return { rule, error: null };
+    }
+  }
+  return null;
+}
+
+/**
+ * Message keys for a denied command, permission rule, or team rule, by where the policy is checked.
+ */
+const DENIAL_MESSAGES = {
+  command: {
+    permission: 'action.permissionDeniedPolicy',
+    team: 'action.permissionDeniedTeam',
+    teamUnreadable: 'action.teamMembershipUnreadable',
+  },
+  autoMerge: {
+    permission: 'autoMerge.cancelledPolicy',
+    team: 'autoMerge.cancelledPolicy',
+    teamUnreadable: 'autoMerge.cancelledTeamUnreadable',
+  },
+  mergeQueue: {
+    permission: 'mergeQueue.policyDenied',
+    team: 'mergeQueue.policyDenied',
+    teamUnreadable: 'mergeQueue.teamMembershipUnreadable',
+  },
+  mergeLabel: {
+    permission: 'mergeLabel.policyDenied',
+    team: 'mergeLabel.teamDenied',
+    teamUnreadable: 'mergeLabel.teamMembershipUnreadable',
+  },
+} as const satisfies Record<string, Record<'permission' | 'team' | 'teamUnreadable', MessageKey>>;
+
+/**
+ * Comment and result describing a policy denial (see describeDenial).
+ */
+interface DenialDescription {
+  /** Key of the comment for the kind of denial and where the policy was checked */
+  messageKey: (typeof DENIAL_MESSAGES)[keyof typeof DENIAL_MESSAGES][keyof (typeof DENIAL_MESSAGES)['command']];
+  /** Parameters of every denial comment (each message uses some of them) */
+  params: Record<
+    'actor' | 'permission' | 'command' | 'label' | 'rule' | 'requiredPermission' | 'team' | 'error',
+    string
+  >;
+  /** Failed result of the run */
+  result: ActionResult;
+}
+
+/**
+ * Describes a policy denial: the comment to post and the result of the run.
+ *
+ * @param denial - Denial returned by findDeniedRule
+ * @param where - Where the policy was checked, which selects the wording of the comment
+ * @param details - Actor and their permission level, plus the command or label when there is one
+ * @returns Message key and parameters of the comment, and the failed result
+ *
+ * @example
+ * const { messageKey, params, result } = describeDenial(denial, 'mergeLabel', { actor, permission, label });
+ * await postComment(octokit, owner, repo, prNumber, formatMessage(config.language, messageKey, params));
+ */
+export function describeDenial(
+  denial: AuthorizationDenial,
+  where: keyof typeof DENIAL_MESSAGES,
+  details: { actor: string; permission: string; command?: string; label?: string },
+): DenialDescription {
+  const { rule, error } = denial;
+  const team = rule.team ? `${rule.team.org}/${rule.team.slug}` : '';
+  const messages = DENIAL_MESSAGES[where];
+  return {
+    messageKey: error !== null ? messages.teamUnreadable : rule.team ? messages.team : messages.permission,
+    params: {
+      actor: details.actor,
+      permission: details.permission,
+      command: details.command ?? '',
+      label: details.label ?? '',
+      rule: rule.source,
+      requiredPermission: rule.permission ?? '',
+      team,
+      error: error ?? '',
+    },
+    result: {
+      status: 'failed',
+      message:
+        error === null
+          ? `Denied by authorization policy rule "${rule.source}"`
+          : `Could not read the members of @${team}: ${error}`,
+    },
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * auto-merge-command.ts - Handler for the `/nylbot auto-merge` command
+ *
+ * Merges immediately when every check already passes. Otherwise records an
+ * auto-merge request (see auto-merge.ts) that later events pick up.
+ */
+
+import { findAutoMergeRequest, recordAutoMergeRequest, clearAutoMergeRequest } from './auto-merge.js';
+import { DEFAULT_MERGE_OPTIONS } from './constants.js';
+import { postReply, fetchPullRequestData } from './github-api.js';
+import { evaluateMergeChecks } from './merge-checks.js';
+import { handleMergeCommand } from './merge-command.js';
+import { enqueueMerge } from './merge-queue.js';
+import { formatMessage } from './messages.js';
+import type { ActionConfig, ActionResult, EventContext, Octokit } from './types.js';
+import { buildCheckResultsMarkdown, buildMergeMethodMarkdown } from './validation.js';
+
+/**
+ * Handles the `/nylbot auto-merge` command after the command actor has been authorized.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options
+ * @returns Result of the operation
+ */
+export async function handleAutoMergeCommand(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+): Promise<ActionResult> {
+  const { owner, repo, prNumber, actor, comment } = context;
+
+  const prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+
+  // Why: Same restriction as /nylbot merge; the eventual merge would fail for fork PRs.
+  if (prData.isFork) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'common.forkNotSupported', { command: `${config.commandPrefix} auto-merge` }),
+    );
+    return { status: 'failed', message: 'Fork PR not supported' };
+  }
+
+  if (prData.merged) {
+    await postReply(octokit, owner, repo, prNumber, comment, formatMessage(config.language, 'common.alreadyMerged'));
+    return { status: 'already_merged', message: 'PR already merged' };
+  }
+
+  // A new request replaces any earlier one
+  const existing = await findAutoMergeRequest(octokit, owner, repo, prNumber);
+  if (existing) {
+    await clearAutoMergeRequest(octokit, owner, repo, prNumber, config, existing);
+  }
+
+  const evaluation = await evaluateMergeChecks(octokit, owner, repo, prNumber, prData, config, {
+    overrideApprovalRequirement: false,
+    dismissStaleReviews: false,
+    submittedReview: context.review,
+  });
+
+  // Nothing to wait for: merge right away (through the merge queue when it is enabled)
+  if (evaluation.allPassed) {
+    return config.mergeQueue
+      ? enqueueMerge(octokit, context, config, DEFAULT_MERGE_OPTIONS)
+      : handleMergeCommand(octokit, context, config, DEFAULT_MERGE_OPTIONS);
+  }
+
+  await recordAutoMergeRequest(
+    octokit,
+    owner,
+    repo,
+    prNumber,
+    config,
+    { actor, headSha: prData.headSha },
+    formatMessage(config.language, 'autoMerge.enabled', {
+      actor,
+      checks: buildCheckResultsMarkdown(evaluation.checks),
+      mergeMethod: buildMergeMethodMarkdown(evaluation.mergeMethodResult, config),
+      headSha: prData.headSha,
+    }),
+  );
+
+  return { status: 'skipped', message: 'Auto-merge enabled' };
+}
@@ -0,0 +1,265 @@
+/**
+ * auto-merge.ts - Pending auto-merge request state and event processing
+ *
+ * A `/nylbot auto-merge` request is recorded on the PR as a label (config.autoMergeLabel)
+ * plus a hidden marker in nylbot's own comment holding the requesting actor and HEAD SHA.
+ * The label makes queued PRs easy to find and see; the marker is the trusted record,
+ * since only nylbot's own comments are read (see markers.ts).
+ *
+ * Later check_suite / status / pull_request / pull_request_review events re-run the
+ * merge checks for queued PRs and merge them once everything passes.
+ */
+
+import { describeDenial, findDeniedRule } from './authorization.js';
+import { fetchEquivalentHeadShas } from './branch-update.js';
+import { AUTO_MERGE_MARKER_KIND, DEFAULT_MERGE_OPTIONS } from './constants.js';
+import {
+  postComment,
+  updateComment,
+  fetchAuthenticatedLogin,
+  fetchIssueComments,
+  addLabel,
+  removeLabel,
+  listOpenPullRequestNumbersWithLabel,
+  fetchPullRequestData,
+  getCollaboratorPermission,
+} from './github-api.js';
+import { buildMarker, findLatestMarker, stripMarker } from './markers.js';
+import { evaluateMergeChecks } from './merge-checks.js';
+import { handleMergeCommand } from './merge-command.js';
+import { enqueueMerge } from './merge-queue.js';
+import { formatMessage } from './messages.js';
+import type { ActionConfig, ActionResult, AutoMergeRequest, EventContext, Octokit } from './types.js';
+import { hasValidPermission, pickSignificantResult } from './validation.js';
+
+/**
+ * Finds the pending auto-merge request on a PR.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @returns The pending request, or null if there is none
+ */
+export async function findAutoMergeRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+): Promise<AutoMergeRequest | null> {
+  const comments = await fetchIssueComments(octokit, owner, repo, prNumber);
+  const botLogin = await fetchAuthenticatedLogin(octokit);
+  const marker = findLatestMarker(comments, AUTO_MERGE_MARKER_KIND, botLogin);
+  if (!marker) {
+    return null;
+  }
+  const { actor, headSha } = marker.data;
+  if (typeof actor !== 'string' || typeof headSha !== 'string') {
+    return null;
+  }
+  return { commentId: marker.commentId, commentBody: marker.body, actor, headSha };
+}
+
+/**
+ * Records an auto-merge request by posting a comment with the marker and adding the label.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @param config - Configuration options
+ * @param request - Requesting actor and HEAD SHA at request time
+ * @param commentText - Visible comment text to post with the marker
+ */
+export async function recordAutoMergeRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  config: ActionConfig,
+  request: Pick<AutoMergeRequest, 'actor' | 'headSha'>,
+  commentText: string,
+): Promise<void> {
+  const marker = buildMarker(AUTO_MERGE_MARKER_KIND, { actor: request.actor, headSha: request.headSha });
+  await postComment(octokit, owner, repo, prNumber, `${commentText}\n\n${marker}`);
+  await addLabel(octokit, owner, repo, prNumber, config.autoMergeLabel);
+}
+
+/**
+ * Clears an auto-merge request by removing the label and stripping the marker.
+ * The visible comment text is kept so the PR history still shows the request.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @param config - Configuration options
+ * @param request - Request to clear
+ */
+export async function clearAutoMergeRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  config: ActionConfig,
+  request: AutoMergeRequest,
+): Promise<void> {
+  await removeLabel(octokit, owner, repo, prNumber, config.autoMergeLabel);
+  await updateComment(
+    octokit,
+    owner,
+    repo,
+    request.commentId,
+    stripMarker(request.commentBody, AUTO_MERGE_MARKER_KIND),
+  );
+}
+
+/**
+ * Re-evaluates one queued PR and merges it when every check passes.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options
+ * @param prNumber - PR number of the queued PR
+ * @returns Result of the operation for this PR
+ */
+async function processAutoMergeCandidate(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+  prNumber: number,
+): Promise<ActionResult> {
+  const { owner, repo, eventSha } = context;
+
+  const prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+
+  // check_suite / status events only concern PRs whose HEAD is the event's commit
+  if (eventSha !== null && prData.headSha !== eventSha) {
+    return { status: 'skipped', message: 'Event is for a different commit' };
+  }
+
+  const request = await findAutoMergeRequest(octokit, owner, repo, prNumber);
+  if (!request) {
+    return { status: 'skipped', message: 'No auto-merge request' };
+  }
+
+  if (prData.merged) {
+    await clearAutoMergeRequest(octokit, owner, repo, prNumber, config, request);
+    return { status: 'already_merged', message: 'PR already merged' };
+  }
+
+  // Why: Approvals and checks were evaluated for the requested HEAD. New commits must be
+  // reviewed again, so the request is invalidated rather than carried over.
+  // nylbot's own branch update commits are not new commits (see branch-update.ts).
+  if (
+    prData.headSha !== request.headSha &&
+    !(await fetchEquivalentHeadShas(octokit, owner, repo, prNumber, prData.headSha)).includes(request.headSha)
+  ) {
+    await clearAutoMergeRequest(octokit, owner, repo, prNumber, config, request);
+    await postComment(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      formatMessage(config.language, 'autoMerge.cancelledNewCommits', {
+        actor: request.actor,
+        requestedSha: request.headSha,
+        headSha: prData.headSha,
+        command: `${config.commandPrefix} auto-merge`,
+      }),
+    );
+    return { status: 'skipped', message: 'Auto-merge request invalidated by new commits' };
+  }
+
+  // Why: The requester was authorized when the request was made, but access may have
+  // been revoked while the PR was queued.
+  const permission = await getCollaboratorPermission(octokit, owner, repo, request.actor);
+  if (!hasValidPermission(permission)) {
+    await clearAutoMergeRequest(octokit, owner, repo, prNumber, config, request);
+    await postComment(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      formatMessage(config.language, 'autoMerge.cancelledPermission', { actor: request.actor, permission }),
+    );
+    return { status: 'failed', message: 'Auto-merge requester lost permission' };
+  }
+
+  // The merge rules of the authorization policy were checked at request time; the policy,
+  // the requester's permission, or team membership may have changed since.
+  // The deferred merge answers no command, so its comments go to the PR conversation.
+  const mergeContext = { ...context, prNumber, actor: request.actor, comment: null };
+  const denial = await findDeniedRule(
+    octokit,
+    mergeContext,
+    config.authorizationPolicy,
+    { name: 'merge', options: DEFAULT_MERGE_OPTIONS },
+    permission,
+  );
+  if (denial) {
+    const { messageKey, params, result } = describeDenial(denial, 'autoMerge', { actor: request.actor, permission });
+    await clearAutoMergeRequest(octokit, owner, repo, prNumber, config, request);
+    await postComment(octokit, owner, repo, prNumber, formatMessage(config.language, messageKey, params));
+    return result;
+  }
+
+  // Evaluate silently; comments are only posted once the merge is attempted
+  const evaluation = await evaluateMergeChecks(octokit, owner, repo, prNumber, prData, config, {
+    overrideApprovalRequirement: false,
+    dismissStaleReviews: false,
+    submittedReview: context.review,
+  });
+  if (!evaluation.allPassed) {
+    return { status: 'skipped', message: 'Auto-merge pending: merge checks not yet passing' };
+  }
+
+  // With the merge queue enabled, the PR is handed over to the queue of its base branch
+  const result = config.mergeQueue
+    ? await enqueueMerge(octokit, mergeContext, config, DEFAULT_MERGE_OPTIONS)
+    : await handleMergeCommand(octokit, mergeContext, config, DEFAULT_MERGE_OPTIONS);
+
+  // Why: Clear after any attempt. A failed merge already posted its reason, and keeping the
+  // request would repeat the same failure comment on every subsequent event.
+  await clearAutoMergeRequest(octokit, owner, repo, prNumber, config, request);
+  if (result.status === 'failed') {
+    await postComment(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      formatMessage(config.language, 'autoMerge.cancelledFailure', { command: `${config.commandPrefix} auto-merge` }),
+    );
+  }
+  return result;
+}
+
+/**
+ * Handles events that may make queued auto-merge requests mergeable.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options
+ * @returns Result of the operation (the merge result if any PR was merged)
+ */
+export async function handleAutoMergeEvent(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+): Promise<ActionResult> {
+  const { owner, repo, prNumber, eventSha } = context;
+
+  const queued = await listOpenPullRequestNumbersWithLabel(octokit, owner, repo, config.autoMergeLabel);
+  // PR events concern a single PR; commit events (eventSha set) may concern any queued PR
+  const candidates = eventSha === null ? queued.filter((n) => n === prNumber) : queued;
+  if (candidates.length === 0) {
+    return { status: 'skipped', message: 'No queued auto-merge requests for this event' };
+  }
+
+  const results: ActionResult[] = [];
+  for (const candidate of candidates) {
+    results.push(await processAutoMergeCandidate(octokit, context, config, candidate));
+  }
+
+  return pickSignificantResult(results, `No auto-merge performed for ${results.length} queued PRs`);
+}
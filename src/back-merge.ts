@@ -0,0 +1,60 @@
+/**
+ * back-merge.ts - Back-merge PRs after a release branch is merged
+ *
+ * In git-flow, a release branch merged into main must also be merged back into develop.
+ * With `back-merge` enabled, nylbot creates a sync branch from the merge commit and opens
+ * the back-merge PR into develop right after the release merge. The merge method rules
+ * already merge sync branches with a merge commit (see determineMergeMethod).
+ */
+
+import { fetchBranchSha, createBranch, deleteBranch, createPullRequest } from './github-api.js';
+import type { ActionConfig, BackMergePlan, BackMergeResult, Octokit, PullRequestData } from './types.js';
+
+/**
+ * Creates the sync branch from the release merge commit and opens the back-merge PR into develop.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - Number of the merged release PR
+ * @param prData - Data of the merged release PR
+ * @param plan - Sync branch and title from determineBackMerge
+ * @param mergeCommitSha - Commit created by the release merge
+ * @param config - Configuration options (develop branch)
+ * @returns The back-merge PR number, or the reason it was not opened
+ */
+export async function openBackMergePullRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  prData: PullRequestData,
+  plan: BackMergePlan,
+  mergeCommitSha: string,
+  config: ActionConfig,
+): Promise<BackMergeResult> {
+  const { branch, title } = plan;
+
+  // Why: An existing branch may hold someone's manual back-merge work, so it is never overwritten
+  if ((await fetchBranchSha(octokit, owner, repo, branch)) !== null) {
+    return { branch, error: `branch \`${branch}\` already exists` };
+  }
+
+  let branchCreated = false;
+  try {
+    await createBranch(octokit, owner, repo, branch, mergeCommitSha);
+    branchCreated = true;
+    const pullRequestNumber = await createPullRequest(octokit, owner, repo, {
+      title,
+      body: `Back-merge of \`${prData.headRef}\` into \`${config.developBranch}\` after #${prNumber} merged it into \`${prData.baseRef}\`.\n\nThe sync branch starts at the release merge commit ${mergeCommitSha}.`,
+      head: branch,
+      base: config.developBranch,
+    });
+    return { branch, pullRequestNumber };
+  } catch (error) {
+    if (branchCreated) {
+      await deleteBranch(octokit, owner, repo, branch);
+    }
+    return { branch, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * backport-command.ts - Handler for the `/nylbot backport <branch>...` command
+ *
+ * On a merged PR, the backport runs right away. On an open PR, it is scheduled and
+ * runs once the PR is merged (see backport.ts).
+ */
+
+import {
+  backportPullRequest,
+  findInvalidBackportTargets,
+  findMissingBackportTargets,
+  scheduleBackport,
+} from './backport.js';
+import { postReply, fetchPullRequestData } from './github-api.js';
+import { formatMessage } from './messages.js';
+import type { ActionConfig, ActionResult, EventContext, Octokit } from './types.js';
+
+/**
+ * Handles the `/nylbot backport` command after the command actor has been authorized.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options
+ * @param targets - Target branches from the command
+ * @returns Result of the operation
+ */
+export async function handleBackportCommand(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+  targets: string[],
+): Promise<ActionResult> {
+  const { owner, repo, prNumber, actor, comment } = context;
+
+  const prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+  const listSeparator = formatMessage(config.language, 'common.listSeparator');
+
+  const invalid = findInvalidBackportTargets(targets, prData.baseRef, config);
+  if (invalid.length > 0) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'backport.invalidTarget', {
+        releaseBranchPrefix: config.releaseBranchPrefix,
+        targets: invalid.map((target) => `\`${target}\``).join(listSeparator),
+      }),
+    );
+    return { status: 'failed', message: 'Invalid backport target' };
+  }
+
+  const missing = await findMissingBackportTargets(octokit, owner, repo, targets);
+  if (missing.length > 0) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'backport.targetNotFound', {
+        targets: missing.map((target) => `\`${target}\``).join(listSeparator),
+      }),
+    );
+    return { status: 'failed', message: 'Backport target not found' };
+  }
+
+  if (prData.merged) {
+    return backportPullRequest(octokit, context, prNumber, prData, targets, actor, config);
+  }
+
+  if (prData.state !== 'open') {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'backport.closedWithoutMerge'),
+    );
+    return { status: 'failed', message: 'PR is not open' };
+  }
+
+  await scheduleBackport(octokit, owner, repo, prNumber, actor, targets, config);
+  return { status: 'skipped', message: 'Backport scheduled' };
+}
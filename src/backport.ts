@@ -0,0 +1,524 @@
+/**
+ * backport.ts - Backporting merged PRs onto release branches
+ *
+ * A backport replays the changes of a merged PR onto a release branch and opens a PR
+ * with the result. There is no local clone, so the cherry-pick is built from the Git
+ * Data API (trees / commits / refs) plus the server-side merges API:
+ *
+ * 1. Create a temporary commit with the target branch's tree on top of the commit the
+ *    PR changes were made against (the change base)
+ * 2. Merge the PR's merge commit into it; the resulting tree is the target branch with
+ *    the PR changes applied (a three-way merge, the same as `git cherry-pick`)
+ * 3. Commit that tree on top of the target branch and open the backport PR
+ *
+ * Backports requested before the merge are recorded as a marker in a bot comment
+ * (see markers.ts) and run once the PR is merged, either right after nylbot merges it
+ * (merge-command.ts) or on the pull_request event of a merge made by anyone else.
+ */
+
+import { BACKPORT_BRANCH_PREFIX, BACKPORT_MARKER_KIND } from './constants.js';
+import {
+  postComment,
+  updateComment,
+  fetchAuthenticatedLogin,
+  fetchIssueComments,
+  fetchPullRequestData,
+  fetchPullRequestCommits,
+  fetchCommit,
+  fetchCommitParents,
+  fetchBranchSha,
+  createCommit,
+  createBranch,
+  forceUpdateBranch,
+  deleteBranch,
+  mergeIntoBranch,
+  createPullRequest,
+  getCollaboratorPermission,
+} from './github-api.js';
+import { buildMarker, findMarkers, stripMarker } from './markers.js';
+import { formatMessage } from './messages.js';
+import type {
+  ActionConfig,
+  ActionResult,
+  BackportOutcome,
+  EventContext,
+  GitCommitAuthor,
+  Octokit,
+  PullRequestData,
+  ScheduledBackport,
+} from './types.js';
+import { hasValidPermission, isValidBackportTarget, pickSignificantResult } from './validation.js';
+
+/**
+ * Commit to replay and the commit its changes were made against.
+ */
+interface ReplayRange {
+  /** Merge commit created by the PR merge */
+  headSha: string;
+  /** Commit the PR changes are diffed against (the base branch before the merge) */
+  baseSha: string;
+  /** Message of the backport commit (without the cherry-pick note) */
+  message: string;
+  /** Author of the backport commit (the author of the merge commit) */
+  author: GitCommitAuthor;
+  /** Matching `git cherry-pick` arguments, shown in the manual instructions */
+  cherryPickArgs: string;
+}
+
+/**
+ * Builds the name of the branch holding a backport.
+ *
+ * @param prNumber - Number of the backported PR
+ * @param target - Target branch
+ * @returns Branch name (e.g. "backport/12/release/1.2")
+ */
+function buildBackportBranch(prNumber: number, target: string): string {
+  return `${BACKPORT_BRANCH_PREFIX}${prNumber}/${target}`;
+}
+
+/**
+ * Finds the backports scheduled on a PR.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @returns Scheduled backports in the order they were requested
+ */
+export async function findScheduledBackports(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+): Promise<ScheduledBackport[]> {
+  const comments = await fetchIssueComments(octokit, owner, repo, prNumber);
+  const botLogin = await fetchAuthenticatedLogin(octokit);
+  const backports: ScheduledBackport[] = [];
+  for (const marker of findMarkers(comments, BACKPORT_MARKER_KIND, botLogin)) {
+    const { actor, targets } = marker.data;
+    if (typeof actor !== 'string' || typeof targets !== 'string' || targets === '') {
+      continue;
+    }
+    backports.push({ commentId: marker.commentId, commentBody: marker.body, actor, targets: targets.split(',') });
+  }
+  return backports;
+}
+
+/**
+ * Records a backport to run once the PR is merged.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @param actor - User who requested the backport
+ * @param targets - Release branches to backport to
+ * @param config - Configuration options (comment language)
+ */
+export async function scheduleBackport(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  actor: string,
+  targets: string[],
+  config: ActionConfig,
+): Promise<void> {
+  const marker = buildMarker(BACKPORT_MARKER_KIND, { actor, targets: targets.join(',') });
+  const targetList = targets.map((target) => `- \`${target}\``).join('\n');
+  await postComment(
+    octokit,
+    owner,
+    repo,
+    prNumber,
+    `${formatMessage(config.language, 'backport.scheduled', { actor, targets: targetList })}\n\n${marker}`,
+  );
+}
+
+/**
+ * Finds the backport targets that are not release branches or are the PR's own base branch.
+ * The targets are checked when the command is run and again when a scheduled backport runs.
+ *
+ * @param targets - Target branches to check
+ * @param baseRef - Base branch of the PR
+ * @param config - Configuration options (release branch prefix)
+ * @returns Invalid targets, in the given order
+ */
+export function findInvalidBackportTargets(targets: string[], baseRef: string, config: ActionConfig): string[] {
+  return targets.filter((target) => !isValidBackportTarget(target, config) || target === baseRef);
+}
+
+/**
+ * Finds the backport targets whose branch does not exist.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param targets - Target branches to check
+ * @returns Missing targets, in the given order
+ */
+export async function findMissingBackportTargets(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  targets: string[],
+): Promise<string[]> {
+  const missing: string[] = [];
+  for (const target of targets) {
+    if ((await fetchBranchSha(octokit, owner, repo, target)) === null) {
+      missing.push(target);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Determines which commits to replay for a merged PR.
+ *
+ * Why: A merge commit has the previous base as its first parent and a squash commit has
+ * it as its only parent. A rebase merge leaves one commit per PR commit on the base
+ * branch instead; it is recognized by the last commit keeping the PR's last commit
+ * message, and the base is found by walking back one parent per PR commit.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @param prData - Data of the merged PR
+ * @param mergeCommitSha - Commit created by the merge
+ * @returns The range to replay
+ */
+async function findReplayRange(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  prData: PullRequestData,
+  mergeCommitSha: string,
+): Promise<ReplayRange> {
+  const mergeCommit = await fetchCommit(octokit, owner, repo, mergeCommitSha);
+  const firstParent = mergeCommit.parents[0] ?? mergeCommitSha;
+  const summary = `${prData.title} (#${prNumber})`;
+  const { author } = mergeCommit;
+
+  if (mergeCommit.parents.length > 1) {
+    return {
+      headSha: mergeCommitSha,
+      baseSha: firstParent,
+      message: summary,
+      author,
+      cherryPickArgs: `-m 1 ${mergeCommitSha}`,
+    };
+  }
+
+  const commits = await fetchPullRequestCommits(octokit, owner, repo, prNumber);
+  if (commits.length > 1 && commits.at(-1)?.commit.message === mergeCommit.message) {
+    let baseSha = firstParent;
+    for (let i = 1; i < commits.length; i++) {
+      baseSha = (await fetchCommitParents(octokit, owner, repo, baseSha))[0] ?? baseSha;
+    }
+    return {
+      headSha: mergeCommitSha,
+      baseSha,
+      message: summary,
+      author,
+      cherryPickArgs: `${baseSha}..${mergeCommitSha}`,
+    };
+  }
+
+  return {
+    headSha: mergeCommitSha,
+    baseSha: firstParent,
+    message: mergeCommit.message,
+    author,
+    cherryPickArgs: mergeCommitSha,
+  };
+}
+
+/**
+ * Replays a merged PR onto one target branch and opens the backport PR.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - Number of the backported PR
+ * @param prData - Data of the merged PR
+ * @param range - Commits to replay
+ * @param target - Target branch
+ * @param actor - User who requested the backport
+ * @param botName - Bot name shown in the temporary commit messages
+ * @returns Outcome for this target
+ */
+async function backportTo(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  prData: PullRequestData,
+  range: ReplayRange,
+  target: string,
+  actor: string,
+  botName: string,
+): Promise<BackportOutcome> {
+  const targetSha = await fetchBranchSha(octokit, owner, repo, target);
+  if (targetSha === null) {
+    return { target, status: 'failed', error: 'Target branch does not exist' };
+  }
+  const branch = buildBackportBranch(prNumber, target);
+  if ((await fetchBranchSha(octokit, owner, repo, branch)) !== null) {
+    return { target, status: 'failed', error: `Branch \`${branch}\` already exists` };
+  }
+
+  const scratchMessage = `${botName}: backport #${prNumber} to ${target} (temporary)`;
+  let branchCreated = false;
+  try {
+    const targetCommit = await fetchCommit(octokit, owner, repo, targetSha);
+
+    // Step 1: the target tree on top of the change base, so the merge sees only the PR changes as "theirs"
+    const scratchSha = await createCommit(octokit, owner, repo, {
+      message: scratchMessage,
+      treeSha: targetCommit.treeSha,
+      parents: [range.baseSha],
+    });
+    await createBranch(octokit, owner, repo, branch, scratchSha);
+    branchCreated = true;
+
+    // Step 2: three-way merge on the server
+    const merge = await mergeIntoBranch(octokit, owner, repo, branch, range.headSha, scratchMessage);
+    if (!merge.success || merge.treeSha === undefined) {
+      await deleteBranch(octokit, owner, repo, branch);
+      return merge.conflict
+        ? { target, status: 'conflict' }
+        : { target, status: 'failed', error: merge.error ?? 'Unknown error' };
+    }
+    if (merge.treeSha === targetCommit.treeSha) {
+      await deleteBranch(octokit, owner, repo, branch);
+      return { target, status: 'empty' };
+    }
+
+    // Step 3: the cherry-picked commit on top of the target branch
+    const backportSha = await createCommit(octokit, owner, repo, {
+      message: `${range.message}\n\n(cherry picked from commit ${range.headSha})`,
+      treeSha: merge.treeSha,
+      parents: [targetSha],
+      author: range.author,
+    });
+    await forceUpdateBranch(octokit, owner, repo, branch, backportSha);
+
+    const pullRequestNumber = await createPullRequest(octokit, owner, repo, {
+      title: `${prData.title} [backport ${target}]`,
+      body: `Backport of #${prNumber} to \`${target}\`, requested by @${actor}.\n\nCherry-picked from ${range.headSha}.`,
+      head: branch,
+      base: target,
+    });
+    return { target, status: 'created', pullRequestNumber };
+  } catch (error) {
+    if (branchCreated) {
+      await deleteBranch(octokit, owner, repo, branch);
+    }
+    return { target, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Builds the backport report comment.
+ *
+ * @param prNumber - Number of the backported PR
+ * @param range - Replayed commits
+ * @param outcomes - Outcome per target
+ * @param config - Configuration options (comment language)
+ * @returns Markdown comment body
+ */
+function buildBackportReport(
+  prNumber: number,
+  range: ReplayRange,
+  outcomes: BackportOutcome[],
+  config: ActionConfig,
+): string {
+  const { language } = config;
+  const rows = outcomes.map((outcome) => {
+    const result = {
+      created: formatMessage(language, 'backport.resultCreated', { number: outcome.pullRequestNumber ?? '' }),
+      empty: formatMessage(language, 'backport.resultEmpty'),
+      conflict: formatMessage(language, 'backport.resultConflict'),
+      failed: formatMessage(language, 'backport.resultFailed', { error: outcome.error ?? '' }),
+    }[outcome.status];
+    return `| \`${outcome.target}\` | ${result} |`;
+  });
+  let report = formatMessage(language, 'backport.results', { rows: rows.join('\n') });
+
+  for (const outcome of outcomes.filter((o) => o.status === 'conflict')) {
+    const branch = buildBackportBranch(prNumber, outcome.target);
+    report += `\n\n${formatMessage(language, 'backport.manualInstructions', {
+      target: outcome.target,
+      branch,
+      commits: range.cherryPickArgs,
+    })}`;
+  }
+  return report;
+}
+
+/**
+ * Backports a merged PR to each target branch and reports the outcomes in one comment.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions (owner and repo)
+ * @param prNumber - Number of the merged PR
+ * @param prData - Data of the merged PR
+ * @param targets - Release branches to backport to
+ * @param actor - User who requested the backport
+ * @param config - Configuration options (comment language)
+ * @returns Result of the operation (failed if any target could not be backported)
+ */
+export async function backportPullRequest(
+  octokit: Octokit,
+  context: EventContext,
+  prNumber: number,
+  prData: PullRequestData,
+  targets: string[],
+  actor: string,
+  config: ActionConfig,
+): Promise<ActionResult> {
+  const { owner, repo } = context;
+
+  if (prData.mergeCommitSha === null) {
+    await postComment(octokit, owner, repo, prNumber, formatMessage(config.language, 'backport.noMergeCommit'));
+    return { status: 'failed', message: 'Backport failed: no merge commit' };
+  }
+
+  const range = await findReplayRange(octokit, owner, repo, prNumber, prData, prData.mergeCommitSha);
+  const outcomes: BackportOutcome[] = [];
+  for (const target of targets) {
+    outcomes.push(await backportTo(octokit, owner, repo, prNumber, prData, range, target, actor, config.botName));
+  }
+
+  await postComment(octokit, owner, repo, prNumber, buildBackportReport(prNumber, range, outcomes, config));
+
+  const failedTargets = outcomes.filter((o) => o.status === 'conflict' || o.status === 'failed').map((o) => o.target);
+  if (failedTargets.length > 0) {
+    return { status: 'failed', message: `Backport failed for ${failedTargets.join(', ')}` };
+  }
+  return { status: 'skipped', message: `Backported to ${targets.join(', ')}` };
+}
+
+/**
+ * Runs the backports scheduled on a merged PR and clears them.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param prNumber - Number of the merged PR
+ * @param prData - Data of the merged PR
+ * @param config - Configuration options (comment language)
+ * @returns Result of the operation, or skipped if nothing was scheduled
+ */
+export async function runScheduledBackports(
+  octokit: Octokit,
+  context: EventContext,
+  prNumber: number,
+  prData: PullRequestData,
+  config: ActionConfig,
+): Promise<ActionResult> {
+  const { owner, repo } = context;
+
+  const backports = await findScheduledBackports(octokit, owner, repo, prNumber);
+  if (backports.length === 0) {
+    return { status: 'skipped', message: 'No scheduled backports' };
+  }
+
+  const results: ActionResult[] = [];
+  const done = new Set<string>();
+  for (const backport of backports) {
+    // Why: Clear first so that a concurrent run (e.g. the pull_request event of nylbot's own
+    // merge with a non-default token) does not open the same backport PRs again.
+    await updateComment(
+      octokit,
+      owner,
+      repo,
+      backport.commentId,
+      stripMarker(backport.commentBody, BACKPORT_MARKER_KIND),
+    );
+
+    // Why: The requester was authorized when scheduling, but access may have been revoked since
+    const permission = await getCollaboratorPermission(octokit, owner, repo, backport.actor);
+    if (!hasValidPermission(permission)) {
+      await postComment(
+        octokit,
+        owner,
+        repo,
+        prNumber,
+        formatMessage(config.language, 'backport.cancelledPermission', { actor: backport.actor, permission }),
+      );
+      results.push({ status: 'failed', message: 'Backport requester lost permission' });
+      continue;
+    }
+
+    const targets = backport.targets.filter((target) => !done.has(target));
+    if (targets.length === 0) {
+      continue;
+    }
+    targets.forEach((target) => done.add(target));
+
+    // Why: The targets were checked when scheduling, but a branch may have been deleted or renamed since
+    const invalid = findInvalidBackportTargets(targets, prData.baseRef, config);
+    const missing = await findMissingBackportTargets(
+      octokit,
+      owner,
+      repo,
+      targets.filter((target) => !invalid.includes(target)),
+    );
+    for (const target of invalid) {
+      await postComment(
+        octokit,
+        owner,
+        repo,
+        prNumber,
+        formatMessage(config.language, 'backport.cancelledInvalidTarget', {
+          target,
+          releaseBranchPrefix: config.releaseBranchPrefix,
+        }),
+      );
+    }
+    for (const target of missing) {
+      await postComment(
+        octokit,
+        owner,
+        repo,
+        prNumber,
+        formatMessage(config.language, 'backport.cancelledTargetNotFound', { target }),
+      );
+    }
+    const cancelled = [...invalid, ...missing];
+    if (cancelled.length > 0) {
+      results.push({ status: 'failed', message: `Backport cancelled for ${cancelled.join(', ')}` });
+    }
+
+    const validTargets = targets.filter((target) => !cancelled.includes(target));
+    if (validTargets.length > 0) {
+      results.push(await backportPullRequest(octokit, context, prNumber, prData, validTargets, backport.actor, config));
+    }
+  }
+
+  return pickSignificantResult(results, results.map((r) => r.message).join('; ') || 'No scheduled backports');
+}
+
+/**
+ * Handles pull_request events by running the backports scheduled on a PR that was merged.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options (comment language)
+ * @returns Result of the operation
+ */
+export async function handleBackportEvent(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+): Promise<ActionResult> {
+  const { owner, repo, prNumber } = context;
+
+  const prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+  if (!prData.merged) {
+    return { status: 'skipped', message: 'No backports to run before the merge' };
+  }
+  return runScheduledBackports(octokit, context, prNumber, prData, config);
+}
@@ -0,0 +1,188 @@
+/**
+ * branch-update.ts - Branch updates performed by nylbot and their recorded history
+ *
+ * Updating a PR branch (merging the base branch into the head branch) moves HEAD,
+ * which would otherwise look like a new push: approvals would become stale and a
+ * pending auto-merge request would be invalidated. nylbot therefore records each
+ * update it makes as a hidden marker in its "Branch updated" comment:
+ *
+ *   <!-- nylbot:branch-update {"fromSha":"abc123","toSha":"def456"} -->
+ *
+ * and treats `toSha` as equivalent to `fromSha` wherever a HEAD SHA is compared.
+ */
+
+import { BRANCH_UPDATE_MARKER_KIND } from './constants.js';
+import {
+  postComment,
+  postReply,
+  fetchAuthenticatedLogin,
+  fetchIssueComments,
+  fetchPullRequestData,
+  fetchCommitParents,
+  fetchBranchSha,
+  updatePullRequestBranch,
+} from './github-api.js';
+import { buildMarker, findMarkers } from './markers.js';
+import { formatMessage } from './messages.js';
+import type {
+  ActionConfig,
+  ActionResult,
+  EventContext,
+  IssueCommentsArray,
+  Octokit,
+  PullRequestData,
+} from './types.js';
+import { waitBeforeRetryMs } from './validation.js';
+
+/**
+ * Collects the HEAD SHAs that are equivalent to the given HEAD because they were only
+ * followed by nylbot branch updates.
+ *
+ * @param comments - PR comments in chronological order
+ * @param headSha - Current HEAD SHA
+ * @param botLogin - Login of the account nylbot posts as
+ * @returns The HEAD SHA followed by each earlier SHA it was updated from, newest first
+ */
+export function collectEquivalentHeadShas(comments: IssueCommentsArray, headSha: string, botLogin: string): string[] {
+  const updatedFrom = new Map<string, string>();
+  for (const { data } of findMarkers(comments, BRANCH_UPDATE_MARKER_KIND, botLogin)) {
+    if (typeof data.fromSha === 'string' && typeof data.toSha === 'string') {
+      updatedFrom.set(data.toSha, data.fromSha);
+    }
+  }
+
+  const shas = [headSha];
+  let current = updatedFrom.get(headSha);
+  // Why: Guard against cycles; a SHA can only appear once in a real update chain
+  while (current !== undefined && !shas.includes(current)) {
+    shas.push(current);
+    current = updatedFrom.get(current);
+  }
+  return shas;
+}
+
+/**
+ * Fetches the PR comments and collects the HEAD SHAs equivalent to the given HEAD.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @param headSha - Current HEAD SHA
+ * @returns The HEAD SHA followed by each earlier SHA it was updated from, newest first
+ */
+export async function fetchEquivalentHeadShas(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  headSha: string,
+): Promise<string[]> {
+  const comments = await fetchIssueComments(octokit, owner, repo, prNumber);
+  return collectEquivalentHeadShas(comments, headSha, await fetchAuthenticatedLogin(octokit));
+}
+
+/**
+ * Updates the PR branch, waits for the new HEAD, and records the update.
+ *
+ * The new HEAD is only recorded as nylbot's update commit when it is a merge commit of the
+ * previous HEAD (first parent) and the base branch (second parent). Anything else means
+ * someone pushed in the meantime.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options (retry settings are used to wait for the new HEAD; comment language)
+ * @param prData - Pull request data fetched for this run
+ * @param nextStep - Sentence telling the user what to do after the update
+ * @returns Result of the operation
+ */
+export async function updateBranch(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+  prData: PullRequestData,
+  nextStep: string,
+): Promise<ActionResult> {
+  const { owner, repo, prNumber, comment } = context;
+  const previousHeadSha = prData.headSha;
+  const baseShaBefore = await fetchBranchSha(octokit, owner, repo, prData.baseRef);
+
+  const updateResult = await updatePullRequestBranch(octokit, owner, repo, prNumber, previousHeadSha);
+  if (!updateResult.success) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'branchUpdate.failed', { error: updateResult.error ?? '' }),
+    );
+    return { status: 'failed', message: `Branch update failed: ${updateResult.error}` };
+  }
+
+  // Why: GitHub performs the update asynchronously, so the new HEAD is not visible immediately
+  let currentHeadSha = previousHeadSha;
+  let retries = 0;
+  while (currentHeadSha === previousHeadSha && retries < config.mergeableRetryCount) {
+    await waitBeforeRetryMs(config.mergeableRetryInterval * 1000);
+    currentHeadSha = (await fetchPullRequestData(octokit, owner, repo, prNumber)).headSha;
+    retries++;
+  }
+
+  if (currentHeadSha === previousHeadSha) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'branchUpdate.pending', {
+        previousSha: previousHeadSha,
+        retryCount: config.mergeableRetryCount,
+        retryInterval: config.mergeableRetryInterval,
+      }),
+    );
+    return { status: 'skipped', message: 'Branch update pending' };
+  }
+
+  // Why: A merge commit pushed by hand also has the previous HEAD as its first parent, so the
+  // second parent must be the base branch. The base may move while GitHub merges, so its SHA
+  // from before the update and from after the new HEAD appeared are both accepted.
+  const parents = await fetchCommitParents(octokit, owner, repo, currentHeadSha);
+  const mergedBaseSha = parents[1];
+  const isUpdateCommit =
+    parents.length === 2 &&
+    parents[0] === previousHeadSha &&
+    mergedBaseSha !== undefined &&
+    (mergedBaseSha === baseShaBefore || mergedBaseSha === (await fetchBranchSha(octokit, owner, repo, prData.baseRef)));
+  if (!isUpdateCommit) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'branchUpdate.newCommits', {
+        previousSha: previousHeadSha,
+        headSha: currentHeadSha,
+      }),
+    );
+    return { status: 'failed', message: 'TOCTOU violation during branch update' };
+  }
+
+  const marker = buildMarker(BRANCH_UPDATE_MARKER_KIND, { fromSha: previousHeadSha, toSha: currentHeadSha });
+  await postComment(
+    octokit,
+    owner,
+    repo,
+    prNumber,
+    `${formatMessage(config.language, 'branchUpdate.updated', {
+      baseRef: prData.baseRef,
+      headRef: prData.headRef,
+      previousSha: previousHeadSha,
+      headSha: currentHeadSha,
+      nextStep,
+    })}\n\n${marker}`,
+  );
+  return { status: 'skipped', message: 'Branch updated' };
+}
@@ -0,0 +1,98 @@
+/**
+ * cancel-command.ts - Handler for the `/nylbot cancel` command
+ *
+ * Withdraws the pending auto-merge request and/or merge queue entry recorded on the PR,
+ * so users do not have to remove labels or marker comments by hand.
+ */
+
+import { findAutoMergeRequest, clearAutoMergeRequest } from './auto-merge.js';
+import { CANCEL_OTHERS_PERMISSION } from './constants.js';
+import { postReply, getCollaboratorPermission } from './github-api.js';
+import { findMergeQueueEntry, removeMergeQueueEntry } from './merge-queue.js';
+import { formatMessage } from './messages.js';
+import type { ActionConfig, ActionResult, EventContext, Octokit } from './types.js';
+import { hasPermissionAtLeast } from './validation.js';
+
+/**
+ * Handles the `/nylbot cancel` command.
+ *
+ * Why: This command bypasses the dispatcher's write-permission gate. The original
+ * requester may always withdraw their own request; anyone else needs at least
+ * CANCEL_OTHERS_PERMISSION.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options
+ * @returns Result of the operation
+ */
+export async function handleCancelCommand(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+): Promise<ActionResult> {
+  const { owner, repo, prNumber, actor, comment } = context;
+
+  const request = await findAutoMergeRequest(octokit, owner, repo, prNumber);
+  const queueEntry = await findMergeQueueEntry(octokit, owner, repo, prNumber);
+  if (!request && !queueEntry) {
+    await postReply(octokit, owner, repo, prNumber, comment, formatMessage(config.language, 'cancel.nothingToCancel'));
+    return { status: 'skipped', message: 'No pending request to cancel' };
+  }
+
+  const requesters = [...new Set([request?.actor, queueEntry?.actor].filter((r) => r !== undefined))];
+  if (requesters.some((requester) => requester !== actor)) {
+    const permission = await getCollaboratorPermission(octokit, owner, repo, actor);
+    if (!hasPermissionAtLeast(permission, CANCEL_OTHERS_PERMISSION)) {
+      await postReply(
+        octokit,
+        owner,
+        repo,
+        prNumber,
+        comment,
+        formatMessage(config.language, 'cancel.permissionDenied', {
+          requesters: requesters.map((r) => `@${r}`).join(' / '),
+          requiredPermission: CANCEL_OTHERS_PERMISSION,
+          permission,
+        }),
+      );
+      return { status: 'failed', message: 'Insufficient permissions to cancel' };
+    }
+  }
+
+  if (request) {
+    await clearAutoMergeRequest(octokit, owner, repo, prNumber, config, request);
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'cancel.autoMergeCancelled', {
+        requester: request.actor,
+        actor,
+        label: config.autoMergeLabel,
+      }),
+    );
+  }
+  if (queueEntry) {
+    await removeMergeQueueEntry(octokit, owner, repo, config, queueEntry);
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'cancel.removedFromQueue', {
+        requester: queueEntry.actor,
+        baseRef: queueEntry.baseRef,
+        actor,
+        label: config.mergeQueueLabel,
+      }),
+    );
+  }
+  let message = 'Removed from merge queue';
+  if (request) {
+    message = queueEntry ? 'Auto-merge request cancelled and removed from merge queue' : 'Auto-merge request cancelled';
+  }
+  return { status: 'skipped', message };
+}
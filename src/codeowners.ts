@@ -0,0 +1,195 @@
+/**
+ * codeowners.ts - CODEOWNERS-aware approval requirement
+ *
+ * With `require-code-owner-approval`, every changed file that has code owners needs an
+ * approval from one of them, without relying on branch protection. The CODEOWNERS file
+ * is read from the base branch (`.github/`, the root, or `docs/`, like GitHub) and matched
+ * with gitignore-style patterns; the last matching line wins.
+ *
+ * Owners are grouped by CODEOWNERS line, so a group is satisfied by an approval from any
+ * of its `@user` owners or from a member of any of its `@org/team` owners. Email owners
+ * cannot be matched to reviewers and never satisfy a group on their own.
+ */
+
+import { CODEOWNERS_PATHS } from './constants.js';
+import { fetchFileContent, fetchPullRequestFiles, isTeamMember } from './github-api.js';
+import { formatMessage } from './messages.js';
+import type { CodeownersRule, Language, Octokit } from './types.js';
+
+/**
+ * Parses a CODEOWNERS file into rules, in file order.
+ * Blank lines and comments (`#` unless escaped as `\#`) are ignored.
+ *
+ * @param content - Text of the CODEOWNERS file
+ * @returns Rules with their pattern and owners
+ *
+ * @example
+ * parseCodeowners('*.ts @acme/frontend  # TypeScript\n/docs/ @alice @bob')
+ *   // [{ pattern: '*.ts', owners: ['@acme/frontend'] }, { pattern: '/docs/', owners: ['@alice', '@bob'] }]
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|[^\\])#.*$/, '$1').trim();
+    if (line === '') {
+      continue;
+    }
+    const [pattern = '', ...owners] = line.split(/\s+/);
+    rules.push({ pattern: pattern.replace(/\\#/g, '#'), owners });
+  }
+  return rules;
+}
+
+/**
+ * Converts a CODEOWNERS pattern to a regular expression over repository-relative paths.
+ *
+ * - A pattern with a slash at the start or in the middle is anchored to the root;
+ *   otherwise it matches at any depth.
+ * - `*` and `?` do not match `/`; `**` matches across directories.
+ * - A pattern that matches a directory matches every file under it. As on GitHub, a
+ *   trailing `/*` only matches the files directly in the directory.
+ *
+ * @param pattern - Pattern from a CODEOWNERS line
+ * @returns Regular expression matching the paths the pattern covers
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const directoryOnly = pattern.endsWith('/');
+  const trimmed = pattern.replace(/\/+$/, '');
+  const anchored = trimmed.includes('/');
+  const body = trimmed
+    .replace(/^\//, '')
+    .split(/(\*\*\/|\/\*\*$|\*\*|\*|\?)/)
+    .map((part) => {
+      switch (part) {
+        case '**/':
+          return '(?:.*/)?';
+        case '/**':
+          return '/.*';
+        case '**':
+          return '.*';
+        case '*':
+          return '[^/]*';
+        case '?':
+          return '[^/]';
+        default:
+          return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      }
+    })
+    .join('');
+
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  const suffix = directoryOnly ? '/.*' : trimmed.endsWith('/*') ? '' : '(?:/.*)?';
+  return new RegExp(`${prefix}${body}${suffix}$`);
+}
+
+/**
+ * Finds the owners of a file: those of the last CODEOWNERS rule matching its path.
+ *
+ * @param rules - Rules from parseCodeowners
+ * @param path - Repository-relative file path
+ * @returns Owners of the file (empty when no rule matches or the rule has no owners)
+ */
+export function findCodeOwners(rules: CodeownersRule[], path: string): string[] {
+  const rule = [...rules].reverse().find((candidate) => patternToRegExp(candidate.pattern).test(path));
+  return rule?.owners ?? [];
+}
+
+/**
+ * Checks that every changed file with code owners has an approval from one of them.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @param baseRef - Base branch to read CODEOWNERS from
+ * @param approvers - Logins of the users whose approvals count for the merge
+ * @param language - Language of the check details
+ * @returns Whether every owner group approved, and details naming the groups still missing an approval
+ */
+export async function evaluateCodeOwnerApproval(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  baseRef: string,
+  approvers: string[],
+  language: Language,
+): Promise<{ passed: boolean; details: string | null }> {
+  let content: string | null = null;
+  for (const path of CODEOWNERS_PATHS) {
+    content ??= await fetchFileContent(octokit, owner, repo, path, baseRef);
+  }
+  if (content === null) {
+    return { passed: false, details: formatMessage(language, 'checks.codeOwnersFileMissing', { baseRef }) };
+  }
+
+  // Group the changed files by the owners that must approve them
+  const rules = parseCodeowners(content);
+  const groups = new Map<string, { owners: string[]; files: string[] }>();
+  for (const file of await fetchPullRequestFiles(octokit, owner, repo, prNumber)) {
+    const owners = findCodeOwners(rules, file);
+    if (owners.length === 0) {
+      continue;
+    }
+    const key = owners.join(' ');
+    const group = groups.get(key) ?? { owners, files: [] };
+    group.files.push(file);
+    groups.set(key, group);
+  }
+
+  // isTeamMember reads each team and approver once per run, shared with the authorization policy
+  const unreadableTeams = new Map<string, string>();
+  const isCodeOwner = async (codeOwner: string, approver: string): Promise<boolean> => {
+    const [, org, slug] = /^@([\w-]+)\/([\w.-]+)$/.exec(codeOwner) ?? [];
+    if (org === undefined || slug === undefined) {
+      return codeOwner.toLowerCase() === `@${approver.toLowerCase()}`;
+    }
+    try {
+      return await isTeamMember(octokit, org, slug, approver);
+    } catch (error) {
+      unreadableTeams.set(codeOwner, error instanceof Error ? error.message : 'Unknown error');
+      return false;
+    }
+  };
+
+  const isApproved = async (owners: string[]): Promise<boolean> => {
+    for (const codeOwner of owners) {
+      for (const approver of approvers) {
+        if (await isCodeOwner(codeOwner, approver)) {
+          return true;
+        }
+      }
+    }
+    return false;
+  };
+
+  const missing: string[] = [];
+  for (const { owners, files } of groups.values()) {
+    if (!(await isApproved(owners))) {
+      const [file = ''] = files;
+      missing.push(
+        files.length > 1
+          ? formatMessage(language, 'checks.codeOwnersGroupMore', {
+              owners: owners.join(' '),
+              file,
+              count: files.length - 1,
+            })
+          : formatMessage(language, 'checks.codeOwnersGroup', { owners: owners.join(' '), file }),
+      );
+    }
+  }
+
+  if (missing.length === 0) {
+    return { passed: true, details: null };
+  }
+  const separator = formatMessage(language, 'checks.codeOwnersSeparator');
+  const notes = [...unreadableTeams].map(([team, error]) =>
+    formatMessage(language, 'checks.codeOwnersTeamUnreadable', { team, error }),
+  );
+  return {
+    passed: false,
+    details: [formatMessage(language, 'checks.codeOwnersMissing', { groups: missing.join(separator) }), ...notes].join(
+      separator,
+    ),
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * command-extractor.ts - Finding the bot command line in a markdown comment
+ *
+ * A command may be on any line of a comment (e.g. "LGTM, thanks!\n/nylbot merge"), but
+ * only where it would render as plain text. Lines inside `>` quotes, fenced and indented
+ * code blocks, inline code spans, and HTML comments are skipped, so quoting someone else's
+ * `/nylbot merge`, showing it as an example, or hiding it in a comment never runs it. The
+ * same applies to a custom `command-prefix` and to `@<bot-name>` mentions.
+ *
+ * All functions are pure; the extracted line is parsed by validation.ts (parseCommand).
+ */
+
+import type { ActionConfig } from './types.js';
+import { hasBotMention } from './validation.js';
+
+/**
+ * Opening or closing line of a fenced code block: up to 3 spaces, then 3+ backticks or tildes.
+ * Captures the fence characters.
+ */
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Block quote line: up to 3 spaces, then `>`.
+ */
+const QUOTE_REGEX = /^ {0,3}>/;
+
+/**
+ * Indented code line: 4 spaces, or a tab after up to 3 spaces.
+ */
+const INDENTED_CODE_REGEX = /^(?: {4}| {0,3}\t)/;
+
+/**
+ * Line that starts an HTML comment block: up to 3 spaces, then `<!--`.
+ */
+const HTML_COMMENT_REGEX = /^ {0,3}<!--/;
+
+/**
+ * Finds the inline code spans in a paragraph.
+ * Following CommonMark, a backtick run opens a span that is closed by the next run of
+ * the same length; a run without a matching closer is literal text.
+ *
+ * @param text - Paragraph text (lines joined with "\n")
+ * @returns Start (inclusive) and end (exclusive) offsets of each code span
+ */
+function findCodeSpans(text: string): [number, number][] {
+  const runs = [...text.matchAll(/`+/g)].map((match) => ({ index: match.index, length: match[0].length }));
+  const spans: [number, number][] = [];
+  let i = 0;
+  while (i < runs.length) {
+    const open = runs[i];
+    const closeIndex = runs.findIndex((run, j) => j > i && run.length === open?.length);
+    const close = runs[closeIndex];
+    if (open && close) {
+      spans.push([open.index, close.index + close.length]);
+      i = closeIndex + 1;
+    } else {
+      i++;
+    }
+  }
+  return spans;
+}
+
+/**
+ * Finds the HTML comments in a paragraph, outside inline code spans.
+ * An `<!--` without a closing `-->` is literal text.
+ *
+ * @param text - Paragraph text (lines joined with "\n")
+ * @param codeSpans - Inline code spans of the paragraph (see findCodeSpans)
+ * @returns Start (inclusive) and end (exclusive) offsets of each comment
+ */
+function findHtmlComments(text: string, codeSpans: [number, number][]): [number, number][] {
+  const comments: [number, number][] = [];
+  let start = text.indexOf('<!--');
+  while (start !== -1) {
+    const inCode = codeSpans.some(([spanStart, spanEnd]) => spanStart <= start && start < spanEnd);
+    const end = inCode ? -1 : text.indexOf('-->', start + 4);
+    if (end !== -1) {
+      comments.push([start, end + 3]);
+    }
+    start = text.indexOf('<!--', end === -1 ? start + 4 : end + 3);
+  }
+  return comments;
+}
+
+/**
+ * Finds the first line of a paragraph that starts with a bot trigger outside inline code
+ * and HTML comments.
+ *
+ * @param lines - Consecutive lines of one paragraph
+ * @param config - Configuration options (command prefix and bot name)
+ * @returns The command line without leading whitespace, or null if there is none
+ */
+function findCommandInParagraph(lines: string[], config: ActionConfig): string | null {
+  const text = lines.join('\n');
+  const codeSpans = findCodeSpans(text);
+  const hidden = [...codeSpans, ...findHtmlComments(text, codeSpans)];
+  let offset = 0;
+  for (const line of lines) {
+    const trimmed = line.trimStart();
+    const position = offset + (line.length - trimmed.length);
+    const isHidden = hidden.some(([start, end]) => start < position && position < end);
+    if (!isHidden && hasBotMention(trimmed, config)) {
+      return trimmed;
+    }
+    offset += line.length + 1;
+  }
+  return null;
+}
+
+/**
+ * Extracts the first line of a comment that holds a bot command and renders as plain text.
+ *
+ * Skipped:
+ * - `>` quoted lines, and the lines continuing a quoted paragraph (markdown renders them inside the quote)
+ * - fenced code blocks (``` or ~~~, closed by a fence of the same character at least as long)
+ * - indented code blocks (4 spaces or a tab, outside a paragraph)
+ * - inline code spans, including spans that continue across lines
+ * - HTML comments (`<!-- ... -->`), on their own lines or inside a paragraph
+ *
+ * @param commentBody - Full comment body
+ * @param config - Configuration options (command prefix and bot name)
+ * @returns The command line (leading whitespace removed, trailing whitespace kept), or null if there is none
+ *
+ * @example
+ * extractCommandLine('LGTM, thanks!\n/nylbot merge', config)      // '/nylbot merge'
+ * extractCommandLine('> /nylbot merge\n\nNot yet, please', config) // null
+ * extractCommandLine('Run `/nylbot merge` when ready', config)    // null
+ * extractCommandLine('<!-- /nylbot merge -->', config)             // null
+ */
+export function extractCommandLine(commentBody: string, config: ActionConfig): string | null {
+  const lines = commentBody.split(/\r?\n/);
+  let paragraph: string[] = [];
+  let fence: string | null = null;
+  let inHtmlComment = false;
+  let inQuote = false;
+
+  const flush = (): string | null => {
+    const command = findCommandInParagraph(paragraph, config);
+    paragraph = [];
+    return command;
+  };
+
+  for (const line of lines) {
+    if (fence !== null) {
+      // A closing fence uses the same character and is at least as long, with nothing after it
+      const closing = FENCE_REGEX.exec(line)?.[1];
+      if (closing?.startsWith(fence) && line.trim() === closing) {
+        fence = null;
+      }
+      continue;
+    }
+    if (inHtmlComment) {
+      inHtmlComment = !line.includes('-->');
+      continue;
+    }
+
+    const opening = FENCE_REGEX.exec(line)?.[1];
+    const isQuote = QUOTE_REGEX.test(line);
+    const isHtmlComment = HTML_COMMENT_REGEX.test(line);
+    const isBlank = line.trim() === '';
+    // Why: A non-blank line right after a quote continues the quoted paragraph ("lazy continuation")
+    const continuesQuote: boolean = inQuote && !isBlank && opening === undefined && !isHtmlComment;
+    // Why: Indented code cannot interrupt a paragraph, so an indented line inside one is plain text
+    const isIndentedCode = paragraph.length === 0 && !continuesQuote && !isBlank && INDENTED_CODE_REGEX.test(line);
+
+    if (opening !== undefined || isQuote || isBlank || continuesQuote || isIndentedCode || isHtmlComment) {
+      const command = flush();
+      if (command !== null) {
+        return command;
+      }
+      fence = opening ?? null;
+      // The comment block ends on the first line holding `-->`, which may be this one
+      inHtmlComment = isHtmlComment && !line.slice(line.indexOf('<!--') + 4).includes('-->');
+      inQuote = isQuote || continuesQuote;
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  return flush();
+}
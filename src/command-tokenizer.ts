@@ -0,0 +1,105 @@
+/**
+ * command-tokenizer.ts - Splitting `/nylbot` command arguments into tokens
+ *
+ * Arguments are separated by spaces or tabs. Values with spaces are quoted:
+ *
+ *   /nylbot merge --title "fix: handle timeouts" --reason 'hotfix for outage'
+ *
+ * - Double quotes allow `\"` and `\\` escapes; other backslashes are kept as is.
+ * - Single quotes take everything literally up to the next single quote.
+ * - Outside quotes, a backslash escapes the next character (e.g. `\--not-a-flag`).
+ * - Quoted and unquoted parts next to each other form one token (`--title="a b"`).
+ *
+ * All functions are pure; validation.ts (parseCommand) interprets the tokens.
+ */
+
+import type { CommandToken } from './types.js';
+
+/**
+ * Splits command arguments into tokens, resolving quotes and escapes.
+ *
+ * @param input - Arguments after the subcommand (a single line)
+ * @returns Tokens in order, or the quote character of an unterminated quote
+ *
+ * @example
+ * tokenizeArguments('--sha abc1234 --title "fix: x"')
+ *   // { tokens: [{ text: '--sha', literalStart: false }, { text: 'abc1234', literalStart: false },
+ *   //            { text: '--title', literalStart: false }, { text: 'fix: x', literalStart: true }] }
+ * tokenizeArguments('--title "fix: x')  // { unterminatedQuote: '"' }
+ */
+export function tokenizeArguments(input: string): { tokens: CommandToken[] } | { unterminatedQuote: string } {
+  const tokens: CommandToken[] = [];
+  let current: CommandToken | null = null;
+
+  let i = 0;
+  while (i < input.length) {
+    const char = input.charAt(i);
+
+    if (char === ' ' || char === '\t') {
+      if (current) {
+        tokens.push(current);
+        current = null;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = findClosingQuote(input, i);
+      if (end === -1) {
+        return { unterminatedQuote: char };
+      }
+      const quoted = input.slice(i + 1, end);
+      current = appendToToken(current, char === '"' ? quoted.replace(/\\(["\\])/g, '$1') : quoted, true);
+      i = end + 1;
+      continue;
+    }
+
+    // A trailing backslash has nothing to escape and is kept as is
+    if (char === '\\' && i + 1 < input.length) {
+      current = appendToToken(current, input.charAt(i + 1), true);
+      i += 2;
+      continue;
+    }
+
+    current = appendToToken(current, char, false);
+    i++;
+  }
+
+  if (current) {
+    tokens.push(current);
+  }
+  return { tokens };
+}
+
+/**
+ * Appends text to the token being built, starting a new token if there is none.
+ *
+ * @param token - Token being built, or null between tokens
+ * @param text - Text to append
+ * @param literal - Whether the text came from quotes or an escape
+ * @returns The extended token
+ */
+function appendToToken(token: CommandToken | null, text: string, literal: boolean): CommandToken {
+  return token ? { ...token, text: token.text + text } : { text, literalStart: literal };
+}
+
+/**
+ * Finds the quote that closes the one at `start`, skipping `\"` and `\\` inside double quotes.
+ *
+ * @param input - Arguments being tokenized
+ * @param start - Index of the opening quote
+ * @returns Index of the closing quote, or -1 if the quote is not closed
+ */
+function findClosingQuote(input: string, start: number): number {
+  const quote = input.charAt(start);
+  for (let i = start + 1; i < input.length; i++) {
+    const char = input.charAt(i);
+    if (quote === '"' && char === '\\' && (input.charAt(i + 1) === '"' || input.charAt(i + 1) === '\\')) {
+      i++;
+    } else if (char === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
@@ -5,48 +5,61 @@
  * data used throughout the nylbot-merge action.
  */
 
+import type { CommandDefinition, CommentKind, Language, MergeOptions } from './types.js';
+
 /**
- * Regex to detect a bot-style command at the start of the comment body (e.g. /nylbot, /xybot).
+ * Regex to detect a bot-style command at the start of a comment line (e.g. /nylbot, /xybot).
  * Only space and tab are allowed before the trigger; leading newlines are not accepted.
+ * Lines in quotes and code are never tested (see command-extractor.ts).
  * Used to add :eyes: reaction first and to decide whether to post an invalid-command comment.
  * Pattern: optional space/tab, slash, 2–5 characters, then "bot".
  */
 export const BOT_TRIGGER_REGEX = /^[ \t]*\/.{2,5}bot/;
 
 /**
- * Command regex for matching `/nylbot merge` at the start of the comment body.
+ * Command regex for matching `<trigger> <subcommand>` on the command line extracted from the comment.
  * Only space and tab are allowed before the command and between tokens; leading or trailing newlines are not accepted.
- * Captures optional flags after the merge command (same line only).
- * Pattern: optional space/tab, "/nylbot", one or more space/tab, "merge", optional space/tab + rest of line.
+ * Captures the trigger (checked against the `command-prefix` and `@bot-name` by parseCommand),
+ * the subcommand word, and optional arguments after it (same line only).
+ * Pattern: optional space/tab, trigger, one or more space/tab, subcommand, optional space/tab + rest of line.
  */
-export const COMMAND_REGEX = /^[ \t]*\/nylbot[ \t]+merge(?:[ \t]+([^\n]*))?[ \t]*$/;
+export const COMMAND_REGEX = /^[ \t]*(\S+)[ \t]+([a-z][a-z-]*)(?:[ \t]+([^\n]*))?[ \t]*$/;
 
 /**
- * List of valid command flags for `/nylbot merge`.
+ * Default command prefix (`command-prefix` input).
  */
-export const VALID_FLAGS = ['--override-approval-requirement'] as const;
+export const DEFAULT_COMMAND_PREFIX = '/nylbot';
 
 /**
- * Valid author associations that can use the /nylbot merge command.
- * Why: Only trusted users with write access should be able to trigger merges.
- * OWNER/MEMBER have org-level trust, COLLABORATOR has explicit repo access.
- * CONTRIBUTOR and others may have submitted PRs but lack merge authority.
- *
- * Note: Command actors must pass BOTH author association and permission checks.
- * Reviewers are validated using permission level only (see VALID_PERMISSIONS).
+ * Default bot display name (`bot-name` input).
  */
-export const VALID_AUTHOR_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'] as const;
+export const DEFAULT_BOT_NAME = 'nylbot';
 
 /**
- * Valid permission levels that can use the /nylbot merge command.
- * Why: Maps to GitHub's permission model - admin/maintain/write can merge PRs.
- * Read-only users should not be able to trigger merges even if they can comment.
- *
- * Note: This check is used for both command actors (with author association check)
- * and reviewers (permission-only check, as GitHub App tokens may return 'NONE'
- * for author_association even for valid collaborators).
+ * Login that comments made with `GITHUB_TOKEN` are posted as.
+ * Used as nylbot's own login when the token cannot read it (see fetchAuthenticatedLogin).
  */
-export const VALID_PERMISSIONS = ['admin', 'maintain', 'write'] as const;
+export const GITHUB_ACTIONS_BOT_LOGIN = 'github-actions[bot]';
+
+/**
+ * Valid `command-prefix`: a slash followed by lowercase letters, digits, and hyphens (e.g. `/shipit`).
+ */
+export const COMMAND_PREFIX_REGEX = /^\/[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Valid `bot-name`: a GitHub login (letters, digits, and hyphens), so `@bot-name` works as a mention.
+ */
+export const BOT_NAME_REGEX = /^[A-Za-z0-9][A-Za-z0-9-]*$/;
+
+/**
+ * Languages accepted by the `language` input.
+ */
+export const SUPPORTED_LANGUAGES = ['en', 'ja'] as const satisfies readonly Language[];
+
+/**
+ * Default language of PR comments (`language` input); also the fallback for untranslated messages.
+ */
+export const DEFAULT_LANGUAGE: Language = 'en';
 
 /**
  * Valid Conventional Commits types for PR title validation.
@@ -81,3 +94,315 @@ export const CONVENTIONAL_COMMIT_TYPES = [
 export const CONVENTIONAL_COMMIT_REGEX = new RegExp(
   `^(${CONVENTIONAL_COMMIT_TYPES.join('|')})(\\([^)!]+\\))?!?:\\s*\\S.*$`,
 );
+
+/**
+ * Registry of subcommands and their flags (typed after the command prefix, e.g. `/nylbot merge`).
+ * Single source of truth for command parsing (parseCommand), including flag values, conflicts,
+ * and required companion flags, the write-permission gate, and the generated help output,
+ * so they cannot drift apart.
+ */
+export const COMMANDS = [
+  {
+    name: 'merge',
+    description:
+      'Run the pre-merge checks and merge the PR when every required check passes. With `merge-queue` enabled, add the PR to the merge queue of its base branch instead.',
+    requiresWritePermission: true,
+    flags: [
+      {
+        name: '--override-approval-requirement',
+        description:
+          'Exceptional/privileged option: skip the review approval requirement for this merge only. All other checks still apply.',
+      },
+      {
+        name: '--reason',
+        value: '<text>',
+        description:
+          'Why the approval requirement is overridden. Recorded in the commit message next to the exceptional merge notice. Only with `--override-approval-requirement`.',
+        requires: ['--override-approval-requirement'],
+      },
+      {
+        name: '--squash',
+        description:
+          'Squash merge regardless of the branch rules. The override is recorded in the commit trailers. Requires the `method-override-permission` level (default: maintain).',
+        conflicts: ['--merge', '--rebase'],
+      },
+      {
+        name: '--merge',
+        description:
+          'Create a merge commit regardless of the branch rules. The override is recorded in the commit trailers. Requires the `method-override-permission` level (default: maintain).',
+        conflicts: ['--squash', '--rebase'],
+      },
+      {
+        name: '--rebase',
+        description:
+          'Rebase merge regardless of the branch rules. Rebase keeps the PR commits unchanged, so no trailers are recorded. Requires the `method-override-permission` level (default: maintain).',
+        conflicts: ['--squash', '--merge', '--title', '--message'],
+      },
+      {
+        name: '--title',
+        value: '<title>',
+        description:
+          'Use this commit title instead of the PR title (e.g. `--title "fix: handle timeouts"`). Must follow Conventional Commits. Not with `--rebase`.',
+        valuePattern: { regex: CONVENTIONAL_COMMIT_REGEX, description: 'a Conventional Commits title' },
+        conflicts: ['--rebase'],
+      },
+      {
+        name: '--message',
+        value: '<text>',
+        description:
+          'Add this text to the commit message body, before the trailers (e.g. `--message "Closes #12"`). Not with `--rebase`.',
+        conflicts: ['--rebase'],
+      },
+      {
+        name: '--sha',
+        value: '<sha>',
+        description:
+          'Merge only if the PR HEAD commit still starts with this SHA (7 to 40 hex characters). Guards against commits pushed after you reviewed.',
+        valuePattern: { regex: /^[0-9a-fA-F]{7,40}$/, description: '7 to 40 hex characters' },
+      },
+      {
+        name: '--update-if-behind',
+        description:
+          'When the head branch is behind the base branch, update it (merging the base branch in) instead of merging. Run the merge command again once checks pass on the new HEAD.',
+      },
+      {
+        name: '--ready',
+        description:
+          'Mark a draft PR as ready for review before the checks run. Has no effect with `--dry-run`, which never changes the PR.',
+      },
+      {
+        name: '--dry-run',
+        description:
+          'Run every check and report the commit message that would be used, without dismissing reviews or merging.',
+      },
+    ],
+  },
+  {
+    name: 'auto-merge',
+    description:
+      'Merge now if every check passes; otherwise queue the PR and merge it once checks pass. Cancelled automatically when new commits are pushed.',
+    requiresWritePermission: true,
+    flags: [],
+  },
+  {
+    name: 'cancel',
+    description:
+      'Withdraw the pending auto-merge request or merge queue entry. Allowed for the original requester and users with maintain or admin permission.',
+    // Authorization depends on who made the request, so it is checked by the handler
+    requiresWritePermission: false,
+    flags: [],
+  },
+  {
+    name: 'update-branch',
+    description:
+      'Update the head branch with the latest base branch. The bot treats its own update commit as the expected HEAD, so approvals and a pending auto-merge request are kept.',
+    requiresWritePermission: true,
+    flags: [],
+  },
+  {
+    name: 'title',
+    description: 'Set the PR title. The new title must follow Conventional Commits (squash commits use the PR title).',
+    requiresWritePermission: true,
+    arguments: '<new title>',
+    flags: [],
+  },
+  {
+    name: 'ready',
+    description: 'Mark a draft PR as ready for review.',
+    requiresWritePermission: true,
+    flags: [],
+  },
+  {
+    name: 'backport',
+    description:
+      'Cherry-pick the merged PR onto each given release branch and open a backport PR. Before the merge, the backport is scheduled and runs once the PR is merged.',
+    requiresWritePermission: true,
+    arguments: '<branch>...',
+    flags: [],
+  },
+  {
+    name: 'status',
+    description: 'Report the current pre-merge checklist and merge method without merging.',
+    requiresWritePermission: false,
+    flags: [],
+  },
+  {
+    name: 'help',
+    description: 'List supported commands and flags.',
+    requiresWritePermission: false,
+    flags: [],
+  },
+] as const satisfies readonly CommandDefinition[];
+
+/**
+ * Options of a `/nylbot merge` without flags.
+ * Used by merges that no merge comment started: auto-merge, the merge label, and the merge queue head.
+ */
+export const DEFAULT_MERGE_OPTIONS: Readonly<MergeOptions> = {
+  overrideApprovalRequirement: false,
+  dryRun: false,
+  methodOverride: null,
+  updateIfBehind: false,
+  ready: false,
+  commitTitle: null,
+  commitMessage: null,
+  overrideReason: null,
+  expectedHeadSha: null,
+};
+
+/**
+ * Events whose comment or review body can carry a command, and the kind of object that carries it.
+ * Why: Reviewers can approve and merge in one step by writing the command in the review summary.
+ */
+export const COMMENT_KINDS: Readonly<Record<string, CommentKind>> = {
+  issue_comment: 'issue_comment',
+  pull_request_review: 'review',
+  pull_request_review_comment: 'review_comment',
+};
+
+/**
+ * Activity types (payload `action`) of comment and review events that may run a command:
+ * a new comment, a submitted review, or an edit that adds a command.
+ */
+export const COMMAND_EVENT_ACTIONS = ['created', 'submitted', 'edited'] as const;
+
+/**
+ * URL fragment prefix that links to each kind of comment on the PR page (followed by its ID).
+ */
+export const COMMENT_URL_ANCHORS: Readonly<Record<CommentKind, string>> = {
+  issue_comment: 'issuecomment-',
+  review: 'pullrequestreview-',
+  review_comment: 'discussion_r',
+};
+
+/**
+ * Events (besides issue_comment) that re-evaluate pending auto-merge requests.
+ * Why: These are the events after which a blocked or unstable PR can become clean
+ * (CI finished, review submitted, PR updated).
+ */
+export const AUTO_MERGE_EVENTS = ['check_suite', 'status', 'pull_request', 'pull_request_review'] as const;
+
+/**
+ * Marker kind used in hidden comments that record a pending auto-merge request.
+ */
+export const AUTO_MERGE_MARKER_KIND = 'auto-merge';
+
+/**
+ * Marker kind used in hidden comments that record a merge queue entry.
+ */
+export const MERGE_QUEUE_MARKER_KIND = 'merge-queue';
+
+/**
+ * Mergeable states in which the PR at the head of the merge queue waits instead of being removed.
+ * Why: These states clear on their own once CI finishes or GitHub recomputes mergeability;
+ * other failures (conflicts, missing approvals, ...) need the author and would block the queue.
+ */
+export const MERGE_QUEUE_WAITING_STATES = ['blocked', 'unstable', 'unknown'] as const;
+
+/**
+ * Prefix of the ref that locks the merge queue of a base branch (followed by the branch name).
+ * Why: Outside `refs/heads/` and `refs/tags/`, so the lock is neither a branch nor a tag and
+ * triggers no push workflows.
+ */
+export const MERGE_QUEUE_LOCK_REF_PREFIX = 'nylbot/merge-queue-lock/';
+
+/**
+ * Age after which a merge queue lock is treated as left over from a run that was cancelled
+ * before releasing it, and is taken over.
+ */
+export const MERGE_QUEUE_LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Marker kind used in hidden comments that record a branch update made by nylbot.
+ * Why: The update commit moves HEAD without changing the PR's own changes, so it is
+ * recorded to be recognized later instead of being treated as a new push.
+ */
+export const BRANCH_UPDATE_MARKER_KIND = 'branch-update';
+
+/**
+ * Marker kind used in hidden comments that record a backport scheduled before the merge.
+ */
+export const BACKPORT_MARKER_KIND = 'backport';
+
+/**
+ * Prefix of the branches created for backport PRs (followed by `<PR number>/<target branch>`).
+ */
+export const BACKPORT_BRANCH_PREFIX = 'backport/';
+
+/**
+ * Characters allowed in backport target branch names.
+ * Why: Targets are echoed into comments and refs, so anything beyond the usual
+ * branch name characters is rejected instead of escaped.
+ */
+export const BRANCH_NAME_REGEX = /^[\w./-]+$/;
+
+/**
+ * Version in a release branch name, after the release branch prefix (e.g. "v1.4.0", "1.4.0-rc.1").
+ * Captures major, minor, patch, and the optional pre-release identifier.
+ */
+export const RELEASE_VERSION_REGEX = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/;
+
+/**
+ * Release notes sections by Conventional Commits type, in display order.
+ * PRs of other types (or with non-conventional titles) are listed under "Other Changes".
+ */
+export const RELEASE_NOTES_SECTIONS = [
+  { title: 'Features', types: ['feat'] },
+  { title: 'Bug Fixes', types: ['fix'] },
+  { title: 'Performance Improvements', types: ['perf'] },
+] as const;
+
+/**
+ * Locations of the CODEOWNERS file, in the order GitHub looks for it; the first one found is used.
+ */
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'] as const;
+
+/**
+ * Minimum permission level required to cancel a pending request made by someone else.
+ */
+export const CANCEL_OTHERS_PERMISSION = 'maintain';
+
+/**
+ * Valid author associations that can use the /nylbot merge command.
+ * Why: Only trusted users with write access should be able to trigger merges.
+ * OWNER/MEMBER have org-level trust, COLLABORATOR has explicit repo access.
+ * CONTRIBUTOR and others may have submitted PRs but lack merge authority.
+ *
+ * Note: Command actors must pass BOTH author association and permission checks.
+ * Reviewers are validated using permission level only (see VALID_PERMISSIONS).
+ */
+export const VALID_AUTHOR_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'] as const;
+
+/**
+ * Valid permission levels that can use the /nylbot merge command.
+ * Why: Maps to GitHub's permission model - admin/maintain/write can merge PRs.
+ * Read-only users should not be able to trigger merges even if they can comment.
+ *
+ * Note: This check is used for both command actors (with author association check)
+ * and reviewers (permission-only check, as GitHub App tokens may return 'NONE'
+ * for author_association even for valid collaborators).
+ */
+export const VALID_PERMISSIONS = ['admin', 'maintain', 'write'] as const;
+
+/**
+ * Repository permission levels ordered from lowest to highest.
+ * Why: Some features (e.g. merge method override) require a configurable minimum level,
+ * which needs an ordering that the flat VALID_PERMISSIONS list does not express.
+ */
+export const PERMISSION_LEVELS = ['read', 'triage', 'write', 'maintain', 'admin'] as const;
+
+/**
+ * Common branch name prefixes that map to a Conventional Commits type other than their own name.
+ * Prefixes that already are a type (e.g. `feat/`, `fix/`) are used as is.
+ */
+export const BRANCH_TYPE_ALIASES: Readonly<Record<string, (typeof CONVENTIONAL_COMMIT_TYPES)[number]>> = {
+  feature: 'feat',
+  bugfix: 'fix',
+  hotfix: 'fix',
+  doc: 'docs',
+};
+
+/**
+ * Maximum number of title suggestions shown when the PR title is not conventional.
+ */
+export const TITLE_SUGGESTION_LIMIT = 3;
@@ -5,31 +5,79 @@
  * These functions handle API calls, data fetching, and mutations.
  */
 
-import type { Octokit, PullRequestData, ReviewsArray } from './types.js';
+import { GITHUB_ACTIONS_BOT_LOGIN, PERMISSION_LEVELS } from './constants.js';
+import type {
+  CommentRef,
+  CommitMessage,
+  GitCommitAuthor,
+  IssueCommentsArray,
+  MergeMethod,
+  Octokit,
+  PullRequestCommit,
+  PullRequestData,
+  ReviewsArray,
+} from './types.js';
+
+type Reaction = '+1' | '-1' | 'laugh' | 'confused' | 'heart' | 'hooray' | 'rocket' | 'eyes';
+
+/**
+ * GraphQL ReactionContent value of each REST reaction.
+ */
+const GRAPHQL_REACTIONS: Record<Reaction, string> = {
+  '+1': 'THUMBS_UP',
+  '-1': 'THUMBS_DOWN',
+  laugh: 'LAUGH',
+  confused: 'CONFUSED',
+  heart: 'HEART',
+  hooray: 'HOORAY',
+  rocket: 'ROCKET',
+  eyes: 'EYES',
+};
 
 /**
- * Adds a reaction to a comment.
+ * Adds a reaction to a comment or review.
+ * Why: Reviews have no REST reactions endpoint, so review reactions use the GraphQL addReaction mutation.
  *
  * @param octokit - GitHub API client
  * @param owner - Repository owner
  * @param repo - Repository name
- * @param commentId - Comment ID
+ * @param comment - Comment or review to react to
  * @param reaction - Reaction to add
  */
 export async function addReaction(
   octokit: Octokit,
   owner: string,
   repo: string,
-  commentId: number,
-  reaction: '+1' | '-1' | 'laugh' | 'confused' | 'heart' | 'hooray' | 'rocket' | 'eyes',
+  comment: CommentRef,
+  reaction: Reaction,
 ): Promise<void> {
   try {
-    await octokit.rest.reactions.createForIssueComment({
-      owner,
-      repo,
-      comment_id: commentId,
-      content: reaction,
-    });
+    if (comment.kind === 'review') {
+      const mutation = `
+        mutation($id: ID!, $content: ReactionContent!) {
+          addReaction(input: { subjectId: $id, content: $content }) {
+            reaction {
+              content
+            }
+          }
+        }
+      `;
+      await octokit.graphql(mutation, { id: comment.nodeId, content: GRAPHQL_REACTIONS[reaction] });
+    } else if (comment.kind === 'review_comment') {
+      await octokit.rest.reactions.createForPullRequestReviewComment({
+        owner,
+        repo,
+        comment_id: comment.id,
+        content: reaction,
+      });
+    } else {
+      await octokit.rest.reactions.createForIssueComment({
+        owner,
+        repo,
+        comment_id: comment.id,
+        content: reaction,
+      });
+    }
   } catch {
     // Silently fail - reaction may already exist
   }
@@ -59,8 +107,194 @@ export async function postComment(
   });
 }
 
+/**
+ * Replies to the comment or review that carried a command.
+ * Review comments are answered in their thread on the diff; comments, review summaries,
+ * and commands without a comment are answered in the PR conversation.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @param comment - Comment or review to reply to (null when the command had none)
+ * @param body - Reply body
+ */
+export async function postReply(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  comment: CommentRef | null,
+  body: string,
+): Promise<void> {
+  if (comment?.kind === 'review_comment') {
+    await octokit.rest.pulls.createReplyForReviewComment({
+      owner,
+      repo,
+      pull_number: prNumber,
+      comment_id: comment.id,
+      body,
+    });
+    return;
+  }
+  await postComment(octokit, owner, repo, prNumber, body);
+}
+
+/**
+ * Updates the body of an existing comment.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param commentId - Comment ID
+ * @param body - New comment body
+ */
+export async function updateComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  commentId: number,
+  body: string,
+): Promise<void> {
+  await octokit.rest.issues.updateComment({
+    owner,
+    repo,
+    comment_id: commentId,
+    body,
+  });
+}
+
+/**
+ * Fetches all comments on a PR in chronological order.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @returns Array of comments
+ */
+export async function fetchIssueComments(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+): Promise<IssueCommentsArray> {
+  return octokit.paginate(octokit.rest.issues.listComments, {
+    owner,
+    repo,
+    issue_number: prNumber,
+    per_page: 100,
+  });
+}
+
+/**
+ * Login of each client's account, looked up once per client (i.e. once per run).
+ */
+const authenticatedLogins = new WeakMap<Octokit, Promise<string>>();
+
+/**
+ * Fetches the login of the account the token acts as (e.g. `github-actions[bot]`).
+ * Why: REST `GET /user` rejects installation tokens, while the GraphQL viewer of an
+ * installation token is the app's bot account.
+ *
+ * @param octokit - GitHub API client
+ * @returns Login of the token's account, or `github-actions[bot]` if it cannot be read
+ */
+export async function fetchAuthenticatedLogin(octokit: Octokit): Promise<string> {
+  let login = authenticatedLogins.get(octokit);
+  if (login === undefined) {
+    login = octokit.graphql<{ viewer?: { login?: string } }>('query { viewer { login } }').then(
+      (response) => response.viewer?.login ?? GITHUB_ACTIONS_BOT_LOGIN,
+      () => GITHUB_ACTIONS_BOT_LOGIN,
+    );
+    authenticatedLogins.set(octokit, login);
+  }
+  return login;
+}
+
+/**
+ * Adds a label to a PR.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @param label - Label name (created by GitHub if it does not exist)
+ */
+export async function addLabel(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  label: string,
+): Promise<void> {
+  await octokit.rest.issues.addLabels({
+    owner,
+    repo,
+    issue_number: prNumber,
+    labels: [label],
+  });
+}
+
+/**
+ * Removes a label from a PR.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @param label - Label name
+ */
+export async function removeLabel(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  label: string,
+): Promise<void> {
+  try {
+    await octokit.rest.issues.removeLabel({
+      owner,
+      repo,
+      issue_number: prNumber,
+      name: label,
+    });
+  } catch {
+    // Silently fail - label may already be removed
+  }
+}
+
+/**
+ * Lists the numbers of open PRs that have a label.
+ * Why: The issues API supports label filtering, unlike the pulls list API.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param label - Label name
+ * @returns PR numbers (issues without a pull_request field are excluded)
+ */
+export async function listOpenPullRequestNumbersWithLabel(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  label: string,
+): Promise<number[]> {
+  const issues = await octokit.paginate(octokit.rest.issues.listForRepo, {
+    owner,
+    repo,
+    state: 'open',
+    labels: label,
+    per_page: 100,
+  });
+  return issues.filter((issue) => issue.pull_request !== undefined).map((issue) => issue.number);
+}
+
 /**
  * Gets the collaborator permission level for a user.
+ * Why: The legacy `permission` field reports maintain as "write" and triage as "read".
+ * `role_name` is preferred when it is a built-in level so maintain-level checks work;
+ * custom repository roles fall back to `permission`.
  *
  * @param octokit - GitHub API client
  * @param owner - Repository owner
@@ -80,12 +314,69 @@ export async function getCollaboratorPermission(
       repo,
       username,
     });
-    return response.data.permission;
+    const roleName = response.data.role_name;
+    return (PERMISSION_LEVELS as readonly string[]).includes(roleName) ? roleName : response.data.permission;
   } catch {
     return 'none';
   }
 }
 
+/**
+ * Team memberships read by each client, keyed by `org/team:user` (i.e. once per run).
+ * Shared by the authorization policy and the CODEOWNERS check.
+ */
+const teamMemberships = new WeakMap<Octokit, Map<string, Promise<boolean>>>();
+
+/**
+ * Checks whether a user is an active member of an organization team.
+ * Why: The membership endpoint answers 404 both for non-members and for teams the token
+ * cannot see (e.g. `GITHUB_TOKEN`, or a token without `read:org`). Reading the team itself
+ * tells the two apart, so a token problem is reported instead of looking like a denial.
+ * Each membership is read once per client; later calls reuse the answer or the error.
+ *
+ * @param octokit - GitHub API client
+ * @param org - Organization login
+ * @param teamSlug - Team slug (e.g., "release-managers")
+ * @param username - Username to check
+ * @returns true if the user is an active member (pending invitations do not count)
+ * @throws Error if the team or its membership cannot be read
+ */
+export async function isTeamMember(
+  octokit: Octokit,
+  org: string,
+  teamSlug: string,
+  username: string,
+): Promise<boolean> {
+  let memberships = teamMemberships.get(octokit);
+  if (memberships === undefined) {
+    memberships = new Map();
+    teamMemberships.set(octokit, memberships);
+  }
+  const key = `${org}/${teamSlug}:${username}`.toLowerCase();
+  let isMember = memberships.get(key);
+  if (isMember === undefined) {
+    isMember = readTeamMembership(octokit, org, teamSlug, username);
+    memberships.set(key, isMember);
+  }
+  return isMember;
+}
+
+/**
+ * Reads whether a user is an active member of a team (see {@link isTeamMember}).
+ */
+async function readTeamMembership(octokit: Octokit, org: string, teamSlug: string, username: string): Promise<boolean> {
+  try {
+    const response = await octokit.rest.teams.getMembershipForUserInOrg({ org, team_slug: teamSlug, username });
+    return response.data.state === 'active';
+  } catch (error) {
+    if (!(typeof error === 'object' && error !== null && 'status' in error && error.status === 404)) {
+      throw error;
+    }
+  }
+  await octokit.rest.teams.getByName({ org, team_slug: teamSlug });
+  return false;
+}
+
 /**
  * Fetches PR data from GitHub API.
  *
@@ -125,6 +416,8 @@ export async function fetchPullRequestData(
     author: pr.user?.login ?? 'unknown',
     isFork,
     title: pr.title,
+    mergeCommitSha: pr.merge_commit_sha ?? null,
+    nodeId: pr.node_id,
   };
 }
 
@@ -265,7 +558,7 @@ export async function fetchPullRequestCommits(
   owner: string,
   repo: string,
   prNumber: number,
-): Promise<Array<{ commit: { message: string; author?: { name?: string; email?: string } | null } }>> {
+): Promise<PullRequestCommit[]> {
   const commits = await octokit.paginate(octokit.rest.pulls.listCommits, {
     owner,
     repo,
@@ -275,6 +568,69 @@ export async function fetchPullRequestCommits(
   return commits;
 }
 
+/**
+ * Fetches the paths of the files changed in a PR.
+ * Why: The files API lists at most 3000 files per PR; larger PRs are rare enough to accept the limit.
+ * A renamed file is listed under both paths, so moving a file out of an owned path still needs
+ * its owners' approval (as on GitHub).
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @returns Changed file paths (for renames, the new path followed by the previous one)
+ */
+export async function fetchPullRequestFiles(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+): Promise<string[]> {
+  const files = await octokit.paginate(octokit.rest.pulls.listFiles, {
+    owner,
+    repo,
+    pull_number: prNumber,
+    per_page: 100,
+  });
+  return files.flatMap((file) =>
+    file.previous_filename === undefined ? [file.filename] : [file.filename, file.previous_filename],
+  );
+}
+
+/**
+ * Fetches the text of a file on a branch.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param path - File path from the repository root
+ * @param ref - Branch, tag, or commit SHA to read the file from
+ * @returns File content, or null if there is no file at the path
+ * @throws Error on API failures other than 404 Not Found
+ */
+export async function fetchFileContent(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string,
+): Promise<string | null> {
+  try {
+    const response = await octokit.rest.repos.getContent({ owner, repo, path, ref });
+    const { data } = response;
+    // Directories come back as arrays, and symlinks and submodules have no content
+    if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+      return null;
+    }
+    return Buffer.from(data.content, 'base64').toString('utf8');
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'status' in error && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
 /**
  * Performs the merge operation.
  *
@@ -282,10 +638,9 @@ export async function fetchPullRequestCommits(
  * @param owner - Repository owner
  * @param repo - Repository name
  * @param prNumber - PR number
- * @param method - Merge method (squash or merge)
+ * @param method - Merge method (squash, merge, or rebase)
  * @param sha - Expected head SHA for TOCTOU check
- * @param commitTitle - Explicit commit title (first line of commit message)
- * @param commitMessage - Explicit commit message body (lines after the title and blank line)
+ * @param commitMessage - Explicit commit title and body, or null to omit them (rebase)
  * @returns Object containing success status, error message, and merge commit SHA
  */
 export async function mergePullRequest(
@@ -293,10 +648,9 @@ export async function mergePullRequest(
   owner: string,
   repo: string,
   prNumber: number,
-  method: 'squash' | 'merge',
+  method: MergeMethod,
   sha: string,
-  commitTitle: string,
-  commitMessage: string,
+  commitMessage: CommitMessage | null,
 ): Promise<{ success: boolean; error?: string; mergeCommitSha?: string }> {
   try {
     const response = await octokit.rest.pulls.merge({
@@ -305,8 +659,7 @@ export async function mergePullRequest(
       pull_number: prNumber,
       merge_method: method,
       sha,
-      commit_title: commitTitle,
-      commit_message: commitMessage,
+      ...(commitMessage && { commit_title: commitMessage.title, commit_message: commitMessage.body }),
     });
     return { success: true, mergeCommitSha: response.data.sha };
   } catch (error) {
@@ -314,3 +667,556 @@ export async function mergePullRequest(
     return { success: false, error: message };
   }
 }
+
+/**
+ * Updates a PR's head branch with the latest base branch (GitHub's "Update branch" button).
+ * Why: `expected_head_sha` makes GitHub reject the update if HEAD moved since it was fetched,
+ * the same TOCTOU protection as the `sha` parameter of the merge API.
+ * Note: GitHub performs the update asynchronously; the new HEAD appears shortly after.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @param expectedHeadSha - HEAD SHA the update is based on
+ * @returns Object containing success status and error message
+ */
+export async function updatePullRequestBranch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  expectedHeadSha: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await octokit.rest.pulls.updateBranch({
+      owner,
+      repo,
+      pull_number: prNumber,
+      expected_head_sha: expectedHeadSha,
+    });
+    return { success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Changes the title of a PR.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @param title - New title
+ * @returns Object containing success status and error message
+ */
+export async function updatePullRequestTitle(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  title: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await octokit.rest.pulls.update({
+      owner,
+      repo,
+      pull_number: prNumber,
+      title,
+    });
+    return { success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Marks a draft PR as ready for review.
+ * Why: The REST API cannot change the draft state; only the GraphQL mutation can.
+ *
+ * @param octokit - GitHub API client
+ * @param nodeId - GraphQL node ID of the PR
+ * @returns Object containing success status and error message
+ */
+export async function markPullRequestReadyForReview(
+  octokit: Octokit,
+  nodeId: string,
+): Promise<{ success: boolean; error?: string }> {
+  const mutation = `
+    mutation($id: ID!) {
+      markPullRequestReadyForReview(input: { pullRequestId: $id }) {
+        pullRequest {
+          isDraft
+        }
+      }
+    }
+  `;
+  try {
+    await octokit.graphql(mutation, { id: nodeId });
+    return { success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Fetches the parent SHAs of a commit.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param sha - Commit SHA
+ * @returns Parent SHAs in order (first parent first)
+ */
+export async function fetchCommitParents(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  sha: string,
+): Promise<string[]> {
+  const response = await octokit.rest.git.getCommit({
+    owner,
+    repo,
+    commit_sha: sha,
+  });
+  return response.data.parents.map((parent) => parent.sha);
+}
+
+/**
+ * Fetches the fields of a commit needed to replay it with the Git Data API.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param sha - Commit SHA
+ * @returns Tree SHA, parent SHAs (first parent first), message, and author of the commit
+ */
+export async function fetchCommit(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  sha: string,
+): Promise<{ treeSha: string; parents: string[]; message: string; author: GitCommitAuthor }> {
+  const response = await octokit.rest.git.getCommit({
+    owner,
+    repo,
+    commit_sha: sha,
+  });
+  const { tree, parents, message, author } = response.data;
+  return {
+    treeSha: tree.sha,
+    parents: parents.map((parent) => parent.sha),
+    message,
+    author: { name: author.name, email: author.email, date: author.date },
+  };
+}
+
+/**
+ * Fetches the commit SHA a ref points to.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param ref - Ref name without `refs/` (e.g., "heads/main")
+ * @returns Commit SHA, or null if the ref does not exist
+ */
+export async function fetchRefSha(octokit: Octokit, owner: string, repo: string, ref: string): Promise<string | null> {
+  try {
+    const response = await octokit.rest.git.getRef({
+      owner,
+      repo,
+      ref,
+    });
+    return response.data.object.sha;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetches the commit SHA a branch points to.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param branch - Branch name (without `refs/heads/`)
+ * @returns Commit SHA, or null if the branch does not exist
+ */
+export async function fetchBranchSha(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+): Promise<string | null> {
+  return fetchRefSha(octokit, owner, repo, `heads/${branch}`);
+}
+
+/**
+ * Creates a commit object without moving any branch.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param commit - Message, tree SHA, parent SHAs, and optional author (defaults to the token's user)
+ * @returns SHA of the new commit
+ */
+export async function createCommit(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  commit: { message: string; treeSha: string; parents: string[]; author?: GitCommitAuthor },
+): Promise<string> {
+  const response = await octokit.rest.git.createCommit({
+    owner,
+    repo,
+    message: commit.message,
+    tree: commit.treeSha,
+    parents: commit.parents,
+    ...(commit.author && { author: commit.author }),
+  });
+  return response.data.sha;
+}
+
+/**
+ * Creates a branch pointing to a commit.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param branch - Branch name (without `refs/heads/`)
+ * @param sha - Commit SHA
+ */
+export async function createBranch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  sha: string,
+): Promise<void> {
+  await octokit.rest.git.createRef({
+    owner,
+    repo,
+    ref: `refs/heads/${branch}`,
+    sha,
+  });
+}
+
+/**
+ * Creates a ref unless it already exists.
+ * Why: Ref creation is atomic on GitHub, so only one of several concurrent runs succeeds.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param ref - Ref name without `refs/` (e.g., "nylbot/merge-queue-lock/main")
+ * @param sha - Commit SHA
+ * @returns true if the ref was created, false if it already existed
+ * @throws Error if the ref cannot be created for another reason
+ */
+export async function createRefIfAbsent(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string,
+  sha: string,
+): Promise<boolean> {
+  try {
+    await octokit.rest.git.createRef({
+      owner,
+      repo,
+      ref: `refs/${ref}`,
+      sha,
+    });
+    return true;
+  } catch (error) {
+    // 422 Unprocessable Entity is GitHub's response to "Reference already exists"
+    if (typeof error === 'object' && error !== null && 'status' in error && error.status === 422) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Moves a ref to a commit, even if the commit does not descend from the current one.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param ref - Ref name without `refs/` (e.g., "heads/main")
+ * @param sha - Commit SHA
+ */
+export async function forceUpdateRef(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string,
+  sha: string,
+): Promise<void> {
+  await octokit.rest.git.updateRef({
+    owner,
+    repo,
+    ref,
+    sha,
+    force: true,
+  });
+}
+
+/**
+ * Moves a branch to a commit, even if the commit does not descend from the current one.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param branch - Branch name (without `refs/heads/`)
+ * @param sha - Commit SHA
+ */
+export async function forceUpdateBranch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  sha: string,
+): Promise<void> {
+  await forceUpdateRef(octokit, owner, repo, `heads/${branch}`, sha);
+}
+
+/**
+ * Deletes a ref.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param ref - Ref name without `refs/` (e.g., "heads/feature")
+ */
+export async function deleteRef(octokit: Octokit, owner: string, repo: string, ref: string): Promise<void> {
+  try {
+    await octokit.rest.git.deleteRef({
+      owner,
+      repo,
+      ref,
+    });
+  } catch {
+    // Silently fail - refs are only cleaned up on a best-effort basis
+  }
+}
+
+/**
+ * Deletes a branch.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param branch - Branch name (without `refs/heads/`)
+ */
+export async function deleteBranch(octokit: Octokit, owner: string, repo: string, branch: string): Promise<void> {
+  await deleteRef(octokit, owner, repo, `heads/${branch}`);
+}
+
+/**
+ * Merges a commit into a branch on the server (the repository merges API).
+ * Why: The Git Data API cannot compute a three-way merge; this endpoint is the only
+ * server-side way to combine two trees without a local clone.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param branch - Branch to merge into (without `refs/heads/`)
+ * @param sha - Commit SHA to merge
+ * @param message - Message of the merge commit
+ * @returns Object containing success status, the merged tree SHA, and whether the merge conflicted
+ */
+export async function mergeIntoBranch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  sha: string,
+  message: string,
+): Promise<{ success: boolean; treeSha?: string; conflict?: boolean; error?: string }> {
+  try {
+    const response = await octokit.rest.repos.merge({
+      owner,
+      repo,
+      base: branch,
+      head: sha,
+      commit_message: message,
+    });
+    return { success: true, treeSha: response.data.commit.tree.sha };
+  } catch (error) {
+    // 409 Conflict is GitHub's response to a merge conflict
+    if (typeof error === 'object' && error !== null && 'status' in error && error.status === 409) {
+      return { success: false, conflict: true };
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Opens a pull request.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param pullRequest - Title, body, head branch, and base branch
+ * @returns Number of the new PR
+ */
+export async function createPullRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullRequest: { title: string; body: string; head: string; base: string },
+): Promise<number> {
+  const response = await octokit.rest.pulls.create({
+    owner,
+    repo,
+    ...pullRequest,
+  });
+  return response.data.number;
+}
+
+/**
+ * Lists the tag names in a repository.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @returns Tag names with the commits they point to
+ */
+export async function listTags(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+): Promise<{ name: string; commitSha: string }[]> {
+  const tags = await octokit.paginate(octokit.rest.repos.listTags, {
+    owner,
+    repo,
+    per_page: 100,
+  });
+  return tags.map((tag) => ({ name: tag.name, commitSha: tag.commit.sha }));
+}
+
+/**
+ * Lists the commits reachable from `head` but not from `base`.
+ * Why: The compare endpoint is paged by hand, since its response is an object rather than a list.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param base - Base commit SHA or ref
+ * @param head - Head commit SHA or ref
+ * @returns Commit SHAs, oldest first
+ */
+export async function fetchComparedCommitShas(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string,
+): Promise<string[]> {
+  const shas: string[] = [];
+  for (let page = 1; ; page++) {
+    const response = await octokit.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${base}...${head}`,
+      per_page: 100,
+      page,
+    });
+    shas.push(...response.data.commits.map((commit) => commit.sha));
+    if (response.data.commits.length === 0 || shas.length >= response.data.total_commits) {
+      return shas;
+    }
+  }
+}
+
+/**
+ * Lists the merged PRs that contain a commit.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param sha - Commit SHA
+ * @returns Number, title, and merge commit SHA of each merged PR
+ */
+export async function fetchMergedPullRequestsForCommit(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  sha: string,
+): Promise<{ number: number; title: string; mergeCommitSha: string | null }[]> {
+  const response = await octokit.rest.repos.listPullRequestsAssociatedWithCommit({
+    owner,
+    repo,
+    commit_sha: sha,
+    per_page: 100,
+  });
+  return response.data
+    .filter((pr) => pr.merged_at !== null)
+    .map((pr) => ({ number: pr.number, title: pr.title, mergeCommitSha: pr.merge_commit_sha }));
+}
+
+/**
+ * Creates an annotated tag object and the tag ref pointing to it.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param tag - Tag name (without `refs/tags/`)
+ * @param sha - Commit SHA to tag
+ * @param message - Tag message
+ */
+export async function createAnnotatedTag(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  tag: string,
+  sha: string,
+  message: string,
+): Promise<void> {
+  const response = await octokit.rest.git.createTag({
+    owner,
+    repo,
+    tag,
+    message,
+    object: sha,
+    type: 'commit',
+  });
+  await octokit.rest.git.createRef({
+    owner,
+    repo,
+    ref: `refs/tags/${tag}`,
+    sha: response.data.sha,
+  });
+}
+
+/**
+ * Creates a draft GitHub Release for an existing tag.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param release - Tag name, release name, and release notes
+ * @returns Web URL of the draft release
+ */
+export async function createDraftRelease(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  release: { tag: string; name: string; body: string },
+): Promise<string> {
+  const response = await octokit.rest.repos.createRelease({
+    owner,
+    repo,
+    tag_name: release.tag,
+    name: release.name,
+    body: release.body,
+    draft: true,
+  });
+  return response.data.html_url;
+}
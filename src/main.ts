@@ -19,6 +19,17 @@ import * as core from '@actions/core';
 import * as github from '@actions/github';
 
 import { executeAction, buildSummaryMarkdown } from './action.js';
+import { parseAuthorizationPolicy } from './authorization.js';
+import {
+  BOT_NAME_REGEX,
+  COMMAND_PREFIX_REGEX,
+  COMMENT_KINDS,
+  DEFAULT_BOT_NAME,
+  DEFAULT_COMMAND_PREFIX,
+  DEFAULT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  VALID_PERMISSIONS,
+} from './constants.js';
 import type {
   ActionConfig,
   EventContext,
@@ -27,6 +38,7 @@ import type {
   ActionsCore,
   GitHubContext,
 } from './types.js';
+import { hasValidPermission, isSupportedLanguage } from './validation.js';
 
 /**
  * Resolves runtime environment configuration.
@@ -92,38 +104,163 @@ function parseConfig(core: ActionsCore): ActionConfig {
     );
   }
 
+  // Validate method override permission: must be a level that can also run /nylbot merge
+  const methodOverridePermission = core.getInput('method-override-permission') || 'maintain';
+  if (!hasValidPermission(methodOverridePermission)) {
+    throw new Error(
+      `Invalid method-override-permission: "${methodOverridePermission}". Must be one of: ${VALID_PERMISSIONS.join(', ')}.`,
+    );
+  }
+
+  // Rules are checked on top of the default association and write-permission checks
+  const authorizationPolicy = parseAuthorizationPolicy(core.getInput('authorization-policy'));
+
+  // Validate merge queue switch: must be a boolean string
+  const mergeQueueInput = core.getInput('merge-queue') || 'false';
+  if (mergeQueueInput !== 'true' && mergeQueueInput !== 'false') {
+    throw new Error(`Invalid merge-queue: "${mergeQueueInput}". Must be "true" or "false".`);
+  }
+
+  // Validate back-merge switch: must be a boolean string
+  const backMergeInput = core.getInput('back-merge') || 'false';
+  if (backMergeInput !== 'true' && backMergeInput !== 'false') {
+    throw new Error(`Invalid back-merge: "${backMergeInput}". Must be "true" or "false".`);
+  }
+
+  // Validate create-release switch: must be a boolean string
+  const createReleaseInput = core.getInput('create-release') || 'false';
+  if (createReleaseInput !== 'true' && createReleaseInput !== 'false') {
+    throw new Error(`Invalid create-release: "${createReleaseInput}". Must be "true" or "false".`);
+  }
+
+  // Validate require-code-owner-approval switch: must be a boolean string
+  const requireCodeOwnerApprovalInput = core.getInput('require-code-owner-approval') || 'false';
+  if (requireCodeOwnerApprovalInput !== 'true' && requireCodeOwnerApprovalInput !== 'false') {
+    throw new Error(
+      `Invalid require-code-owner-approval: "${requireCodeOwnerApprovalInput}". Must be "true" or "false".`,
+    );
+  }
+
+  // Validate command prefix and bot name: both end up in regexes and @mentions
+  const commandPrefix = core.getInput('command-prefix') || DEFAULT_COMMAND_PREFIX;
+  if (!COMMAND_PREFIX_REGEX.test(commandPrefix)) {
+    throw new Error(
+      `Invalid command-prefix: "${commandPrefix}". Must be a slash followed by lowercase letters, digits, or hyphens (e.g. "/nylbot").`,
+    );
+  }
+  const botName = core.getInput('bot-name') || DEFAULT_BOT_NAME;
+  if (!BOT_NAME_REGEX.test(botName)) {
+    throw new Error(`Invalid bot-name: "${botName}". Must contain only letters, digits, or hyphens (e.g. "nylbot").`);
+  }
+
+  const language = core.getInput('language') || DEFAULT_LANGUAGE;
+  if (!isSupportedLanguage(language)) {
+    throw new Error(`Invalid language: "${language}". Must be one of: ${SUPPORTED_LANGUAGES.join(', ')}.`);
+  }
+
+  // Comma-separated list; blank entries are ignored so trailing commas are harmless
+  const rebaseBaseBranches = (core.getInput('rebase-base-branches') || '')
+    .split(',')
+    .map((branch) => branch.trim())
+    .filter((branch) => branch !== '');
+
   return {
     releaseBranchPrefix: core.getInput('release-branch-prefix') || 'release/',
     developBranch: core.getInput('develop-branch') || 'develop',
     syncBranchPrefix: core.getInput('sync-branch-prefix') || 'fix/sync/',
     mergeableRetryCount,
     mergeableRetryInterval,
+    rebaseBaseBranches,
+    methodOverridePermission,
+    authorizationPolicy,
+    autoMergeLabel: core.getInput('auto-merge-label') || 'nylbot:auto-merge',
+    mergeQueue: mergeQueueInput === 'true',
+    mergeQueueLabel: core.getInput('merge-queue-label') || 'nylbot:merge-queue',
+    mergeLabel: core.getInput('merge-label'),
+    backMerge: backMergeInput === 'true',
+    createRelease: createReleaseInput === 'true',
+    requireCodeOwnerApproval: requireCodeOwnerApprovalInput === 'true',
+    commandPrefix,
+    botName,
+    language,
   };
 }
 
+/**
+ * Parses the `pr-number` and `merge-flags` inputs of a workflow_dispatch run into the
+ * command it runs.
+ * Why: A dispatch has no comment; the `<command-prefix> merge <merge-flags>` line goes through
+ * the same parsing and permission checks as a comment command.
+ *
+ * @param core - ActionsCore interface for reading inputs
+ * @param config - Validated action configuration (command prefix)
+ * @returns PR number and command line to run
+ * @throws Error if pr-number is missing or not a positive integer
+ */
+function parseDispatchInputs(core: ActionsCore, config: ActionConfig): { prNumber: number; commandLine: string } {
+  const prNumberInput = core.getInput('pr-number');
+  if (!/^[1-9]\d*$/.test(prNumberInput)) {
+    throw new Error(
+      `Invalid pr-number: "${prNumberInput}". Must be a positive integer (required for workflow_dispatch).`,
+    );
+  }
+  // Why: A command is a single line; line breaks in a multi-line input would cut off the flags after them
+  const flags = core.getInput('merge-flags').replace(/\s+/g, ' ');
+  return { prNumber: Number(prNumberInput), commandLine: `${config.commandPrefix} merge ${flags}`.trimEnd() };
+}
+
 /**
  * Builds event context from GitHub context payload.
  *
  * @param context - GitHub context from actions/github
  * @param env - Runtime environment configuration
+ * @param dispatch - PR number and command line of a workflow_dispatch run; null for other events
  * @returns Event context for action execution
  */
-function buildEventContext(context: GitHubContext, env: RuntimeEnvironment): EventContext {
+function buildEventContext(
+  context: GitHubContext,
+  env: RuntimeEnvironment,
+  dispatch: { prNumber: number; commandLine: string } | null,
+): EventContext {
   const payload = context.payload;
+  // Review events carry the command in the review body; review comment events use `comment` like issue comments
+  const source = payload.comment ?? payload.review;
+  const review = payload.review;
 
   return {
     owner: context.repo.owner,
     repo: context.repo.repo,
-    prNumber: payload.issue?.number ?? 0,
-    commentId: payload.comment?.id ?? 0,
-    commentBody: payload.comment?.body ?? '',
+    prNumber: dispatch?.prNumber ?? payload.issue?.number ?? payload.pull_request?.number ?? 0,
+    comment:
+      source?.id === undefined
+        ? null
+        : {
+            kind: COMMENT_KINDS[context.eventName] ?? 'issue_comment',
+            id: source.id,
+            nodeId: source.node_id ?? '',
+          },
+    commentBody: dispatch?.commandLine ?? source?.body ?? '',
     actor: context.actor,
-    userType: payload.comment?.user?.type ?? 'User',
-    authorAssociation: payload.comment?.author_association ?? 'NONE',
+    // Why: Events without a comment or review (e.g. `labeled`) only carry the user type in `sender`
+    userType: source?.user?.type ?? payload.sender?.type ?? 'User',
+    authorAssociation: source?.author_association ?? 'NONE',
     serverUrl: env.serverUrl,
     runId: context.runId,
     eventName: context.eventName,
-    isPullRequest: !!payload.issue?.pull_request,
+    eventAction: payload.action ?? null,
+    previousCommentBody: payload.changes?.body?.from ?? null,
+    isPullRequest: dispatch !== null || !!payload.issue?.pull_request || payload.pull_request !== undefined,
+    eventSha: payload.check_suite?.head_sha ?? payload.sha ?? null,
+    review:
+      review?.id === undefined
+        ? null
+        : {
+            id: review.id,
+            state: (review.state ?? '').toUpperCase(),
+            commit_id: review.commit_id ?? null,
+            user: review.user?.login === undefined ? null : { login: review.user.login },
+          },
+    label: payload.label?.name ?? null,
   };
 }
 
@@ -137,7 +274,8 @@ export async function run(deps: RunDependencies = createProductionDependencies()
   try {
     const token = deps.core.getInput('token', { required: true });
     const config = parseConfig(deps.core);
-    const context = buildEventContext(deps.context, deps.env);
+    const dispatch = deps.context.eventName === 'workflow_dispatch' ? parseDispatchInputs(deps.core, config) : null;
+    const context = buildEventContext(deps.context, deps.env, dispatch);
     const octokit = deps.getOctokit(token);
 
     const result = await executeAction(octokit, context, config);
@@ -146,6 +284,13 @@ export async function run(deps: RunDependencies = createProductionDependencies()
     if (result.mergeMethod) {
       deps.core.setOutput('merge-method', result.mergeMethod);
     }
+    if (result.releaseTag !== undefined && result.tagUrl !== undefined) {
+      deps.core.setOutput('release-tag', result.releaseTag);
+      deps.core.setOutput('tag-url', result.tagUrl);
+    }
+    if (result.releaseUrl !== undefined) {
+      deps.core.setOutput('release-url', result.releaseUrl);
+    }
 
     const resultEmoji = {
       merged: '✅ Merged successfully',
@@ -154,7 +299,13 @@ export async function run(deps: RunDependencies = createProductionDependencies()
       already_merged: 'ℹ️ Already merged',
     }[result.status];
 
-    const summaryMarkdown = buildSummaryMarkdown(resultEmoji, context.prNumber, context.actor, result.mergeMethod);
+    const summaryMarkdown = buildSummaryMarkdown(
+      config.botName,
+      resultEmoji,
+      context.prNumber,
+      context.actor,
+      result.mergeMethod,
+    );
     await deps.core.summary.addRaw(summaryMarkdown).write();
 
     deps.core.info(`nylbot-merge result: ${result.status} - ${result.message}`);
@@ -0,0 +1,137 @@
+/**
+ * markers.ts - Hidden marker comments for persisting nylbot state on PRs
+ *
+ * nylbot runs are stateless, so state that must survive between runs (e.g. a pending
+ * auto-merge request) is stored in PR comments as hidden HTML comments:
+ *
+ *   <!-- nylbot:auto-merge {"actor":"alice","headSha":"abc123"} -->
+ *
+ * All functions are pure; reading and writing comments is done by the callers via github-api.
+ */
+
+import type { IssueCommentsArray } from './types.js';
+
+/**
+ * Finds the marker of the given kind that ends a comment body.
+ *
+ * Why: nylbot always appends its marker at the end of the comments it posts, while
+ * user text (e.g. a quoted flag value or commit subject) only ever appears before it.
+ * Taking the last match and requiring nothing but whitespace after it keeps a marker
+ * copied into the visible text from being read as nylbot's state.
+ *
+ * @param body - Comment body
+ * @param kind - Marker kind (e.g., "auto-merge")
+ * @returns Start index and JSON payload of the trailing marker, or null if absent
+ */
+function findTrailingMarker(body: string, kind: string): { index: number; json: string } | null {
+  const escapedKind = kind.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = [...body.matchAll(new RegExp(`<!-- nylbot:${escapedKind} (\\{.*?\\}) -->`, 'g'))].at(-1);
+  if (match?.[1] === undefined || body.slice(match.index + match[0].length).trim() !== '') {
+    return null;
+  }
+  return { index: match.index, json: match[1] };
+}
+
+/**
+ * Builds a hidden marker to embed in a comment body.
+ *
+ * @param kind - Marker kind (e.g., "auto-merge")
+ * @param data - String fields to persist
+ * @returns HTML comment holding the data as JSON
+ */
+export function buildMarker(kind: string, data: Record<string, string>): string {
+  // Why: Values may hold user text (e.g. a commit message); escaping "<" and ">" keeps it from
+  // ending the comment early or holding a marker of its own
+  return `<!-- nylbot:${kind} ${JSON.stringify(data).replace(/</g, '\\u003c').replace(/>/g, '\\u003e')} -->`;
+}
+
+/**
+ * Escapes the start of HTML comments in user text that nylbot repeats in a comment, so the
+ * text is shown as typed and can never hold a marker (e.g. `--sha "<!-- nylbot:... -->"`).
+ *
+ * @param text - User-supplied text
+ * @returns Text with every `<!--` escaped as `&lt;!--`
+ */
+export function escapeHtmlComments(text: string): string {
+  return text.replaceAll('<!--', '&lt;!--');
+}
+
+/**
+ * Parses the marker of the given kind that ends a comment body.
+ *
+ * @param body - Comment body
+ * @param kind - Marker kind to look for
+ * @returns Parsed marker data, or null if absent, not at the end, or malformed
+ */
+export function parseMarker(body: string, kind: string): Record<string, unknown> | null {
+  const marker = findTrailingMarker(body, kind);
+  if (!marker) {
+    return null;
+  }
+  try {
+    const data: unknown = JSON.parse(marker.json);
+    return typeof data === 'object' && data !== null && !Array.isArray(data) ? (data as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Removes the marker of the given kind from the end of a comment body, leaving the visible text.
+ *
+ * @param body - Comment body
+ * @param kind - Marker kind to remove
+ * @returns Comment body without the marker
+ */
+export function stripMarker(body: string, kind: string): string {
+  const marker = findTrailingMarker(body, kind);
+  return marker ? body.slice(0, marker.index).trimEnd() : body;
+}
+
+/**
+ * Finds every marker of the given kind in a PR's comments.
+ *
+ * Why: Only comments posted by nylbot's own account are trusted. Anyone who can comment
+ * on the PR, including other apps, could otherwise forge a marker (e.g. claim a request
+ * was made by an admin).
+ *
+ * @param comments - PR comments in chronological order
+ * @param kind - Marker kind to look for
+ * @param botLogin - Login of the account nylbot posts as (see fetchAuthenticatedLogin)
+ * @returns Comment ID, body, and parsed data of each marker, in chronological order
+ */
+export function findMarkers(
+  comments: IssueCommentsArray,
+  kind: string,
+  botLogin: string,
+): Array<{ commentId: number; body: string; data: Record<string, unknown> }> {
+  const markers: Array<{ commentId: number; body: string; data: Record<string, unknown> }> = [];
+  for (const comment of comments) {
+    if (comment.user?.login !== botLogin || !comment.body) {
+      continue;
+    }
+    // Only the marker that ends the comment counts (see findTrailingMarker)
+    const data = parseMarker(comment.body, kind);
+    if (data) {
+      markers.push({ commentId: comment.id, body: comment.body, data });
+    }
+  }
+  return markers;
+}
+
+/**
+ * Finds the most recent marker of the given kind in a PR's comments.
+ * Only comments posted by nylbot are trusted (see findMarkers).
+ *
+ * @param comments - PR comments in chronological order
+ * @param kind - Marker kind to look for
+ * @param botLogin - Login of the account nylbot posts as
+ * @returns Comment ID, body, and parsed data of the latest marker, or null if none
+ */
+export function findLatestMarker(
+  comments: IssueCommentsArray,
+  kind: string,
+  botLogin: string,
+): { commentId: number; body: string; data: Record<string, unknown> } | null {
+  return findMarkers(comments, kind, botLogin).at(-1) ?? null;
+}
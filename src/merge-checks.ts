@@ -0,0 +1,261 @@
+/**
+ * merge-checks.ts - Merge checklist evaluation for nylbot commands
+ *
+ * This module builds the merge checklist shared by commands that need to know
+ * whether a PR can be merged (e.g. `merge` and `status`). It gathers data via
+ * github-api and delegates pure decisions to validation.
+ */
+
+import * as core from '@actions/core';
+
+import { fetchEquivalentHeadShas } from './branch-update.js';
+import { evaluateCodeOwnerApproval } from './codeowners.js';
+import {
+  getCollaboratorPermission,
+  fetchApprovedReviews,
+  dismissReview,
+  countUnresolvedThreads,
+  fetchPullRequestCommits,
+} from './github-api.js';
+import { formatMessage } from './messages.js';
+import type {
+  ActionConfig,
+  CheckResult,
+  MergeCheckEvaluation,
+  Octokit,
+  PullRequestData,
+  ReviewsArray,
+  SubmittedReview,
+} from './types.js';
+import {
+  hasValidPermission,
+  validatePRState,
+  determineMergeMethod,
+  getMergeableStateDescription,
+  isConventionalCommitTitle,
+  suggestConventionalTitles,
+} from './validation.js';
+
+/**
+ * Evaluates every merge check for a PR and selects the merge method.
+ *
+ * Stale approvals (not on the current HEAD) never count as valid approvals.
+ * An approval on a HEAD that nylbot itself later updated with the base branch
+ * (see branch-update.ts) is not stale.
+ * They are dismissed only when `dismissStaleReviews` is true; read-only callers
+ * (status, dry run) receive them in `staleApprovals` instead.
+ * An approving `submittedReview` (the review that carried the command) counts even
+ * if the reviews API does not list it yet.
+ * With `require-code-owner-approval`, the valid approvals must also cover the code owners
+ * of every changed file (see codeowners.ts).
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @param prData - Pull request data fetched for this run
+ * @param config - Configuration options
+ * @param options - Approval override, stale review handling, and the review submitted with the event
+ * @returns Checklist, merge method, and approval bookkeeping
+ */
+export async function evaluateMergeChecks(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  prData: PullRequestData,
+  config: ActionConfig,
+  options: {
+    overrideApprovalRequirement: boolean;
+    dismissStaleReviews: boolean;
+    submittedReview?: SubmittedReview | null;
+  },
+): Promise<MergeCheckEvaluation> {
+  const { language } = config;
+
+  // PR state checks (open, unlocked, ready)
+  const prStateChecks = validatePRState(prData, config);
+
+  // Unresolved threads check
+  const unresolvedCount = await countUnresolvedThreads(octokit, owner, repo, prNumber);
+  const threadsCheck: CheckResult = {
+    name: formatMessage(language, 'checks.threadsResolved'),
+    passed: unresolvedCount === 0,
+    ...(unresolvedCount > 0 && {
+      details: formatMessage(language, 'checks.unresolvedThreads', { count: unresolvedCount }),
+    }),
+  };
+
+  // Approval check - fetch and validate reviews
+  const approvedReviews: Array<ReviewsArray[number] | SubmittedReview> = await fetchApprovedReviews(
+    octokit,
+    owner,
+    repo,
+    prNumber,
+  );
+  const { submittedReview } = options;
+  if (submittedReview?.state === 'APPROVED' && !approvedReviews.some((review) => review.id === submittedReview.id)) {
+    approvedReviews.push(submittedReview);
+  }
+  // Reviewers whose approvals count (each listed once)
+  const approvers: string[] = [];
+  const dismissFailures: string[] = [];
+  const staleApprovals: MergeCheckEvaluation['staleApprovals'] = [];
+
+  // Cache permission lookups to avoid redundant API calls for the same reviewer
+  const permissionCache = new Map<string, string>();
+
+  // HEAD SHAs made equivalent by nylbot branch updates; fetched only when an approval is not on HEAD
+  let equivalentHeadShas: string[] | undefined;
+
+  for (const review of approvedReviews) {
+    // Skip self-approval
+    if (review.user?.login === prData.author) {
+      continue;
+    }
+
+    // Skip reviews from users without sufficient permissions
+    // Note: We check permission level via API instead of review.author_association
+    // because GitHub App tokens (GITHUB_TOKEN) may return 'NONE' for author_association
+    // even when the user has valid permissions. See: https://github.com/orgs/community/discussions/70568
+    const reviewerLogin = review.user?.login;
+    if (!reviewerLogin) {
+      // Skip reviews from deleted users or users without login
+      continue;
+    }
+
+    // Check cache first to avoid redundant API calls
+    let reviewerPermission = permissionCache.get(reviewerLogin);
+    if (reviewerPermission === undefined) {
+      reviewerPermission = await getCollaboratorPermission(octokit, owner, repo, reviewerLogin);
+      permissionCache.set(reviewerLogin, reviewerPermission);
+    }
+
+    if (!hasValidPermission(reviewerPermission)) {
+      continue;
+    }
+
+    // Check if review is stale (not on current HEAD or a HEAD that nylbot updated to it)
+    if (review.commit_id !== prData.headSha) {
+      equivalentHeadShas ??= await fetchEquivalentHeadShas(octokit, owner, repo, prNumber, prData.headSha);
+    }
+    if (review.commit_id !== prData.headSha && !equivalentHeadShas?.includes(review.commit_id ?? '')) {
+      if (!options.dismissStaleReviews) {
+        staleApprovals.push({ reviewer: reviewerLogin, reviewedSha: review.commit_id ?? '' });
+        continue;
+      }
+      const message = formatMessage(language, 'checks.approvalDismissed', {
+        reviewedSha: review.commit_id?.slice(0, 7) ?? '',
+        headSha: prData.headSha.slice(0, 7),
+      });
+      const dismissed = await dismissReview(octokit, owner, repo, prNumber, review.id, message);
+      if (!dismissed) {
+        dismissFailures.push(formatMessage(language, 'checks.dismissFailed', { reviewer: reviewerLogin }));
+      }
+      continue;
+    }
+
+    if (!approvers.includes(reviewerLogin)) {
+      approvers.push(reviewerLogin);
+    }
+  }
+
+  // Optional: every changed file with code owners needs an approval from one of them
+  const codeOwnerApproval = config.requireCodeOwnerApproval
+    ? await evaluateCodeOwnerApproval(octokit, owner, repo, prNumber, prData.baseRef, approvers, language)
+    : null;
+
+  // Determine if approval requirement is overridden (it covers the code owner approval too)
+  const approvalCheckPassed = approvers.length >= 1;
+  const approvalOverridden =
+    options.overrideApprovalRequirement && (!approvalCheckPassed || codeOwnerApproval?.passed === false);
+
+  // Log when approval requirement is overridden
+  if (approvalOverridden) {
+    core.info('Approval requirement overridden by command flag (--override-approval-requirement).');
+  }
+
+  // Build approval check result
+  let approvalDetails: string | undefined;
+  if (approvalCheckPassed) {
+    approvalDetails = undefined;
+  } else if (approvalOverridden) {
+    approvalDetails = formatMessage(language, 'checks.approvalOverridden');
+  } else {
+    approvalDetails = formatMessage(language, 'checks.noApprovals');
+  }
+
+  const approvalCheck: CheckResult = {
+    name: formatMessage(language, 'checks.approval'),
+    passed: approvalCheckPassed,
+    ...(approvalDetails !== undefined && { details: approvalDetails }),
+    // Mark as optional when override flag is used, so it shows warning instead of failure
+    ...(approvalOverridden && { optional: true }),
+  };
+
+  const codeOwnerChecks: CheckResult[] = [];
+  if (codeOwnerApproval) {
+    const details =
+      codeOwnerApproval.details !== null && approvalOverridden
+        ? formatMessage(language, 'checks.codeOwnersOverridden', { details: codeOwnerApproval.details })
+        : codeOwnerApproval.details;
+    codeOwnerChecks.push({
+      name: formatMessage(language, 'checks.codeOwnerApproval'),
+      passed: codeOwnerApproval.passed,
+      ...(details !== null && { details }),
+      ...(approvalOverridden && { optional: true }),
+    });
+  }
+
+  // Mergeable-state check: this tool allows merge only when mergeable_state is 'clean'.
+  const mergeableStateIsClean = prData.mergeableState === 'clean';
+  const mergeableStateCheck: CheckResult = {
+    name: formatMessage(language, 'checks.mergeableStateClean'),
+    passed: mergeableStateIsClean,
+    ...(!mergeableStateIsClean && { details: getMergeableStateDescription(prData.mergeableState, config) }),
+  };
+
+  // Optional: Conventional Commits check for PR title, with titles to fix it in one command
+  const isConventionalTitle = isConventionalCommitTitle(prData.title);
+  let titleDetails: string | undefined;
+  if (!isConventionalTitle) {
+    const commits = await fetchPullRequestCommits(octokit, owner, repo, prNumber);
+    const suggestions = suggestConventionalTitles(prData.headRef, commits);
+    const separator = formatMessage(language, 'checks.titleSuggestionSeparator');
+    titleDetails =
+      suggestions.length > 0
+        ? formatMessage(language, 'checks.titleSuggestions', {
+            suggestions: suggestions.map((s) => `\`${config.commandPrefix} title ${s}\``).join(separator),
+          })
+        : formatMessage(language, 'checks.titleHint', { command: `${config.commandPrefix} title` });
+  }
+  const conventionalCommitsCheck: CheckResult = {
+    name: formatMessage(language, 'checks.conventionalTitle'),
+    passed: isConventionalTitle,
+    ...(titleDetails !== undefined && { details: titleDetails }),
+    optional: true,
+  };
+
+  // Determine merge method
+  const mergeMethodResult = determineMergeMethod(prData.headRef, prData.baseRef, config);
+
+  // Build checks array in the final order directly
+  const checks: CheckResult[] = [
+    ...prStateChecks,
+    threadsCheck,
+    approvalCheck,
+    ...codeOwnerChecks,
+    mergeableStateCheck,
+    conventionalCommitsCheck,
+  ];
+
+  return {
+    checks,
+    // Only required (non-optional) checks must pass
+    allPassed: checks.filter((c) => !c.optional).every((c) => c.passed),
+    approvalOverridden,
+    mergeMethodResult,
+    dismissFailures,
+    staleApprovals,
+  };
+}
@@ -0,0 +1,466 @@
+/**
+ * merge-command.ts - Handler for the `/nylbot merge` command
+ *
+ * Runs the merge checklist, reports the results, and merges the PR when every
+ * required check passes. With `--dry-run`, reports the would-be commit message
+ * instead of merging.
+ */
+
+import * as core from '@actions/core';
+
+import { openBackMergePullRequest } from './back-merge.js';
+import { runScheduledBackports } from './backport.js';
+import { updateBranch } from './branch-update.js';
+import { postReply, fetchPullRequestData, mergePullRequest, fetchPullRequestCommits } from './github-api.js';
+import { evaluateMergeChecks } from './merge-checks.js';
+import { formatMessage } from './messages.js';
+import { markReadyForReview } from './ready-command.js';
+import { createRelease } from './release.js';
+import type {
+  ActionConfig,
+  ActionResult,
+  EventContext,
+  MergeOptions,
+  Octokit,
+  PullRequestData,
+  ReleaseResult,
+} from './types.js';
+import {
+  applyMergeMethodOverride,
+  buildCheckResultsMarkdown,
+  buildCommitMessage,
+  buildMergeMethodMarkdown,
+  determineBackMerge,
+  parseReleaseTag,
+  waitBeforeRetryMs,
+} from './validation.js';
+
+/**
+ * Rejects the merge when `--sha` was given and the PR HEAD does not start with it.
+ * Why: The actor states which commit they reviewed, so commits pushed after that are never merged.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options (comment language)
+ * @param prData - Current pull request data
+ * @param expectedHeadSha - SHA (or prefix) from `--sha`, or null when the flag was not given
+ * @returns Failure result after posting a comment, or null when the HEAD matches or no SHA was given
+ */
+export async function checkExpectedHeadSha(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+  prData: PullRequestData,
+  expectedHeadSha: string | null,
+): Promise<ActionResult | null> {
+  if (expectedHeadSha === null || prData.headSha.startsWith(expectedHeadSha)) {
+    return null;
+  }
+  await postReply(
+    octokit,
+    context.owner,
+    context.repo,
+    context.prNumber,
+    context.comment,
+    formatMessage(config.language, 'merge.headMismatch', { expectedSha: expectedHeadSha, headSha: prData.headSha }),
+  );
+  return { status: 'failed', message: 'HEAD SHA mismatch' };
+}
+
+/**
+ * Handles the `/nylbot merge` command after the command actor has been authorized.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options
+ * @param mergeOptions - Options parsed from the command flags
+ * @returns Result of the operation
+ */
+export async function handleMergeCommand(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+  mergeOptions: MergeOptions,
+): Promise<ActionResult> {
+  const { owner, repo, prNumber, actor, comment } = context;
+
+  // -------------------------------------------------------------------------
+  // Step 1: Fetch PR data and reject unsupported PRs
+  // -------------------------------------------------------------------------
+
+  let prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+
+  // Why: GITHUB_TOKEN has limited write permissions for fork PRs by default.
+  // Merge operations would fail, so we reject early with a clear message.
+  if (prData.isFork) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'common.forkNotSupported', { command: `${config.commandPrefix} merge` }),
+    );
+    return { status: 'failed', message: 'Fork PR not supported' };
+  }
+
+  // Check if already merged
+  if (prData.merged) {
+    await postReply(octokit, owner, repo, prNumber, comment, formatMessage(config.language, 'common.alreadyMerged'));
+    return { status: 'already_merged', message: 'PR already merged' };
+  }
+
+  // With --sha, nothing is changed unless the PR HEAD is the commit the actor expects
+  const headMismatch = await checkExpectedHeadSha(octokit, context, config, prData, mergeOptions.expectedHeadSha);
+  if (headMismatch) {
+    return headMismatch;
+  }
+
+  // With --ready, a draft is marked ready for review first and the checks run on the fresh data.
+  // Dry run never changes the PR; the draft check below reports the draft.
+  if (mergeOptions.ready && !mergeOptions.dryRun && prData.draft) {
+    const failure = await markReadyForReview(octokit, context, config, prData);
+    if (failure) {
+      return failure;
+    }
+    prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+  }
+
+  // With --update-if-behind, a branch behind its base is updated instead of merged.
+  // Why: The update commit needs fresh CI results, so merging in the same run is not possible.
+  // Dry run never updates; the mergeable state check below reports that the branch is behind.
+  if (mergeOptions.updateIfBehind && !mergeOptions.dryRun && prData.mergeableState === 'behind') {
+    return updateBranch(
+      octokit,
+      context,
+      config,
+      prData,
+      formatMessage(config.language, 'merge.updatedInsteadOfMerged', { command: `${config.commandPrefix} merge` }),
+    );
+  }
+
+  // -------------------------------------------------------------------------
+  // Step 2: Evaluate merge checks
+  // -------------------------------------------------------------------------
+
+  // Dry run skips review dismissals; stale approvals are reported instead
+  const evaluation = await evaluateMergeChecks(octokit, owner, repo, prNumber, prData, config, {
+    overrideApprovalRequirement: mergeOptions.overrideApprovalRequirement,
+    dismissStaleReviews: !mergeOptions.dryRun,
+    submittedReview: context.review,
+  });
+  const { allPassed, approvalOverridden, dismissFailures, staleApprovals } = evaluation;
+
+  // Explicit --squash / --merge replaces the branch-rule method (permission was checked by the dispatcher)
+  const mergeMethodResult = applyMergeMethodOverride(evaluation.mergeMethodResult, mergeOptions.methodOverride, config);
+  if (mergeMethodResult.overriddenMethod !== undefined) {
+    core.info(
+      `Merge method overridden by command flag (--${mergeMethodResult.method}); branch rules selected ${mergeMethodResult.overriddenMethod}.`,
+    );
+  }
+
+  // Post stale dismissal notification only when there are failures.
+  // Success notifications are skipped because GitHub's native "approval dismissed"
+  // notification already appears in the PR timeline when reviews are dismissed.
+  if (dismissFailures.length > 0) {
+    const staleComment = formatMessage(config.language, 'merge.staleDismissFailures', {
+      failures: dismissFailures.map((f) => `> ${f}`).join('\n'),
+    });
+    await postReply(octokit, owner, repo, prNumber, comment, staleComment);
+  }
+
+  // Build results markdown
+  const checksMarkdown = buildCheckResultsMarkdown(evaluation.checks);
+  const mergeMethodMarkdown = buildMergeMethodMarkdown(mergeMethodResult, config);
+
+  // -------------------------------------------------------------------------
+  // Step 3: Report results and merge if all passed
+  // -------------------------------------------------------------------------
+
+  // Dry run: report the checklist and the commit message that would be used, then stop
+  // before any mutating call (review dismissals were already skipped above).
+  if (mergeOptions.dryRun) {
+    const commits =
+      mergeMethodResult.method === 'squash' ? await fetchPullRequestCommits(octokit, owner, repo, prNumber) : [];
+    const commitMessage = buildCommitMessage(
+      mergeMethodResult,
+      prNumber,
+      prData,
+      actor,
+      approvalOverridden,
+      commits,
+      config,
+      mergeOptions,
+    );
+    // Rebase has no commit message; the merge method section already explains why
+    const commitMessageSection = commitMessage
+      ? `\n\n${formatMessage(config.language, 'merge.commitMessage', commitMessage)}`
+      : '';
+    const verdict = allPassed
+      ? formatMessage(config.language, 'merge.dryRunPassed', { command: `${config.commandPrefix} merge` })
+      : formatMessage(config.language, 'checks.mustPass');
+    const dismissals = staleApprovals.map((a) =>
+      formatMessage(config.language, 'merge.staleApprovalWouldBeDismissed', {
+        reviewer: a.reviewer,
+        reviewedSha: a.reviewedSha.slice(0, 7),
+        headSha: prData.headSha.slice(0, 7),
+      }),
+    );
+    const dismissalsSection =
+      dismissals.length > 0
+        ? `\n\n${formatMessage(config.language, 'checks.staleApprovals', { approvals: dismissals.join('\n') })}`
+        : '';
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'merge.dryRun', {
+        verdict,
+        checks: checksMarkdown,
+        staleApprovals: dismissalsSection,
+        mergeMethod: mergeMethodMarkdown,
+        commitMessage: commitMessageSection,
+      }),
+    );
+    return {
+      status: 'skipped',
+      message: allPassed ? 'Dry run: merge checks passed' : 'Dry run: merge checks failed',
+    };
+  }
+
+  if (!allPassed) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'merge.checksFailed', {
+        checks: checksMarkdown,
+        mergeMethod: mergeMethodMarkdown,
+      }),
+    );
+    return { status: 'failed', message: 'Merge checks failed' };
+  }
+
+  // All checks passed - post status and proceed to merge
+  await postReply(
+    octokit,
+    owner,
+    repo,
+    prNumber,
+    comment,
+    formatMessage(config.language, 'merge.checksPassed', { checks: checksMarkdown, mergeMethod: mergeMethodMarkdown }),
+  );
+
+  // -------------------------------------------------------------------------
+  // Step 4: TOCTOU check and merge
+  // -------------------------------------------------------------------------
+
+  const originalHeadSha = prData.headSha;
+
+  // Re-fetch PR data for TOCTOU check
+  prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+
+  if (prData.headSha !== originalHeadSha) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'merge.newCommits', {
+        originalSha: originalHeadSha,
+        headSha: prData.headSha,
+        command: `${config.commandPrefix} merge`,
+      }),
+    );
+    return { status: 'failed', message: 'TOCTOU violation' };
+  }
+
+  // Why: GitHub API returns mergeable=null while computing merge status asynchronously.
+  // This typically happens on first fetch after PR update. We retry to wait for computation.
+  let retries = 0;
+  while (prData.mergeable === null && retries < config.mergeableRetryCount) {
+    await waitBeforeRetryMs(config.mergeableRetryInterval * 1000);
+    prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+    retries++;
+
+    // TOCTOU check during retry
+    if (prData.headSha !== originalHeadSha) {
+      await postReply(
+        octokit,
+        owner,
+        repo,
+        prNumber,
+        comment,
+        formatMessage(config.language, 'merge.newCommitsDuringRetry', {
+          originalSha: originalHeadSha,
+          headSha: prData.headSha,
+          command: `${config.commandPrefix} merge`,
+        }),
+      );
+      return { status: 'failed', message: 'TOCTOU violation during retry' };
+    }
+  }
+
+  // Check final mergeability
+  // Final mergeability gate to prevent TOCTOU issues, revalidating both mergeable flag and mergeableState
+  if (prData.mergeable === false || prData.mergeable === null || prData.mergeableState !== 'clean') {
+    let errorComment: string;
+    if (prData.mergeable === null) {
+      errorComment = formatMessage(config.language, 'merge.mergeabilityPending', {
+        mergeableState: prData.mergeableState,
+        retryCount: config.mergeableRetryCount,
+        retryInterval: config.mergeableRetryInterval,
+        command: `${config.commandPrefix} merge`,
+      });
+    } else {
+      const key = prData.mergeableState === 'dirty' ? 'merge.conflicts' : 'merge.cannotMerge';
+      errorComment = formatMessage(config.language, key, {
+        mergeable: String(prData.mergeable),
+        mergeableState: prData.mergeableState,
+      });
+    }
+    await postReply(octokit, owner, repo, prNumber, comment, errorComment);
+    return { status: 'failed', message: 'Not mergeable' };
+  }
+
+  // Perform merge
+  // Build explicit commit title and message according to nylbot-merge specification
+  const commits =
+    mergeMethodResult.method === 'squash' ? await fetchPullRequestCommits(octokit, owner, repo, prNumber) : [];
+  const commitMessage = buildCommitMessage(
+    mergeMethodResult,
+    prNumber,
+    prData,
+    actor,
+    approvalOverridden,
+    commits,
+    config,
+    mergeOptions,
+  );
+
+  const mergeResult = await mergePullRequest(
+    octokit,
+    owner,
+    repo,
+    prNumber,
+    mergeMethodResult.method,
+    originalHeadSha,
+    commitMessage,
+  );
+
+  if (!mergeResult.success) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'merge.failed', { error: mergeResult.error ?? '' }),
+    );
+    return { status: 'failed', message: `Merge failed: ${mergeResult.error}` };
+  }
+
+  // Post success comment with commit SHAs (GitHub auto-links them)
+  const methodOverrideInfo =
+    mergeMethodResult.overriddenMethod !== undefined
+      ? formatMessage(config.language, 'merge.methodOverridden', {
+          method: mergeMethodResult.method,
+          ruleMethod: mergeMethodResult.overriddenMethod,
+        })
+      : '';
+  let mergeCommitInfo = '';
+  if (mergeResult.mergeCommitSha) {
+    mergeCommitInfo = `\n${formatMessage(config.language, 'merge.detailMergeCommit', { sha: mergeResult.mergeCommitSha })}`;
+  }
+
+  // A release branch merged into main is brought back into develop with a back-merge PR
+  const backMergePlan = config.backMerge ? determineBackMerge(prData.headRef, prData.baseRef, config) : null;
+  if (backMergePlan && mergeResult.mergeCommitSha) {
+    const backMerge = await openBackMergePullRequest(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      prData,
+      backMergePlan,
+      mergeResult.mergeCommitSha,
+      config,
+    );
+    const backMergeInfo =
+      backMerge.pullRequestNumber !== undefined
+        ? formatMessage(config.language, 'merge.detailBackMerge', {
+            number: backMerge.pullRequestNumber,
+            branch: backMerge.branch,
+            developBranch: config.developBranch,
+          })
+        : formatMessage(config.language, 'merge.detailBackMergeFailed', {
+            error: backMerge.error ?? '',
+            headRef: prData.headRef,
+            developBranch: config.developBranch,
+          });
+    mergeCommitInfo += `\n${backMergeInfo}`;
+  }
+
+  // A release branch merged into main is tagged with its version and gets a draft release
+  const releaseTag =
+    config.createRelease && prData.baseRef !== config.developBranch ? parseReleaseTag(prData.headRef, config) : null;
+  let release: ReleaseResult | null = null;
+  if (releaseTag !== null && mergeResult.mergeCommitSha) {
+    release = await createRelease(octokit, context, prNumber, releaseTag, mergeResult.mergeCommitSha);
+    const error = release.error ?? '';
+    const tagInfo =
+      release.tagUrl !== undefined
+        ? formatMessage(config.language, 'merge.detailTag', { tag: release.tag, tagUrl: release.tagUrl })
+        : formatMessage(config.language, 'merge.detailTagFailed', {
+            error,
+            sha: mergeResult.mergeCommitSha,
+            tag: release.tag,
+          });
+    mergeCommitInfo += `\n${tagInfo}`;
+    if (release.releaseUrl !== undefined) {
+      mergeCommitInfo += `\n${formatMessage(config.language, 'merge.detailDraftRelease', { releaseUrl: release.releaseUrl })}`;
+    } else if (release.tagUrl !== undefined) {
+      mergeCommitInfo += `\n${formatMessage(config.language, 'merge.detailDraftReleaseFailed', { error, tag: release.tag })}`;
+    }
+  }
+
+  await postReply(
+    octokit,
+    owner,
+    repo,
+    prNumber,
+    comment,
+    formatMessage(config.language, 'merge.merged', {
+      botName: config.botName,
+      method: mergeMethodResult.method,
+      methodOverride: methodOverrideInfo,
+      baseRef: prData.baseRef,
+      headRef: prData.headRef,
+      headSha: originalHeadSha,
+      details: mergeCommitInfo,
+    }),
+  );
+
+  // Why: Merges made with GITHUB_TOKEN do not trigger the pull_request event that would
+  // otherwise run the backports scheduled on this PR. Their outcome is reported in their own comment.
+  await runScheduledBackports(
+    octokit,
+    context,
+    prNumber,
+    { ...prData, merged: true, mergeCommitSha: mergeResult.mergeCommitSha ?? null },
+    config,
+  );
+
+  return {
+    status: 'merged',
+    message: 'PR merged successfully',
+    mergeMethod: mergeMethodResult.method,
+    ...(release?.tagUrl !== undefined && { releaseTag: release.tag, tagUrl: release.tagUrl }),
+    ...(release?.releaseUrl !== undefined && { releaseUrl: release.releaseUrl }),
+  };
+}
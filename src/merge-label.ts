@@ -0,0 +1,80 @@
+/**
+ * merge-label.ts - Merging a PR when a user adds the merge label
+ *
+ * For teams that prefer labels to comments: adding the `merge-label` label to a PR
+ * (a pull_request `labeled` event) runs the same pipeline as `/nylbot merge`, with the
+ * user who added the label as the actor. When the merge fails, the label is removed so
+ * that adding it again retries.
+ */
+
+import { describeDenial, findDeniedRule } from './authorization.js';
+import { DEFAULT_MERGE_OPTIONS } from './constants.js';
+import { getCollaboratorPermission, postComment, removeLabel } from './github-api.js';
+import { handleMergeCommand } from './merge-command.js';
+import { enqueueMerge } from './merge-queue.js';
+import { formatMessage } from './messages.js';
+import type { ActionConfig, ActionResult, EventContext, Octokit } from './types.js';
+import { hasValidPermission, isBot } from './validation.js';
+
+/**
+ * Handles a pull_request `labeled` event that added the merge label.
+ * Why: A label has no comment author association, so only the labeler's permission level (and the
+ * merge rules of the authorization policy) are checked.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions (actor is the user who added the label)
+ * @param config - Configuration options
+ * @returns Result of the merge (or of queueing it when the merge queue is enabled)
+ */
+export async function handleMergeLabelEvent(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+): Promise<ActionResult> {
+  const { owner, repo, prNumber, actor } = context;
+  const label = config.mergeLabel;
+
+  // Labels added by bots and Apps are ignored, like their commands
+  if (isBot(context.userType)) {
+    return { status: 'skipped', message: 'Merge label added by a bot' };
+  }
+
+  const permission = await getCollaboratorPermission(octokit, owner, repo, actor);
+  if (!hasValidPermission(permission)) {
+    await removeLabel(octokit, owner, repo, prNumber, label);
+    await postComment(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      formatMessage(config.language, 'mergeLabel.permissionDenied', { actor, label, permission }),
+    );
+    return { status: 'failed', message: 'Insufficient permissions' };
+  }
+
+  // The label runs a plain merge, so merge rules of the authorization policy apply to it
+  const denial = await findDeniedRule(
+    octokit,
+    context,
+    config.authorizationPolicy,
+    { name: 'merge', options: DEFAULT_MERGE_OPTIONS },
+    permission,
+  );
+  if (denial) {
+    const { messageKey, params, result } = describeDenial(denial, 'mergeLabel', { actor, permission, label });
+    await removeLabel(octokit, owner, repo, prNumber, label);
+    await postComment(octokit, owner, repo, prNumber, formatMessage(config.language, messageKey, params));
+    return result;
+  }
+
+  const result = config.mergeQueue
+    ? await enqueueMerge(octokit, context, config, DEFAULT_MERGE_OPTIONS)
+    : await handleMergeCommand(octokit, context, config, DEFAULT_MERGE_OPTIONS);
+
+  // The merge path has already posted the checklist or error; removing the label lets the user retry
+  if (result.status === 'failed') {
+    await removeLabel(octokit, owner, repo, prNumber, label);
+    await postComment(octokit, owner, repo, prNumber, formatMessage(config.language, 'mergeLabel.removed', { label }));
+  }
+  return result;
+}
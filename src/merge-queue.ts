@@ -0,0 +1,661 @@
+/**
+ * merge-queue.ts - Serialized merge queue per base branch
+ *
+ * With the `merge-queue` input enabled, `/nylbot merge` adds the PR to the queue of its
+ * base branch instead of merging right away. Queued PRs are merged one at a time, and
+ * each one is re-validated against the updated base branch after the PR ahead of it merges.
+ *
+ * Like auto-merge requests (see auto-merge.ts), an entry is recorded as a label
+ * (config.mergeQueueLabel) plus a hidden marker in nylbot's own comment. Entries are ordered by
+ * the ID of their marker comment, which increases with the time the PR was queued.
+ * A run holds a lock ref per base branch while it processes that queue.
+ */
+
+import { describeDenial, findDeniedRule } from './authorization.js';
+import { fetchEquivalentHeadShas, updateBranch } from './branch-update.js';
+import {
+  DEFAULT_MERGE_OPTIONS,
+  MERGE_QUEUE_LOCK_REF_PREFIX,
+  MERGE_QUEUE_LOCK_TIMEOUT_MS,
+  MERGE_QUEUE_MARKER_KIND,
+  MERGE_QUEUE_WAITING_STATES,
+} from './constants.js';
+import {
+  postComment,
+  postReply,
+  updateComment,
+  fetchAuthenticatedLogin,
+  fetchIssueComments,
+  addLabel,
+  removeLabel,
+  listOpenPullRequestNumbersWithLabel,
+  fetchPullRequestData,
+  getCollaboratorPermission,
+  fetchBranchSha,
+  fetchRefSha,
+  fetchCommit,
+  createCommit,
+  createRefIfAbsent,
+  forceUpdateRef,
+  deleteRef,
+} from './github-api.js';
+import { buildMarker, findLatestMarker, stripMarker } from './markers.js';
+import { evaluateMergeChecks } from './merge-checks.js';
+import { checkExpectedHeadSha, handleMergeCommand } from './merge-command.js';
+import { formatMessage } from './messages.js';
+import { markReadyForReview } from './ready-command.js';
+import type {
+  ActionConfig,
+  ActionResult,
+  EventContext,
+  MergeMethod,
+  MergeOptions,
+  MergeQueueEntry,
+  Octokit,
+  PullRequestData,
+} from './types.js';
+import {
+  buildCheckResultsMarkdown,
+  hasPermissionAtLeast,
+  hasValidPermission,
+  pickSignificantResult,
+  waitBeforeRetryMs,
+} from './validation.js';
+
+/**
+ * Finds the merge queue entry of a PR.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @returns The entry, or null if the PR is not queued
+ */
+export async function findMergeQueueEntry(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+): Promise<MergeQueueEntry | null> {
+  const comments = await fetchIssueComments(octokit, owner, repo, prNumber);
+  const botLogin = await fetchAuthenticatedLogin(octokit);
+  const marker = findLatestMarker(comments, MERGE_QUEUE_MARKER_KIND, botLogin);
+  if (!marker) {
+    return null;
+  }
+  const {
+    actor,
+    headSha,
+    baseRef,
+    overrideApprovalRequirement,
+    methodOverride,
+    commitTitle,
+    commitMessage,
+    overrideReason,
+  } = marker.data;
+  if (typeof actor !== 'string' || typeof headSha !== 'string' || typeof baseRef !== 'string') {
+    return null;
+  }
+  const mergeMethods: readonly unknown[] = ['squash', 'merge', 'rebase'];
+  return {
+    prNumber,
+    commentId: marker.commentId,
+    commentBody: marker.body,
+    actor,
+    headSha,
+    baseRef,
+    options: {
+      overrideApprovalRequirement: overrideApprovalRequirement === 'true',
+      methodOverride: mergeMethods.includes(methodOverride) ? (methodOverride as MergeMethod) : null,
+      commitTitle: typeof commitTitle === 'string' ? commitTitle : null,
+      commitMessage: typeof commitMessage === 'string' ? commitMessage : null,
+      overrideReason: typeof overrideReason === 'string' ? overrideReason : null,
+    },
+  };
+}
+
+/**
+ * Lists the merge queue, optionally for a single base branch.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param config - Configuration options
+ * @param baseRef - Base branch to list, or null for every base branch
+ * @returns Entries in queue order (oldest first)
+ */
+async function listMergeQueue(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  config: ActionConfig,
+  baseRef: string | null,
+): Promise<MergeQueueEntry[]> {
+  const queued = await listOpenPullRequestNumbersWithLabel(octokit, owner, repo, config.mergeQueueLabel);
+  const entries: MergeQueueEntry[] = [];
+  for (const prNumber of queued) {
+    const entry = await findMergeQueueEntry(octokit, owner, repo, prNumber);
+    if (entry && (baseRef === null || entry.baseRef === baseRef)) {
+      entries.push(entry);
+    }
+  }
+  return entries.sort((a, b) => a.commentId - b.commentId);
+}
+
+/**
+ * Removes a PR from the merge queue by removing the label and stripping the marker.
+ * The visible comment text is kept so the PR history still shows the entry.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param config - Configuration options
+ * @param entry - Entry to remove
+ */
+export async function removeMergeQueueEntry(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  config: ActionConfig,
+  entry: MergeQueueEntry,
+): Promise<void> {
+  await removeLabel(octokit, owner, repo, entry.prNumber, config.mergeQueueLabel);
+  await updateComment(octokit, owner, repo, entry.commentId, stripMarker(entry.commentBody, MERGE_QUEUE_MARKER_KIND));
+}
+
+/**
+ * Removes a PR from the merge queue and explains why on the PR.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param config - Configuration options
+ * @param entry - Entry to remove
+ * @param reason - Markdown explaining why the PR left the queue
+ */
+async function dropMergeQueueEntry(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  config: ActionConfig,
+  entry: MergeQueueEntry,
+  reason: string,
+): Promise<void> {
+  await removeMergeQueueEntry(octokit, owner, repo, config, entry);
+  await postComment(
+    octokit,
+    owner,
+    repo,
+    entry.prNumber,
+    formatMessage(config.language, 'mergeQueue.removed', { reason }),
+  );
+}
+
+/**
+ * Adds a PR to the merge queue of its base branch and processes the queue if the PR is first.
+ * Used for `/nylbot merge` (and auto-merge) when the `merge-queue` input is enabled.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options
+ * @param mergeOptions - Options parsed from the command flags
+ * @returns Result of the operation
+ */
+export async function enqueueMerge(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+  mergeOptions: MergeOptions,
+): Promise<ActionResult> {
+  const { owner, repo, prNumber, actor, comment } = context;
+
+  const prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+
+  // Why: Same restriction as a direct merge; the eventual merge would fail for fork PRs.
+  if (prData.isFork) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'common.forkNotSupported', { command: `${config.commandPrefix} merge` }),
+    );
+    return { status: 'failed', message: 'Fork PR not supported' };
+  }
+
+  if (prData.merged) {
+    await postReply(octokit, owner, repo, prNumber, comment, formatMessage(config.language, 'common.alreadyMerged'));
+    return { status: 'already_merged', message: 'PR already merged' };
+  }
+
+  // Why: The queue entry only keeps options that apply at merge time, so --sha is checked and --ready is applied now.
+  // The entry records the HEAD SHA, and a HEAD that moves afterwards removes the entry.
+  const headMismatch = await checkExpectedHeadSha(octokit, context, config, prData, mergeOptions.expectedHeadSha);
+  if (headMismatch) {
+    return headMismatch;
+  }
+  if (mergeOptions.ready && prData.draft && prData.state === 'open') {
+    const failure = await markReadyForReview(octokit, context, config, prData);
+    if (failure) {
+      return failure;
+    }
+  }
+
+  const queue = await listMergeQueue(octokit, owner, repo, config, prData.baseRef);
+  const existingIndex = queue.findIndex((entry) => entry.prNumber === prNumber);
+  if (existingIndex !== -1) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'mergeQueue.alreadyQueued', {
+        baseRef: prData.baseRef,
+        position: existingIndex + 1,
+        length: queue.length,
+        command: `${config.commandPrefix} cancel`,
+      }),
+    );
+    return { status: 'skipped', message: 'Already queued' };
+  }
+
+  const position = queue.length + 1;
+  const ahead =
+    queue.length > 0
+      ? `\n${formatMessage(config.language, 'mergeQueue.ahead', {
+          pullRequests: queue.map((e) => `#${e.prNumber}`).join(formatMessage(config.language, 'common.listSeparator')),
+        })}`
+      : '';
+  const marker = buildMarker(MERGE_QUEUE_MARKER_KIND, {
+    actor,
+    headSha: prData.headSha,
+    baseRef: prData.baseRef,
+    overrideApprovalRequirement: String(mergeOptions.overrideApprovalRequirement),
+    methodOverride: mergeOptions.methodOverride ?? '',
+    ...(mergeOptions.commitTitle !== null && { commitTitle: mergeOptions.commitTitle }),
+    ...(mergeOptions.commitMessage !== null && { commitMessage: mergeOptions.commitMessage }),
+    ...(mergeOptions.overrideReason !== null && { overrideReason: mergeOptions.overrideReason }),
+  });
+  await postComment(
+    octokit,
+    owner,
+    repo,
+    prNumber,
+    `${formatMessage(config.language, 'mergeQueue.queued', { actor, baseRef: prData.baseRef, position, ahead })}\n\n${marker}`,
+  );
+  await addLabel(octokit, owner, repo, prNumber, config.mergeQueueLabel);
+
+  if (position > 1) {
+    return { status: 'skipped', message: `Queued for merge (position ${position})` };
+  }
+  return processMergeQueue(octokit, context, config, prData.baseRef);
+}
+
+/**
+ * Fetches PR data, waiting while GitHub recomputes mergeability.
+ * Why: Mergeability is recomputed after the base branch moves, which is exactly when
+ * the next PR in the queue is processed.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - PR number
+ * @param config - Configuration options (retry settings)
+ * @returns Pull request data
+ */
+async function fetchSettledPullRequestData(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  config: ActionConfig,
+): Promise<PullRequestData> {
+  let prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+  let retries = 0;
+  while (prData.mergeable === null && retries < config.mergeableRetryCount) {
+    await waitBeforeRetryMs(config.mergeableRetryInterval * 1000);
+    prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+    retries++;
+  }
+  return prData;
+}
+
+/**
+ * Processes the PR at the head of a merge queue.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options
+ * @param entry - Entry at the head of the queue
+ * @returns Result for this PR, and whether it left the queue (so the next PR can be processed)
+ */
+async function processMergeQueueHead(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+  entry: MergeQueueEntry,
+): Promise<{ result: ActionResult; dequeued: boolean }> {
+  const { owner, repo } = context;
+  const { prNumber } = entry;
+
+  const prData = await fetchSettledPullRequestData(octokit, owner, repo, prNumber, config);
+
+  if (prData.merged) {
+    await removeMergeQueueEntry(octokit, owner, repo, config, entry);
+    return { result: { status: 'already_merged', message: 'PR already merged' }, dequeued: true };
+  }
+
+  if (prData.state !== 'open' || prData.baseRef !== entry.baseRef) {
+    await dropMergeQueueEntry(
+      octokit,
+      owner,
+      repo,
+      config,
+      entry,
+      formatMessage(config.language, 'mergeQueue.closedOrRetargeted', {
+        baseRef: entry.baseRef,
+        command: `${config.commandPrefix} merge`,
+      }),
+    );
+    return { result: { status: 'skipped', message: 'Merge queue entry invalidated' }, dequeued: true };
+  }
+
+  // Why: Same rule as auto-merge; only nylbot's own branch updates keep the entry valid
+  if (
+    prData.headSha !== entry.headSha &&
+    !(await fetchEquivalentHeadShas(octokit, owner, repo, prNumber, prData.headSha)).includes(entry.headSha)
+  ) {
+    await dropMergeQueueEntry(
+      octokit,
+      owner,
+      repo,
+      config,
+      entry,
+      formatMessage(config.language, 'mergeQueue.newCommits', {
+        actor: entry.actor,
+        queuedSha: entry.headSha,
+        headSha: prData.headSha,
+        command: `${config.commandPrefix} merge`,
+      }),
+    );
+    return { result: { status: 'skipped', message: 'Merge queue entry invalidated by new commits' }, dequeued: true };
+  }
+
+  // Why: The requester was authorized when queuing, but access may have been revoked since
+  const permission = await getCollaboratorPermission(octokit, owner, repo, entry.actor);
+  if (
+    !hasValidPermission(permission) ||
+    (entry.options.methodOverride !== null && !hasPermissionAtLeast(permission, config.methodOverridePermission))
+  ) {
+    await dropMergeQueueEntry(
+      octokit,
+      owner,
+      repo,
+      config,
+      entry,
+      formatMessage(config.language, 'mergeQueue.lostPermission', { actor: entry.actor, permission }),
+    );
+    return { result: { status: 'failed', message: 'Merge queue requester lost permission' }, dequeued: true };
+  }
+
+  // The merge rules of the authorization policy (checked when queuing) must still allow the requester
+  const denial = await findDeniedRule(
+    octokit,
+    { ...context, prNumber, actor: entry.actor },
+    config.authorizationPolicy,
+    { name: 'merge', options: { ...DEFAULT_MERGE_OPTIONS, ...entry.options } },
+    permission,
+  );
+  if (denial) {
+    const { messageKey, params, result } = describeDenial(denial, 'mergeQueue', { actor: entry.actor, permission });
+    await dropMergeQueueEntry(octokit, owner, repo, config, entry, formatMessage(config.language, messageKey, params));
+    return { result, dequeued: true };
+  }
+
+  // The PR ahead of this one moved the base branch; bring the branch up to date and wait for CI
+  if (prData.mergeableState === 'behind') {
+    // Why: The queue runs apart from any command, so its comments go to the PR conversation
+    const result = await updateBranch(
+      octokit,
+      { ...context, prNumber, comment: null },
+      config,
+      prData,
+      formatMessage(config.language, 'mergeQueue.headOfQueue', { baseRef: entry.baseRef }),
+    );
+    // Why: A pending update keeps the entry; the new HEAD is recognized once it appears
+    if (result.status !== 'failed') {
+      return {
+        result: { status: 'skipped', message: `Merge queue waiting on #${prNumber}: branch update` },
+        dequeued: false,
+      };
+    }
+    await dropMergeQueueEntry(
+      octokit,
+      owner,
+      repo,
+      config,
+      entry,
+      formatMessage(config.language, 'mergeQueue.updateFailed', { command: `${config.commandPrefix} merge` }),
+    );
+    return { result: result, dequeued: true };
+  }
+
+  const evaluation = await evaluateMergeChecks(octokit, owner, repo, prNumber, prData, config, {
+    overrideApprovalRequirement: entry.options.overrideApprovalRequirement,
+    dismissStaleReviews: false,
+  });
+  if (!evaluation.allPassed) {
+    // Only the mergeable state is failing, and it clears on its own (e.g. CI still running)
+    const failing = evaluation.checks.filter((c) => !c.optional && !c.passed);
+    const waiting =
+      failing.length === 1 && (MERGE_QUEUE_WAITING_STATES as readonly string[]).includes(prData.mergeableState);
+    if (waiting) {
+      return {
+        result: { status: 'skipped', message: `Merge queue waiting on #${prNumber}: merge checks not yet passing` },
+        dequeued: false,
+      };
+    }
+    // Why: A PR that needs the author's attention would otherwise block every PR behind it
+    await dropMergeQueueEntry(
+      octokit,
+      owner,
+      repo,
+      config,
+      entry,
+      formatMessage(config.language, 'mergeQueue.checksFailed', {
+        baseRef: entry.baseRef,
+        checks: buildCheckResultsMarkdown(evaluation.checks),
+        command: `${config.commandPrefix} merge`,
+      }),
+    );
+    return { result: { status: 'failed', message: 'Merge checks failed' }, dequeued: true };
+  }
+
+  const result = await handleMergeCommand(
+    octokit,
+    { ...context, prNumber, actor: entry.actor, comment: null },
+    config,
+    {
+      ...DEFAULT_MERGE_OPTIONS,
+      ...entry.options,
+    },
+  );
+
+  // Why: Remove after any attempt. A failed merge already posted its reason, and keeping the
+  // entry would block the queue with the same failure on every subsequent event.
+  if (result.status === 'failed') {
+    await dropMergeQueueEntry(
+      octokit,
+      owner,
+      repo,
+      config,
+      entry,
+      formatMessage(config.language, 'mergeQueue.mergeFailed', { command: `${config.commandPrefix} merge` }),
+    );
+    return { result: result, dequeued: true };
+  }
+  await removeMergeQueueEntry(octokit, owner, repo, config, entry);
+  return { result, dequeued: true };
+}
+
+/**
+ * Takes the lock of a base branch's merge queue, waiting while another run holds it.
+ * Why: Runs for different PRs, or for commit events, can process the same queue at the same
+ * time and would both update or merge its head. A workflow concurrency group cannot be keyed
+ * on the base branch (comment and commit events do not carry it), so the lock is a ref that
+ * only one run can create. It points to a commit made for the lock, whose date tells when
+ * the lock was taken. That commit is only made once the lock is free (or left over), so runs
+ * that find the lock held do not leave commit objects behind.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options (how long to wait for the lock)
+ * @param baseRef - Base branch whose queue to lock
+ * @param baseSha - Current commit of the base branch (its tree is reused for the lock commit)
+ * @returns SHA of the lock commit, or null if another run still held the lock after waiting
+ */
+async function acquireMergeQueueLock(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+  baseRef: string,
+  baseSha: string,
+): Promise<string | null> {
+  const { owner, repo, runId } = context;
+  const ref = `${MERGE_QUEUE_LOCK_REF_PREFIX}${baseRef}`;
+
+  // Made on the first attempt that finds the lock free, then reused by later attempts
+  let lockSha: string | null = null;
+  const createLockCommit = async (): Promise<string> => {
+    const { treeSha } = await fetchCommit(octokit, owner, repo, baseSha);
+    return createCommit(octokit, owner, repo, {
+      message: `nylbot merge queue lock for ${baseRef} (run ${runId})`,
+      treeSha,
+      parents: [],
+    });
+  };
+
+  for (let retries = 0; retries <= config.mergeableRetryCount; retries++) {
+    if (retries > 0) {
+      await waitBeforeRetryMs(config.mergeableRetryInterval * 1000);
+    }
+    const heldSha = await fetchRefSha(octokit, owner, repo, ref);
+    if (heldSha === null) {
+      lockSha ??= await createLockCommit();
+      // false when another run created the lock first; the next attempt sees it as held
+      if (await createRefIfAbsent(octokit, owner, repo, ref, lockSha)) {
+        return lockSha;
+      }
+      continue;
+    }
+    const heldSince = (await fetchCommit(octokit, owner, repo, heldSha)).author.date;
+    if (Date.now() - Date.parse(heldSince) > MERGE_QUEUE_LOCK_TIMEOUT_MS) {
+      lockSha ??= await createLockCommit();
+      await forceUpdateRef(octokit, owner, repo, ref, lockSha);
+      return lockSha;
+    }
+  }
+  return null;
+}
+
+/**
+ * Releases a merge queue lock, unless another run has taken it over in the meantime.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param baseRef - Base branch whose queue was locked
+ * @param lockSha - SHA of the lock commit from acquireMergeQueueLock
+ */
+async function releaseMergeQueueLock(
+  octokit: Octokit,
+  context: EventContext,
+  baseRef: string,
+  lockSha: string,
+): Promise<void> {
+  const { owner, repo } = context;
+  const ref = `${MERGE_QUEUE_LOCK_REF_PREFIX}${baseRef}`;
+  if ((await fetchRefSha(octokit, owner, repo, ref)) === lockSha) {
+    await deleteRef(octokit, owner, repo, ref);
+  }
+}
+
+/**
+ * Processes the merge queue of a base branch from the head until a PR has to wait
+ * or the queue is empty. Only one run processes a queue at a time (see acquireMergeQueueLock).
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options
+ * @param baseRef - Base branch whose queue to process
+ * @returns Result of the operation (the merge result if any PR was merged)
+ */
+export async function processMergeQueue(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+  baseRef: string,
+): Promise<ActionResult> {
+  const { owner, repo } = context;
+
+  // Why: PRs into a deleted base branch are closed by GitHub and leave the queue on their own
+  const baseSha = await fetchBranchSha(octokit, owner, repo, baseRef);
+  if (baseSha === null) {
+    return { status: 'skipped', message: `Base branch ${baseRef} of the merge queue not found` };
+  }
+  const lockSha = await acquireMergeQueueLock(octokit, context, config, baseRef, baseSha);
+  if (lockSha === null) {
+    return { status: 'skipped', message: `Merge queue for ${baseRef} is being processed by another run` };
+  }
+
+  const results: ActionResult[] = [];
+  try {
+    for (;;) {
+      const [head] = await listMergeQueue(octokit, owner, repo, config, baseRef);
+      if (!head) {
+        break;
+      }
+      const { result, dequeued } = await processMergeQueueHead(octokit, context, config, head);
+      results.push(result);
+      if (!dequeued) {
+        break;
+      }
+    }
+  } finally {
+    await releaseMergeQueueLock(octokit, context, baseRef, lockSha);
+  }
+
+  if (results.length === 0) {
+    return { status: 'skipped', message: `Merge queue for ${baseRef} is empty` };
+  }
+  return pickSignificantResult(results, `No merge performed from the ${baseRef} merge queue`);
+}
+
+/**
+ * Handles events that may let the head of a merge queue be merged.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options
+ * @returns Result of the operation (the merge result if any PR was merged)
+ */
+export async function handleMergeQueueEvent(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+): Promise<ActionResult> {
+  const { owner, repo } = context;
+
+  const queue = await listMergeQueue(octokit, owner, repo, config, null);
+  const baseRefs = [...new Set(queue.map((entry) => entry.baseRef))];
+  if (baseRefs.length === 0) {
+    return { status: 'skipped', message: 'Merge queue is empty' };
+  }
+
+  const results: ActionResult[] = [];
+  for (const baseRef of baseRefs) {
+    results.push(await processMergeQueue(octokit, context, config, baseRef));
+  }
+  return pickSignificantResult(results, `No merge performed from ${baseRefs.length} merge queues`);
+}
@@ -0,0 +1,274 @@
+/**
+ * messages-en.ts - English message catalog
+ *
+ * The reference catalog: every message key is defined here, and the `{name}`
+ * placeholders of each message decide the parameters formatMessage (messages.ts) requires.
+ * Other catalogs fall back to these messages for keys they do not translate.
+ */
+
+/**
+ * English messages keyed by message key.
+ * Multi-line messages are complete PR comment bodies; the others are fragments combined by the caller.
+ */
+export const EN_MESSAGES = {
+  // Shared by several commands
+  'common.alreadyMerged': '## Already merged\n\nThis PR has already been merged.',
+  'common.forkNotSupported':
+    '## Fork PR not supported\n\n> [!WARNING]\n> The `{command}` command is not supported for PRs from forked repositories.\n>\n> This is because the GITHUB_TOKEN has limited write permissions for fork-originated PRs by default.',
+  'common.listSeparator': ', ',
+
+  // Command dispatch (action.ts)
+  'action.unrecognizedCommand':
+    "## Unrecognized command\n\n> [!NOTE]\n> I'm {botName}. I couldn't recognize that command. If it was for me, please check the format against the supported commands below.\n>\n> Comment: {commentUrl}\n\n### Supported commands\n\n{help}",
+  'action.invalidCommand':
+    '## Invalid command\n\n> [!WARNING]\n> {error}\n>\n> Comment: {commentUrl}\n\n### Supported commands\n\n{help}',
+  'action.invalidDispatch':
+    '## Invalid command\n\n> [!WARNING]\n> {error}\n>\n> Workflow run: {runUrl}\n\n### Supported commands\n\n{help}',
+  'action.permissionDeniedAssociation':
+    '## Permission denied\n\n> [!CAUTION]\n> Only repository owners, members, and collaborators can use the `{command}` command.\n>\n> Your association: `{association}`',
+  'action.permissionDeniedWrite':
+    '## Permission denied\n\n> [!CAUTION]\n> You need at least **write** permission on this repository to use the `{command}` command.\n>\n> Your association: `{association}`\n> Your permission level: `{permission}`',
+  'action.permissionDeniedMethodOverride':
+    '## Permission denied\n\n> [!CAUTION]\n> You need at least **{requiredPermission}** permission on this repository to use `{flag}` with the `{command}` command.\n>\n> Your permission level: `{permission}`',
+  'action.permissionDeniedPolicy':
+    '## Permission denied\n\n> [!CAUTION]\n> You need at least **{requiredPermission}** permission on this repository to use the `{command}` command on this PR.\n>\n> Authorization policy rule: `{rule}`\n> Your permission level: `{permission}`',
+  'action.permissionDeniedTeam':
+    '## Permission denied\n\n> [!CAUTION]\n> Only members of the `@{team}` team can use the `{command}` command on this PR.\n>\n> Authorization policy rule: `{rule}`',
+  'action.teamMembershipUnreadable':
+    '## Authorization check failed\n\n> [!CAUTION]\n> The `{command}` command was not run because the members of the `@{team}` team could not be read. The token needs the `read:org` scope: the default `GITHUB_TOKEN` cannot read team membership, so pass a GitHub App or personal access token as the `token` input.\n>\n> Authorization policy rule: `{rule}`\n> **Error:** {error}',
+  'action.help': '## {botName} commands\n\n{help}',
+
+  // Command parsing (validation.ts)
+  'command.helpTableHeader': '| Command | Required permission | Description |\n| --- | --- | --- |',
+  'command.unterminatedQuote': 'Unterminated {quote} quote',
+  'command.unknownFlag': 'Unknown flag `{flag}` for `{command}`',
+  'command.duplicateFlag': 'Duplicate flag `{flag}`',
+  'command.flagTakesNoValue': 'Flag `{flag}` does not take a value',
+  'command.flagRequiresValue': 'Flag `{flag}` requires a value (`{flag} {value}`)',
+  'command.invalidFlagValue': 'Invalid value `{value}` for `{flag}`: expected {expected}',
+  'command.conflictingFlags': 'Flags `{flag}` and `{other}` cannot be used together',
+  'command.flagRequiresFlag': 'Flag `{flag}` requires `{other}`',
+  'command.unexpectedArgument': 'Unexpected argument `{argument}` for `{command}`',
+  'command.titleRequired': '`{command}` requires a title',
+  'command.backportTargetRequired': '`{command}` requires at least one branch',
+
+  // Merge checklist (validation.ts and merge-checks.ts)
+  'checks.prReady': 'PR is ready for review',
+  'checks.prClosed': 'currently closed',
+  'checks.prLocked': 'currently locked',
+  'checks.prDraft': 'currently a draft',
+  'checks.threadsResolved': 'All review conversations are resolved',
+  'checks.unresolvedThreads': '{count} unresolved',
+  'checks.approval': 'At least one valid approval from another user',
+  'checks.noApprovals': 'no valid approvals found',
+  'checks.approvalOverridden':
+    'approval requirement overridden by `--override-approval-requirement`; no valid approvals found',
+  'checks.codeOwnerApproval': 'Approval from a code owner of every changed file',
+  'checks.codeOwnersMissing': 'no approval from {groups}',
+  'checks.codeOwnersGroup': '`{owners}` for `{file}`',
+  'checks.codeOwnersGroupMore': '`{owners}` for `{file}` and {count} more',
+  'checks.codeOwnersSeparator': '; ',
+  'checks.codeOwnersFileMissing': 'no CODEOWNERS file in `.github/`, the root, or `docs/` of `{baseRef}`',
+  'checks.codeOwnersTeamUnreadable': 'the members of `{team}` could not be read: {error}',
+  'checks.codeOwnersOverridden': 'code owner approval overridden by `--override-approval-requirement`; {details}',
+  'checks.mergeableStateClean': 'Mergeable state is clean',
+  'checks.conventionalTitle': 'PR title follows [Conventional Commits](https://www.conventionalcommits.org/)',
+  'checks.titleSuggestions': 'title does not follow conventional format; try {suggestions}',
+  'checks.titleSuggestionSeparator': ' or ',
+  'checks.titleHint': 'title does not follow conventional format; set one with `{command} <type>: <description>`',
+  'checks.mustPass': 'The following checks must pass before merging:',
+  'checks.staleApprovals': '### Stale approvals\n\n{approvals}',
+  'checks.approvalDismissed':
+    'Approval dismissed: New commits were pushed after this review was submitted (reviewed commit: {reviewedSha}, current HEAD: {headSha}).',
+  'checks.dismissFailed':
+    '- Failed to dismiss approval from @{reviewer} (insufficient permissions or branch protection settings)',
+
+  // Mergeable state descriptions (validation.ts)
+  'mergeableState.dirty': 'has unresolved conflicts',
+  'mergeableState.unknown': 'mergeability not yet computed; please retry',
+  'mergeableState.blocked': 'failing or missing required status checks',
+  'mergeableState.behind': 'head branch is behind base branch; run `{command}` to update it',
+  'mergeableState.unstable': 'optional status checks pending or failing',
+  'mergeableState.has_hooks': 'repository has custom pre-receive hooks',
+  'mergeableState.clean': 'ready to merge',
+  'mergeableState.draft': 'draft PR; not ready for review',
+  'mergeableState.other': 'mergeable_state: {state}',
+
+  // Merge method selection (validation.ts)
+  'mergeMethod.linearHistoryBase': 'Base branch `{baseRef}` requires linear history (listed in `rebase-base-branches`)',
+  'mergeMethod.releaseHead': 'Head branch `{headRef}` is a release branch (merge commit to preserve release history)',
+  'mergeMethod.syncHead': 'Head branch `{headRef}` is a sync branch (merge commit to preserve back-merge history)',
+  'mergeMethod.releaseBase': 'Base branch `{baseRef}` is a release branch',
+  'mergeMethod.developBase': 'Base branch is `{baseRef}`',
+  'mergeMethod.default': 'Default merge commit for `{headRef}` into `{baseRef}`',
+  'mergeMethod.overridden': 'Overridden by `--{method}` (branch rules selected `{ruleMethod}`: {reason})',
+  'mergeMethod.section': '### Merge Method\n\n- **Method:** `{method}`\n- **Reason:** {reason}',
+  'mergeMethod.rebaseNote':
+    '> [!NOTE]\n> Rebase merges replay the PR commits unchanged, so no commit title or body can be set. The `Merged-by` and `Merge-method-override` trailers and the `EXCEPTIONAL MERGE` marker are **not** recorded in the commit history; this comment is the only record.',
+
+  // Merge command (merge-command.ts)
+  'merge.headMismatch':
+    '## HEAD mismatch\n\n> [!CAUTION]\n> The PR HEAD is not the commit given with `--sha`, so the PR was not merged.\n>\n> - Expected HEAD SHA: {expectedSha}\n> - Current HEAD SHA: {headSha}\n>\n> Please review the new commits and run the command again with the current HEAD SHA.',
+  'merge.updatedInsteadOfMerged':
+    'The branch was behind the base branch, so it was updated instead of merged. Please run `{command}` again once checks pass on the new HEAD.',
+  'merge.staleDismissFailures':
+    '## Stale approval dismiss failures\n\n> [!WARNING]\n> The following approvals could not be dismissed (consider enabling "Dismiss stale pull request approvals when new commits are pushed" in branch protection settings):\n>\n{failures}',
+  'merge.commitMessage':
+    '### Commit Message\n\n**Title:**\n\n```text\n{title}\n```\n\n**Body:**\n\n```text\n{body}\n```',
+  'merge.dryRunPassed': 'All checks passed. `{command}` would proceed to merge.',
+  'merge.staleApprovalWouldBeDismissed':
+    '- Approval from @{reviewer} would be dismissed (reviewed commit: {reviewedSha}, current HEAD: {headSha})',
+  'merge.dryRun':
+    '## Dry run\n\n> [!NOTE]\n> This is a dry run. No reviews were dismissed and the PR was not merged.\n\n{verdict}\n\n{checks}{staleApprovals}\n\n{mergeMethod}{commitMessage}',
+  'merge.checksFailed':
+    '## Merge checks failed\n\nThe following checks must pass before merging:\n\n{checks}\n\n{mergeMethod}',
+  'merge.checksPassed':
+    '## Merge checks passed\n\nAll checks passed. Proceeding to merge...\n\n{checks}\n\n{mergeMethod}',
+  'merge.newCommits':
+    '## New commits detected\n\n> [!WARNING]\n> New commits were pushed while validating this PR.\n>\n> - Original HEAD SHA: {originalSha}\n> - Current HEAD SHA: {headSha}\n>\n> Please run `{command}` again after the new commits are reviewed and approved.',
+  'merge.newCommitsDuringRetry':
+    '## New commits detected\n\n> [!WARNING]\n> New commits were pushed while validating this PR (after waiting for mergeable status).\n>\n> - Original HEAD SHA: {originalSha}\n> - Current HEAD SHA: {headSha}\n>\n> Please run `{command}` again after the new commits are reviewed and approved.',
+  'merge.mergeabilityPending':
+    '## Mergeability status pending\n\n> [!NOTE]\n> GitHub is still calculating mergeability for this PR.\n>\n> - Mergeable: `null`\n> - Mergeable State: `{mergeableState}`\n> - Retries: count={retryCount}, interval={retryInterval}s\n>\n> Please try `{command}` again shortly.',
+  'merge.conflicts':
+    '## Conflicts detected\n\n> [!CAUTION]\n> This PR has merge conflicts that must be resolved before merging.\n>\n> - Mergeable: `{mergeable}`\n> - Mergeable State: `{mergeableState}`\n>\n> Please resolve the conflicts and try again.',
+  'merge.cannotMerge':
+    '## Cannot merge\n\n> [!CAUTION]\n> This PR cannot be merged:\n>\n> - Mergeable: `{mergeable}`\n> - Mergeable State: `{mergeableState}`\n>\n> Please resolve any conflicts or issues before attempting to merge.',
+  'merge.failed':
+    '## Merge failed\n\n> [!CAUTION]\n> Failed to merge PR:\n>\n> - Error: {error}\n>\n> Please check the PR status and try again.',
+  'merge.methodOverridden': ' (overridden by `--{method}`; branch rules selected `{ruleMethod}`)',
+  'merge.detailMergeCommit': '- **Merge Commit SHA:** {sha}',
+  'merge.detailBackMerge': '- **Back-merge PR:** #{number} (`{branch}` into `{developBranch}`)',
+  'merge.detailBackMergeFailed':
+    '- **Back-merge PR:** not opened ({error}). Please merge `{headRef}` back into `{developBranch}` manually.',
+  'merge.detailTag': '- **Tag:** [`{tag}`]({tagUrl})',
+  'merge.detailTagFailed': '- **Tag:** not created ({error}). Please tag {sha} as `{tag}` manually.',
+  'merge.detailDraftRelease': '- **Draft release:** {releaseUrl}',
+  'merge.detailDraftReleaseFailed':
+    '- **Draft release:** not created ({error}). Please draft the release for `{tag}` manually.',
+  'merge.merged':
+    '## Merged by {botName}-merge\n\nThis PR has been successfully merged.\n\n### Details\n\n- **Merge Method:** `{method}`{methodOverride}\n- **Base Branch:** `{baseRef}`\n- **Head Branch:** `{headRef}`\n- **HEAD SHA:** {headSha}{details}',
+
+  // Auto-merge (auto-merge-command.ts and auto-merge.ts)
+  'autoMerge.enabled':
+    '## Auto-merge enabled\n\nThis PR will be merged on behalf of @{actor} once all checks pass.\n\n{checks}\n\n{mergeMethod}\n\n> [!NOTE]\n> Auto-merge is cancelled automatically if new commits are pushed (requested HEAD SHA: {headSha}).',
+  'autoMerge.cancelledNewCommits':
+    '## Auto-merge cancelled\n\n> [!WARNING]\n> New commits were pushed after @{actor} requested auto-merge.\n>\n> - Requested HEAD SHA: {requestedSha}\n> - Current HEAD SHA: {headSha}\n>\n> Please run `{command}` again after the new commits are reviewed and approved.',
+  'autoMerge.cancelledPermission':
+    '## Auto-merge cancelled\n\n> [!CAUTION]\n> @{actor} no longer has write permission on this repository.\n>\n> Permission level: `{permission}`',
+  'autoMerge.cancelledPolicy':
+    '## Auto-merge cancelled\n\n> [!CAUTION]\n> The authorization policy does not allow @{actor} to merge this PR.\n>\n> Authorization policy rule: `{rule}`',
+  'autoMerge.cancelledTeamUnreadable':
+    '## Auto-merge cancelled\n\n> [!CAUTION]\n> The request by @{actor} was cancelled because the members of the `@{team}` team could not be read. The token needs the `read:org` scope: the default `GITHUB_TOKEN` cannot read team membership, so pass a GitHub App or personal access token as the `token` input.\n>\n> Authorization policy rule: `{rule}`\n> **Error:** {error}',
+  'autoMerge.cancelledFailure':
+    '## Auto-merge cancelled\n\n> [!CAUTION]\n> The auto-merge attempt failed (see the comment above). Please run `{command}` again once the problem is resolved.',
+
+  // Cancel command (cancel-command.ts)
+  'cancel.nothingToCancel':
+    '## Nothing to cancel\n\n> [!NOTE]\n> There is no pending auto-merge request or merge queue entry on this PR.',
+  'cancel.permissionDenied':
+    '## Permission denied\n\n> [!CAUTION]\n> Only {requesters} (who made the request) or users with at least **{requiredPermission}** permission can cancel this request.\n>\n> Your permission level: `{permission}`',
+  'cancel.autoMergeCancelled':
+    '## Auto-merge cancelled\n\nThe auto-merge request by @{requester} was cancelled by @{actor}. The `{label}` label has been removed.',
+  'cancel.removedFromQueue':
+    '## Removed from merge queue\n\nThis PR (queued by @{requester}) was removed from the merge queue for `{baseRef}` by @{actor}. The `{label}` label has been removed.',
+
+  // Branch updates (branch-update.ts and update-branch-command.ts)
+  'branchUpdate.failed':
+    '## Branch update failed\n\n> [!CAUTION]\n> Failed to update the head branch:\n>\n> - Error: {error}\n>\n> Please check the PR status and try again.',
+  'branchUpdate.pending':
+    '## Branch update pending\n\n> [!NOTE]\n> GitHub accepted the update, but the new HEAD did not appear in time.\n>\n> - Previous HEAD SHA: {previousSha}\n> - Retries: count={retryCount}, interval={retryInterval}s\n>\n> Approvals on the previous HEAD will not carry over to the update commit. Please check the PR and run the command again if needed.',
+  'branchUpdate.newCommits':
+    '## New commits detected\n\n> [!WARNING]\n> New commits were pushed while updating this branch.\n>\n> - Previous HEAD SHA: {previousSha}\n> - Current HEAD SHA: {headSha}\n>\n> The new HEAD is not the branch update commit, so it must be reviewed and approved as usual.',
+  'branchUpdate.updated':
+    '## Branch updated\n\nThe base branch `{baseRef}` was merged into `{headRef}`.\n\n- **Previous HEAD SHA:** {previousSha}\n- **New HEAD SHA:** {headSha}\n\n{nextStep}\n\n> [!NOTE]\n> This update commit only brings in the base branch, so approvals on the previous HEAD remain valid and a pending auto-merge request stays queued.',
+  'branchUpdate.closed':
+    '## Cannot update branch\n\n> [!CAUTION]\n> This PR is closed. Please reopen it before updating the branch.',
+  'branchUpdate.nextStep': 'Run `{command}` once checks pass on the new HEAD.',
+
+  // Backports (backport-command.ts and backport.ts)
+  'backport.invalidTarget':
+    "## Invalid backport target\n\n> [!CAUTION]\n> Backport targets must be release branches (`{releaseBranchPrefix}*`) other than this PR's base branch.\n>\n> Invalid: {targets}",
+  'backport.targetNotFound':
+    '## Backport target not found\n\n> [!CAUTION]\n> The following branches do not exist: {targets}',
+  'backport.closedWithoutMerge':
+    '## Cannot backport\n\n> [!CAUTION]\n> This PR was closed without being merged, so there is nothing to backport.',
+  'backport.scheduled':
+    '## Backport scheduled\n\n@{actor} requested a backport of this PR to:\n\n{targets}\n\nThe backport PRs are opened once this PR is merged.',
+  'backport.results': '## Backport results\n\n| Target | Result |\n| --- | --- |\n{rows}',
+  'backport.resultCreated': '✅ #{number}',
+  'backport.resultEmpty': 'ℹ️ Already contains these changes',
+  'backport.resultConflict': '❌ Conflicts',
+  'backport.resultFailed': '❌ {error}',
+  'backport.manualInstructions':
+    '> [!CAUTION]\n> The changes of this PR do not apply cleanly to `{target}`. Please backport manually:\n>\n> ```sh\n> git fetch origin\n> git switch -c {branch} origin/{target}\n> git cherry-pick -x {commits}\n> ```',
+  'backport.noMergeCommit':
+    '## Backport failed\n\n> [!CAUTION]\n> GitHub did not report a merge commit for this PR, so there is nothing to cherry-pick.',
+  'backport.cancelledPermission':
+    '## Backport cancelled\n\n> [!CAUTION]\n> @{actor} no longer has write permission on this repository, so the scheduled backport was not run.\n>\n> Permission level: `{permission}`',
+  'backport.cancelledInvalidTarget':
+    "## Backport cancelled\n\n> [!CAUTION]\n> The scheduled backport to `{target}` was not run: backport targets must be release branches (`{releaseBranchPrefix}*`) other than this PR's base branch.",
+  'backport.cancelledTargetNotFound':
+    '## Backport cancelled\n\n> [!CAUTION]\n> The scheduled backport to `{target}` was not run: the branch no longer exists.',
+
+  // Merge queue (merge-queue.ts)
+  'mergeQueue.removed': '## Removed from merge queue\n\n{reason}',
+  'mergeQueue.alreadyQueued':
+    '## Already queued\n\n> [!NOTE]\n> This PR is already in the merge queue for `{baseRef}`.\n>\n> - **Queue position:** {position} of {length}\n>\n> Run `{command}` first to queue it again with different options.',
+  'mergeQueue.queued':
+    '## Queued for merge\n\n@{actor} added this PR to the merge queue for `{baseRef}`.\n\n- **Queue position:** {position} of {position}{ahead}\n\nQueued PRs are merged one at a time. The merge checks run again against the updated `{baseRef}` before each merge.',
+  'mergeQueue.ahead': '- **Ahead in the queue:** {pullRequests}',
+  'mergeQueue.closedOrRetargeted':
+    '> [!WARNING]\n> This PR was closed or its base branch changed from `{baseRef}`. Please run `{command}` again if it should still be merged.',
+  'mergeQueue.newCommits':
+    '> [!WARNING]\n> New commits were pushed after @{actor} queued this PR.\n>\n> - Queued HEAD SHA: {queuedSha}\n> - Current HEAD SHA: {headSha}\n>\n> Please run `{command}` again after the new commits are reviewed and approved.',
+  'mergeQueue.lostPermission':
+    '> [!CAUTION]\n> @{actor} no longer has the permission needed for this merge.\n>\n> Permission level: `{permission}`',
+  'mergeQueue.policyDenied':
+    '> [!CAUTION]\n> The authorization policy does not allow @{actor} to make this merge.\n>\n> Authorization policy rule: `{rule}`',
+  'mergeQueue.teamMembershipUnreadable':
+    '> [!CAUTION]\n> The members of the `@{team}` team could not be read. The token needs the `read:org` scope: the default `GITHUB_TOKEN` cannot read team membership, so pass a GitHub App or personal access token as the `token` input.\n>\n> Authorization policy rule: `{rule}`\n> **Error:** {error}',
+  'mergeQueue.headOfQueue':
+    'This PR is at the head of the merge queue for `{baseRef}` and will be merged once checks pass on the new HEAD.',
+  'mergeQueue.updateFailed':
+    '> [!CAUTION]\n> The branch could not be updated with the base branch (see the comment above). Please update it and run `{command}` again.',
+  'mergeQueue.checksFailed':
+    '> [!CAUTION]\n> The merge checks failed against the current `{baseRef}`, so this PR was removed to unblock the PRs behind it.\n\n{checks}\n\nPlease run `{command}` again once the checks pass.',
+  'mergeQueue.mergeFailed':
+    '> [!CAUTION]\n> The merge attempt failed (see the comment above). Please run `{command}` again once the problem is resolved.',
+
+  // Merge label (merge-label.ts)
+  'mergeLabel.permissionDenied':
+    '## Permission denied\n\n> [!CAUTION]\n> @{actor} added the `{label}` label, but merging needs at least **write** permission on this repository. The label was removed.\n>\n> Permission level: `{permission}`',
+  'mergeLabel.policyDenied':
+    '## Permission denied\n\n> [!CAUTION]\n> @{actor} added the `{label}` label, but merging this PR needs at least **{requiredPermission}** permission on this repository. The label was removed.\n>\n> Authorization policy rule: `{rule}`\n> Permission level: `{permission}`',
+  'mergeLabel.teamDenied':
+    '## Permission denied\n\n> [!CAUTION]\n> @{actor} added the `{label}` label, but only members of the `@{team}` team can merge this PR. The label was removed.\n>\n> Authorization policy rule: `{rule}`',
+  'mergeLabel.teamMembershipUnreadable':
+    '## Authorization check failed\n\n> [!CAUTION]\n> The `{label}` label was removed without merging because the members of the `@{team}` team could not be read. The token needs the `read:org` scope: the default `GITHUB_TOKEN` cannot read team membership, so pass a GitHub App or personal access token as the `token` input.\n>\n> Authorization policy rule: `{rule}`\n> **Error:** {error}',
+  'mergeLabel.removed':
+    '> [!NOTE]\n> The `{label}` label was removed. Add it again to retry once the problem above is resolved.',
+
+  // Ready command (ready-command.ts)
+  'ready.failed':
+    '## Ready for review failed\n\n> [!CAUTION]\n> This PR could not be marked as ready for review.\n>\n> **Error:** {error}',
+  'ready.closed':
+    '## Cannot mark ready\n\n> [!CAUTION]\n> This PR is closed. Please reopen it before marking it as ready for review.',
+  'ready.notDraft': '## Already ready for review\n\nThis PR is not a draft. Nothing to do.',
+  'ready.done': '## Ready for review\n\n@{actor} marked this PR as ready for review.',
+
+  // Status command (status-command.ts)
+  'status.allPassed': 'All checks passed. This PR can be merged with `{command}`.',
+  'status.staleApproval':
+    '- Approval from @{reviewer} is on an outdated commit (reviewed commit: {reviewedSha}, current HEAD: {headSha})',
+  'status.forkNote': '> [!WARNING]\n> This PR is from a forked repository. `{command}` does not support fork PRs.',
+  'status.report': '## Merge status\n\n{verdict}\n\n{checks}{staleApprovals}\n\n{mergeMethod}{forkNote}',
+
+  // Title command (title-command.ts)
+  'title.invalid':
+    '## Invalid title\n\n> [!CAUTION]\n> `{title}` does not follow [Conventional Commits](https://www.conventionalcommits.org/).\n>\n> Use `<type>(<optional scope>): <description>`, for example `{command} feat(auth): add login flow`.',
+  'title.unchanged': '## Title unchanged\n\nThe PR title is already `{title}`.',
+  'title.failed':
+    '## Title update failed\n\n> [!CAUTION]\n> The PR title could not be changed.\n>\n> **Error:** {error}',
+  'title.updated': '## Title updated\n\n- **Before:** `{before}`\n- **After:** `{after}`',
+} as const;
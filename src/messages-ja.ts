@@ -0,0 +1,329 @@
+/**
+ * messages-ja.ts - Japanese message catalog
+ *
+ * Translations of the English catalog (messages-en.ts). Each message must use the same
+ * `{name}` placeholders as its English counterpart. Markdown structure, GitHub alert
+ * markers (`> [!NOTE]`), commands, flags, and SHAs are kept as is.
+ */
+
+import type { EN_MESSAGES } from './messages-en.js';
+
+/**
+ * Japanese messages keyed by message key.
+ */
+export const JA_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
+  // Shared by several commands
+  'common.alreadyMerged': '## マージ済み\n\nこの PR はすでにマージされています。',
+  'common.forkNotSupported':
+    '## フォーク PR は未対応です\n\n> [!WARNING]\n> `{command}` コマンドはフォークしたリポジトリからの PR には対応していません。\n>\n> フォーク元の PR では、GITHUB_TOKEN の書き込み権限がデフォルトで制限されているためです。',
+  'common.listSeparator': '、',
+
+  // Command dispatch (action.ts)
+  'action.unrecognizedCommand':
+    '## コマンドを認識できません\n\n> [!NOTE]\n> {botName} です。このコマンドを認識できませんでした。私宛てのコマンドであれば、以下の対応コマンドと書式を確認してください。\n>\n> コメント: {commentUrl}\n\n### 対応コマンド\n\n{help}',
+  'action.invalidCommand':
+    '## コマンドが不正です\n\n> [!WARNING]\n> {error}\n>\n> コメント: {commentUrl}\n\n### 対応コマンド\n\n{help}',
+  'action.invalidDispatch':
+    '## コマンドが不正です\n\n> [!WARNING]\n> {error}\n>\n> ワークフロー実行: {runUrl}\n\n### 対応コマンド\n\n{help}',
+  'action.permissionDeniedAssociation':
+    '## 権限がありません\n\n> [!CAUTION]\n> `{command}` コマンドを使えるのは、リポジトリのオーナー、メンバー、コラボレーターのみです。\n>\n> あなたの関係: `{association}`',
+  'action.permissionDeniedWrite':
+    '## 権限がありません\n\n> [!CAUTION]\n> `{command}` コマンドを使うには、このリポジトリに対する **write** 以上の権限が必要です。\n>\n> あなたの関係: `{association}`\n> あなたの権限レベル: `{permission}`',
+  'action.permissionDeniedMethodOverride':
+    '## 権限がありません\n\n> [!CAUTION]\n> `{command}` コマンドで `{flag}` を使うには、このリポジトリに対する **{requiredPermission}** 以上の権限が必要です。\n>\n> あなたの権限レベル: `{permission}`',
+  'action.permissionDeniedPolicy':
+    '## 権限がありません\n\n> [!CAUTION]\n> この PR で `{command}` コマンドを使うには、このリポジトリに対する **{requiredPermission}** 以上の権限が必要です。\n>\n> 認可ポリシーのルール: `{rule}`\n> あなたの権限レベル: `{permission}`',
+  'action.permissionDeniedTeam':
+    '## 権限がありません\n\n> [!CAUTION]\n> この PR で `{command}` コマンドを使えるのは `@{team}` チームのメンバーのみです。\n>\n> 認可ポリシーのルール: `{rule}`',
+  'action.teamMembershipUnreadable':
+    '## 認可チェックに失敗しました\n\n> [!CAUTION]\n> `@{team}` チームのメンバーを読み取れなかったため、`{command}` コマンドは実行しませんでした。トークンには `read:org` スコープが必要です。既定の `GITHUB_TOKEN` ではチームのメンバーを読み取れないため、`token` 入力に GitHub App またはパーソナルアクセストークンを指定してください。\n>\n> 認可ポリシーのルール: `{rule}`\n> **エラー:** {error}',
+  'action.help': '## {botName} のコマンド\n\n{help}',
+
+  // Command parsing (validation.ts)
+  'command.helpTableHeader': '| コマンド | 必要な権限 | 説明 |\n| --- | --- | --- |',
+  'command.unterminatedQuote': '{quote} の引用符が閉じられていません',
+  'command.unknownFlag': '`{command}` に `{flag}` というフラグはありません',
+  'command.duplicateFlag': 'フラグ `{flag}` が重複しています',
+  'command.flagTakesNoValue': 'フラグ `{flag}` は値を取りません',
+  'command.flagRequiresValue': 'フラグ `{flag}` には値が必要です (`{flag} {value}`)',
+  'command.invalidFlagValue': '`{flag}` の値 `{value}` が不正です: {expected}を指定してください',
+  'command.conflictingFlags': 'フラグ `{flag}` と `{other}` は同時に使えません',
+  'command.flagRequiresFlag': 'フラグ `{flag}` には `{other}` が必要です',
+  'command.unexpectedArgument': '`{command}` に想定外の引数 `{argument}` があります',
+  'command.titleRequired': '`{command}` にはタイトルが必要です',
+  'command.backportTargetRequired': '`{command}` にはブランチを 1 つ以上指定してください',
+
+  // Merge checklist (validation.ts and merge-checks.ts)
+  'checks.prReady': 'PR がレビュー可能な状態である',
+  'checks.prClosed': 'クローズされています',
+  'checks.prLocked': 'ロックされています',
+  'checks.prDraft': 'ドラフトです',
+  'checks.threadsResolved': 'すべてのレビューの会話が解決済みである',
+  'checks.unresolvedThreads': '未解決 {count} 件',
+  'checks.approval': '他のユーザーによる有効な承認が 1 件以上ある',
+  'checks.noApprovals': '有効な承認がありません',
+  'checks.approvalOverridden':
+    '`--override-approval-requirement` により承認要件をスキップしました。有効な承認はありません',
+  'checks.codeOwnerApproval': '変更されたすべてのファイルについてコードオーナーの承認がある',
+  'checks.codeOwnersMissing': '{groups} の承認がありません',
+  'checks.codeOwnersGroup': '`{file}` の `{owners}`',
+  'checks.codeOwnersGroupMore': '`{file}` ほか {count} 件の `{owners}`',
+  'checks.codeOwnersSeparator': '、',
+  'checks.codeOwnersFileMissing':
+    '`{baseRef}` の `.github/`、ルート、`docs/` のいずれにも CODEOWNERS ファイルがありません',
+  'checks.codeOwnersTeamUnreadable': '`{team}` のメンバーを読み取れませんでした: {error}',
+  'checks.codeOwnersOverridden':
+    '`--override-approval-requirement` によりコードオーナーの承認要件をスキップしました。{details}',
+  'checks.mergeableStateClean': 'マージ可能状態が clean である',
+  'checks.conventionalTitle': 'PR タイトルが [Conventional Commits](https://www.conventionalcommits.org/) に従っている',
+  'checks.titleSuggestions': 'タイトルが Conventional Commits 形式ではありません。{suggestions} を試してください',
+  'checks.titleSuggestionSeparator': ' または ',
+  'checks.titleHint':
+    'タイトルが Conventional Commits 形式ではありません。`{command} <type>: <description>` で設定してください',
+  'checks.mustPass': 'マージする前に、以下のチェックを通過する必要があります:',
+  'checks.staleApprovals': '### 古い承認\n\n{approvals}',
+  'checks.approvalDismissed':
+    '承認を取り消しました: このレビューの後に新しいコミットがプッシュされました (レビューしたコミット: {reviewedSha}、現在の HEAD: {headSha})。',
+  'checks.dismissFailed': '- @{reviewer} の承認を取り消せませんでした (権限不足、またはブランチ保護の設定によるもの)',
+
+  // Mergeable state descriptions (validation.ts)
+  'mergeableState.dirty': '未解決のコンフリクトがあります',
+  'mergeableState.unknown': 'マージ可能かどうかをまだ計算中です。再試行してください',
+  'mergeableState.blocked': '必須のステータスチェックが失敗しているか、まだ報告されていません',
+  'mergeableState.behind': 'head ブランチが base ブランチより遅れています。`{command}` で更新してください',
+  'mergeableState.unstable': '任意のステータスチェックが実行中か失敗しています',
+  'mergeableState.has_hooks': 'リポジトリに独自の pre-receive フックがあります',
+  'mergeableState.clean': 'マージできます',
+  'mergeableState.draft': 'ドラフト PR のため、まだレビュー可能ではありません',
+  'mergeableState.other': 'mergeable_state: {state}',
+
+  // Merge method selection (validation.ts)
+  'mergeMethod.linearHistoryBase':
+    'base ブランチ `{baseRef}` は直線的な履歴が必要です (`rebase-base-branches` に含まれています)',
+  'mergeMethod.releaseHead':
+    'head ブランチ `{headRef}` はリリースブランチです (リリースの履歴を残すためマージコミットを作成します)',
+  'mergeMethod.syncHead':
+    'head ブランチ `{headRef}` は同期ブランチです (バックマージの履歴を残すためマージコミットを作成します)',
+  'mergeMethod.releaseBase': 'base ブランチ `{baseRef}` はリリースブランチです',
+  'mergeMethod.developBase': 'base ブランチが `{baseRef}` です',
+  'mergeMethod.default': '`{headRef}` から `{baseRef}` へのデフォルトのマージコミットです',
+  'mergeMethod.overridden':
+    '`--{method}` で上書きしました (ブランチのルールでは `{ruleMethod}` が選ばれていました: {reason})',
+  'mergeMethod.section': '### マージ方法\n\n- **方法:** `{method}`\n- **理由:** {reason}',
+  'mergeMethod.rebaseNote':
+    '> [!NOTE]\n> リベースマージでは PR のコミットをそのまま再適用するため、コミットのタイトルや本文を設定できません。`Merged-by` と `Merge-method-override` のトレーラー、および `EXCEPTIONAL MERGE` の記録はコミット履歴に**残りません**。このコメントが唯一の記録です。',
+
+  // Merge command (merge-command.ts)
+  'merge.headMismatch':
+    '## HEAD が一致しません\n\n> [!CAUTION]\n> PR の HEAD が `--sha` で指定したコミットではないため、マージしませんでした。\n>\n> - 指定した HEAD SHA: {expectedSha}\n> - 現在の HEAD SHA: {headSha}\n>\n> 新しいコミットを確認し、現在の HEAD SHA を指定してもう一度コマンドを実行してください。',
+  'merge.updatedInsteadOfMerged':
+    'ブランチが base ブランチより遅れていたため、マージせずにブランチを更新しました。新しい HEAD でチェックが通ったら、もう一度 `{command}` を実行してください。',
+  'merge.staleDismissFailures':
+    '## 古い承認を取り消せませんでした\n\n> [!WARNING]\n> 以下の承認を取り消せませんでした (ブランチ保護の設定で "Dismiss stale pull request approvals when new commits are pushed" を有効にすることを検討してください):\n>\n{failures}',
+  'merge.commitMessage':
+    '### コミットメッセージ\n\n**タイトル:**\n\n```text\n{title}\n```\n\n**本文:**\n\n```text\n{body}\n```',
+  'merge.dryRunPassed': 'すべてのチェックを通過しました。`{command}` を実行するとマージされます。',
+  'merge.staleApprovalWouldBeDismissed':
+    '- @{reviewer} の承認は取り消されます (レビューしたコミット: {reviewedSha}、現在の HEAD: {headSha})',
+  'merge.dryRun':
+    '## ドライラン\n\n> [!NOTE]\n> これはドライランです。レビューの取り消しも PR のマージも行っていません。\n\n{verdict}\n\n{checks}{staleApprovals}\n\n{mergeMethod}{commitMessage}',
+  'merge.checksFailed':
+    '## マージチェック失敗\n\nマージする前に、以下のチェックを通過する必要があります:\n\n{checks}\n\n{mergeMethod}',
+  'merge.checksPassed':
+    '## マージチェック通過\n\nすべてのチェックを通過しました。マージを実行します...\n\n{checks}\n\n{mergeMethod}',
+  'merge.newCommits':
+    '## 新しいコミットを検出しました\n\n> [!WARNING]\n> この PR の検証中に新しいコミットがプッシュされました。\n>\n> - 元の HEAD SHA: {originalSha}\n> - 現在の HEAD SHA: {headSha}\n>\n> 新しいコミットのレビューと承認が済んだら、もう一度 `{command}` を実行してください。',
+  'merge.newCommitsDuringRetry':
+    '## 新しいコミットを検出しました\n\n> [!WARNING]\n> この PR の検証中 (マージ可能状態の待機後) に新しいコミットがプッシュされました。\n>\n> - 元の HEAD SHA: {originalSha}\n> - 現在の HEAD SHA: {headSha}\n>\n> 新しいコミットのレビューと承認が済んだら、もう一度 `{command}` を実行してください。',
+  'merge.mergeabilityPending':
+    '## マージ可能状態を確認中\n\n> [!NOTE]\n> GitHub がこの PR をマージできるかどうかをまだ計算しています。\n>\n> - Mergeable: `null`\n> - Mergeable State: `{mergeableState}`\n> - 再試行: 回数={retryCount}、間隔={retryInterval}秒\n>\n> 少し待ってから、もう一度 `{command}` を実行してください。',
+  'merge.conflicts':
+    '## コンフリクトがあります\n\n> [!CAUTION]\n> この PR にはマージ前に解決が必要なコンフリクトがあります。\n>\n> - Mergeable: `{mergeable}`\n> - Mergeable State: `{mergeableState}`\n>\n> コンフリクトを解決してから、もう一度実行してください。',
+  'merge.cannotMerge':
+    '## マージできません\n\n> [!CAUTION]\n> この PR はマージできません:\n>\n> - Mergeable: `{mergeable}`\n> - Mergeable State: `{mergeableState}`\n>\n> コンフリクトや問題を解決してから、もう一度マージを試してください。',
+  'merge.failed':
+    '## マージ失敗\n\n> [!CAUTION]\n> PR をマージできませんでした:\n>\n> - エラー: {error}\n>\n> PR の状態を確認して、もう一度実行してください。',
+  'merge.methodOverridden': ' (`--{method}` で上書き。ブランチのルールでは `{ruleMethod}`)',
+  'merge.detailMergeCommit': '- **マージコミット SHA:** {sha}',
+  'merge.detailBackMerge': '- **バックマージ PR:** #{number} (`{branch}` から `{developBranch}` へ)',
+  'merge.detailBackMergeFailed':
+    '- **バックマージ PR:** 作成できませんでした ({error})。`{headRef}` を `{developBranch}` へ手動でマージしてください。',
+  'merge.detailTag': '- **タグ:** [`{tag}`]({tagUrl})',
+  'merge.detailTagFailed': '- **タグ:** 作成できませんでした ({error})。{sha} に `{tag}` タグを手動で付けてください。',
+  'merge.detailDraftRelease': '- **ドラフトリリース:** {releaseUrl}',
+  'merge.detailDraftReleaseFailed':
+    '- **ドラフトリリース:** 作成できませんでした ({error})。`{tag}` のリリースを手動で作成してください。',
+  'merge.merged':
+    '## {botName}-merge がマージしました\n\nこの PR のマージが完了しました。\n\n### 詳細\n\n- **マージ方法:** `{method}`{methodOverride}\n- **base ブランチ:** `{baseRef}`\n- **head ブランチ:** `{headRef}`\n- **HEAD SHA:** {headSha}{details}',
+
+  // Auto-merge (auto-merge-command.ts and auto-merge.ts)
+  'autoMerge.enabled':
+    '## 自動マージを有効にしました\n\nすべてのチェックを通過したら、@{actor} に代わってこの PR をマージします。\n\n{checks}\n\n{mergeMethod}\n\n> [!NOTE]\n> 新しいコミットがプッシュされると、自動マージは自動的に取り消されます (リクエスト時の HEAD SHA: {headSha})。',
+  'autoMerge.cancelledNewCommits':
+    '## 自動マージを取り消しました\n\n> [!WARNING]\n> @{actor} が自動マージをリクエストした後に、新しいコミットがプッシュされました。\n>\n> - リクエスト時の HEAD SHA: {requestedSha}\n> - 現在の HEAD SHA: {headSha}\n>\n> 新しいコミットのレビューと承認が済んだら、もう一度 `{command}` を実行してください。',
+  'autoMerge.cancelledPermission':
+    '## 自動マージを取り消しました\n\n> [!CAUTION]\n> @{actor} はこのリポジトリの write 権限を失っています。\n>\n> 権限レベル: `{permission}`',
+  'autoMerge.cancelledPolicy':
+    '## 自動マージを取り消しました\n\n> [!CAUTION]\n> 認可ポリシーにより、@{actor} はこの PR をマージできません。\n>\n> 認可ポリシーのルール: `{rule}`',
+  'autoMerge.cancelledTeamUnreadable':
+    '## 自動マージを取り消しました\n\n> [!CAUTION]\n> `@{team}` チームのメンバーを読み取れなかったため、@{actor} のリクエストを取り消しました。トークンには `read:org` スコープが必要です。既定の `GITHUB_TOKEN` ではチームのメンバーを読み取れないため、`token` 入力に GitHub App またはパーソナルアクセストークンを指定してください。\n>\n> 認可ポリシーのルール: `{rule}`\n> **エラー:** {error}',
+  'autoMerge.cancelledFailure':
+    '## 自動マージを取り消しました\n\n> [!CAUTION]\n> 自動マージに失敗しました (上のコメントを参照してください)。問題を解決してから、もう一度 `{command}` を実行してください。',
+
+  // Cancel command (cancel-command.ts)
+  'cancel.nothingToCancel':
+    '## 取り消すものがありません\n\n> [!NOTE]\n> この PR には保留中の自動マージのリクエストもマージキューのエントリもありません。',
+  'cancel.permissionDenied':
+    '## 権限がありません\n\n> [!CAUTION]\n> このリクエストを取り消せるのは、リクエストした {requesters}、または **{requiredPermission}** 以上の権限を持つユーザーのみです。\n>\n> あなたの権限レベル: `{permission}`',
+  'cancel.autoMergeCancelled':
+    '## 自動マージを取り消しました\n\n@{requester} の自動マージのリクエストを @{actor} が取り消しました。`{label}` ラベルを外しました。',
+  'cancel.removedFromQueue':
+    '## マージキューから外しました\n\n@{requester} がキューに追加したこの PR を、@{actor} が `{baseRef}` のマージキューから外しました。`{label}` ラベルを外しました。',
+
+  // Branch updates (branch-update.ts and update-branch-command.ts)
+  'branchUpdate.failed':
+    '## ブランチの更新に失敗しました\n\n> [!CAUTION]\n> head ブランチを更新できませんでした:\n>\n> - エラー: {error}\n>\n> PR の状態を確認して、もう一度実行してください。',
+  'branchUpdate.pending':
+    '## ブランチの更新を待っています\n\n> [!NOTE]\n> GitHub は更新を受け付けましたが、新しい HEAD が時間内に反映されませんでした。\n>\n> - 以前の HEAD SHA: {previousSha}\n> - 再試行: 回数={retryCount}、間隔={retryInterval}秒\n>\n> 以前の HEAD への承認は更新コミットに引き継がれません。PR を確認し、必要であればもう一度コマンドを実行してください。',
+  'branchUpdate.newCommits':
+    '## 新しいコミットを検出しました\n\n> [!WARNING]\n> ブランチの更新中に新しいコミットがプッシュされました。\n>\n> - 以前の HEAD SHA: {previousSha}\n> - 現在の HEAD SHA: {headSha}\n>\n> 新しい HEAD はブランチの更新コミットではないため、通常どおりレビューと承認が必要です。',
+  'branchUpdate.updated':
+    '## ブランチを更新しました\n\nbase ブランチ `{baseRef}` を `{headRef}` にマージしました。\n\n- **以前の HEAD SHA:** {previousSha}\n- **新しい HEAD SHA:** {headSha}\n\n{nextStep}\n\n> [!NOTE]\n> この更新コミットは base ブランチを取り込むだけなので、以前の HEAD への承認は有効なままで、保留中の自動マージのリクエストも残ります。',
+  'branchUpdate.closed':
+    '## ブランチを更新できません\n\n> [!CAUTION]\n> この PR はクローズされています。ブランチを更新する前に PR を再オープンしてください。',
+  'branchUpdate.nextStep': '新しい HEAD でチェックが通ったら `{command}` を実行してください。',
+
+  // Backports (backport-command.ts and backport.ts)
+  'backport.invalidTarget':
+    '## バックポート先が不正です\n\n> [!CAUTION]\n> バックポート先は、この PR の base ブランチ以外のリリースブランチ (`{releaseBranchPrefix}*`) である必要があります。\n>\n> 不正な指定: {targets}',
+  'backport.targetNotFound':
+    '## バックポート先が見つかりません\n\n> [!CAUTION]\n> 次のブランチは存在しません: {targets}',
+  'backport.closedWithoutMerge':
+    '## バックポートできません\n\n> [!CAUTION]\n> この PR はマージされずにクローズされたため、バックポートするものがありません。',
+  'backport.scheduled':
+    '## バックポートを予約しました\n\n@{actor} がこの PR の次のブランチへのバックポートをリクエストしました:\n\n{targets}\n\nこの PR がマージされると、バックポート PR が作成されます。',
+  'backport.results': '## バックポートの結果\n\n| バックポート先 | 結果 |\n| --- | --- |\n{rows}',
+  'backport.resultCreated': '✅ #{number}',
+  'backport.resultEmpty': 'ℹ️ すでにこれらの変更を含んでいます',
+  'backport.resultConflict': '❌ コンフリクト',
+  'backport.resultFailed': '❌ {error}',
+  'backport.manualInstructions':
+    '> [!CAUTION]\n> この PR の変更は `{target}` にきれいに適用できません。手動でバックポートしてください:\n>\n> ```sh\n> git fetch origin\n> git switch -c {branch} origin/{target}\n> git cherry-pick -x {commits}\n> ```',
+  'backport.noMergeCommit':
+    '## バックポート失敗\n\n> [!CAUTION]\n> GitHub がこの PR のマージコミットを返さなかったため、cherry-pick するものがありません。',
+  'backport.cancelledPermission':
+    '## バックポートを取り消しました\n\n> [!CAUTION]\n> @{actor} はこのリポジトリの write 権限を失っているため、予約されたバックポートを実行しませんでした。\n>\n> 権限レベル: `{permission}`',
+  'backport.cancelledInvalidTarget':
+    '## バックポートを取り消しました\n\n> [!CAUTION]\n> `{target}` への予約されたバックポートを実行しませんでした: バックポート先は、この PR の base ブランチ以外のリリースブランチ (`{releaseBranchPrefix}*`) である必要があります。',
+  'backport.cancelledTargetNotFound':
+    '## バックポートを取り消しました\n\n> [!CAUTION]\n> `{target}` への予約されたバックポートを実行しませんでした: ブランチが存在しなくなりました。',
+
+  // Merge queue (merge-queue.ts)
+  'mergeQueue.removed': '## マージキューから外しました\n\n{reason}',
+  'mergeQueue.alreadyQueued':
+    '## すでにキューにあります\n\n> [!NOTE]\n> この PR はすでに `{baseRef}` のマージキューに入っています。\n>\n> - **キューの順番:** {length} 件中 {position} 番目\n>\n> 別のオプションでキューに入れ直すには、先に `{command}` を実行してください。',
+  'mergeQueue.queued':
+    '## マージキューに追加しました\n\n@{actor} がこの PR を `{baseRef}` のマージキューに追加しました。\n\n- **キューの順番:** {position} 件中 {position} 番目{ahead}\n\nキューの PR は 1 件ずつマージされます。各マージの前に、更新後の `{baseRef}` に対してマージチェックを再実行します。',
+  'mergeQueue.ahead': '- **先に並んでいる PR:** {pullRequests}',
+  'mergeQueue.closedOrRetargeted':
+    '> [!WARNING]\n> この PR はクローズされたか、base ブランチが `{baseRef}` から変更されました。まだマージする場合は、もう一度 `{command}` を実行してください。',
+  'mergeQueue.newCommits':
+    '> [!WARNING]\n> @{actor} がこの PR をキューに追加した後に、新しいコミットがプッシュされました。\n>\n> - キュー追加時の HEAD SHA: {queuedSha}\n> - 現在の HEAD SHA: {headSha}\n>\n> 新しいコミットのレビューと承認が済んだら、もう一度 `{command}` を実行してください。',
+  'mergeQueue.lostPermission':
+    '> [!CAUTION]\n> @{actor} はこのマージに必要な権限を失っています。\n>\n> 権限レベル: `{permission}`',
+  'mergeQueue.policyDenied':
+    '> [!CAUTION]\n> 認可ポリシーにより、@{actor} はこのマージを実行できません。\n>\n> 認可ポリシーのルール: `{rule}`',
+  'mergeQueue.teamMembershipUnreadable':
+    '> [!CAUTION]\n> `@{team}` チームのメンバーを読み取れませんでした。トークンには `read:org` スコープが必要です。既定の `GITHUB_TOKEN` ではチームのメンバーを読み取れないため、`token` 入力に GitHub App またはパーソナルアクセストークンを指定してください。\n>\n> 認可ポリシーのルール: `{rule}`\n> **エラー:** {error}',
+  'mergeQueue.headOfQueue':
+    'この PR は `{baseRef}` のマージキューの先頭にあり、新しい HEAD でチェックが通るとマージされます。',
+  'mergeQueue.updateFailed':
+    '> [!CAUTION]\n> ブランチを base ブランチで更新できませんでした (上のコメントを参照してください)。ブランチを更新してから、もう一度 `{command}` を実行してください。',
+  'mergeQueue.checksFailed':
+    '> [!CAUTION]\n> 現在の `{baseRef}` に対するマージチェックに失敗したため、後ろの PR を止めないようにこの PR をキューから外しました。\n\n{checks}\n\nチェックが通ったら、もう一度 `{command}` を実行してください。',
+  'mergeQueue.mergeFailed':
+    '> [!CAUTION]\n> マージに失敗しました (上のコメントを参照してください)。問題を解決してから、もう一度 `{command}` を実行してください。',
+
+  // Merge label (merge-label.ts)
+  'mergeLabel.permissionDenied':
+    '## 権限がありません\n\n> [!CAUTION]\n> @{actor} が `{label}` ラベルを付けましたが、マージするにはこのリポジトリに対する **write** 以上の権限が必要です。ラベルは外しました。\n>\n> 権限レベル: `{permission}`',
+  'mergeLabel.policyDenied':
+    '## 権限がありません\n\n> [!CAUTION]\n> @{actor} が `{label}` ラベルを付けましたが、この PR をマージするにはこのリポジトリに対する **{requiredPermission}** 以上の権限が必要です。ラベルは外しました。\n>\n> 認可ポリシーのルール: `{rule}`\n> 権限レベル: `{permission}`',
+  'mergeLabel.teamDenied':
+    '## 権限がありません\n\n> [!CAUTION]\n> @{actor} が `{label}` ラベルを付けましたが、この PR をマージできるのは `@{team}` チームのメンバーのみです。ラベルは外しました。\n>\n> 認可ポリシーのルール: `{rule}`',
+  'mergeLabel.teamMembershipUnreadable':
+    '## 認可チェックに失敗しました\n\n> [!CAUTION]\n> `@{team}` チームのメンバーを読み取れなかったため、マージせずに `{label}` ラベルを外しました。トークンには `read:org` スコープが必要です。既定の `GITHUB_TOKEN` ではチームのメンバーを読み取れないため、`token` 入力に GitHub App またはパーソナルアクセストークンを指定してください。\n>\n> 認可ポリシーのルール: `{rule}`\n> **エラー:** {error}',
+  'mergeLabel.removed':
+    '> [!NOTE]\n> `{label}` ラベルを外しました。上記の問題を解決したら、もう一度ラベルを付けて再試行してください。',
+
+  // Ready command (ready-command.ts)
+  'ready.failed':
+    '## レビュー可能にできませんでした\n\n> [!CAUTION]\n> この PR をレビュー可能な状態にできませんでした。\n>\n> **エラー:** {error}',
+  'ready.closed':
+    '## レビュー可能にできません\n\n> [!CAUTION]\n> この PR はクローズされています。レビュー可能にする前に PR を再オープンしてください。',
+  'ready.notDraft': '## すでにレビュー可能です\n\nこの PR はドラフトではありません。何もしませんでした。',
+  'ready.done': '## レビュー可能にしました\n\n@{actor} がこの PR をレビュー可能な状態にしました。',
+
+  // Status command (status-command.ts)
+  'status.allPassed': 'すべてのチェックを通過しました。`{command}` でこの PR をマージできます。',
+  'status.staleApproval':
+    '- @{reviewer} の承認は古いコミットに対するものです (レビューしたコミット: {reviewedSha}、現在の HEAD: {headSha})',
+  'status.forkNote':
+    '> [!WARNING]\n> この PR はフォークしたリポジトリからのものです。`{command}` はフォーク PR に対応していません。',
+  'status.report': '## マージの状態\n\n{verdict}\n\n{checks}{staleApprovals}\n\n{mergeMethod}{forkNote}',
+
+  // Title command (title-command.ts)
+  'title.invalid':
+    '## タイトルが不正です\n\n> [!CAUTION]\n> `{title}` は [Conventional Commits](https://www.conventionalcommits.org/) に従っていません。\n>\n> `<type>(<optional scope>): <description>` の形式で指定してください。例: `{command} feat(auth): add login flow`',
+  'title.unchanged': '## タイトルは変更されていません\n\nPR のタイトルはすでに `{title}` です。',
+  'title.failed':
+    '## タイトルを変更できませんでした\n\n> [!CAUTION]\n> PR のタイトルを変更できませんでした。\n>\n> **エラー:** {error}',
+  'title.updated': '## タイトルを変更しました\n\n- **変更前:** `{before}`\n- **変更後:** `{after}`',
+};
+
+/**
+ * Japanese descriptions of the commands, flags, and flag values in the COMMANDS registry
+ * (constants.ts), keyed by their English description.
+ */
+export const JA_COMMAND_DESCRIPTIONS: Record<string, string> = {
+  'Run the pre-merge checks and merge the PR when every required check passes. With `merge-queue` enabled, add the PR to the merge queue of its base branch instead.':
+    'マージ前のチェックを実行し、必須のチェックをすべて通過したら PR をマージします。`merge-queue` が有効な場合は、代わりに base ブランチのマージキューに PR を追加します。',
+  'Exceptional/privileged option: skip the review approval requirement for this merge only. All other checks still apply.':
+    '例外的な特権オプション: 今回のマージに限り、レビュー承認の要件をスキップします。ほかのチェックはすべて適用されます。',
+  'Why the approval requirement is overridden. Recorded in the commit message next to the exceptional merge notice. Only with `--override-approval-requirement`.':
+    '承認要件をスキップする理由です。コミットメッセージの例外マージの記録の隣に残ります。`--override-approval-requirement` と一緒にのみ使えます。',
+  'Squash merge regardless of the branch rules. The override is recorded in the commit trailers. Requires the `method-override-permission` level (default: maintain).':
+    'ブランチのルールにかかわらずスカッシュマージします。上書きしたことはコミットのトレーラーに記録されます。`method-override-permission` の権限レベル (デフォルト: maintain) が必要です。',
+  'Create a merge commit regardless of the branch rules. The override is recorded in the commit trailers. Requires the `method-override-permission` level (default: maintain).':
+    'ブランチのルールにかかわらずマージコミットを作成します。上書きしたことはコミットのトレーラーに記録されます。`method-override-permission` の権限レベル (デフォルト: maintain) が必要です。',
+  'Rebase merge regardless of the branch rules. Rebase keeps the PR commits unchanged, so no trailers are recorded. Requires the `method-override-permission` level (default: maintain).':
+    'ブランチのルールにかかわらずリベースマージします。リベースは PR のコミットをそのまま残すため、トレーラーは記録されません。`method-override-permission` の権限レベル (デフォルト: maintain) が必要です。',
+  'Use this commit title instead of the PR title (e.g. `--title "fix: handle timeouts"`). Must follow Conventional Commits. Not with `--rebase`.':
+    'PR のタイトルの代わりにこのコミットタイトルを使います (例: `--title "fix: handle timeouts"`)。Conventional Commits に従う必要があります。`--rebase` とは併用できません。',
+  'Add this text to the commit message body, before the trailers (e.g. `--message "Closes #12"`). Not with `--rebase`.':
+    'このテキストをコミットメッセージの本文のトレーラーの前に追加します (例: `--message "Closes #12"`)。`--rebase` とは併用できません。',
+  'Merge only if the PR HEAD commit still starts with this SHA (7 to 40 hex characters). Guards against commits pushed after you reviewed.':
+    'PR の HEAD コミットがこの SHA (16 進数 7〜40 文字) で始まる場合にのみマージします。レビュー後にプッシュされたコミットのマージを防ぎます。',
+  'When the head branch is behind the base branch, update it (merging the base branch in) instead of merging. Run the merge command again once checks pass on the new HEAD.':
+    'head ブランチが base ブランチより遅れている場合、マージせずにブランチを更新します (base ブランチを取り込みます)。新しい HEAD でチェックが通ったら、もう一度 merge コマンドを実行してください。',
+  'Mark a draft PR as ready for review before the checks run. Has no effect with `--dry-run`, which never changes the PR.':
+    'チェックの前にドラフト PR をレビュー可能な状態にします。PR を変更しない `--dry-run` と一緒に使っても効果はありません。',
+  'Run every check and report the commit message that would be used, without dismissing reviews or merging.':
+    'レビューの取り消しやマージをせずに、すべてのチェックを実行して使われるコミットメッセージを報告します。',
+  'Merge now if every check passes; otherwise queue the PR and merge it once checks pass. Cancelled automatically when new commits are pushed.':
+    'すべてのチェックを通過していればすぐにマージし、そうでなければ PR を待機させてチェックが通ったらマージします。新しいコミットがプッシュされると自動的に取り消されます。',
+  'Withdraw the pending auto-merge request or merge queue entry. Allowed for the original requester and users with maintain or admin permission.':
+    '保留中の自動マージのリクエストまたはマージキューのエントリを取り消します。リクエストした本人と、maintain または admin 権限を持つユーザーが使えます。',
+  'Update the head branch with the latest base branch. The bot treats its own update commit as the expected HEAD, so approvals and a pending auto-merge request are kept.':
+    'head ブランチを最新の base ブランチで更新します。bot は自身の更新コミットを想定どおりの HEAD として扱うため、承認と保留中の自動マージのリクエストは維持されます。',
+  'Set the PR title. The new title must follow Conventional Commits (squash commits use the PR title).':
+    'PR のタイトルを設定します。新しいタイトルは Conventional Commits に従う必要があります (スカッシュコミットには PR のタイトルが使われます)。',
+  'Mark a draft PR as ready for review.': 'ドラフト PR をレビュー可能な状態にします。',
+  'Cherry-pick the merged PR onto each given release branch and open a backport PR. Before the merge, the backport is scheduled and runs once the PR is merged.':
+    'マージされた PR を指定した各リリースブランチに cherry-pick し、バックポート PR を作成します。マージ前に実行した場合は予約され、PR がマージされたときに実行されます。',
+  'Report the current pre-merge checklist and merge method without merging.':
+    'マージせずに、現在のマージ前チェックリストとマージ方法を報告します。',
+  'List supported commands and flags.': '対応しているコマンドとフラグを一覧表示します。',
+  'a Conventional Commits title': 'Conventional Commits 形式のタイトル',
+  '7 to 40 hex characters': '16 進数 7〜40 文字',
+};
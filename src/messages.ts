@@ -0,0 +1,87 @@
+/**
+ * messages.ts - Localized text for PR comments
+ *
+ * Every comment body, check name, and status description that nylbot posts is looked up
+ * here by key, in the language selected with the `language` input:
+ *
+ *   formatMessage('ja', 'title.unchanged', { title: 'fix: x' })
+ *
+ * Messages use `{name}` placeholders. A key missing from a catalog falls back to English
+ * (messages-en.ts), which defines every key and the placeholders each message takes.
+ * Command and flag descriptions stay in the COMMANDS registry (constants.ts) in English;
+ * catalogs translate them by their English text.
+ *
+ * All functions are pure.
+ */
+
+import { escapeHtmlComments } from './markers.js';
+import { EN_MESSAGES } from './messages-en.js';
+import { JA_MESSAGES, JA_COMMAND_DESCRIPTIONS } from './messages-ja.js';
+import type { Language } from './types.js';
+
+/**
+ * Key of a message in the catalogs.
+ */
+export type MessageKey = keyof typeof EN_MESSAGES;
+
+/**
+ * Names of the `{name}` placeholders in a message template.
+ */
+type Placeholders<Template extends string> = Template extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | Placeholders<Rest>
+  : never;
+
+/**
+ * Arguments after the key: a parameter object when the English message has placeholders, nothing otherwise.
+ */
+type MessageArguments<Key extends MessageKey> = [Placeholders<(typeof EN_MESSAGES)[Key]>] extends [never]
+  ? []
+  : [params: Record<Placeholders<(typeof EN_MESSAGES)[Key]>, string | number>];
+
+/**
+ * Catalog of messages for one language; keys that are left out fall back to English.
+ */
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
+
+const CATALOGS: Record<Language, MessageCatalog> = { en: EN_MESSAGES, ja: JA_MESSAGES };
+
+const COMMAND_DESCRIPTIONS: Record<Language, Record<string, string>> = { en: {}, ja: JA_COMMAND_DESCRIPTIONS };
+
+/**
+ * Formats a message in the given language, filling in its `{name}` placeholders.
+ * Placeholders are filled in one pass, so braces in parameter values are kept as is.
+ * Parameter values often repeat user text, so HTML comments in them are escaped and
+ * cannot hide a marker in nylbot's comment (markers are appended after formatting).
+ *
+ * @param language - Language of the message
+ * @param key - Message key
+ * @param params - Value of each placeholder (only for messages with placeholders)
+ * @returns The formatted message
+ *
+ * @example
+ * formatMessage('en', 'checks.unresolvedThreads', { count: 2 })  // '2 unresolved'
+ * formatMessage('ja', 'checks.unresolvedThreads', { count: 2 })  // '未解決 2 件'
+ */
+export function formatMessage<Key extends MessageKey>(
+  language: Language,
+  key: Key,
+  ...[params]: MessageArguments<Key>
+): string {
+  const template = CATALOGS[language][key] ?? EN_MESSAGES[key];
+  const values: Record<string, string | number> = params ?? {};
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    escapeHtmlComments(String(values[name] ?? placeholder)),
+  );
+}
+
+/**
+ * Translates a description from the COMMANDS registry, keeping the English text when
+ * the language has no translation for it.
+ *
+ * @param language - Language of the description
+ * @param description - English description from the registry
+ * @returns The translated description
+ */
+export function translateCommandDescription(language: Language, description: string): string {
+  return COMMAND_DESCRIPTIONS[language][description] ?? description;
+}
@@ -0,0 +1,83 @@
+/**
+ * ready-command.ts - Handler for the `/nylbot ready` command
+ *
+ * Marks a draft PR as ready for review. The same step runs before the checks
+ * for `/nylbot merge --ready`, so a draft can be flipped and merged in one command.
+ */
+
+import { postReply, fetchPullRequestData, markPullRequestReadyForReview } from './github-api.js';
+import { formatMessage } from './messages.js';
+import type { ActionConfig, ActionResult, EventContext, Octokit, PullRequestData } from './types.js';
+
+/**
+ * Marks a draft PR as ready for review, reporting a failure in a PR comment.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options (comment language)
+ * @param prData - Data of the draft PR
+ * @returns Failed result when the PR could not be marked ready, or null on success
+ */
+export async function markReadyForReview(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+  prData: PullRequestData,
+): Promise<ActionResult | null> {
+  const { owner, repo, prNumber, comment } = context;
+
+  const result = await markPullRequestReadyForReview(octokit, prData.nodeId);
+  if (!result.success) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'ready.failed', { error: result.error ?? '' }),
+    );
+    return { status: 'failed', message: `Ready for review failed: ${result.error}` };
+  }
+  return null;
+}
+
+/**
+ * Handles the `/nylbot ready` command after the command actor has been authorized.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options (comment language)
+ * @returns Result of the operation
+ */
+export async function handleReadyCommand(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+): Promise<ActionResult> {
+  const { owner, repo, prNumber, actor, comment } = context;
+
+  const prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+
+  if (prData.merged) {
+    await postReply(octokit, owner, repo, prNumber, comment, formatMessage(config.language, 'common.alreadyMerged'));
+    return { status: 'already_merged', message: 'PR already merged' };
+  }
+
+  if (prData.state !== 'open') {
+    await postReply(octokit, owner, repo, prNumber, comment, formatMessage(config.language, 'ready.closed'));
+    return { status: 'failed', message: 'PR is not open' };
+  }
+
+  if (!prData.draft) {
+    await postReply(octokit, owner, repo, prNumber, comment, formatMessage(config.language, 'ready.notDraft'));
+    return { status: 'skipped', message: 'PR is not a draft' };
+  }
+
+  const failure = await markReadyForReview(octokit, context, config, prData);
+  if (failure) {
+    return failure;
+  }
+
+  await postReply(octokit, owner, repo, prNumber, comment, formatMessage(config.language, 'ready.done', { actor }));
+  return { status: 'skipped', message: 'PR marked ready for review' };
+}
@@ -0,0 +1,109 @@
+/**
+ * release.ts - Tag and draft release after a release branch is merged
+ *
+ * With `create-release` enabled, merging a release branch (e.g., `release/v1.4.0`) into a
+ * branch other than develop tags the merge commit with the version from the branch name and
+ * drafts a GitHub Release. The release notes list the PRs whose merge is among the commits
+ * since the previous release tag, grouped by their Conventional Commits type. The release stays a draft so a maintainer can
+ * review the notes before publishing.
+ */
+
+import {
+  listTags,
+  fetchComparedCommitShas,
+  fetchMergedPullRequestsForCommit,
+  createAnnotatedTag,
+  createDraftRelease,
+} from './github-api.js';
+import type { EventContext, Octokit, ReleaseResult } from './types.js';
+import { buildReleaseNotes, findPreviousReleaseTag } from './validation.js';
+
+/**
+ * Lists the PRs merged between the previous release and this one.
+ * Why: A PR belongs to the release only when its merge commit is among the commits since the
+ * previous release; PRs merged into other branches in the meantime (e.g. develop after the
+ * release branch was cut) are not part of it.
+ *
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param previousSha - Commit of the previous release tag
+ * @param mergeCommitSha - Commit created by the release merge
+ * @param prNumber - Number of the merged release PR (left out)
+ * @returns Number and title of each PR, in the order of their commits
+ */
+async function listReleasedPullRequests(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  previousSha: string,
+  mergeCommitSha: string,
+  prNumber: number,
+): Promise<{ number: number; title: string }[]> {
+  const shas = await fetchComparedCommitShas(octokit, owner, repo, previousSha, mergeCommitSha);
+  const released = new Set(shas);
+  const pullRequests = new Map<number, { number: number; title: string }>();
+  for (const sha of shas) {
+    for (const pr of await fetchMergedPullRequestsForCommit(octokit, owner, repo, sha)) {
+      if (pr.number !== prNumber && pr.mergeCommitSha !== null && released.has(pr.mergeCommitSha)) {
+        pullRequests.set(pr.number, { number: pr.number, title: pr.title });
+      }
+    }
+  }
+  return [...pullRequests.values()];
+}
+
+/**
+ * Tags the release merge commit and drafts the GitHub Release for it.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context (repository and server URL)
+ * @param prNumber - Number of the merged release PR (left out of the release notes)
+ * @param tag - Tag name from parseReleaseTag
+ * @param mergeCommitSha - Commit created by the release merge
+ * @returns Tag and release URLs, or the reason they were not created
+ */
+export async function createRelease(
+  octokit: Octokit,
+  context: EventContext,
+  prNumber: number,
+  tag: string,
+  mergeCommitSha: string,
+): Promise<ReleaseResult> {
+  const { owner, repo, serverUrl } = context;
+
+  let tagUrl: string | undefined;
+  try {
+    const tags = await listTags(octokit, owner, repo);
+    // Why: An existing tag may already be published, so it is never moved
+    if (tags.some((existing) => existing.name === tag)) {
+      return { tag, error: `tag \`${tag}\` already exists` };
+    }
+
+    const previousTag = findPreviousReleaseTag(
+      tags.map((existing) => existing.name),
+      tag,
+    );
+    const previousSha = tags.find((existing) => existing.name === previousTag)?.commitSha;
+    const pullRequests =
+      previousSha !== undefined
+        ? await listReleasedPullRequests(octokit, owner, repo, previousSha, mergeCommitSha, prNumber)
+        : [];
+
+    await createAnnotatedTag(octokit, owner, repo, tag, mergeCommitSha, `Release ${tag}`);
+    tagUrl = `${serverUrl.replace(/\/+$/, '')}/${owner}/${repo}/tree/${tag}`;
+
+    const releaseUrl = await createDraftRelease(octokit, owner, repo, {
+      tag,
+      name: tag,
+      body: buildReleaseNotes(pullRequests, previousTag),
+    });
+    return { tag, tagUrl, releaseUrl };
+  } catch (error) {
+    return {
+      tag,
+      ...(tagUrl !== undefined && { tagUrl }),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
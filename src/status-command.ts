@@ -0,0 +1,81 @@
+/**
+ * status-command.ts - Handler for the `/nylbot status` command
+ *
+ * Reports the current merge checklist and the selected merge method without
+ * changing anything on the PR. This lets users see what is blocking a merge
+ * without running `/nylbot merge`.
+ */
+
+import { postReply, fetchPullRequestData } from './github-api.js';
+import { evaluateMergeChecks } from './merge-checks.js';
+import { formatMessage } from './messages.js';
+import type { ActionConfig, ActionResult, EventContext, Octokit } from './types.js';
+import { buildCheckResultsMarkdown, buildMergeMethodMarkdown } from './validation.js';
+
+/**
+ * Handles the `/nylbot status` command.
+ * This command is read-only: stale approvals are listed but never dismissed.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options
+ * @returns Result of the operation
+ */
+export async function handleStatusCommand(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+): Promise<ActionResult> {
+  const { owner, repo, prNumber, comment } = context;
+
+  const prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+
+  if (prData.merged) {
+    await postReply(octokit, owner, repo, prNumber, comment, formatMessage(config.language, 'common.alreadyMerged'));
+    return { status: 'already_merged', message: 'PR already merged' };
+  }
+
+  const evaluation = await evaluateMergeChecks(octokit, owner, repo, prNumber, prData, config, {
+    overrideApprovalRequirement: false,
+    dismissStaleReviews: false,
+    submittedReview: context.review,
+  });
+
+  const { language } = config;
+  const mergeCommand = `${config.commandPrefix} merge`;
+  const verdict = evaluation.allPassed
+    ? formatMessage(language, 'status.allPassed', { command: mergeCommand })
+    : formatMessage(language, 'checks.mustPass');
+  const staleApprovals = evaluation.staleApprovals.map((a) =>
+    formatMessage(language, 'status.staleApproval', {
+      reviewer: a.reviewer,
+      reviewedSha: a.reviewedSha.slice(0, 7),
+      headSha: prData.headSha.slice(0, 7),
+    }),
+  );
+  const staleSection =
+    staleApprovals.length > 0
+      ? `\n\n${formatMessage(language, 'checks.staleApprovals', { approvals: staleApprovals.join('\n') })}`
+      : '';
+  const forkNote = prData.isFork ? `\n\n${formatMessage(language, 'status.forkNote', { command: mergeCommand })}` : '';
+
+  await postReply(
+    octokit,
+    owner,
+    repo,
+    prNumber,
+    comment,
+    formatMessage(language, 'status.report', {
+      verdict,
+      checks: buildCheckResultsMarkdown(evaluation.checks),
+      staleApprovals: staleSection,
+      mergeMethod: buildMergeMethodMarkdown(evaluation.mergeMethodResult, config),
+      forkNote,
+    }),
+  );
+
+  return {
+    status: 'skipped',
+    message: evaluation.allPassed ? 'Status reported: merge checks passed' : 'Status reported: merge checks failed',
+  };
+}
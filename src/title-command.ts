@@ -0,0 +1,85 @@
+/**
+ * title-command.ts - Handler for the `/nylbot title` command
+ *
+ * Sets the PR title after checking it against Conventional Commits. Squash merges
+ * use the PR title as the commit title, so the title is fixed before merging
+ * (the merge checklist suggests titles for this command).
+ */
+
+import { postReply, fetchPullRequestData, updatePullRequestTitle } from './github-api.js';
+import { formatMessage } from './messages.js';
+import type { ActionConfig, ActionResult, EventContext, Octokit } from './types.js';
+import { isConventionalCommitTitle } from './validation.js';
+
+/**
+ * Handles the `/nylbot title <new title>` command after the command actor has been authorized.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options (command prefix for the example and comment language)
+ * @param title - New title from the command
+ * @returns Result of the operation
+ */
+export async function handleTitleCommand(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+  title: string,
+): Promise<ActionResult> {
+  const { owner, repo, prNumber, comment } = context;
+
+  if (!isConventionalCommitTitle(title)) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'title.invalid', { title, command: `${config.commandPrefix} title` }),
+    );
+    return { status: 'failed', message: 'Invalid title' };
+  }
+
+  const prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+
+  // Why: The merge commit already used the old title, so changing it no longer helps
+  if (prData.merged) {
+    await postReply(octokit, owner, repo, prNumber, comment, formatMessage(config.language, 'common.alreadyMerged'));
+    return { status: 'already_merged', message: 'PR already merged' };
+  }
+
+  if (prData.title === title) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'title.unchanged', { title }),
+    );
+    return { status: 'skipped', message: 'Title unchanged' };
+  }
+
+  const result = await updatePullRequestTitle(octokit, owner, repo, prNumber, title);
+  if (!result.success) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'title.failed', { error: result.error ?? '' }),
+    );
+    return { status: 'failed', message: `Title update failed: ${result.error}` };
+  }
+
+  await postReply(
+    octokit,
+    owner,
+    repo,
+    prNumber,
+    comment,
+    formatMessage(config.language, 'title.updated', { before: prData.title, after: title }),
+  );
+  return { status: 'skipped', message: 'Title updated' };
+}
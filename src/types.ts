@@ -19,6 +19,51 @@
 import type { getOctokit } from '@actions/github';
 import type { RestEndpointMethodTypes } from '@octokit/plugin-rest-endpoint-methods';
 
+/**
+ * Rule of the `authorization-policy` input: the permission level or team membership a
+ * command (optionally with a flag, or into matching base branches) requires.
+ *
+ * @example
+ * // merge --squash into release/*: admin
+ * { source: 'merge --squash into release/*: admin', command: 'merge', flag: '--squash', baseBranch: 'release/*', permission: 'admin', team: null }
+ * // merge into main: @acme/release-managers
+ * { source: 'merge into main: @acme/release-managers', command: 'merge', flag: null, baseBranch: 'main', permission: null, team: { org: 'acme', slug: 'release-managers' } }
+ */
+export interface AuthorizationRule {
+  /** Rule as written in the input, quoted in denial comments */
+  source: string;
+  /** Subcommand the rule applies to (e.g., "merge") */
+  command: string;
+  /** Flag the rule applies to (e.g., "--override-approval-requirement"); null for every use of the command */
+  flag: string | null;
+  /** Base branch pattern the rule applies to (`*` matches any characters); null for every base branch */
+  baseBranch: string | null;
+  /** Minimum permission level required (e.g., "maintain"); null for team rules */
+  permission: string | null;
+  /** Organization team whose members may run the command; null for permission rules */
+  team: { org: string; slug: string } | null;
+}
+
+/**
+ * Line of a CODEOWNERS file: a gitignore-style path pattern and the owners of matching files.
+ */
+export interface CodeownersRule {
+  /** Path pattern (e.g., "/docs/", "*.ts", "apps/") */
+  pattern: string;
+  /** Owners as written (`@user`, `@org/team`, or an email address); empty when matching files have no owner */
+  owners: string[];
+}
+
+/**
+ * Policy rule that denied a command, from findDeniedRule (authorization.ts).
+ */
+export interface AuthorizationDenial {
+  /** Rule the actor does not satisfy */
+  rule: AuthorizationRule;
+  /** Why the team membership could not be read (e.g. the token lacks `read:org`); null when the actor is simply not allowed */
+  error: string | null;
+}
+
 /**
  * Configuration options for the nylbot-merge action.
  * These are passed from the workflow inputs.
@@ -34,8 +79,39 @@ export interface ActionConfig {
   mergeableRetryCount: number;
   /** Interval in seconds between retries */
   mergeableRetryInterval: number;
+  /** Base branches that require linear history and are merged with rebase */
+  rebaseBaseBranches: string[];
+  /** Minimum permission level required to use `--squash` / `--merge` / `--rebase` (e.g., "maintain") */
+  methodOverridePermission: string;
+  /** Rules from the `authorization-policy` input, checked on top of the default association and write-permission checks */
+  authorizationPolicy: AuthorizationRule[];
+  /** Label that marks PRs with a pending `/nylbot auto-merge` request */
+  autoMergeLabel: string;
+  /** When true, `/nylbot merge` adds the PR to a merge queue per base branch instead of merging directly */
+  mergeQueue: boolean;
+  /** Label that marks PRs in the merge queue */
+  mergeQueueLabel: string;
+  /** Label that merges a PR like `/nylbot merge` when a user adds it; empty when label merges are disabled */
+  mergeLabel: string;
+  /** When true, merging a release branch into a branch other than develop opens a back-merge PR into develop */
+  backMerge: boolean;
+  /** When true, merging a release branch into a branch other than develop tags the merge commit and drafts a release */
+  createRelease: boolean;
+  /** When true, every changed file with code owners needs an approval from one of its owners (CODEOWNERS on the base branch) */
+  requireCodeOwnerApproval: boolean;
+  /** Prefix that starts a comment command (e.g., "/nylbot" in `/nylbot merge`) */
+  commandPrefix: string;
+  /** Bot name shown in comments and commit trailers; `@<botName> <subcommand>` also runs a command */
+  botName: string;
+  /** Language of PR comments (messages missing from its catalog are shown in English) */
+  language: Language;
 }
 
+/**
+ * Language of the PR comments posted by nylbot (`language` input).
+ */
+export type Language = 'en' | 'ja';
+
 /**
  * Context from the GitHub event that triggered this action.
  */
@@ -46,13 +122,16 @@ export interface EventContext {
   repo: string;
   /** PR number */
   prNumber: number;
-  /** Comment ID that triggered the action */
-  commentId: number;
-  /** Comment body text */
+  /**
+   * Comment or review that triggered the action (decides where reactions and replies go);
+   * null for events without one (workflow_dispatch, label events)
+   */
+  comment: CommentRef | null;
+  /** Comment body text (review body for review events) */
   commentBody: string;
   /** User who made the comment */
   actor: string;
-  /** Type of user (User, Bot, etc.) */
+  /** Type of the comment or review author, or of the user who triggered other events such as `labeled` (User, Bot, etc.) */
   userType: string;
   /** Author association with the repository */
   authorAssociation: string;
@@ -62,8 +141,46 @@ export interface EventContext {
   runId: number;
   /** GitHub event name (e.g., 'issue_comment') */
   eventName: string;
+  /** Activity type of the event (e.g., 'created', 'edited'); null when the payload has none */
+  eventAction: string | null;
+  /** Comment body before the edit (issue_comment `edited` events that changed the body); null otherwise */
+  previousCommentBody: string | null;
   /** Whether this is a PR comment (not an issue comment) */
   isPullRequest: boolean;
+  /** Commit SHA the event refers to (check_suite / status events); null for other events */
+  eventSha: string | null;
+  /** Review submitted with a pull_request_review event; null for other events */
+  review: SubmittedReview | null;
+  /** Label added by a pull_request `labeled` event; null for other events */
+  label: string | null;
+}
+
+/**
+ * Kind of object whose body can carry a command:
+ * a PR conversation comment, a review summary, or a review comment on the diff.
+ */
+export type CommentKind = 'issue_comment' | 'review' | 'review_comment';
+
+/**
+ * Comment or review that carried a command.
+ */
+export interface CommentRef {
+  kind: CommentKind;
+  id: number;
+  /** GraphQL node ID ('' when the payload has none; reviews only support reactions through GraphQL) */
+  nodeId: string;
+}
+
+/**
+ * Review from a pull_request_review event payload, with the fields of a REST review
+ * that approval counting reads.
+ */
+export interface SubmittedReview {
+  id: number;
+  /** Review state in REST form (e.g., "APPROVED") */
+  state: string;
+  commit_id: string | null;
+  user: { login: string } | null;
 }
 
 /**
@@ -82,6 +199,10 @@ export interface PullRequestData {
   author: string;
   isFork: boolean;
   title: string;
+  /** Squash, merge, or last rebased commit created by the merge; null until the PR is merged */
+  mergeCommitSha: string | null;
+  /** GraphQL node ID of the PR (used by GraphQL mutations) */
+  nodeId: string;
 }
 
 /**
@@ -95,12 +216,19 @@ export interface CheckResult {
   optional?: boolean;
 }
 
+/**
+ * Merge method accepted by the GitHub merge API.
+ */
+export type MergeMethod = 'squash' | 'merge' | 'rebase';
+
 /**
  * Merge method and reason.
  */
 export interface MergeMethodResult {
-  method: 'squash' | 'merge';
+  method: MergeMethod;
   reason: string;
+  /** Method selected by the branch rules when it was replaced by `--squash` / `--merge` / `--rebase` */
+  overriddenMethod?: MergeMethod;
 }
 
 /**
@@ -112,11 +240,17 @@ export interface ActionResult {
   /** Detailed message about what happened */
   message: string;
   /** Merge method used (if merged) */
-  mergeMethod?: 'squash' | 'merge';
+  mergeMethod?: MergeMethod;
+  /** Tag created for a merged release branch */
+  releaseTag?: string;
+  /** Web URL of the created tag */
+  tagUrl?: string;
+  /** Web URL of the draft release */
+  releaseUrl?: string;
 }
 
 /**
- * Options parsed from the `/nylbot merge` command.
+ * Options parsed from the `/nylbot merge` command flags.
  */
 export interface MergeOptions {
   /**
@@ -124,6 +258,256 @@ export interface MergeOptions {
    * All other checks (status checks, merge conflicts, labels, etc.) still apply.
    */
   overrideApprovalRequirement: boolean;
+  /**
+   * When true, run every check and report the commit message that would be used,
+   * without dismissing stale reviews or merging.
+   */
+  dryRun: boolean;
+  /**
+   * Merge method explicitly requested via `--squash` / `--merge` / `--rebase`,
+   * replacing the branch-rule result. null when the branch rules apply.
+   */
+  methodOverride: MergeMethod | null;
+  /**
+   * When true and the head branch is behind the base branch, update the branch
+   * instead of merging (the new HEAD needs fresh checks before it can be merged).
+   */
+  updateIfBehind: boolean;
+  /**
+   * When true and the PR is a draft, mark it as ready for review before the checks run.
+   */
+  ready: boolean;
+  /** Commit title from `--title`, replacing the PR title in the commit message. null to use the PR title */
+  commitTitle: string | null;
+  /** Extra commit body text from `--message`, added before the trailers. null for none */
+  commitMessage: string | null;
+  /** Reason from `--reason` for `--override-approval-requirement`, recorded in the commit message. null for none */
+  overrideReason: string | null;
+  /** HEAD SHA (or prefix) from `--sha`; the merge is refused when the PR HEAD differs. null for no check */
+  expectedHeadSha: string | null;
+}
+
+/**
+ * Command parsed from a `/nylbot <subcommand>` comment.
+ * Discriminated by `name` so the dispatcher can route to the matching handler.
+ */
+export type ParsedCommand =
+  | { name: 'merge'; options: MergeOptions }
+  | { name: 'auto-merge' }
+  | { name: 'cancel' }
+  | { name: 'update-branch' }
+  | { name: 'title'; title: string }
+  | { name: 'ready' }
+  | { name: 'backport'; targets: string[] }
+  | { name: 'status' }
+  | { name: 'help' };
+
+/**
+ * Flag accepted by a `/nylbot` subcommand.
+ */
+export interface CommandFlagDefinition {
+  /** Flag as typed in the comment (e.g., "--dry-run") */
+  readonly name: string;
+  /** Description shown in the help output */
+  readonly description: string;
+  /** Placeholder of the flag's value shown in the help output (e.g., "<sha>"); flags without it are booleans */
+  readonly value?: string;
+  /** Format a value must match, described for error messages */
+  readonly valuePattern?: { readonly regex: RegExp; readonly description: string };
+  /** Flags that cannot be combined with this one */
+  readonly conflicts?: readonly string[];
+  /** Flags that must be given together with this one */
+  readonly requires?: readonly string[];
+}
+
+/**
+ * Command that names a known subcommand but has invalid flags or arguments.
+ * Reported to the user instead of the generic "Unrecognized command" reply.
+ */
+export interface CommandSyntaxError {
+  /** Subcommand the error refers to */
+  subcommand: string;
+  /** Error message naming the offending flag or argument */
+  error: string;
+}
+
+/**
+ * Token of command arguments after quote and escape processing.
+ */
+export interface CommandToken {
+  /** Token text with quotes removed and escapes resolved */
+  text: string;
+  /** Whether the first character was quoted or escaped (such tokens are never flags) */
+  literalStart: boolean;
+}
+
+/**
+ * Entry in the `/nylbot` command registry.
+ */
+export interface CommandDefinition {
+  /** Subcommand word after `/nylbot` */
+  readonly name: string;
+  /** Description shown in the help output */
+  readonly description: string;
+  /** Whether the actor must pass the author association and write-permission checks */
+  readonly requiresWritePermission: boolean;
+  /** Placeholder for positional arguments shown in the help output; commands without it take no arguments */
+  readonly arguments?: string;
+  /** Flags accepted by this subcommand */
+  readonly flags: readonly CommandFlagDefinition[];
+}
+
+/**
+ * Result of evaluating the merge checklist for a PR.
+ */
+export interface MergeCheckEvaluation {
+  /** Checks in display order */
+  checks: CheckResult[];
+  /** Whether every required (non-optional) check passed */
+  allPassed: boolean;
+  /** Whether the approval requirement override actually took effect */
+  approvalOverridden: boolean;
+  /** Merge method selected from branch rules */
+  mergeMethodResult: MergeMethodResult;
+  /** Markdown lines describing stale approvals that could not be dismissed */
+  dismissFailures: string[];
+  /** Stale approvals that were left in place because dismissal was disabled */
+  staleApprovals: Array<{ reviewer: string; reviewedSha: string }>;
+}
+
+/**
+ * Pending `/nylbot auto-merge` request recorded in a marker comment.
+ */
+export interface AutoMergeRequest {
+  /** ID of the bot comment holding the marker */
+  commentId: number;
+  /** Full body of the marker comment (needed to strip the marker when clearing) */
+  commentBody: string;
+  /** User who requested auto-merge; the merge is performed on their behalf */
+  actor: string;
+  /** PR HEAD SHA at request time; the request is invalid once HEAD moves */
+  headSha: string;
+}
+
+/**
+ * PR waiting in the merge queue of its base branch, recorded in a marker comment.
+ * Entries are ordered by the ID of their marker comment (i.e. the time they were queued).
+ */
+export interface MergeQueueEntry {
+  /** PR number */
+  prNumber: number;
+  /** ID of the bot comment holding the marker */
+  commentId: number;
+  /** Full body of the marker comment (needed to strip the marker when removing the entry) */
+  commentBody: string;
+  /** User who queued the PR; the merge is performed on their behalf */
+  actor: string;
+  /** PR HEAD SHA at queue time; the entry is invalid once HEAD moves */
+  headSha: string;
+  /** Base branch whose queue the PR is in */
+  baseRef: string;
+  /** Merge options from the queuing command (dry run, update-if-behind, ready, and the HEAD SHA check do not apply) */
+  options: Pick<
+    MergeOptions,
+    'overrideApprovalRequirement' | 'methodOverride' | 'commitTitle' | 'commitMessage' | 'overrideReason'
+  >;
+}
+
+/**
+ * Pending `/nylbot backport` request recorded in a marker comment, run once the PR is merged.
+ */
+export interface ScheduledBackport {
+  /** ID of the bot comment holding the marker */
+  commentId: number;
+  /** Full body of the marker comment (needed to strip the marker once the backport ran) */
+  commentBody: string;
+  /** User who requested the backport */
+  actor: string;
+  /** Release branches to backport to */
+  targets: string[];
+}
+
+/**
+ * Outcome of backporting a merged PR to one target branch.
+ */
+export interface BackportOutcome {
+  /** Target branch */
+  target: string;
+  /** created: backport PR opened; empty: target already has the changes; conflict / failed: nothing created */
+  status: 'created' | 'empty' | 'conflict' | 'failed';
+  /** Backport PR number (created only) */
+  pullRequestNumber?: number;
+  /** Error message (failed only) */
+  error?: string;
+}
+
+/**
+ * Explicit commit title and body passed to the merge API.
+ * Not used for rebase merges, which replay the PR commits unchanged.
+ */
+export interface CommitMessage {
+  title: string;
+  body: string;
+}
+
+/**
+ * Sync branch and PR that bring a merged release branch back into develop.
+ */
+export interface BackMergePlan {
+  /** Sync branch created from the merge commit (e.g., "fix/sync/1.2.0") */
+  branch: string;
+  /** Title of the back-merge PR */
+  title: string;
+}
+
+/**
+ * Outcome of opening a back-merge PR.
+ */
+export interface BackMergeResult {
+  /** Sync branch of the back-merge */
+  branch: string;
+  /** Number of the back-merge PR (when it was opened) */
+  pullRequestNumber?: number;
+  /** Why the back-merge PR was not opened */
+  error?: string;
+}
+
+/**
+ * Merged PR listed in release notes.
+ */
+export interface ReleaseNoteEntry {
+  number: number;
+  title: string;
+}
+
+/**
+ * Outcome of tagging a merged release branch and drafting its GitHub Release.
+ */
+export interface ReleaseResult {
+  /** Tag name (e.g., "v1.4.0") */
+  tag: string;
+  /** Web URL of the tag (when the tag was created) */
+  tagUrl?: string;
+  /** Web URL of the draft release (when it was created) */
+  releaseUrl?: string;
+  /** Why the tag or release was not created */
+  error?: string;
+}
+
+/**
+ * Author of a commit object in the Git Data API.
+ */
+export interface GitCommitAuthor {
+  name: string;
+  email: string;
+  date: string;
+}
+
+/**
+ * PR commit entry, limited to the fields used for building commit messages.
+ */
+export interface PullRequestCommit {
+  commit: { message: string; author?: { name?: string; email?: string } | null };
 }
 
 // Type alias for Octokit instance (return type of getOctokit for reliable type resolution)
@@ -131,6 +515,7 @@ export type Octokit = ReturnType<typeof getOctokit>;
 
 // Type aliases for GitHub API response types
 export type ReviewsArray = RestEndpointMethodTypes['pulls']['listReviews']['response']['data'];
+export type IssueCommentsArray = RestEndpointMethodTypes['issues']['listComments']['response']['data'];
 
 /**
  * Interface for GitHub Actions Core module.
@@ -159,12 +544,51 @@ export interface GitHubContext {
   runId: number;
   eventName: string;
   payload: {
+    /** Activity type of the event (e.g., 'created', 'edited', 'deleted') */
+    action?: string;
+    /** Previous values of the fields changed by an `edited` event */
+    changes?: {
+      body?: {
+        from?: string;
+      };
+    };
     issue?: {
       number?: number;
       pull_request?: unknown;
     };
+    pull_request?: {
+      number?: number;
+    };
+    check_suite?: {
+      head_sha?: string;
+    };
+    /** Commit SHA of a status event */
+    sha?: string;
+    /** Label of a pull_request `labeled` event */
+    label?: {
+      name?: string;
+    };
+    /** User who triggered the event (e.g. added the label) */
+    sender?: {
+      type?: string;
+    };
+    /** Review of a pull_request_review event */
+    review?: {
+      id?: number;
+      node_id?: string;
+      body?: string | null;
+      /** Review state in lowercase (e.g., "approved") */
+      state?: string;
+      commit_id?: string;
+      user?: {
+        login?: string;
+        type?: string;
+      };
+      author_association?: string;
+    };
     comment?: {
       id?: number;
+      node_id?: string;
       body?: string;
       user?: {
         type?: string;
@@ -0,0 +1,61 @@
+/**
+ * update-branch-command.ts - Handler for the `/nylbot update-branch` command
+ *
+ * Updates the head branch with the latest base branch, the same as GitHub's
+ * "Update branch" button, and records the update so that nylbot keeps existing
+ * approvals and a pending auto-merge request (see branch-update.ts).
+ */
+
+import { updateBranch } from './branch-update.js';
+import { postReply, fetchPullRequestData } from './github-api.js';
+import { formatMessage } from './messages.js';
+import type { ActionConfig, ActionResult, EventContext, Octokit } from './types.js';
+
+/**
+ * Handles the `/nylbot update-branch` command after the command actor has been authorized.
+ *
+ * @param octokit - GitHub API client
+ * @param context - Event context from GitHub Actions
+ * @param config - Configuration options
+ * @returns Result of the operation
+ */
+export async function handleUpdateBranchCommand(
+  octokit: Octokit,
+  context: EventContext,
+  config: ActionConfig,
+): Promise<ActionResult> {
+  const { owner, repo, prNumber, comment } = context;
+
+  const prData = await fetchPullRequestData(octokit, owner, repo, prNumber);
+
+  // Why: GITHUB_TOKEN cannot push to fork branches, so the update would fail
+  if (prData.isFork) {
+    await postReply(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      comment,
+      formatMessage(config.language, 'common.forkNotSupported', { command: `${config.commandPrefix} update-branch` }),
+    );
+    return { status: 'failed', message: 'Fork PR not supported' };
+  }
+
+  if (prData.merged) {
+    await postReply(octokit, owner, repo, prNumber, comment, formatMessage(config.language, 'common.alreadyMerged'));
+    return { status: 'already_merged', message: 'PR already merged' };
+  }
+
+  if (prData.state !== 'open') {
+    await postReply(octokit, owner, repo, prNumber, comment, formatMessage(config.language, 'branchUpdate.closed'));
+    return { status: 'failed', message: 'PR is not open' };
+  }
+
+  return updateBranch(
+    octokit,
+    context,
+    config,
+    prData,
+    formatMessage(config.language, 'branchUpdate.nextStep', { command: `${config.commandPrefix} merge` }),
+  );
+}
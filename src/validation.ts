@@ -6,15 +6,40 @@
  * These functions are easily testable and have no side effects.
  */
 
+import { tokenizeArguments } from './command-tokenizer.js';
 import {
   BOT_TRIGGER_REGEX,
   COMMAND_REGEX,
-  VALID_FLAGS,
+  COMMANDS,
   VALID_AUTHOR_ASSOCIATIONS,
   VALID_PERMISSIONS,
+  PERMISSION_LEVELS,
   CONVENTIONAL_COMMIT_REGEX,
+  BRANCH_NAME_REGEX,
+  RELEASE_VERSION_REGEX,
+  RELEASE_NOTES_SECTIONS,
+  BRANCH_TYPE_ALIASES,
+  TITLE_SUGGESTION_LIMIT,
+  SUPPORTED_LANGUAGES,
 } from './constants.js';
-import type { ActionConfig, PullRequestData, CheckResult, MergeMethodResult, MergeOptions } from './types.js';
+import { formatMessage, translateCommandDescription } from './messages.js';
+import type {
+  ActionConfig,
+  ActionResult,
+  BackMergePlan,
+  ReleaseNoteEntry,
+  PullRequestData,
+  CheckResult,
+  MergeMethodResult,
+  ParsedCommand,
+  MergeOptions,
+  CommandDefinition,
+  CommandSyntaxError,
+  CommandToken,
+  CommitMessage,
+  Language,
+  PullRequestCommit,
+} from './types.js';
 
 /**
  * Checks if a PR title follows the Conventional Commits format.
@@ -32,51 +57,283 @@ export function isConventionalCommitTitle(title: string): boolean {
 }
 
 /**
- * Checks if a comment contains a bot trigger pattern at the start of the comment body.
+ * Checks if a line starts with a bot trigger: the configured command prefix, an `@<bot-name>`
+ * mention, or any bot-style trigger (slash, 2–5 characters, then "bot").
  * Only leading space/tab is allowed before the trigger; leading newlines do not match.
- * Pattern: optional space/tab, slash, 2–5 characters, then "bot".
+ * Comments are split into lines by extractCommandLine (command-extractor.ts).
  *
- * @param commentBody - The body of the comment to check
- * @returns true if the comment matches the bot trigger pattern
+ * @param commentBody - The comment line to check
+ * @param config - Configuration options (command prefix and bot name)
+ * @returns true if the line matches a bot trigger
+ *
+ * @example
+ * hasBotMention('/nylbot merge', config)  // true
+ * hasBotMention('@nylbot merge', config)  // true
+ * hasBotMention('/mybot help', config)    // true (reported as unrecognized)
+ * hasBotMention('LGTM', config)           // false
+ */
+export function hasBotMention(commentBody: string, config: ActionConfig): boolean {
+  const trigger = /^[ \t]*(\S+)/.exec(commentBody)?.[1];
+  return isCommandTrigger(trigger, config) || BOT_TRIGGER_REGEX.test(commentBody);
+}
+
+/**
+ * Checks whether a word is the configured command prefix or an `@<bot-name>` mention (any case).
+ *
+ * @param trigger - First word of a command line
+ * @param config - Configuration options (command prefix and bot name)
+ * @returns true if the word starts a command for this bot
  */
-export function hasBotMention(commentBody: string): boolean {
-  return BOT_TRIGGER_REGEX.test(commentBody);
+function isCommandTrigger(trigger: string | undefined, config: ActionConfig): boolean {
+  // Why: GitHub @mentions are case-insensitive, so "@NylBot merge" addresses the same bot
+  return trigger === config.commandPrefix || trigger?.toLowerCase() === `@${config.botName.toLowerCase()}`;
 }
 
 /**
- * Parses the `/nylbot merge` command and extracts options.
- * The command must appear at the start of the comment body; only leading space/tab is allowed (no newlines).
+ * Parses a `<command-prefix> <subcommand>` (or `@<bot-name> <subcommand>`) command and extracts its options.
+ * Arguments are tokenized by tokenizeArguments (command-tokenizer.ts), so flag values
+ * may be quoted. Values are given as `--flag value` or `--flag=value`.
  *
- * @param commentBody - The body of the comment containing the command
- * @returns MergeOptions with parsed flags, or null if not a valid command
+ * @param commentBody - The command line from the comment
+ * @param config - Configuration options (command prefix and bot name)
+ * @returns Parsed command; a syntax error naming the offending flag or argument when the
+ *   subcommand is known but its arguments are invalid; or null if the subcommand is not recognized
  *
  * @example
- * parseCommand('/nylbot merge')
- *   // { overrideApprovalRequirement: false }
- * parseCommand('/nylbot merge --override-approval-requirement')
- *   // { overrideApprovalRequirement: true }
- * parseCommand('hello')
+ * parseCommand('/nylbot merge', config)
+ *   // { name: 'merge', options: { overrideApprovalRequirement: false, dryRun: false, ... } }
+ * parseCommand('@nylbot merge --title "fix: handle timeouts" --sha abc1234', config)
+ *   // { name: 'merge', options: { commitTitle: 'fix: handle timeouts', expectedHeadSha: 'abc1234', ... } }
+ * parseCommand('/nylbot merge --squash --rebase', config)
+ *   // { subcommand: 'merge', error: 'Flags `--squash` and `--rebase` cannot be used together' }
+ * parseCommand('/nylbot backport release/1.2', config)
+ *   // { name: 'backport', targets: ['release/1.2'] }
+ * parseCommand('/nylbot status', config)
+ *   // { name: 'status' }
+ * parseCommand('hello', config)
  *   // null
  */
-export function parseCommand(commentBody: string): MergeOptions | null {
+export function parseCommand(commentBody: string, config: ActionConfig): ParsedCommand | CommandSyntaxError | null {
   const match = COMMAND_REGEX.exec(commentBody);
-  if (!match) {
+  if (!match || !isCommandTrigger(match[1], config)) {
     return null;
   }
 
-  // Parse and validate flags
-  const flagsStr = match[1]?.trim() ?? '';
-  const flags = flagsStr ? flagsStr.split(/\s+/) : [];
-
-  // Validate that all flags are known
-  const validFlagsArray: readonly string[] = VALID_FLAGS;
-  if (!flags.every((flag) => validFlagsArray.includes(flag))) {
+  // Only subcommands in the registry are recognized
+  const subcommand = match[2] ?? '';
+  const definition: CommandDefinition | undefined = COMMANDS.find((command) => command.name === subcommand);
+  if (!definition) {
     return null;
   }
 
-  return {
-    overrideApprovalRequirement: flags.includes('--override-approval-requirement'),
-  };
+  const argsStr = match[3]?.trim() ?? '';
+
+  // Why: The new title is free text, so it is taken verbatim instead of being split into flags
+  if (subcommand === 'title') {
+    return argsStr
+      ? { name: 'title', title: argsStr }
+      : {
+          subcommand,
+          error: formatMessage(config.language, 'command.titleRequired', { command: `${config.commandPrefix} title` }),
+        };
+  }
+
+  const parsed = parseArguments(definition, argsStr, config);
+  if ('error' in parsed) {
+    return { subcommand, error: parsed.error };
+  }
+  const { flags, positionals } = parsed;
+
+  switch (subcommand) {
+    case 'merge':
+      return {
+        name: 'merge',
+        options: {
+          overrideApprovalRequirement: flags.has('--override-approval-requirement'),
+          dryRun: flags.has('--dry-run'),
+          // --squash, --merge, and --rebase conflict with each other, so at most one is set
+          methodOverride: (['squash', 'merge', 'rebase'] as const).find((method) => flags.has(`--${method}`)) ?? null,
+          updateIfBehind: flags.has('--update-if-behind'),
+          ready: flags.has('--ready'),
+          commitTitle: flags.get('--title') ?? null,
+          commitMessage: flags.get('--message') ?? null,
+          overrideReason: flags.get('--reason') ?? null,
+          // HEAD SHAs from the API are lowercase, but some tools copy them in uppercase
+          expectedHeadSha: flags.get('--sha')?.toLowerCase() ?? null,
+        },
+      };
+    case 'auto-merge':
+      return { name: 'auto-merge' };
+    case 'cancel':
+      return { name: 'cancel' };
+    case 'update-branch':
+      return { name: 'update-branch' };
+    case 'ready':
+      return { name: 'ready' };
+    case 'backport':
+      // At least one target branch; duplicates are dropped
+      return positionals.length > 0
+        ? { name: 'backport', targets: [...new Set(positionals)] }
+        : {
+            subcommand,
+            error: formatMessage(config.language, 'command.backportTargetRequired', {
+              command: `${config.commandPrefix} backport`,
+            }),
+          };
+    case 'status':
+      return { name: 'status' };
+    case 'help':
+      return { name: 'help' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Splits command arguments into flags and positional arguments, validating the flags
+ * against the subcommand's registry entry (known name, no duplicates, value presence and
+ * format, conflicts, and required companions).
+ *
+ * @param command - Registry entry of the subcommand
+ * @param args - Arguments after the subcommand
+ * @param config - Configuration options (command prefix and language for error messages)
+ * @returns Flags mapped to their value (null for boolean flags) and positional arguments,
+ *   or an error message naming the offending flag or argument
+ */
+function parseArguments(
+  command: CommandDefinition,
+  args: string,
+  config: ActionConfig,
+): { flags: Map<string, string | null>; positionals: string[] } | { error: string } {
+  const { language } = config;
+  const tokenized = tokenizeArguments(args);
+  if ('unterminatedQuote' in tokenized) {
+    return { error: formatMessage(language, 'command.unterminatedQuote', { quote: tokenized.unterminatedQuote }) };
+  }
+
+  const usage = `${config.commandPrefix} ${command.name}`;
+  // Why: A quoted or escaped token is always an argument, so values may start with "-"
+  const isFlag = (token: CommandToken): boolean => !token.literalStart && token.text.startsWith('-');
+  const flags = new Map<string, string | null>();
+  const positionals: string[] = [];
+  const remaining = [...tokenized.tokens];
+
+  for (let token = remaining.shift(); token; token = remaining.shift()) {
+    if (!isFlag(token)) {
+      positionals.push(token.text);
+      continue;
+    }
+
+    const separator = token.text.indexOf('=');
+    const name = separator === -1 ? token.text : token.text.slice(0, separator);
+    const flag = command.flags.find((candidate) => candidate.name === name);
+    if (!flag) {
+      return { error: formatMessage(language, 'command.unknownFlag', { flag: name, command: usage }) };
+    }
+    if (flags.has(name)) {
+      return { error: formatMessage(language, 'command.duplicateFlag', { flag: name }) };
+    }
+
+    if (flag.value === undefined) {
+      if (separator !== -1) {
+        return { error: formatMessage(language, 'command.flagTakesNoValue', { flag: name }) };
+      }
+      flags.set(name, null);
+      continue;
+    }
+
+    let value = separator === -1 ? undefined : token.text.slice(separator + 1);
+    const next = remaining[0];
+    if (value === undefined && next && !isFlag(next)) {
+      value = next.text;
+      remaining.shift();
+    }
+    if (!value) {
+      return { error: formatMessage(language, 'command.flagRequiresValue', { flag: name, value: flag.value }) };
+    }
+    if (flag.valuePattern && !flag.valuePattern.regex.test(value)) {
+      const expected = translateCommandDescription(language, flag.valuePattern.description);
+      return { error: formatMessage(language, 'command.invalidFlagValue', { value, flag: name, expected }) };
+    }
+    flags.set(name, value);
+  }
+
+  for (const flag of command.flags.filter((candidate) => flags.has(candidate.name))) {
+    const conflict = flag.conflicts?.find((other) => flags.has(other));
+    if (conflict) {
+      return { error: formatMessage(language, 'command.conflictingFlags', { flag: flag.name, other: conflict }) };
+    }
+    const missing = flag.requires?.find((other) => !flags.has(other));
+    if (missing) {
+      return { error: formatMessage(language, 'command.flagRequiresFlag', { flag: flag.name, other: missing }) };
+    }
+  }
+
+  // Positional arguments are only accepted by subcommands that declare them
+  const [unexpected] = positionals;
+  if (unexpected !== undefined && command.arguments === undefined) {
+    return { error: formatMessage(language, 'command.unexpectedArgument', { argument: unexpected, command: usage }) };
+  }
+
+  return { flags, positionals };
+}
+
+/**
+ * Checks whether a subcommand requires the author association and write-permission checks.
+ * Unknown subcommands are treated as requiring write permission.
+ *
+ * @param name - Subcommand name from ParsedCommand
+ * @returns true if the actor must have write access to run the subcommand
+ */
+export function requiresWritePermission(name: string): boolean {
+  return COMMANDS.find((command) => command.name === name)?.requiresWritePermission ?? true;
+}
+
+/**
+ * Builds the help markdown listing every supported command and flag.
+ * Generated from the COMMANDS registry so it always matches what parseCommand accepts.
+ *
+ * @param config - Configuration options (command prefix shown in the table and language of the descriptions)
+ * @returns Markdown table of commands and flags
+ */
+export function buildHelpMarkdown(config: ActionConfig): string {
+  const { commandPrefix, language } = config;
+  const rows: string[] = [];
+  for (const command of COMMANDS) {
+    const permission = command.requiresWritePermission ? 'write' : '-';
+    const usage = 'arguments' in command ? `${command.name} ${command.arguments}` : command.name;
+    const description = translateCommandDescription(language, command.description);
+    rows.push(`| \`${commandPrefix} ${usage}\` | ${permission} | ${description} |`);
+    for (const flag of command.flags) {
+      const flagUsage = 'value' in flag ? `${flag.name} ${flag.value}` : flag.name;
+      const flagDescription = translateCommandDescription(language, flag.description);
+      rows.push(`| \`${commandPrefix} ${command.name} ${flagUsage}\` | ${permission} | ${flagDescription} |`);
+    }
+  }
+  return [formatMessage(language, 'command.helpTableHeader'), ...rows].join('\n');
+}
+
+/**
+ * Checks whether a branch can be used as a backport target.
+ * Only release branches are accepted, and the name must be a plain branch name.
+ *
+ * @param target - Target branch name from the command
+ * @param config - Configuration options (release branch prefix)
+ * @returns true if the target is a valid release branch name
+ *
+ * @example
+ * isValidBackportTarget('release/1.2', config)  // true
+ * isValidBackportTarget('develop', config)      // false
+ * isValidBackportTarget('release/', config)     // false
+ */
+export function isValidBackportTarget(target: string, config: ActionConfig): boolean {
+  return (
+    target.startsWith(config.releaseBranchPrefix) &&
+    target.length > config.releaseBranchPrefix.length &&
+    BRANCH_NAME_REGEX.test(target) &&
+    !target.includes('..') &&
+    !target.endsWith('/')
+  );
 }
 
 /**
@@ -109,15 +366,41 @@ export function hasValidPermission(permission: string): boolean {
   return (VALID_PERMISSIONS as readonly string[]).includes(permission);
 }
 
+/**
+ * Checks if a `language` input value is a supported comment language.
+ *
+ * @param language - Value of the `language` input
+ * @returns true if PR comments can be posted in this language
+ */
+export function isSupportedLanguage(language: string): language is Language {
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(language);
+}
+
+/**
+ * Checks if a permission level is at least the required level.
+ * Unknown levels (e.g. 'none') never satisfy the requirement.
+ *
+ * @param permission - The permission level from GitHub API
+ * @param required - Minimum required permission level
+ * @returns true if permission is equal to or higher than required
+ */
+export function hasPermissionAtLeast(permission: string, required: string): boolean {
+  const levels: readonly string[] = PERMISSION_LEVELS;
+  const actual = levels.indexOf(permission);
+  const minimum = levels.indexOf(required);
+  return actual !== -1 && minimum !== -1 && actual >= minimum;
+}
+
 /**
  * Determines the merge method based on branch names.
  *
  * Logic:
- * 1. If head branch starts with release prefix → merge (preserve release history)
- * 2. If head branch starts with sync prefix → merge (preserve back-merge history)
- * 3. If base branch starts with release prefix → squash (clean release branch)
- * 4. If base branch is develop → squash (clean develop branch)
- * 5. Otherwise → merge (default)
+ * 1. If base branch is listed in rebase-base-branches → rebase (linear history required)
+ * 2. If head branch starts with release prefix → merge (preserve release history)
+ * 3. If head branch starts with sync prefix → merge (preserve back-merge history)
+ * 4. If base branch starts with release prefix → squash (clean release branch)
+ * 5. If base branch is develop → squash (clean develop branch)
+ * 6. Otherwise → merge (default)
  *
  * @param headRef - Head (source) branch name
  * @param baseRef - Base (target) branch name
@@ -125,17 +408,26 @@ export function hasValidPermission(permission: string): boolean {
  * @returns The merge method and reason
  */
 export function determineMergeMethod(headRef: string, baseRef: string, config: ActionConfig): MergeMethodResult {
-  // Check head branch patterns first
+  // Why: A base branch that requires linear history rejects merge commits and squash would
+  // collapse the PR history, so it takes precedence over every other rule.
+  if (config.rebaseBaseBranches.includes(baseRef)) {
+    return {
+      method: 'rebase',
+      reason: formatMessage(config.language, 'mergeMethod.linearHistoryBase', { baseRef }),
+    };
+  }
+
+  // Check head branch patterns
   if (headRef.startsWith(config.releaseBranchPrefix)) {
     return {
       method: 'merge',
-      reason: `Head branch \`${headRef}\` is a release branch (merge commit to preserve release history)`,
+      reason: formatMessage(config.language, 'mergeMethod.releaseHead', { headRef }),
     };
   }
   if (headRef.startsWith(config.syncBranchPrefix)) {
     return {
       method: 'merge',
-      reason: `Head branch \`${headRef}\` is a sync branch (merge commit to preserve back-merge history)`,
+      reason: formatMessage(config.language, 'mergeMethod.syncHead', { headRef }),
     };
   }
 
@@ -143,20 +435,350 @@ export function determineMergeMethod(headRef: string, baseRef: string, config: A
   if (baseRef.startsWith(config.releaseBranchPrefix)) {
     return {
       method: 'squash',
-      reason: `Base branch \`${baseRef}\` is a release branch`,
+      reason: formatMessage(config.language, 'mergeMethod.releaseBase', { baseRef }),
     };
   }
   if (baseRef === config.developBranch) {
     return {
       method: 'squash',
-      reason: `Base branch is \`${baseRef}\``,
+      reason: formatMessage(config.language, 'mergeMethod.developBase', { baseRef }),
     };
   }
 
   // Default to merge commit
   return {
     method: 'merge',
-    reason: `Default merge commit for \`${headRef}\` into \`${baseRef}\``,
+    reason: formatMessage(config.language, 'mergeMethod.default', { headRef, baseRef }),
+  };
+}
+
+/**
+ * Determines the back-merge that follows a merged PR (git-flow: release → main, then back into develop).
+ * Only a release branch merged into a branch other than develop needs one.
+ *
+ * @param headRef - Head (source) branch name of the merged PR
+ * @param baseRef - Base (target) branch name of the merged PR
+ * @param config - Configuration with branch prefixes and the develop branch
+ * @returns Sync branch and PR title, or null if no back-merge is needed
+ *
+ * @example
+ * determineBackMerge('release/1.2.0', 'main', config)
+ *   // { branch: 'fix/sync/1.2.0', title: 'chore(sync): back-merge release/1.2.0 into develop' }
+ * determineBackMerge('feature/x', 'main', config)  // null
+ */
+export function determineBackMerge(headRef: string, baseRef: string, config: ActionConfig): BackMergePlan | null {
+  if (!headRef.startsWith(config.releaseBranchPrefix) || baseRef === config.developBranch) {
+    return null;
+  }
+  const version = headRef.slice(config.releaseBranchPrefix.length);
+  return {
+    branch: `${config.syncBranchPrefix}${version}`,
+    title: `chore(sync): back-merge ${headRef} into ${config.developBranch}`,
+  };
+}
+
+/**
+ * Parses the release version from a release branch name and returns its tag name.
+ *
+ * @param headRef - Head (source) branch name of the merged PR
+ * @param config - Configuration with the release branch prefix
+ * @returns Tag name with a "v" prefix, or null if the branch is not a release branch with a semantic version
+ *
+ * @example
+ * parseReleaseTag('release/v1.4.0', config)     // 'v1.4.0'
+ * parseReleaseTag('release/1.4.0-rc.1', config) // 'v1.4.0-rc.1'
+ * parseReleaseTag('release/next', config)       // null
+ */
+export function parseReleaseTag(headRef: string, config: ActionConfig): string | null {
+  if (!headRef.startsWith(config.releaseBranchPrefix)) {
+    return null;
+  }
+  const version = headRef.slice(config.releaseBranchPrefix.length);
+  return RELEASE_VERSION_REGEX.test(version) ? `v${version.replace(/^v/, '')}` : null;
+}
+
+/**
+ * Compares two versions matched by RELEASE_VERSION_REGEX.
+ * A pre-release sorts before its release; pre-release identifiers are compared as strings.
+ *
+ * @param a - First version match
+ * @param b - Second version match
+ * @returns Negative if a < b, positive if a > b, 0 if equal
+ */
+function compareVersions(a: RegExpExecArray, b: RegExpExecArray): number {
+  for (const i of [1, 2, 3]) {
+    const diff = Number(a[i]) - Number(b[i]);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  const [preA, preB] = [a[4], b[4]];
+  if (preA === preB) {
+    return 0;
+  }
+  if (preA === undefined || preB === undefined) {
+    return preA === undefined ? 1 : -1;
+  }
+  return preA < preB ? -1 : 1;
+}
+
+/**
+ * Finds the tag of the release before the given one: the highest semantic version tag below it.
+ *
+ * @param tags - Tag names in the repository
+ * @param tag - Tag of the new release
+ * @returns Previous release tag, or null if there is none
+ *
+ * @example
+ * findPreviousReleaseTag(['v1.2.0', 'v1.3.0', 'v1.10.0', 'nightly'], 'v1.4.0')  // 'v1.3.0'
+ */
+export function findPreviousReleaseTag(tags: string[], tag: string): string | null {
+  const current = RELEASE_VERSION_REGEX.exec(tag);
+  if (!current) {
+    return null;
+  }
+  let previous: { tag: string; match: RegExpExecArray } | null = null;
+  for (const candidate of tags) {
+    const match = RELEASE_VERSION_REGEX.exec(candidate);
+    if (match && compareVersions(match, current) < 0 && (!previous || compareVersions(match, previous.match) > 0)) {
+      previous = { tag: candidate, match };
+    }
+  }
+  return previous?.tag ?? null;
+}
+
+/**
+ * Builds release notes from the titles of the PRs merged since the previous release,
+ * grouped by Conventional Commits type (see RELEASE_NOTES_SECTIONS).
+ *
+ * @param pullRequests - PRs merged since the previous release
+ * @param previousTag - Tag of the previous release, or null for the first release
+ * @returns Markdown release notes
+ */
+export function buildReleaseNotes(pullRequests: ReleaseNoteEntry[], previousTag: string | null): string {
+  if (previousTag === null) {
+    return 'First release.';
+  }
+  if (pullRequests.length === 0) {
+    return `No pull requests were merged since ${previousTag}.`;
+  }
+
+  const formatEntries = (entries: ReleaseNoteEntry[]): string =>
+    entries.map((pr) => `- ${pr.title} (#${pr.number})`).join('\n');
+  const sections: string[] = [];
+  const listed = new Set<number>();
+  for (const section of RELEASE_NOTES_SECTIONS) {
+    const types: readonly string[] = section.types;
+    const entries = pullRequests.filter((pr) => types.includes(CONVENTIONAL_COMMIT_REGEX.exec(pr.title)?.[1] ?? ''));
+    if (entries.length > 0) {
+      sections.push(`### ${section.title}\n\n${formatEntries(entries)}`);
+      entries.forEach((pr) => listed.add(pr.number));
+    }
+  }
+  const others = pullRequests.filter((pr) => !listed.has(pr.number));
+  if (others.length > 0) {
+    sections.push(`### Other Changes\n\n${formatEntries(others)}`);
+  }
+  return `## What's Changed since ${previousTag}\n\n${sections.join('\n\n')}`;
+}
+
+/**
+ * Suggests Conventional Commits titles for a PR whose title does not follow the format.
+ * Candidates come from the head branch name (`<type>/<words>`, see BRANCH_TYPE_ALIASES)
+ * and from the subjects of the PR commits that are already conventional.
+ *
+ * @param headRef - Head (source) branch name
+ * @param commits - PR commits in order
+ * @returns Up to TITLE_SUGGESTION_LIMIT distinct suggestions (branch first), possibly empty
+ *
+ * @example
+ * suggestConventionalTitles('feat/login-flow', [])               // ['feat: login flow']
+ * suggestConventionalTitles('feature/x', [{ commit: { message: 'fix(auth): handle expiry\n\nbody' } }])
+ *   // ['feat: x', 'fix(auth): handle expiry']
+ * suggestConventionalTitles('login-flow', [])                    // []
+ */
+export function suggestConventionalTitles(headRef: string, commits: PullRequestCommit[]): string[] {
+  const suggestions: string[] = [];
+
+  const [prefix = '', ...rest] = headRef.split('/');
+  const type = Object.hasOwn(BRANCH_TYPE_ALIASES, prefix) ? BRANCH_TYPE_ALIASES[prefix] : prefix;
+  const description = rest
+    .join(' ')
+    .replace(/[-_\s]+/g, ' ')
+    .trim();
+  const branchTitle = `${type}: ${description}`;
+  if (description !== '' && isConventionalCommitTitle(branchTitle)) {
+    suggestions.push(branchTitle);
+  }
+
+  for (const commit of commits) {
+    const subject = commit.commit.message.split('\n')[0]?.trim() ?? '';
+    if (isConventionalCommitTitle(subject)) {
+      suggestions.push(subject);
+    }
+  }
+
+  return [...new Set(suggestions)].slice(0, TITLE_SUGGESTION_LIMIT);
+}
+
+/**
+ * Applies an explicit `--squash` / `--merge` / `--rebase` override to the branch-rule merge method.
+ * The rule-based method and reason are kept in the reason text so the comment shows
+ * what was bypassed.
+ *
+ * @param result - Merge method selected by determineMergeMethod
+ * @param override - Method requested via command flag, or null for no override
+ * @param config - Configuration options (language of the reason)
+ * @returns Merge method to use
+ */
+export function applyMergeMethodOverride(
+  result: MergeMethodResult,
+  override: MergeMethodResult['method'] | null,
+  config: ActionConfig,
+): MergeMethodResult {
+  if (override === null) {
+    return result;
+  }
+  return {
+    method: override,
+    reason: formatMessage(config.language, 'mergeMethod.overridden', {
+      method: override,
+      ruleMethod: result.method,
+      reason: result.reason,
+    }),
+    overriddenMethod: result.method,
+  };
+}
+
+/**
+ * Builds the "Merge Method" markdown section for PR comments.
+ * For rebase, adds a note that nylbot's commit trailers cannot be recorded.
+ *
+ * @param mergeMethodResult - Selected merge method and reason
+ * @param config - Configuration options (language of the section)
+ * @returns Formatted markdown section
+ */
+export function buildMergeMethodMarkdown(mergeMethodResult: MergeMethodResult, config: ActionConfig): string {
+  const { method, reason } = mergeMethodResult;
+  const section = formatMessage(config.language, 'mergeMethod.section', { method, reason });
+  if (method !== 'rebase') {
+    return section;
+  }
+  return `${section}\n\n${formatMessage(config.language, 'mergeMethod.rebaseNote')}`;
+}
+
+/**
+ * Builds the explicit commit title and body for a merge according to the nylbot-merge specification.
+ *
+ * Merge commits:
+ * - Title: Merge pull request #{PR_NUMBER} from {PR_MERGE_HEAD}
+ * - Body: {PR_TITLE}\n\n{MESSAGE}\n\n{ADDITIONAL_MESSAGES}
+ *
+ * Squash commits:
+ * - Title: {PR_TITLE} (#{PR_NUMBER})
+ * - Body: * {COMMIT_TITLE_01}\n* {COMMIT_TITLE_02}\n...\n\n{MESSAGE}\n\nCo-authored-by: ...\n\n{ADDITIONAL_MESSAGES}
+ *
+ * `--title` replaces {PR_TITLE}; {MESSAGE} is the `--message` text and is omitted without it.
+ *
+ * Additional messages always include a `Merged-by: <bot-name>-merge` trailer. A `Merge-method-override`
+ * trailer is added when `--squash` / `--merge` replaced the branch-rule method, and the
+ * `--reason` text follows the exceptional merge notice.
+ *
+ * Rebase merges return null: GitHub ignores commit_title / commit_message for rebase,
+ * so none of the additional messages (trailers or markers) can be recorded.
+ *
+ * @param mergeMethodResult - Merge method that will be used (after any override)
+ * @param prNumber - PR number
+ * @param prData - Pull request data (title and head branch are used)
+ * @param actor - User on whose behalf the merge is performed
+ * @param approvalOverridden - Whether the approval requirement override actually took effect
+ * @param commits - PR commits (only used for squash commits)
+ * @param config - Configuration options (bot name for the `Merged-by` trailer)
+ * @param options - Commit title, message, and override reason from the merge command flags
+ * @returns Commit title and body, or null for rebase merges
+ */
+export function buildCommitMessage(
+  mergeMethodResult: MergeMethodResult,
+  prNumber: number,
+  prData: Pick<PullRequestData, 'title' | 'headRef'>,
+  actor: string,
+  approvalOverridden: boolean,
+  commits: PullRequestCommit[],
+  config: ActionConfig,
+  options: Pick<MergeOptions, 'commitTitle' | 'commitMessage' | 'overrideReason'> = {
+    commitTitle: null,
+    commitMessage: null,
+    overrideReason: null,
+  },
+): CommitMessage | null {
+  const { method, overriddenMethod } = mergeMethodResult;
+  if (method === 'rebase') {
+    return null;
+  }
+
+  // Build additional metadata that goes in the commit body
+  let additionalMessages = `Merged-by: ${config.botName}-merge (on behalf of @${actor})`;
+  if (overriddenMethod !== undefined) {
+    additionalMessages += `\nMerge-method-override: ${method} (branch rules selected ${overriddenMethod}; requested via --${method})`;
+  }
+  if (approvalOverridden) {
+    additionalMessages += `\n\n⚠️ EXCEPTIONAL MERGE: Approval requirement overridden via --override-approval-requirement`;
+    if (options.overrideReason !== null) {
+      additionalMessages += `\nReason: ${options.overrideReason}`;
+    }
+  }
+
+  const title = options.commitTitle ?? prData.title;
+
+  if (method === 'merge') {
+    return {
+      title: `Merge pull request #${prNumber} from ${prData.headRef}`,
+      body: [title, options.commitMessage, additionalMessages].filter((part) => part !== null).join('\n\n'),
+    };
+  }
+
+  const commitTitles = commits
+    .map((c) => {
+      // Extract first line of commit message (commit title)
+      const message = c.commit.message || '';
+      const firstLine = message.split('\n')[0];
+      return firstLine ? `* ${firstLine}` : '';
+    })
+    .filter((title) => title !== ''); // Filter out empty entries
+
+  // Collect unique co-authors from commits in order
+  // Use array to preserve commit order (older ancestor -> recent ancestor)
+  const coAuthors: string[] = [];
+  commits.forEach((c) => {
+    const author = c.commit.author;
+    if (author?.name && author?.email) {
+      const authorLine = `Co-authored-by: ${author.name} <${author.email}>`;
+      if (!coAuthors.includes(authorLine)) {
+        coAuthors.push(authorLine);
+      }
+    }
+  });
+
+  // Build commit body with commit titles, co-authors, and additional messages
+  const bodyParts: string[] = [];
+
+  if (commitTitles.length > 0) {
+    bodyParts.push(commitTitles.join('\n'));
+  }
+
+  if (options.commitMessage !== null) {
+    bodyParts.push(options.commitMessage);
+  }
+
+  if (coAuthors.length > 0) {
+    bodyParts.push(coAuthors.join('\n'));
+  }
+
+  bodyParts.push(additionalMessages);
+
+  return {
+    title: `${title} (#${prNumber})`,
+    body: bodyParts.join('\n\n'),
   };
 }
 
@@ -164,9 +786,11 @@ export function determineMergeMethod(headRef: string, baseRef: string, config: A
  * Validates the PR state for merging.
  *
  * @param prData - Pull request data from GitHub API
+ * @param config - Configuration options (language of the check names)
  * @returns Array of check results
  */
-export function validatePRState(prData: PullRequestData): CheckResult[] {
+export function validatePRState(prData: PullRequestData, config: ActionConfig): CheckResult[] {
+  const { language } = config;
   const checks: CheckResult[] = [];
 
   // Consolidated check: PR is ready for review (combines open, unlocked, and not draft checks)
@@ -178,19 +802,19 @@ export function validatePRState(prData: PullRequestData): CheckResult[] {
   // Collect failure reasons
   const failureReasons: string[] = [];
   if (!isOpen) {
-    failureReasons.push('currently closed');
+    failureReasons.push(formatMessage(language, 'checks.prClosed'));
   }
   if (!isUnlocked) {
-    failureReasons.push('currently locked');
+    failureReasons.push(formatMessage(language, 'checks.prLocked'));
   }
   if (!isNotDraft) {
-    failureReasons.push('currently a draft');
+    failureReasons.push(formatMessage(language, 'checks.prDraft'));
   }
 
   checks.push({
-    name: 'PR is ready for review',
+    name: formatMessage(language, 'checks.prReady'),
     passed: allPassed,
-    ...(failureReasons.length > 0 && { details: failureReasons.join(', ') }),
+    ...(failureReasons.length > 0 && { details: failureReasons.join(formatMessage(language, 'common.listSeparator')) }),
   });
 
   return checks;
@@ -207,20 +831,22 @@ export function validatePRState(prData: PullRequestData): CheckResult[] {
  * default meaning for some states.
  *
  * @param state - The mergeable_state from GitHub API
+ * @param config - Configuration options (command prefix for the suggested command and language)
  * @returns Human-readable description
  */
-export function getMergeableStateDescription(state: string): string {
+export function getMergeableStateDescription(state: string, config: ActionConfig): string {
+  const { language } = config;
   const descriptions: Record<string, string> = {
-    dirty: 'has unresolved conflicts',
-    unknown: 'mergeability not yet computed; please retry',
-    blocked: 'failing or missing required status checks',
-    behind: 'head branch is behind base branch',
-    unstable: 'optional status checks pending or failing',
-    has_hooks: 'repository has custom pre-receive hooks',
-    clean: 'ready to merge',
-    draft: 'draft PR; not ready for review',
+    dirty: formatMessage(language, 'mergeableState.dirty'),
+    unknown: formatMessage(language, 'mergeableState.unknown'),
+    blocked: formatMessage(language, 'mergeableState.blocked'),
+    behind: formatMessage(language, 'mergeableState.behind', { command: `${config.commandPrefix} update-branch` }),
+    unstable: formatMessage(language, 'mergeableState.unstable'),
+    has_hooks: formatMessage(language, 'mergeableState.has_hooks'),
+    clean: formatMessage(language, 'mergeableState.clean'),
+    draft: formatMessage(language, 'mergeableState.draft'),
   };
-  return descriptions[state] ?? `mergeable_state: ${state}`;
+  return descriptions[state] ?? formatMessage(language, 'mergeableState.other', { state });
 }
 
 /**
@@ -249,3 +875,23 @@ export function buildCheckResultsMarkdown(checks: CheckResult[]): string {
 export function waitBeforeRetryMs(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
+
+/**
+ * Picks the most significant result when one event processed several PRs.
+ * A single result is returned as is; otherwise a merge wins over a failure,
+ * and a summary is returned when every PR was skipped.
+ *
+ * @param results - Results of the processed PRs
+ * @param skippedMessage - Message used when no PR was merged and none failed
+ * @returns The result to report for the event
+ */
+export function pickSignificantResult(results: ActionResult[], skippedMessage: string): ActionResult {
+  const [onlyResult] = results;
+  if (results.length === 1 && onlyResult) {
+    return onlyResult;
+  }
+  return (
+    results.find((r) => r.status === 'merged') ??
+    results.find((r) => r.status === 'failed') ?? { status: 'skipped', message: skippedMessage }
+  );
+}